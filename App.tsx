@@ -5,7 +5,9 @@ import {
   AuthProvider,
   ServicesProvider, 
   ProductsProvider,
+  ProfessionalsProvider,
   AppointmentsProvider, 
+  LoyaltyProvider,
   TransactionsProvider,
   FinalizeAppointmentProvider,
   NewAppointmentProvider,
@@ -18,10 +20,15 @@ import {
   useEditTransaction,
   EditTransactionProvider,
   SystemSettingsProvider,
+  OfflineSyncProvider,
+  BusinessHoursProvider,
+  PaymentFeesProvider,
   CreditSalesProvider,
   ClientsProvider,
   ExpensesProvider,
-  ExpenseCategoriesProvider
+  ExpenseCategoriesProvider,
+  CommissionsProvider,
+  CashRegisterProvider
 } from './contexts.tsx';
 import { Layout } from './components/Layout.tsx';
 import { PageTransitionWrapper } from './components/PageTransitionWrapper.tsx';
@@ -33,7 +40,14 @@ import { ReportsPage } from './components/Reports.tsx';
 import { SettingsMainPage } from './components/SettingsMain.tsx';
 import { SettingsServicesPage } from './components/SettingsServices.tsx';
 import { SettingsProductsPage } from './components/SettingsProducts.tsx';
+import { SettingsStockPage } from './components/SettingsStock.tsx';
 import { SettingsExpenseCategoriesPage } from './components/SettingsExpenseCategories.tsx';
+import { SettingsBusinessHoursPage } from './components/SettingsBusinessHours.tsx';
+import { SettingsProfessionalsPage } from './components/SettingsProfessionals.tsx';
+import { SettingsCommissionsPage } from './components/SettingsCommissions.tsx';
+import { SettingsPaymentFeesPage } from './components/SettingsPaymentFees.tsx';
+import { SettingsLoyaltyPage } from './components/SettingsLoyalty.tsx';
+import { SettingsBirthdaysPage } from './components/SettingsBirthdays.tsx';
 import { ProtectedRoute } from './components/ProtectedRoute.tsx';
 import { FinalizeAppointmentPage } from './components/FinalizeAppointmentPage.tsx';
 import { NewAppointmentPage } from './components/NewAppointmentPage.tsx';
@@ -49,14 +63,18 @@ import { SalesListPage } from './components/SalesList.tsx';
 import { CreditSaleDetailPage } from './components/CreditSaleDetailPage.tsx';
 import { ClientsPage } from './components/ClientsPage.tsx';
 import { NewClientPage } from './components/NewClientPage.tsx';
+import { ClientImportPage } from './components/ClientImportPage.tsx';
 import { EditClientPage } from './components/EditClientPage.tsx';
 import { ClientDetailPage } from './components/ClientDetailPage.tsx';
+import { ClientStatementPage } from './components/ClientStatementPage.tsx';
 import { FinancialPage } from './components/FinancialPage.tsx';
 import { NewExpensePage } from './components/NewExpensePage.tsx';
 import { EditExpensePage } from './components/EditExpensePage.tsx';
 import { FinancialRevenuesPage } from './components/FinancialRevenuesPage.tsx';
 import { FinancialExpensesPage } from './components/FinancialExpensesPage.tsx';
 import { FinancialBalancePage } from './components/FinancialBalancePage.tsx';
+import { FinancialPayoutsPage } from './components/FinancialPayoutsPage.tsx';
+import { CashRegisterPage } from './components/CashRegisterPage.tsx';
 import { Appointment } from './types.ts';
 
 // Wrapper for new appointment page
@@ -142,6 +160,7 @@ const EditTransactionWrapper: React.FC = () => {
     date: transaction.date,
     time: '00:00:00',
     status: 'Confirmed' as any,
+    professionalId: transaction.professionalId,
     created_at: '',
   };
 
@@ -161,15 +180,22 @@ const App: React.FC = () => {
   return (
     <ThemeProvider>
       <AuthProvider>
+        <OfflineSyncProvider>
         <SystemSettingsProvider>
+          <BusinessHoursProvider>
+          <PaymentFeesProvider>
           <ServicesProvider>
             <ProductsProvider>
+              <ProfessionalsProvider>
               <AppointmentsProvider>
+              <LoyaltyProvider>
               <TransactionsProvider>
                 <CreditSalesProvider>
                   <ClientsProvider>
                     <ExpensesProvider>
                       <ExpenseCategoriesProvider>
+                      <CommissionsProvider>
+                      <CashRegisterProvider>
                     <FinalizeAppointmentProvider>
                       <NewAppointmentProvider>
                         <EditAppointmentProvider>
@@ -192,7 +218,14 @@ const App: React.FC = () => {
                               <Route path="settings" element={<SettingsMainPage />} />
                               <Route path="settings/services" element={<SettingsServicesPage />} />
                               <Route path="settings/products" element={<SettingsProductsPage />} />
+                              <Route path="settings/stock" element={<SettingsStockPage />} />
                               <Route path="settings/expense-categories" element={<SettingsExpenseCategoriesPage />} />
+                              <Route path="settings/business-hours" element={<SettingsBusinessHoursPage />} />
+                              <Route path="settings/professionals" element={<SettingsProfessionalsPage />} />
+                              <Route path="settings/commissions" element={<SettingsCommissionsPage />} />
+                              <Route path="settings/payment-fees" element={<SettingsPaymentFeesPage />} />
+                              <Route path="settings/loyalty" element={<SettingsLoyaltyPage />} />
+                              <Route path="settings/birthdays" element={<SettingsBirthdaysPage />} />
                               <Route path="sales" element={<SalesListPage />} />
                               <Route path="sales/new" element={<SalesPage />} />
                               <Route path="sales/edit" element={
@@ -242,14 +275,18 @@ const App: React.FC = () => {
                               {/* Clientes */}
                               <Route path="clients" element={<ClientsPage />} />
                               <Route path="clients/new" element={<NewClientPage />} />
+                              <Route path="clients/import" element={<ClientImportPage />} />
                               <Route path="clients/edit/:id" element={<EditClientPage />} />
                               <Route path="clients/:id" element={<ClientDetailPage />} />
+                              <Route path="clients/:id/statement" element={<ClientStatementPage />} />
                               <Route path="financial" element={<FinancialPage />} />
                               <Route path="financial/expenses/new" element={<NewExpensePage />} />
                               <Route path="financial/expenses/edit/:id" element={<EditExpensePage />} />
                               <Route path="financial/revenues" element={<FinancialRevenuesPage />} />
                               <Route path="financial/expenses-list" element={<FinancialExpensesPage />} />
                               <Route path="financial/balance" element={<FinancialBalancePage />} />
+                              <Route path="financial/payouts" element={<FinancialPayoutsPage />} />
+                              <Route path="financial/cash-register" element={<CashRegisterPage />} />
                               <Route path="finalized-services" element={<FinalizedServicesPage />} />
                             </Route>
                             <Route path="*" element={<Navigate to="/" />} />
@@ -260,15 +297,22 @@ const App: React.FC = () => {
                         </EditAppointmentProvider>
                       </NewAppointmentProvider>
                     </FinalizeAppointmentProvider>
+                      </CashRegisterProvider>
+                      </CommissionsProvider>
                       </ExpenseCategoriesProvider>
                     </ExpensesProvider>
                   </ClientsProvider>
                   </CreditSalesProvider>
                 </TransactionsProvider>
+              </LoyaltyProvider>
               </AppointmentsProvider>
+              </ProfessionalsProvider>
             </ProductsProvider>
           </ServicesProvider>
+          </PaymentFeesProvider>
+          </BusinessHoursProvider>
         </SystemSettingsProvider>
+        </OfflineSyncProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -1,7 +1,7 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Appointment, AppointmentStatus } from '../types.ts';
-import { useAppointments, useTransactions, useFinalizeAppointment, useEditAppointment } from '../contexts.tsx';
+import { useAppointments, useTransactions, useFinalizeAppointment, useEditAppointment, useProfessionals } from '../contexts.tsx';
 import html2canvas from 'html2canvas';
 import { AppointmentReceipt } from './AppointmentReceipt.tsx';
 
@@ -23,27 +23,11 @@ const getStatusColor = (status: AppointmentStatus): { bg: string; text: string;
     }
 };
 
-const extractClientInfo = (clientName: string): { name: string; whatsapp: string | null } => {
-    let name = clientName;
-    let whatsapp: string | null = null;
-    
-    if (clientName.includes('|')) {
-        [name, whatsapp] = clientName.split('|');
-    } else if (clientName.includes('(')) {
-        const match = clientName.match(/^(.+?)\s*\((.+?)\)$/);
-        if (match) {
-            name = match[1].trim();
-            whatsapp = match[2].trim();
-        }
-    }
-    
-    return { name, whatsapp };
-};
-
 export const AppointmentDetailPage: React.FC<AppointmentDetailPageProps> = ({ appointment: initialAppointment }) => {
     const navigate = useNavigate();
     const { deleteAppointment, addAppointment, appointments, updateAppointmentStatus } = useAppointments();
     const { addTransaction } = useTransactions();
+    const { professionals } = useProfessionals();
     const { setFinalizeData } = useFinalizeAppointment();
     const { setEditAppointmentData } = useEditAppointment();
     const [isDeleting, setIsDeleting] = React.useState(false);
@@ -70,8 +54,10 @@ export const AppointmentDetailPage: React.FC<AppointmentDetailPageProps> = ({ ap
         }
     }, [appointments, initialAppointment.id, initialAppointment.clientName, initialAppointment.date, initialAppointment.time]);
 
-    const { name, whatsapp } = extractClientInfo(currentAppointment.clientName);
+    const name = currentAppointment.clientName;
+    const whatsapp = currentAppointment.clientWhatsapp || null;
     const statusInfo = getStatusColor(currentAppointment.status);
+    const professional = professionals.find(p => p.id === currentAppointment.professionalId);
     const timelineSteps = [
         { label: 'Confirmado', description: 'Agendamento criado e confirmado', done: true },
         { label: 'Cliente chegou', description: 'Cliente registrado na recepção', done: currentAppointment.status !== AppointmentStatus.Confirmed },
@@ -93,10 +79,9 @@ export const AppointmentDetailPage: React.FC<AppointmentDetailPageProps> = ({ ap
 
     const handleEdit = () => {
         const handleSaveEditedAppointment = async (appointmentData: Omit<Appointment, 'id' | 'status' | 'created_at'>) => {
-            await Promise.all([
-                deleteAppointment(currentAppointment.id),
-                addAppointment(appointmentData)
-            ]);
+            // Criar o novo antes de remover o antigo, para não perder o agendamento se houver conflito
+            await addAppointment(appointmentData, { ignoreAppointmentId: currentAppointment.id });
+            await deleteAppointment(currentAppointment.id);
         };
         
         setEditAppointmentData(currentAppointment, handleSaveEditedAppointment);
@@ -413,6 +398,22 @@ export const AppointmentDetailPage: React.FC<AppointmentDetailPageProps> = ({ ap
                             <p className="text-[9px] text-gray-500 dark:text-gray-400">Horário marcado</p>
                         </div>
                     </div>
+
+                    {/* Professional */}
+                    {professional && (
+                        <div className="col-span-2 card-hover bg-gradient-to-br from-white to-gray-50 dark:from-gray-900/50 dark:to-gray-900/30 rounded-lg border border-gray-200 dark:border-gray-800 p-2.5 sm:p-3 shadow-sm relative overflow-hidden">
+                            <div className="absolute top-0 right-0 w-12 h-12 bg-primary/5 rounded-full blur-2xl"></div>
+                            <div className="relative">
+                                <div className="flex items-center gap-1.5 mb-1.5">
+                                    <div className="p-1 bg-primary/10 dark:bg-primary/20 rounded-md">
+                                        <Icon name="badge" className="text-primary text-sm" />
+                                    </div>
+                                    <p className="text-[9px] font-bold text-primary uppercase tracking-wider">Profissional</p>
+                                </div>
+                                <p className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white mb-0.5">{professional.name}</p>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Status Timeline */}
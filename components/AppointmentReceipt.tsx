@@ -47,7 +47,7 @@ export const AppointmentReceipt: React.FC<AppointmentReceiptProps> = ({ appointm
                 {/* Client Name */}
                 <div className="space-y-0.5">
                     <p className="text-xs text-gray-500 uppercase tracking-widest font-semibold">Cliente</p>
-                    <p className="text-lg font-black text-gray-900">{appointment.clientName.split('|')[0]}</p>
+                    <p className="text-lg font-black text-gray-900">{appointment.clientName}</p>
                 </div>
 
                 {/* Service */}
@@ -31,7 +31,7 @@ export const AppointmentReceiptModal: React.FC<AppointmentReceiptModalProps> = (
                 logging: false,
             });
 
-            const clientNameOnly = appointment.clientName.split('|')[0];
+            const clientNameOnly = appointment.clientName;
 
             canvas.toBlob(async (blob) => {
                 if (!blob) {
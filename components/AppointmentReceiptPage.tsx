@@ -51,7 +51,7 @@ export const AppointmentReceiptPage: React.FC = () => {
             });
 
             // Get client info
-            const clientNameOnly = appointment.clientName.split('|')[0];
+            const clientNameOnly = appointment.clientName;
 
             // Convert canvas to blob directly
             canvas.toBlob(async (blob) => {
@@ -130,11 +130,10 @@ export const AppointmentReceiptPage: React.FC = () => {
         return `${hours}:${minutes} da ${period}`;
     };
 
-    const clientNameOnly = appointment.clientName.split('|')[0];
+    const clientNameOnly = appointment.clientName;
 
     const handleSendWhatsApp = () => {
-        // Extract WhatsApp number from clientName format: "Name|PhoneNumber"
-        let whatsappNumber = appointment.clientName.split('|')[1] || '';
+        let whatsappNumber = appointment.clientWhatsapp || '';
         
         if (!whatsappNumber) {
             alert('Número de WhatsApp não disponível');
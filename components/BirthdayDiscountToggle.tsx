@@ -0,0 +1,33 @@
+import React from 'react';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+    <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+interface BirthdayDiscountToggleProps {
+    percentage: number;
+    discount: number; // Valor do desconto de aniversário neste atendimento
+    applied: boolean;
+    onAppliedChange: (applied: boolean) => void;
+}
+
+// Desconto automático do mês do aniversário no caixa (pode ser retirado)
+export const BirthdayDiscountToggle: React.FC<BirthdayDiscountToggleProps> = ({ percentage, discount, applied, onAppliedChange }) => (
+    <div className="rounded-lg border border-primary/30 bg-primary/5 p-3 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+            <Icon name="cake" className="text-primary text-lg" />
+            <div className="min-w-0">
+                <p className="text-xs font-semibold text-gray-900 dark:text-white">Aniversariante do mês</p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {String(percentage).replace('.', ',')}% de desconto{applied ? `: - R$ ${discount.toFixed(2).replace('.', ',')}` : ' (retirado)'}
+                </p>
+            </div>
+        </div>
+        <button
+            type="button"
+            onClick={() => onAppliedChange(!applied)}
+            className="text-xs font-semibold text-primary hover:text-primary/80 transition-colors whitespace-nowrap"
+        >
+            {applied ? 'Retirar' : 'Aplicar'}
+        </button>
+    </div>
+);
@@ -0,0 +1,468 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCashRegister, useTransactions } from '../contexts.tsx';
+import { CashMovementType, CashSession } from '../types.ts';
+import { buildCashSessionSummary, CashSessionSummary } from '../services/cashRegisterService.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+    <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+// Format currency
+const formatCurrency = (value: number): string => {
+    return `R$ ${value.toFixed(2).replace('.', ',')}`;
+};
+
+// Format date and time (ISO)
+const formatDateTime = (isoString: string): string => {
+    return new Date(isoString).toLocaleString('pt-BR', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+};
+
+const parseAmount = (value: string): number => parseFloat(value.replace(/\./g, '').replace(',', '.'));
+
+const MOVEMENT_LABELS: Record<CashMovementType, string> = {
+    withdrawal: 'Sangria',
+    deposit: 'Suprimento',
+};
+
+// Falta em vermelho, sobra em laranja, caixa batendo em verde
+const getDifferenceClassName = (difference: number): string => {
+    if (Math.abs(difference) < 0.005) return 'text-green-600 dark:text-green-400';
+    return difference < 0 ? 'text-red-600 dark:text-red-400' : 'text-orange-600 dark:text-orange-400';
+};
+
+const getDifferenceLabel = (difference: number): string => {
+    if (Math.abs(difference) < 0.005) return 'Caixa conferido';
+    return difference < 0 ? 'Falta no caixa' : 'Sobra no caixa';
+};
+
+const SummaryRows: React.FC<{ summary: CashSessionSummary }> = ({ summary }) => (
+    <div className="space-y-1.5 text-sm">
+        {[
+            { label: 'Fundo de troco', value: summary.openingAmount, sign: '' },
+            { label: 'Vendas em dinheiro', value: summary.cashSales, sign: '+' },
+            { label: 'Suprimentos', value: summary.deposits, sign: '+' },
+            { label: 'Sangrias', value: summary.withdrawals, sign: '-' },
+        ].map(row => (
+            <div key={row.label} className="flex items-center justify-between">
+                <span className="text-zinc-600 dark:text-zinc-400">{row.label}</span>
+                <span className="font-semibold text-zinc-900 dark:text-white">{row.sign} {formatCurrency(row.value)}</span>
+            </div>
+        ))}
+        <div className="flex items-center justify-between border-t border-zinc-200 dark:border-zinc-800 pt-1.5">
+            <span className="font-semibold text-zinc-900 dark:text-white">Esperado em dinheiro</span>
+            <span className="font-black text-zinc-900 dark:text-white">{formatCurrency(summary.expectedAmount)}</span>
+        </div>
+        {summary.countedAmount !== undefined && summary.difference !== undefined && (
+            <>
+                <div className="flex items-center justify-between">
+                    <span className="text-zinc-600 dark:text-zinc-400">Contado</span>
+                    <span className="font-semibold text-zinc-900 dark:text-white">{formatCurrency(summary.countedAmount)}</span>
+                </div>
+                <div className={`flex items-center justify-between font-bold ${getDifferenceClassName(summary.difference)}`}>
+                    <span>{getDifferenceLabel(summary.difference)}</span>
+                    <span>{summary.difference > 0 ? '+' : ''}{formatCurrency(summary.difference)}</span>
+                </div>
+            </>
+        )}
+    </div>
+);
+
+export const CashRegisterPage: React.FC = () => {
+    const navigate = useNavigate();
+    const { transactions, fetchTransactions } = useTransactions();
+    const { sessions, currentSession, fetchSessions, openSession, addCashMovement, deleteCashMovement, closeSession } = useCashRegister();
+
+    const [openingAmount, setOpeningAmount] = useState('');
+    const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+    const [movementAmount, setMovementAmount] = useState('');
+    const [movementDescription, setMovementDescription] = useState('');
+    const [countedAmount, setCountedAmount] = useState('');
+    const [closingNotes, setClosingNotes] = useState('');
+    const [expandedSessionId, setExpandedSessionId] = useState<number | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        fetchTransactions();
+        fetchSessions();
+    }, [fetchTransactions, fetchSessions]);
+
+    const parsedCounted = parseAmount(countedAmount);
+    const currentSummary = useMemo(() => currentSession
+        ? buildCashSessionSummary(currentSession, transactions, isNaN(parsedCounted) ? undefined : parsedCounted)
+        : null, [currentSession, transactions, parsedCounted]);
+
+    const closedSessions = useMemo(() => sessions.filter(s => !!s.closedAt), [sessions]);
+
+    const handleOpenSession = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = openingAmount.trim() ? parseAmount(openingAmount) : 0;
+        if (isNaN(amount) || amount < 0) {
+            alert('Informe um valor válido para o fundo de troco.');
+            return;
+        }
+
+        try {
+            setIsSubmitting(true);
+            await openSession(amount);
+            setOpeningAmount('');
+        } catch (error: any) {
+            console.error('Error opening cash session:', error);
+            alert(`Erro ao abrir o caixa: ${error.message || 'Erro desconhecido.'}`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleAddMovement = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!currentSession || !movementType) return;
+
+        const amount = parseAmount(movementAmount);
+        if (isNaN(amount) || amount <= 0) {
+            alert('Informe um valor maior que zero.');
+            return;
+        }
+
+        try {
+            setIsSubmitting(true);
+            await addCashMovement(currentSession.id, movementType, amount, movementDescription.trim() || undefined);
+            setMovementType(null);
+            setMovementAmount('');
+            setMovementDescription('');
+        } catch (error: any) {
+            console.error('Error adding cash movement:', error);
+            alert(`Erro ao registrar ${MOVEMENT_LABELS[movementType].toLowerCase()}: ${error.message || 'Erro desconhecido.'}`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDeleteMovement = async (session: CashSession, movementId: number) => {
+        const movement = session.movements.find(m => m.id === movementId);
+        if (!movement || !confirm(`Excluir esta ${MOVEMENT_LABELS[movement.type].toLowerCase()}?`)) {
+            return;
+        }
+
+        try {
+            await deleteCashMovement(movement);
+        } catch (error: any) {
+            console.error('Error deleting cash movement:', error);
+            alert(`Erro ao excluir movimentação: ${error.message || 'Erro desconhecido.'}`);
+        }
+    };
+
+    const handleCloseSession = async () => {
+        if (!currentSession || !currentSummary) return;
+        if (isNaN(parsedCounted) || parsedCounted < 0) {
+            alert('Informe o valor contado em dinheiro.');
+            return;
+        }
+
+        const difference = currentSummary.difference ?? 0;
+        const message = Math.abs(difference) < 0.005
+            ? 'Fechar o caixa? O valor contado confere com o esperado.'
+            : `Fechar o caixa com ${difference < 0 ? 'falta' : 'sobra'} de ${formatCurrency(Math.abs(difference))}?`;
+        if (!confirm(message)) {
+            return;
+        }
+
+        try {
+            setIsSubmitting(true);
+            await closeSession(currentSession.id, {
+                cashSalesAmount: currentSummary.cashSales,
+                expectedAmount: currentSummary.expectedAmount,
+                countedAmount: parsedCounted,
+                notes: closingNotes.trim() || undefined,
+            });
+            setCountedAmount('');
+            setClosingNotes('');
+        } catch (error: any) {
+            console.error('Error closing cash session:', error);
+            alert(`Erro ao fechar o caixa: ${error.message || 'Erro desconhecido.'}`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const inputClassName = 'w-full h-10 px-3 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-gray-800 text-zinc-900 dark:text-white text-sm';
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-background-light to-gray-50 dark:from-background-dark dark:to-gray-900 flex flex-col">
+            {/* Header */}
+            <header className="sticky top-0 z-40 bg-white dark:bg-gray-900/95 border-b border-gray-200 dark:border-gray-800 backdrop-blur-sm">
+                <div className="max-w-4xl mx-auto px-3 sm:px-6 py-2 sm:py-3">
+                    <div className="flex items-start gap-2 sm:gap-4">
+                        <button
+                            type="button"
+                            onClick={() => navigate('/financial')}
+                            className="flex items-center gap-1 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors text-xs sm:text-sm shrink-0 mt-0.5"
+                        >
+                            <Icon name="arrow_back" className="text-lg" />
+                            <span className="font-medium hidden sm:inline">Voltar</span>
+                        </button>
+
+                        <div className="text-center flex-1">
+                            <h1 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white leading-tight">
+                                Caixa
+                            </h1>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">Abertura, sangrias, suprimentos e fechamento</p>
+                        </div>
+                        <div className="w-10 shrink-0" />
+                    </div>
+                </div>
+            </header>
+
+            {/* Main Content */}
+            <main className="flex-1 max-w-4xl w-full mx-auto px-4 sm:px-6 py-6 space-y-6">
+                {!currentSession ? (
+                    /* Open Register */
+                    <form onSubmit={handleOpenSession} className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15] p-4 space-y-3">
+                        <div className="flex items-center gap-2">
+                            <Icon name="lock" className="text-zinc-500" />
+                            <h2 className="text-lg font-bold text-zinc-900 dark:text-white">Caixa fechado</h2>
+                        </div>
+                        <label className="block">
+                            <span className="block text-xs font-semibold text-zinc-600 dark:text-zinc-400 mb-1">Fundo de troco (R$)</span>
+                            <input
+                                type="text"
+                                inputMode="decimal"
+                                value={openingAmount}
+                                onChange={(e) => setOpeningAmount(e.target.value)}
+                                placeholder="0,00"
+                                className={inputClassName}
+                            />
+                        </label>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="w-full flex items-center justify-center gap-2 h-10 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors font-semibold text-sm disabled:opacity-50"
+                        >
+                            <Icon name="lock_open" />
+                            Abrir caixa
+                        </button>
+                    </form>
+                ) : currentSummary && (
+                    /* Current Session */
+                    <div className="rounded-xl border border-green-200 dark:border-green-800 bg-white dark:bg-[#2a1a15]">
+                        <div className="p-4 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between gap-3">
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
+                                    <h2 className="text-lg font-bold text-zinc-900 dark:text-white">Caixa aberto</h2>
+                                </div>
+                                <p className="text-xs text-zinc-500 dark:text-zinc-400">Desde {formatDateTime(currentSession.openedAt)}</p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => setMovementType('withdrawal')}
+                                    className="flex items-center gap-1 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm font-semibold hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                                >
+                                    <Icon name="remove" className="text-base" />
+                                    Sangria
+                                </button>
+                                <button
+                                    onClick={() => setMovementType('deposit')}
+                                    className="flex items-center gap-1 px-3 py-2 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 text-sm font-semibold hover:bg-green-100 dark:hover:bg-green-900/30 transition-colors"
+                                >
+                                    <Icon name="add" className="text-base" />
+                                    Suprimento
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="p-4 space-y-4">
+                            <SummaryRows summary={currentSummary} />
+
+                            {currentSession.movements.length > 0 && (
+                                <div>
+                                    <p className="text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-wide mb-2">Movimentações</p>
+                                    <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                                        {currentSession.movements.map(movement => (
+                                            <div key={movement.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                                                <div className="min-w-0">
+                                                    <p className="font-semibold text-zinc-900 dark:text-white">{MOVEMENT_LABELS[movement.type]}</p>
+                                                    <p className="text-xs text-zinc-500 dark:text-zinc-400 truncate">
+                                                        {formatDateTime(movement.created_at)}{movement.description && ` • ${movement.description}`}
+                                                    </p>
+                                                </div>
+                                                <div className="flex items-center gap-2">
+                                                    <span className={`font-bold ${movement.type === 'deposit' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                                        {movement.type === 'deposit' ? '+' : '-'}{formatCurrency(movement.amount)}
+                                                    </span>
+                                                    <button
+                                                        onClick={() => handleDeleteMovement(currentSession, movement.id)}
+                                                        className="p-1.5 text-zinc-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                                        title="Excluir"
+                                                    >
+                                                        <Icon name="delete" className="text-base" />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Closing */}
+                            <div className="rounded-lg bg-zinc-50 dark:bg-zinc-900/40 p-3 space-y-3">
+                                <p className="text-sm font-bold text-zinc-900 dark:text-white">Fechamento</p>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                    <label className="block">
+                                        <span className="block text-xs font-semibold text-zinc-600 dark:text-zinc-400 mb-1">Dinheiro contado (R$)</span>
+                                        <input
+                                            type="text"
+                                            inputMode="decimal"
+                                            value={countedAmount}
+                                            onChange={(e) => setCountedAmount(e.target.value)}
+                                            placeholder="0,00"
+                                            className={inputClassName}
+                                        />
+                                    </label>
+                                    <label className="block">
+                                        <span className="block text-xs font-semibold text-zinc-600 dark:text-zinc-400 mb-1">Observação</span>
+                                        <input
+                                            type="text"
+                                            value={closingNotes}
+                                            onChange={(e) => setClosingNotes(e.target.value)}
+                                            maxLength={200}
+                                            className={inputClassName}
+                                        />
+                                    </label>
+                                </div>
+                                <button
+                                    onClick={handleCloseSession}
+                                    disabled={isSubmitting || !countedAmount.trim()}
+                                    className="w-full flex items-center justify-center gap-2 h-10 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 rounded-lg transition-colors font-semibold text-sm disabled:opacity-50"
+                                >
+                                    <Icon name="lock" />
+                                    Fechar caixa
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Past Sessions */}
+                <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15]">
+                    <div className="p-4 border-b border-zinc-200 dark:border-zinc-800">
+                        <h2 className="text-lg font-bold text-zinc-900 dark:text-white">Caixas anteriores</h2>
+                    </div>
+                    <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                        {closedSessions.length === 0 ? (
+                            <div className="p-8 text-center">
+                                <Icon name="point_of_sale" className="text-5xl text-zinc-300 dark:text-zinc-700 mb-2" />
+                                <p className="text-zinc-500 dark:text-zinc-400">Nenhum caixa fechado</p>
+                            </div>
+                        ) : (
+                            closedSessions.map(session => {
+                                const summary = buildCashSessionSummary(session, transactions);
+                                const isExpanded = expandedSessionId === session.id;
+                                return (
+                                    <div key={session.id}>
+                                        <button
+                                            onClick={() => setExpandedSessionId(isExpanded ? null : session.id)}
+                                            className="w-full p-4 flex items-center justify-between gap-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900/30 transition-colors"
+                                        >
+                                            <div className="min-w-0">
+                                                <p className="font-semibold text-zinc-900 dark:text-white">{formatDateTime(session.openedAt)}</p>
+                                                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                                    Fechado em {formatDateTime(session.closedAt!)}
+                                                </p>
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                {summary.difference !== undefined && (
+                                                    <span className={`text-sm font-bold ${getDifferenceClassName(summary.difference)}`}>
+                                                        {Math.abs(summary.difference) < 0.005 ? 'OK' : `${summary.difference > 0 ? '+' : ''}${formatCurrency(summary.difference)}`}
+                                                    </span>
+                                                )}
+                                                <Icon name={isExpanded ? 'expand_less' : 'expand_more'} className="text-zinc-500" />
+                                            </div>
+                                        </button>
+                                        {isExpanded && (
+                                            <div className="px-4 pb-4 space-y-3">
+                                                <SummaryRows summary={summary} />
+                                                {session.movements.length > 0 && (
+                                                    <div className="text-xs text-zinc-600 dark:text-zinc-400 space-y-1">
+                                                        {session.movements.map(movement => (
+                                                            <p key={movement.id}>
+                                                                {MOVEMENT_LABELS[movement.type]} de {formatCurrency(movement.amount)}
+                                                                {movement.description && ` • ${movement.description}`}
+                                                            </p>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                                {session.notes && (
+                                                    <p className="text-xs text-zinc-600 dark:text-zinc-400 italic">{session.notes}</p>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })
+                        )}
+                    </div>
+                </div>
+            </main>
+
+            {/* Movement Modal */}
+            {movementType && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setMovementType(null)}>
+                    <form
+                        onSubmit={handleAddMovement}
+                        onClick={(e) => e.stopPropagation()}
+                        className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-sm w-full p-6 space-y-4 border border-gray-200 dark:border-gray-800"
+                    >
+                        <h3 className="text-lg font-bold text-zinc-900 dark:text-white">{MOVEMENT_LABELS[movementType]}</h3>
+                        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                            {movementType === 'withdrawal' ? 'Dinheiro retirado do caixa (ex: depósito no banco, pagamento em espécie).' : 'Dinheiro colocado no caixa (ex: reforço de troco).'}
+                        </p>
+                        <label className="block">
+                            <span className="block text-xs font-semibold text-zinc-600 dark:text-zinc-400 mb-1">Valor (R$)</span>
+                            <input
+                                autoFocus
+                                type="text"
+                                inputMode="decimal"
+                                value={movementAmount}
+                                onChange={(e) => setMovementAmount(e.target.value)}
+                                placeholder="0,00"
+                                className={inputClassName}
+                            />
+                        </label>
+                        <label className="block">
+                            <span className="block text-xs font-semibold text-zinc-600 dark:text-zinc-400 mb-1">Descrição</span>
+                            <input
+                                type="text"
+                                value={movementDescription}
+                                onChange={(e) => setMovementDescription(e.target.value)}
+                                maxLength={100}
+                                className={inputClassName}
+                            />
+                        </label>
+                        <div className="flex gap-3">
+                            <button
+                                type="button"
+                                onClick={() => setMovementType(null)}
+                                className="flex-1 h-10 rounded-lg border border-zinc-300 dark:border-zinc-600 text-zinc-900 dark:text-white font-semibold text-sm"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className="flex-1 h-10 rounded-lg bg-primary text-white font-semibold text-sm disabled:opacity-50"
+                            >
+                                Registrar
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,8 +1,12 @@
 import React, { useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { useClients, useTransactions, useAppointments, useCreditSales } from '../contexts.tsx';
+import { useClients, useTransactions, useAppointments, useCreditSales, useLoyalty, useSystemSettings } from '../contexts.tsx';
 import { Toast, ToastType } from './Toast.tsx';
-import { AppointmentStatus, CreditSaleStatus } from '../types.ts';
+import { AppointmentStatus } from '../types.ts';
+import { isCreditSaleOpen } from '../services/creditSaleService.ts';
+import { isBirthdayMonth } from '../services/birthdayService.ts';
+import { getTodayLocalDate } from '../services/dateService.ts';
+import { LOYALTY_ENTRY_TYPE_LABELS, formatLoyaltyPoints, getAvailableRewards, isLoyaltyActive } from '../services/loyaltyService.ts';
 
 const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => 
     <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>;
@@ -14,6 +18,8 @@ export const ClientDetailPage: React.FC = () => {
     const { transactions } = useTransactions();
     const { appointments } = useAppointments();
     const { creditSales } = useCreditSales();
+    const { entries: loyaltyEntries } = useLoyalty();
+    const { settings } = useSystemSettings();
     const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
     const [showDeleteModal, setShowDeleteModal] = useState(false);
     
@@ -130,13 +136,24 @@ export const ClientDetailPage: React.FC = () => {
         );
     }, [clientAppointments]);
 
+    const hasCreditSales = !!client && creditSales.some(cs => cs.clientId === client.id);
+
     const outstandingCreditSales = useMemo(() => {
         if (!client) return [];
         return creditSales
-            .filter(cs => cs.clientId === client.id && cs.status !== CreditSaleStatus.Paid)
+            .filter(cs => cs.clientId === client.id && isCreditSaleOpen(cs.status))
             .sort((a, b) => (parseDate(b.date)?.getTime() || 0) - (parseDate(a.date)?.getTime() || 0));
     }, [client, creditSales]);
 
+    // Extrato de fidelidade (mais recentes primeiro, como vem do repositório)
+    const clientLoyaltyEntries = useMemo(() => {
+        if (!client) return [];
+        return loyaltyEntries.filter(entry => entry.clientId === client.id);
+    }, [client, loyaltyEntries]);
+
+    const loyaltyBalance = clientLoyaltyEntries.reduce((sum, entry) => sum + entry.points, 0);
+    const showLoyalty = isLoyaltyActive(settings) || clientLoyaltyEntries.length > 0;
+
     const averageTicket = serviceTransactions.length > 0
         ? totalSpent / serviceTransactions.length
         : 0;
@@ -306,6 +323,24 @@ export const ClientDetailPage: React.FC = () => {
                             </div>
                         )}
 
+                        {/* Data de nascimento */}
+                        {client.birthDate && (
+                            <div className="space-y-1.5 sm:space-y-2">
+                                <label className="text-xs sm:text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                                    Nascimento
+                                </label>
+                                <div className="flex items-center gap-2 sm:gap-3 p-2.5 sm:p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                                    <Icon name="cake" className="text-primary text-lg sm:text-xl flex-shrink-0" />
+                                    <span className="text-sm sm:text-base font-medium text-gray-900 dark:text-white">
+                                        {client.birthDate.split('-').reverse().join('/')}
+                                        {isBirthdayMonth(client.birthDate, getTodayLocalDate()) && (
+                                            <span className="ml-2 text-xs font-semibold text-primary">Aniversariante do mês 🎉</span>
+                                        )}
+                                    </span>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Observação */}
                         {client.observation && (
                             <div className="space-y-1.5 sm:space-y-2 md:col-span-2">
@@ -370,6 +405,51 @@ export const ClientDetailPage: React.FC = () => {
                     )}
                 </div>
 
+                {/* Fidelidade */}
+                {showLoyalty && (
+                    <div className="mt-4 sm:mt-6 bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm p-4 sm:p-6">
+                        <div className="flex items-center justify-between mb-4">
+                            <div>
+                                <h3 className="text-base font-semibold text-gray-900 dark:text-white">Fidelidade</h3>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">Saldo e extrato de {settings.loyaltyMode === 'stamps' ? 'selos' : 'pontos'}</p>
+                            </div>
+                            <Icon name="loyalty" className="text-primary text-2xl" />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 mb-4">
+                            <div className="rounded-lg bg-gray-50 dark:bg-gray-800/60 p-3 text-center">
+                                <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">Saldo</p>
+                                <p className="text-xl font-bold text-gray-900 dark:text-white">{formatLoyaltyPoints(loyaltyBalance, settings.loyaltyMode)}</p>
+                            </div>
+                            <div className="rounded-lg bg-gray-50 dark:bg-gray-800/60 p-3 text-center">
+                                <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">Recompensas</p>
+                                <p className="text-xl font-bold text-gray-900 dark:text-white">{getAvailableRewards(loyaltyBalance, settings)}</p>
+                                {isLoyaltyActive(settings) && (
+                                    <p className="text-[11px] text-gray-500 dark:text-gray-400">{formatCurrency(settings.loyaltyRewardDiscount)} cada</p>
+                                )}
+                            </div>
+                        </div>
+                        {clientLoyaltyEntries.length === 0 ? (
+                            <div className="border border-dashed border-gray-200 dark:border-gray-700 rounded-lg p-4 text-sm text-gray-500 dark:text-gray-400 text-center">
+                                Nenhum lançamento de fidelidade ainda.
+                            </div>
+                        ) : (
+                            <div className="space-y-2 max-h-72 overflow-y-auto pr-2 custom-scrollbar">
+                                {clientLoyaltyEntries.map(entry => (
+                                    <div key={entry.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-100 dark:border-gray-800">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">{entry.description || LOYALTY_ENTRY_TYPE_LABELS[entry.type]}</p>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">{LOYALTY_ENTRY_TYPE_LABELS[entry.type]} · {formatDateLabel(parseDate(entry.date))}</p>
+                                        </div>
+                                        <span className={`text-sm font-semibold whitespace-nowrap ${entry.points >= 0 ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                                            {entry.points > 0 ? '+' : ''}{formatLoyaltyPoints(entry.points, settings.loyaltyMode)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Histórico de Presença */}
                 <div className="mt-4 sm:mt-6 bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm p-4 sm:p-6">
                     <div className="flex items-center justify-between mb-4">
@@ -426,16 +506,30 @@ export const ClientDetailPage: React.FC = () => {
                 </div>
 
                 {/* Fiado */}
-                {outstandingCreditSales.length > 0 && (
+                {hasCreditSales && (
                     <div className="mt-4 sm:mt-6 bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm p-4 sm:p-6">
                         <div className="flex items-center justify-between mb-4">
                             <div>
                                 <h3 className="text-base font-semibold text-gray-900 dark:text-white">Fiado em aberto</h3>
                                 <p className="text-xs text-gray-500 dark:text-gray-400">Acompanhe as parcelas e valores pendentes</p>
+                                {client.creditLimit !== undefined && (
+                                    <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+                                        Limite: <span className="font-semibold">{formatCurrency(client.creditLimit)}</span> · Disponível: <span className="font-semibold">{formatCurrency(Math.max(0, client.creditLimit - outstandingCreditSales.reduce((sum, sale) => sum + sale.remainingAmount, 0)))}</span>
+                                    </p>
+                                )}
                             </div>
-                            <Icon name="account_balance_wallet" className="text-primary text-2xl" />
+                            <button
+                                onClick={() => navigate(`/clients/${client.id}/statement`)}
+                                className="text-xs font-semibold text-primary hover:text-primary/80 transition-colors flex items-center gap-1"
+                            >
+                                <Icon name="receipt_long" className="text-base" />
+                                Ver extrato
+                            </button>
                         </div>
                         <div className="space-y-3">
+                            {outstandingCreditSales.length === 0 && (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Nenhum fiado em aberto.</p>
+                            )}
                             {outstandingCreditSales.map(sale => (
                                 <div key={sale.id} className="border border-gray-100 dark:border-gray-800 rounded-lg p-3 flex flex-col gap-2">
                                     <div className="flex items-center justify-between">
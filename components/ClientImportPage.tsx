@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useClients } from '../contexts.tsx';
+import {
+    CLIENT_IMPORT_FIELDS,
+    CLIENT_IMPORT_FIELD_LABELS,
+    ClientImportMapping,
+    ClientImportStatus,
+    ClientImportTable,
+    buildImportRows,
+    guessColumnMapping,
+    parseClientImportFile,
+} from '../services/clientImportService.ts';
+import { Toast, ToastType } from './Toast.tsx';
+
+const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) =>
+    <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>;
+
+const STATUS_LABELS: Record<ClientImportStatus, string> = {
+    new: 'Importar',
+    duplicate: 'Já cadastrado',
+    invalid: 'Com erro',
+};
+
+const STATUS_CLASSES: Record<ClientImportStatus, string> = {
+    new: 'text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/30',
+    duplicate: 'text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30',
+    invalid: 'text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/30',
+};
+
+// Planilhas salvas pelo Excel costumam vir em Windows-1252: lê em UTF-8 e, se houver caractere inválido, tenta de novo
+const readFileText = async (file: File): Promise<string> => {
+    const buffer = await file.arrayBuffer();
+    const text = new TextDecoder('utf-8').decode(buffer);
+    return text.includes('\uFFFD') ? new TextDecoder('windows-1252').decode(buffer) : text;
+};
+
+export const ClientImportPage: React.FC = () => {
+    const navigate = useNavigate();
+    const { clients, importClients } = useClients();
+    const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [table, setTable] = useState<ClientImportTable | null>(null);
+    const [mapping, setMapping] = useState<ClientImportMapping | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+
+    const importRows = useMemo(
+        () => (table && mapping ? buildImportRows(table, mapping, clients) : []),
+        [table, mapping, clients]
+    );
+
+    const counts = useMemo(() => ({
+        new: importRows.filter(row => row.status === 'new').length,
+        duplicate: importRows.filter(row => row.status === 'duplicate').length,
+        invalid: importRows.filter(row => row.status === 'invalid').length,
+    }), [importRows]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const parsed = parseClientImportFile(file.name, await readFileText(file));
+            if (parsed.rows.length === 0) {
+                setToast({ message: 'Nenhum cliente encontrado no arquivo', type: 'error' });
+                return;
+            }
+            setFileName(file.name);
+            setTable(parsed);
+            setMapping(guessColumnMapping(parsed.headers));
+        } catch (error: any) {
+            setToast({ message: `Erro ao ler o arquivo: ${error.message || 'Erro desconhecido'}`, type: 'error' });
+        }
+    };
+
+    const handleImport = async () => {
+        const newClients = importRows.filter(row => row.status === 'new').map(row => row.client);
+        if (newClients.length === 0) return;
+
+        try {
+            setIsImporting(true);
+            const created = await importClients(newClients);
+            setToast({ message: `${created.length} cliente(s) importado(s) com sucesso!`, type: 'success' });
+
+            // Aguardar um pouco para mostrar o Toast e então navegar
+            setTimeout(() => {
+                navigate('/clients');
+            }, 1000);
+        } catch (error: any) {
+            setIsImporting(false);
+            setToast({
+                message: `Erro ao importar clientes: ${error.message || 'Erro desconhecido'}`,
+                type: 'error'
+            });
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-background-light to-gray-50 dark:from-background-dark dark:to-gray-900">
+            <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8">
+                {/* Header */}
+                <div className="mb-4 sm:mb-8">
+                    <button
+                        onClick={() => navigate('/clients')}
+                        className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white mb-3 sm:mb-4 transition-colors text-sm sm:text-base"
+                    >
+                        <Icon name="arrow_back" className="text-lg sm:text-xl" />
+                        <span>Voltar para Clientes</span>
+                    </button>
+                    <div className="flex items-center gap-2 sm:gap-3">
+                        <div className="p-2 sm:p-3 bg-primary/10 rounded-lg">
+                            <Icon name="upload_file" className="text-primary text-xl sm:text-2xl" />
+                        </div>
+                        <div>
+                            <h1 className="text-xl sm:text-3xl font-bold text-gray-900 dark:text-white">Importar Clientes</h1>
+                            <p className="text-xs sm:text-base text-gray-600 dark:text-gray-400 mt-0.5 sm:mt-1">Planilha CSV ou contatos do celular (vCard)</p>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Arquivo */}
+                <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm p-4 sm:p-6 mb-4">
+                    <label className="flex flex-col items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg cursor-pointer hover:border-primary/60 transition-colors">
+                        <Icon name="upload_file" className="text-3xl text-gray-400" />
+                        <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                            {fileName || 'Escolher arquivo .csv ou .vcf'}
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 text-center">
+                            No CSV, a primeira linha deve ter os nomes das colunas (Nome, WhatsApp, Apelido, CPF...)
+                        </span>
+                        <input type="file" accept=".csv,.txt,.vcf,text/csv,text/vcard" onChange={handleFileChange} className="hidden" />
+                    </label>
+                </div>
+
+                {table && mapping && (
+                    <>
+                        {/* Mapeamento de colunas */}
+                        <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm p-4 sm:p-6 mb-4">
+                            <h2 className="text-sm sm:text-base font-bold text-gray-900 dark:text-white mb-3">Colunas do arquivo</h2>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                                {CLIENT_IMPORT_FIELDS.map(field => (
+                                    <div key={field}>
+                                        <label className="block text-xs sm:text-sm font-semibold text-gray-900 dark:text-white mb-1">
+                                            {CLIENT_IMPORT_FIELD_LABELS[field]}
+                                            {(field === 'fullName' || field === 'whatsapp') && <span className="text-red-500"> *</span>}
+                                        </label>
+                                        <select
+                                            value={mapping[field] ?? ''}
+                                            onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                                            className="w-full h-10 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-3 text-sm text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-2 focus:ring-primary/20 transition-all"
+                                        >
+                                            <option value="">Não importar</option>
+                                            {table.headers.map((header, index) => (
+                                                <option key={index} value={index}>{header || `Coluna ${index + 1}`}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Pré-visualização */}
+                        <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm mb-4">
+                            <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-800">
+                                <h2 className="text-sm sm:text-base font-bold text-gray-900 dark:text-white mb-1">Pré-visualização</h2>
+                                <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
+                                    {counts.new} para importar • {counts.duplicate} já cadastrado(s) • {counts.invalid} com erro
+                                </p>
+                            </div>
+                            <div className="overflow-x-auto max-h-[28rem]">
+                                <table className="w-full text-xs sm:text-sm">
+                                    <thead className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-400">
+                                        <tr>
+                                            <th className="px-3 py-2 font-semibold">Linha</th>
+                                            <th className="px-3 py-2 font-semibold">Nome</th>
+                                            <th className="px-3 py-2 font-semibold">WhatsApp</th>
+                                            <th className="px-3 py-2 font-semibold">CPF</th>
+                                            <th className="px-3 py-2 font-semibold">Situação</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                                        {importRows.map(row => (
+                                            <tr key={row.line} className={row.status === 'new' ? '' : 'opacity-70'}>
+                                                <td className="px-3 py-2 text-gray-500 dark:text-gray-500">{row.line}</td>
+                                                <td className="px-3 py-2 text-gray-900 dark:text-white">
+                                                    {row.client.fullName || '—'}
+                                                    {row.client.nickname && <span className="text-gray-500 dark:text-gray-400"> ({row.client.nickname})</span>}
+                                                </td>
+                                                <td className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">{row.client.whatsapp || '—'}</td>
+                                                <td className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">{row.client.cpf || '—'}</td>
+                                                <td className="px-3 py-2">
+                                                    <span className={`inline-block px-2 py-0.5 text-[11px] font-semibold rounded-full ${STATUS_CLASSES[row.status]}`}>
+                                                        {STATUS_LABELS[row.status]}
+                                                    </span>
+                                                    {row.errors.length > 0 && (
+                                                        <p className="text-xs text-red-600 dark:text-red-400 mt-0.5">{row.errors.join(', ')}</p>
+                                                    )}
+                                                    {row.duplicateOf && (
+                                                        <p className="text-xs text-amber-700 dark:text-amber-300 mt-0.5">Mesmo cliente: {row.duplicateOf}</p>
+                                                    )}
+                                                    {row.warning && (
+                                                        <p className="text-xs text-amber-700 dark:text-amber-300 mt-0.5">{row.warning}</p>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+
+                        <div className="flex flex-col-reverse sm:flex-row gap-2 sm:gap-3 sm:justify-end">
+                            <button
+                                type="button"
+                                onClick={() => navigate('/clients')}
+                                className="px-4 sm:px-6 py-2 sm:py-2.5 text-sm sm:text-base font-semibold text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleImport}
+                                disabled={isImporting || counts.new === 0}
+                                className="px-4 sm:px-6 py-2 sm:py-2.5 text-sm sm:text-base font-semibold text-white bg-primary rounded-lg hover:bg-primary/90 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Icon name="group_add" className="text-lg" />
+                                {isImporting ? 'Importando...' : `Importar ${counts.new} cliente(s)`}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {toast && (
+                <Toast
+                    message={toast.message}
+                    type={toast.type}
+                    duration={4000}
+                    onClose={() => setToast(null)}
+                />
+            )}
+        </div>
+    );
+};
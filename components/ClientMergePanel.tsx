@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { useClients, useTransactions, useAppointments, useCreditSales } from '../contexts.tsx';
+import { Client } from '../types.ts';
+import { CLIENT_DUPLICATE_REASON_LABELS, findDuplicateClients } from '../services/clientDuplicateService.ts';
+import { ToastType } from './Toast.tsx';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+    <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+interface ClientMergePanelProps {
+    groups: Client[][];
+    onToast: (toast: { message: string; type: ToastType }) => void;
+}
+
+// Tela de mesclar cadastros duplicados: o cliente mantido recebe o histórico dos demais do grupo
+export const ClientMergePanel: React.FC<ClientMergePanelProps> = ({ groups, onToast }) => {
+    const { mergeClients } = useClients();
+    const { transactions } = useTransactions();
+    const { appointments } = useAppointments();
+    const { creditSales } = useCreditSales();
+    // Cliente mantido em cada grupo (chave: id do primeiro cliente do grupo); padrão é o cadastro mais antigo
+    const [survivorIds, setSurvivorIds] = useState<Record<number, number>>({});
+    const [groupToMerge, setGroupToMerge] = useState<Client[] | null>(null);
+    const [isMerging, setIsMerging] = useState(false);
+
+    const getSurvivor = (group: Client[]): Client =>
+        group.find(client => client.id === survivorIds[group[0].id]) || group[0];
+
+    const getHistoryCounts = (clientId: number) => ({
+        appointments: appointments.filter(apt => apt.clientId === clientId).length,
+        transactions: transactions.filter(t => t.clientId === clientId).length,
+        creditSales: creditSales.filter(cs => cs.clientId === clientId).length,
+    });
+
+    const handleMerge = async () => {
+        if (!groupToMerge) return;
+        const survivor = getSurvivor(groupToMerge);
+        const duplicates = groupToMerge.filter(client => client.id !== survivor.id);
+
+        try {
+            setIsMerging(true);
+            for (const duplicate of duplicates) {
+                await mergeClients(survivor.id, duplicate.id);
+            }
+            onToast({
+                message: `${duplicates.length === 1 ? 'Cadastro mesclado' : `${duplicates.length} cadastros mesclados`} em ${survivor.fullName}!`,
+                type: 'success',
+            });
+            setGroupToMerge(null);
+        } catch (error: any) {
+            onToast({ message: `Erro ao mesclar clientes: ${error.message || 'Erro desconhecido'}`, type: 'error' });
+        } finally {
+            setIsMerging(false);
+        }
+    };
+
+    if (groups.length === 0) {
+        return (
+            <div className="text-center py-12">
+                <Icon name="verified" className="text-6xl text-gray-400 dark:text-gray-600 mb-4" />
+                <p className="text-gray-600 dark:text-gray-400 text-lg">Nenhum cadastro duplicado encontrado</p>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <div className="space-y-4">
+                {groups.map(group => {
+                    const survivor = getSurvivor(group);
+                    return (
+                        <div key={group[0].id} className="bg-white dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-800 p-3 sm:p-4 shadow-sm">
+                            <div className="space-y-2">
+                                {group.map(client => {
+                                    const counts = getHistoryCounts(client.id);
+                                    const reasons = client.id === survivor.id
+                                        ? []
+                                        : findDuplicateClients(survivor, [client])[0]?.reasons || [];
+                                    const isSurvivor = client.id === survivor.id;
+                                    return (
+                                        <label
+                                            key={client.id}
+                                            className={`flex items-start gap-3 p-2 sm:p-3 rounded-lg border cursor-pointer transition-colors ${
+                                                isSurvivor
+                                                    ? 'border-primary bg-primary/5'
+                                                    : 'border-gray-200 dark:border-gray-700 hover:border-primary/50'
+                                            }`}
+                                        >
+                                            <input
+                                                type="radio"
+                                                name={`survivor-${group[0].id}`}
+                                                checked={isSurvivor}
+                                                onChange={() => setSurvivorIds(prev => ({ ...prev, [group[0].id]: client.id }))}
+                                                className="mt-1 accent-primary"
+                                            />
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-center gap-2">
+                                                    <p className="text-sm sm:text-base font-semibold text-gray-900 dark:text-white truncate">{client.fullName}</p>
+                                                    {isSurvivor && (
+                                                        <span className="shrink-0 px-2 py-0.5 text-[10px] font-semibold uppercase text-primary bg-primary/10 rounded-full">Manter</span>
+                                                    )}
+                                                </div>
+                                                <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                                                    {client.whatsapp}{client.cpf ? ` • CPF ${client.cpf}` : ''}{client.nickname ? ` • ${client.nickname}` : ''}
+                                                </p>
+                                                <p className="text-xs text-gray-500 dark:text-gray-500 mt-0.5">
+                                                    {counts.appointments} agendamento(s) • {counts.transactions} atendimento(s)/venda(s) • {counts.creditSales} fiado(s)
+                                                </p>
+                                                {reasons.length > 0 && (
+                                                    <p className="text-xs text-amber-700 dark:text-amber-300 mt-0.5">
+                                                        {reasons.map(reason => CLIENT_DUPLICATE_REASON_LABELS[reason]).join(', ')}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                            <button
+                                onClick={() => setGroupToMerge(group)}
+                                className="mt-3 w-full sm:w-auto px-4 py-2 bg-primary text-white rounded-lg text-sm font-semibold hover:bg-primary/90 transition-colors flex items-center justify-center gap-2"
+                            >
+                                <Icon name="merge" className="text-base" />
+                                Mesclar em {survivor.fullName}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* Modal de Confirmação da Mesclagem */}
+            {groupToMerge && (
+                <div
+                    className="fixed inset-0 bg-black/50 dark:bg-black/70 z-50 flex items-center justify-center p-4"
+                    onClick={() => !isMerging && setGroupToMerge(null)}
+                >
+                    <div
+                        className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 shadow-xl max-w-md w-full p-5 sm:p-6"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex items-start gap-4 mb-5">
+                            <div className="flex-shrink-0 w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                                <Icon name="merge" className="text-primary text-xl" />
+                            </div>
+                            <div className="flex-1">
+                                <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1">
+                                    Mesclar Clientes
+                                </h3>
+                                <p className="text-sm text-gray-600 dark:text-gray-400">
+                                    Agendamentos, atendimentos, vendas e fiados de{' '}
+                                    <span className="font-semibold text-gray-900 dark:text-white">
+                                        {groupToMerge.filter(client => client.id !== getSurvivor(groupToMerge).id).map(client => client.fullName).join(', ')}
+                                    </span>{' '}
+                                    passam para <span className="font-semibold text-gray-900 dark:text-white">"{getSurvivor(groupToMerge).fullName}"</span> e os outros cadastros são excluídos. Esta ação não pode ser desfeita.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-3 justify-end">
+                            <button
+                                onClick={() => setGroupToMerge(null)}
+                                disabled={isMerging}
+                                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                onClick={handleMerge}
+                                disabled={isMerging}
+                                className="px-4 py-2 text-sm font-medium text-white bg-primary hover:bg-primary/90 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                            >
+                                <Icon name="merge" className="text-base" />
+                                {isMerging ? 'Mesclando...' : 'Mesclar'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,481 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import html2canvas from 'html2canvas';
+import { jsPDF } from 'jspdf';
+import { useClients, useCreditSales } from '../contexts.tsx';
+import { Toast, ToastType } from './Toast.tsx';
+import { CreditSale, Installment, InstallmentStatus } from '../types.ts';
+import { buildClientStatement, ClientStatement } from '../services/clientStatementService.ts';
+import { getInstallmentPaidAmount } from '../services/creditSaleService.ts';
+
+const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) =>
+    <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>;
+
+const formatCurrency = (value: number): string => {
+    const formatted = Math.abs(value).toFixed(2).replace('.', ',');
+    const parts = formatted.split(',');
+    parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+    return `${value < 0 ? '-' : ''}R$ ${parts.join(',')}`;
+};
+
+const formatDateShort = (dateString: string): string => {
+    const date = new Date(dateString + 'T00:00:00');
+    return date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+};
+
+const getFileName = (clientName: string, extension: string): string =>
+    `extrato-fiado-${clientName.trim().replace(/\s+/g, '-')}.${extension}`;
+
+// PDF em A4 com resumo, lançamentos e parcelas de cada venda (texto puro, pronto para imprimir)
+const buildStatementPdf = (
+    clientName: string,
+    statement: ClientStatement,
+    sales: CreditSale[],
+    installments: Installment[]
+): jsPDF => {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const left = 14;
+    const right = 196;
+    let y = 18;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - 14) {
+            doc.addPage();
+            y = 18;
+        }
+    };
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.text('HUGO BARBEARIA', left, y);
+    doc.setFontSize(12);
+    doc.text('Extrato do Fiado', right, y, { align: 'right' });
+    y += 7;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(`Cliente: ${clientName}`, left, y);
+    doc.text(`Emitido em ${new Date().toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`, right, y, { align: 'right' });
+    y += 4;
+    doc.line(left, y, right, y);
+    y += 7;
+
+    // Resumo
+    const summary: [string, number][] = [
+        ['Total comprado', statement.totalPurchased],
+        ['Multa e juros', statement.totalLateCharges],
+        ['Total pago', statement.totalPaid],
+        ['Cancelado / perdoado', statement.totalAdjustments],
+        ['Saldo devedor', statement.balance],
+    ];
+    summary.forEach(([label, value], index) => {
+        doc.setFont('helvetica', index === summary.length - 1 ? 'bold' : 'normal');
+        doc.text(label, left, y);
+        doc.text(formatCurrency(value), 80, y, { align: 'right' });
+        y += 5;
+    });
+    y += 4;
+
+    // Lançamentos
+    const columns = { date: left, description: 36, debit: 150, credit: 173, balance: right };
+    const drawEntriesHeader = () => {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(9);
+        doc.text('Data', columns.date, y);
+        doc.text('Descrição', columns.description, y);
+        doc.text('Débito', columns.debit, y, { align: 'right' });
+        doc.text('Crédito', columns.credit, y, { align: 'right' });
+        doc.text('Saldo', columns.balance, y, { align: 'right' });
+        y += 2;
+        doc.line(left, y, right, y);
+        y += 4;
+        doc.setFont('helvetica', 'normal');
+    };
+
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Lançamentos', left, y);
+    y += 6;
+    drawEntriesHeader();
+    statement.entries.forEach(entry => {
+        const lines: string[] = doc.splitTextToSize(entry.description, 98);
+        ensureSpace(lines.length * 4 + 2);
+        if (y === 18) drawEntriesHeader();
+        doc.text(formatDateShort(entry.date), columns.date, y);
+        doc.text(lines, columns.description, y);
+        if (entry.debit > 0) doc.text(formatCurrency(entry.debit), columns.debit, y, { align: 'right' });
+        if (entry.credit > 0) doc.text(formatCurrency(entry.credit), columns.credit, y, { align: 'right' });
+        doc.text(formatCurrency(entry.balance), columns.balance, y, { align: 'right' });
+        y += lines.length * 4 + 2;
+    });
+    y += 4;
+
+    // Parcelas por venda
+    sales.forEach(sale => {
+        const saleInstallments = installments
+            .filter(installment => installment.creditSaleId === sale.id)
+            .sort((a, b) => a.installmentNumber - b.installmentNumber);
+        ensureSpace(16);
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'bold');
+        doc.text(`Venda #${sale.id} - ${formatDateShort(sale.date)} - ${sale.status}`, left, y);
+        y += 5;
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        saleInstallments.forEach(installment => {
+            ensureSpace(5);
+            doc.text(`${installment.installmentNumber}ª parcela`, left + 2, y);
+            doc.text(`Venc. ${formatDateShort(installment.dueDate)}`, 44, y);
+            doc.text(formatCurrency(installment.amount), 104, y, { align: 'right' });
+            doc.text(`Pago ${formatCurrency(getInstallmentPaidAmount(installment))}`, 145, y, { align: 'right' });
+            doc.text(installment.status, right, y, { align: 'right' });
+            y += 5;
+        });
+        y += 3;
+    });
+
+    return doc;
+};
+
+export const ClientStatementPage: React.FC = () => {
+    const navigate = useNavigate();
+    const { id } = useParams<{ id: string }>();
+    const { clients } = useClients();
+    const { creditSales, installments } = useCreditSales();
+    const statementRef = useRef<HTMLDivElement>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
+
+    const client = clients.find(c => c.id === Number(id));
+
+    const clientSales = useMemo(() => {
+        if (!client) return [];
+        return creditSales
+            .filter(sale => sale.clientId === client.id)
+            .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+    }, [client, creditSales]);
+
+    const clientInstallments = useMemo(() => {
+        const saleIds = new Set(clientSales.map(sale => sale.id));
+        return installments.filter(installment => saleIds.has(installment.creditSaleId));
+    }, [clientSales, installments]);
+
+    const statement = useMemo(() => buildClientStatement(clientSales, clientInstallments), [clientSales, clientInstallments]);
+
+    if (!client) {
+        return (
+            <div className="min-h-screen bg-gradient-to-br from-background-light to-gray-50 dark:from-background-dark dark:to-gray-900 flex items-center justify-center p-4">
+                <div className="text-center">
+                    <Icon name="error" className="text-6xl text-gray-400 dark:text-gray-600 mb-4" />
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Cliente não encontrado</h2>
+                    <button
+                        onClick={() => navigate('/clients')}
+                        className="px-6 py-2 bg-primary text-white rounded-lg font-semibold hover:bg-primary/90 transition-colors"
+                    >
+                        Voltar para Clientes
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const handleDownloadPdf = () => {
+        try {
+            buildStatementPdf(client.fullName, statement, clientSales, clientInstallments).save(getFileName(client.fullName, 'pdf'));
+        } catch (error) {
+            setToast({
+                message: `Erro ao gerar PDF: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+                type: 'error'
+            });
+        }
+    };
+
+    const fallbackDownload = (blob: Blob) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = getFileName(client.fullName, 'png');
+
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+
+        setTimeout(() => {
+            URL.revokeObjectURL(url);
+        }, 500);
+
+        setToast({
+            message: 'Extrato salvo! Você pode compartilhá-lo através de seus arquivos.',
+            type: 'success'
+        });
+    };
+
+    const handleShare = async () => {
+        if (!statementRef.current) {
+            setToast({ message: 'Extrato não encontrado', type: 'error' });
+            return;
+        }
+
+        try {
+            setIsGenerating(true);
+
+            const canvas = await html2canvas(statementRef.current, {
+                backgroundColor: '#ffffff',
+                scale: 2,
+                logging: false,
+                useCORS: true
+            });
+
+            canvas.toBlob(async (blob) => {
+                if (!blob) {
+                    setToast({ message: 'Erro ao gerar imagem do extrato', type: 'error' });
+                    setIsGenerating(false);
+                    return;
+                }
+
+                const file = new File([blob], getFileName(client.fullName, 'png'), { type: 'image/png' });
+
+                if (navigator.share && navigator.canShare && navigator.canShare({ files: [file] })) {
+                    try {
+                        await navigator.share({
+                            files: [file],
+                            title: 'Extrato do Fiado',
+                            text: `Extrato do fiado - ${client.fullName} - Saldo ${formatCurrency(statement.balance)}`
+                        });
+                    } catch (error: any) {
+                        if (error.name !== 'AbortError') {
+                            console.error('Erro ao compartilhar:', error);
+                            fallbackDownload(blob);
+                        }
+                    }
+                } else {
+                    fallbackDownload(blob);
+                }
+                setIsGenerating(false);
+            }, 'image/png');
+        } catch (error) {
+            setToast({
+                message: `Erro ao gerar extrato: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+                type: 'error'
+            });
+            setIsGenerating(false);
+        }
+    };
+
+    const summaryCards = [
+        { label: 'Total comprado', value: statement.totalPurchased, className: 'text-gray-900 dark:text-white' },
+        { label: 'Multa e juros', value: statement.totalLateCharges, className: 'text-red-600 dark:text-red-400' },
+        { label: 'Total pago', value: statement.totalPaid, className: 'text-green-600 dark:text-green-400' },
+        { label: 'Cancelado / perdoado', value: statement.totalAdjustments, className: 'text-gray-600 dark:text-gray-300' },
+        { label: 'Saldo devedor', value: statement.balance, className: 'text-amber-600 dark:text-amber-400' },
+    ];
+
+    return (
+        <div className="mx-auto max-w-4xl">
+            {/* Header */}
+            <div className="mb-6">
+                <button
+                    onClick={() => navigate(`/clients/${client.id}`)}
+                    className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors mb-4"
+                >
+                    <Icon name="arrow_back" />
+                    <span className="font-medium">Voltar</span>
+                </button>
+                <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-black text-gray-900 dark:text-white mb-2">Extrato do Fiado</h1>
+                        <p className="text-gray-600 dark:text-gray-400">{client.fullName}</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleDownloadPdf}
+                            disabled={clientSales.length === 0}
+                            className="px-4 py-2 rounded-lg bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white font-semibold hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50 flex items-center gap-2 text-sm"
+                        >
+                            <Icon name="picture_as_pdf" className="text-base" />
+                            <span>Baixar PDF</span>
+                        </button>
+                        <button
+                            onClick={handleShare}
+                            disabled={isGenerating || clientSales.length === 0}
+                            className="px-4 py-2 rounded-lg bg-primary hover:bg-primary/90 text-white font-semibold transition-colors disabled:opacity-50 flex items-center gap-2 text-sm"
+                        >
+                            {isGenerating ? (
+                                <>
+                                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/30 border-t-white"></div>
+                                    <span>Gerando...</span>
+                                </>
+                            ) : (
+                                <>
+                                    <Icon name="share" className="text-base" />
+                                    <span>Compartilhar</span>
+                                </>
+                            )}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {clientSales.length === 0 ? (
+                <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-8 text-center shadow-sm">
+                    <Icon name="receipt_long" className="text-5xl text-gray-400 mb-3" />
+                    <p className="text-gray-600 dark:text-gray-400">Este cliente não tem vendas no fiado.</p>
+                </div>
+            ) : (
+                <>
+                    {/* Resumo */}
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+                        {summaryCards.map(card => (
+                            <div key={card.label} className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm">
+                                <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">{card.label}</p>
+                                <p className={`text-lg font-bold ${card.className}`}>{formatCurrency(card.value)}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Lançamentos */}
+                    <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-6 mb-6 shadow-sm">
+                        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Lançamentos</h2>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide border-b border-gray-200 dark:border-gray-700">
+                                        <th className="py-2 pr-3">Data</th>
+                                        <th className="py-2 pr-3">Descrição</th>
+                                        <th className="py-2 pr-3 text-right">Débito</th>
+                                        <th className="py-2 pr-3 text-right">Crédito</th>
+                                        <th className="py-2 text-right">Saldo</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {statement.entries.map((entry, index) => (
+                                        <tr key={index} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                                            <td className="py-2 pr-3 whitespace-nowrap text-gray-600 dark:text-gray-400">{formatDateShort(entry.date)}</td>
+                                            <td className="py-2 pr-3 text-gray-900 dark:text-white">
+                                                <button
+                                                    onClick={() => navigate(`/credit-sales/${entry.creditSaleId}`)}
+                                                    className="text-left hover:text-primary transition-colors"
+                                                >
+                                                    {entry.description}
+                                                </button>
+                                            </td>
+                                            <td className="py-2 pr-3 text-right whitespace-nowrap text-red-600 dark:text-red-400">{entry.debit > 0 ? formatCurrency(entry.debit) : ''}</td>
+                                            <td className="py-2 pr-3 text-right whitespace-nowrap text-green-600 dark:text-green-400">{entry.credit > 0 ? formatCurrency(entry.credit) : ''}</td>
+                                            <td className="py-2 text-right whitespace-nowrap font-semibold text-gray-900 dark:text-white">{formatCurrency(entry.balance)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    {/* Parcelas por venda */}
+                    <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-6 shadow-sm">
+                        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Parcelas</h2>
+                        <div className="space-y-5">
+                            {clientSales.map(sale => (
+                                <div key={sale.id}>
+                                    <p className="text-sm font-bold text-gray-900 dark:text-white mb-2">
+                                        Venda #{sale.id} · {formatDateShort(sale.date)} · <span className="font-semibold text-gray-600 dark:text-gray-400">{sale.status}</span>
+                                    </p>
+                                    <div className="space-y-1">
+                                        {clientInstallments
+                                            .filter(installment => installment.creditSaleId === sale.id)
+                                            .sort((a, b) => a.installmentNumber - b.installmentNumber)
+                                            .map(installment => (
+                                                <div
+                                                    key={installment.id}
+                                                    className={`grid grid-cols-4 gap-2 text-xs text-gray-700 dark:text-gray-300 ${installment.status === InstallmentStatus.Cancelled ? 'opacity-60 line-through' : ''}`}
+                                                >
+                                                    <span>{installment.installmentNumber}ª · {formatDateShort(installment.dueDate)}</span>
+                                                    <span className="text-right">{formatCurrency(installment.amount)}</span>
+                                                    <span className="text-right">Pago {formatCurrency(getInstallmentPaidAmount(installment))}</span>
+                                                    <span className="text-right">{installment.status}</span>
+                                                </div>
+                                            ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </>
+            )}
+
+            {/* Imagem do extrato para compartilhar (oculta) */}
+            <div ref={statementRef} className="absolute left-[-9999px] top-[-9999px]">
+                <div
+                    className="bg-gradient-to-br from-gray-50 to-white border-2 border-gray-200 rounded-xl p-6 space-y-4 w-[480px]"
+                    style={{ fontFamily: 'system-ui, -apple-system, sans-serif' }}
+                >
+                    <div className="flex items-center gap-4 border-b-2 border-gray-300 pb-4">
+                        <img
+                            src="/imagens/logo-barbearia.JPG"
+                            alt="Hugo Barbearia Logo"
+                            className="w-20 h-20 rounded-full object-cover border-3 border-gray-300 shadow-lg flex-shrink-0"
+                            crossOrigin="anonymous"
+                        />
+                        <div className="flex flex-col items-start justify-center">
+                            <h1 className="text-gray-900 text-2xl font-black tracking-tight leading-none">HUGO</h1>
+                            <p className="text-gray-600 text-xs font-semibold tracking-widest mt-0.5">BARBEARIA</p>
+                            <div className="w-16 h-0.5 bg-gray-400 mt-2"></div>
+                        </div>
+                    </div>
+
+                    <div className="text-center py-1">
+                        <p className="text-sm text-gray-600 font-semibold uppercase tracking-wide">Extrato do Fiado</p>
+                        <p className="text-lg font-bold text-gray-900 mt-1">{client.fullName}</p>
+                    </div>
+
+                    <div className="border-t-2 border-dashed border-gray-300 pt-3 space-y-1.5">
+                        {statement.entries.map((entry, index) => (
+                            <div key={index} className="flex justify-between gap-3 text-xs">
+                                <span className="text-gray-500 whitespace-nowrap">{formatDateShort(entry.date)}</span>
+                                <span className="flex-1 text-gray-800">{entry.description}</span>
+                                <span className={`whitespace-nowrap font-semibold ${entry.credit > 0 ? 'text-green-700' : 'text-gray-900'}`}>
+                                    {entry.credit > 0 ? `- ${formatCurrency(entry.credit)}` : entry.debit > 0 ? formatCurrency(entry.debit) : ''}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="border-t-2 border-dashed border-gray-300 pt-3 space-y-1 text-sm">
+                        <div className="flex justify-between"><span className="text-gray-600">Total comprado:</span><span className="font-bold text-gray-900">{formatCurrency(statement.totalPurchased)}</span></div>
+                        {statement.totalLateCharges > 0 && (
+                            <div className="flex justify-between"><span className="text-gray-600">Multa e juros:</span><span className="font-bold text-gray-900">{formatCurrency(statement.totalLateCharges)}</span></div>
+                        )}
+                        <div className="flex justify-between"><span className="text-gray-600">Total pago:</span><span className="font-bold text-gray-900">{formatCurrency(statement.totalPaid)}</span></div>
+                        {statement.totalAdjustments > 0 && (
+                            <div className="flex justify-between"><span className="text-gray-600">Cancelado / perdoado:</span><span className="font-bold text-gray-900">{formatCurrency(statement.totalAdjustments)}</span></div>
+                        )}
+                    </div>
+
+                    <div className="bg-gradient-to-r from-amber-100 to-yellow-100 border-2 border-amber-300 rounded-lg p-4 text-center">
+                        <p className="text-xs font-semibold text-amber-700 uppercase tracking-wide mb-1">Saldo Devedor</p>
+                        <p className="text-3xl font-black text-amber-900">{formatCurrency(statement.balance)}</p>
+                    </div>
+
+                    <div className="border-t-2 border-dashed border-gray-300 pt-3 text-center">
+                        <p className="text-xs text-gray-500">
+                            Emitido em {new Date().toLocaleDateString('pt-BR', {
+                                day: '2-digit',
+                                month: '2-digit',
+                                year: 'numeric',
+                                hour: '2-digit',
+                                minute: '2-digit'
+                            })}
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {toast && (
+                <Toast
+                    message={toast.message}
+                    type={toast.type}
+                    duration={4000}
+                    onClose={() => setToast(null)}
+                />
+            )}
+        </div>
+    );
+};
@@ -3,6 +3,9 @@ import { useNavigate } from 'react-router-dom';
 import { useClients, useTransactions, useAppointments, useCreditSales } from '../contexts.tsx';
 import { Client, AppointmentStatus } from '../types.ts';
 import { Toast, ToastType } from './Toast.tsx';
+import { ClientMergePanel } from './ClientMergePanel.tsx';
+import { findDuplicateClientGroups } from '../services/clientDuplicateService.ts';
+import { buildClientsCsv, buildClientsVCard } from '../services/clientImportService.ts';
 
 const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => 
     <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>;
@@ -23,7 +26,7 @@ const dateFromISO = (date?: string, time?: string): Date | null => {
     return isNaN(parsed.getTime()) ? null : parsed;
 };
 
-type ViewMode = 'all' | 'new' | 'appointments' | 'credit-sales';
+type ViewMode = 'all' | 'new' | 'appointments' | 'credit-sales' | 'duplicates';
 
 export const ClientsPage: React.FC = () => {
     const navigate = useNavigate();
@@ -36,6 +39,9 @@ export const ClientsPage: React.FC = () => {
     const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
     const [clientToDelete, setClientToDelete] = useState<Client | null>(null);
 
+    // Cadastros que parecem ser da mesma pessoa (mesmo WhatsApp, CPF ou nome parecido)
+    const duplicateGroups = useMemo(() => findDuplicateClientGroups(clients), [clients]);
+
     // Calcular métricas
     const metrics = useMemo(() => {
         const now = new Date();
@@ -322,6 +328,17 @@ export const ClientsPage: React.FC = () => {
         navigate('/clients/new');
     };
 
+    // Exportar a base de clientes (CSV para planilha, vCard para a agenda do celular)
+    const exportClients = (format: 'csv' | 'vcard') => {
+        const blob = format === 'csv'
+            ? new Blob(['\ufeff' + buildClientsCsv(clients)], { type: 'text/csv;charset=utf-8;' })
+            : new Blob([buildClientsVCard(clients)], { type: 'text/vcard;charset=utf-8;' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `clientes_${getTodayLocalDate()}.${format === 'csv' ? 'csv' : 'vcf'}`;
+        link.click();
+    };
+
     // Navegar para editar cliente
     const handleEditClick = (client: Client) => {
         navigate(`/clients/edit/${client.id}`);
@@ -378,13 +395,41 @@ export const ClientsPage: React.FC = () => {
                             <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 dark:text-white mb-0.5 sm:mb-1">Clientes</h1>
                             <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">Gerencie sua base de clientes</p>
                         </div>
-                        <button
-                            onClick={handleAddClick}
-                            className="w-full sm:w-auto px-3 sm:px-4 lg:px-6 py-2 sm:py-2.5 bg-primary text-white rounded-lg font-semibold hover:bg-primary/90 transition-colors flex items-center justify-center gap-2 text-xs sm:text-sm shadow-md hover:shadow-lg"
-                        >
-                            <Icon name="person_add" className="text-base sm:text-lg" />
-                            <span>Adicionar Cliente</span>
-                        </button>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => navigate('/clients/import')}
+                                className="px-3 py-2 sm:py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors flex items-center gap-1 text-xs sm:text-sm"
+                                title="Importar CSV ou vCard"
+                            >
+                                <Icon name="upload_file" className="text-base sm:text-lg" />
+                                <span className="hidden sm:inline">Importar</span>
+                            </button>
+                            <button
+                                onClick={() => exportClients('csv')}
+                                disabled={clients.length === 0}
+                                className="px-3 py-2 sm:py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors flex items-center gap-1 text-xs sm:text-sm disabled:opacity-50"
+                                title="Exportar CSV"
+                            >
+                                <Icon name="download" className="text-base sm:text-lg" />
+                                <span className="hidden sm:inline">CSV</span>
+                            </button>
+                            <button
+                                onClick={() => exportClients('vcard')}
+                                disabled={clients.length === 0}
+                                className="px-3 py-2 sm:py-2.5 border border-gray-300 dark:border-gray-700 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors flex items-center gap-1 text-xs sm:text-sm disabled:opacity-50"
+                                title="Exportar vCard (agenda do celular)"
+                            >
+                                <Icon name="contacts" className="text-base sm:text-lg" />
+                                <span className="hidden sm:inline">vCard</span>
+                            </button>
+                            <button
+                                onClick={handleAddClick}
+                                className="flex-1 sm:flex-none px-3 sm:px-4 lg:px-6 py-2 sm:py-2.5 bg-primary text-white rounded-lg font-semibold hover:bg-primary/90 transition-colors flex items-center justify-center gap-2 text-xs sm:text-sm shadow-md hover:shadow-lg"
+                            >
+                                <Icon name="person_add" className="text-base sm:text-lg" />
+                                <span>Adicionar Cliente</span>
+                            </button>
+                        </div>
                     </div>
 
                     {/* Busca Minimalista */}
@@ -460,6 +505,25 @@ export const ClientsPage: React.FC = () => {
                                 </div>
                             </div>
 
+                            {/* Aviso de cadastros duplicados */}
+                            {duplicateGroups.length > 0 && (
+                                <button
+                                    onClick={() => setViewMode('duplicates')}
+                                    className="w-full mb-4 sm:mb-6 flex items-center justify-between gap-3 p-3 sm:p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 rounded-lg text-left hover:shadow-md transition-all"
+                                >
+                                    <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+                                        <Icon name="group" className="text-amber-600 dark:text-amber-400 text-lg sm:text-xl flex-shrink-0" />
+                                        <div className="min-w-0">
+                                            <p className="text-sm sm:text-base font-semibold text-amber-800 dark:text-amber-200">
+                                                {duplicateGroups.length} {duplicateGroups.length === 1 ? 'possível cadastro duplicado' : 'possíveis cadastros duplicados'}
+                                            </p>
+                                            <p className="text-xs text-amber-700 dark:text-amber-300 truncate">Revise e mescle os clientes cadastrados mais de uma vez</p>
+                                        </div>
+                                    </div>
+                                    <Icon name="chevron_right" className="text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                                </button>
+                            )}
+
                             {/* Top Spender Card (se houver) */}
                             {metrics.topSpender && (
                                 <div className="bg-white dark:bg-gray-900/50 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6 shadow-sm border border-gray-200 dark:border-gray-800">
@@ -619,9 +683,12 @@ export const ClientsPage: React.FC = () => {
                                         {viewMode === 'new' && 'Clientes Novos Este Mês'}
                                         {viewMode === 'appointments' && 'Clientes com Agendamentos'}
                                         {viewMode === 'credit-sales' && 'Clientes com Fiado'}
+                                        {viewMode === 'duplicates' && 'Possíveis Duplicados'}
                                     </h2>
                                     <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
-                                        {filteredClients.length} {filteredClients.length === 1 ? 'cliente' : 'clientes'}
+                                        {viewMode === 'duplicates'
+                                            ? `${duplicateGroups.length} ${duplicateGroups.length === 1 ? 'grupo' : 'grupos'} • escolha o cadastro que será mantido`
+                                            : `${filteredClients.length} ${filteredClients.length === 1 ? 'cliente' : 'clientes'}`}
                                     </p>
                                 </div>
                             </div>
@@ -760,8 +827,13 @@ export const ClientsPage: React.FC = () => {
                     </div>
                 )}
 
+                {/* Mesclar cadastros duplicados */}
+                {viewMode === 'duplicates' && !isLoading && (
+                    <ClientMergePanel groups={duplicateGroups} onToast={setToast} />
+                )}
+
                 {/* Lista de Clientes - só mostra se estiver em modo de lista ou pesquisando */}
-                {(viewMode || searchTerm) && (
+                {viewMode !== 'duplicates' && (viewMode || searchTerm) && (
                     <>
                         {isLoading ? (
                             <div className="flex items-center justify-center py-12">
@@ -1,7 +1,19 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { useCreditSales, useTransactions } from '../contexts.tsx';
-import { CreditSale, Installment, InstallmentStatus, PaymentMethod } from '../types.ts';
+import { CreditSale, CreditSaleEventType, CreditSaleStatus, Installment, InstallmentStatus, PaymentMethod } from '../types.ts';
+import {
+    buildInstallmentSchedule,
+    getInstallmentPaidAmount,
+    getInstallmentRemainingAmount,
+    INSTALLMENT_INTERVAL_LABELS,
+    InstallmentInterval,
+    isCreditSaleOpen,
+    isInstallmentOpen,
+    splitInstallmentAmounts,
+} from '../services/creditSaleService.ts';
+import { addMonthsToDate, getTodayLocalDate } from '../services/dateService.ts';
+import { Toast, ToastType } from './Toast.tsx';
 
 const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => 
     <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>;
@@ -35,19 +47,53 @@ const getStatusColor = (status: InstallmentStatus): string => {
             return 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 border-green-300 dark:border-green-700';
         case InstallmentStatus.Overdue:
             return 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 border-red-300 dark:border-red-700';
+        case InstallmentStatus.PartiallyPaid:
+            return 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border-blue-300 dark:border-blue-700';
+        case InstallmentStatus.Cancelled:
+            return 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-300 dark:border-gray-600';
         case InstallmentStatus.Pending:
         default:
             return 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 border-yellow-300 dark:border-yellow-700';
     }
 };
 
+type SaleAction = 'cancel' | 'renegotiate' | 'writeOff';
+
+const EVENT_LABELS: Record<CreditSaleEventType, { label: string; icon: string }> = {
+    cancelled: { label: 'Venda cancelada', icon: 'block' },
+    renegotiated: { label: 'Saldo renegociado', icon: 'event_repeat' },
+    written_off: { label: 'Saldo perdoado', icon: 'volunteer_activism' },
+    limit_override: { label: 'Venda liberada pelo dono', icon: 'verified_user' },
+};
+
+const inputClassName = 'w-full h-11 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-4 text-base text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-3 focus:ring-primary/20 transition-all';
+
 export const CreditSaleDetailPage: React.FC = () => {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
     const location = useLocation();
-    const { creditSales, installments, payInstallment, fetchCreditSales, updateCreditSaleStatus } = useCreditSales();
+    const {
+        creditSales,
+        installments,
+        payInstallment,
+        fetchCreditSales,
+        updateCreditSaleStatus,
+        cancelCreditSale,
+        renegotiateCreditSale,
+        writeOffCreditSale,
+    } = useCreditSales();
     const { transactions } = useTransactions();
     const prevLocationKey = useRef<string | undefined>();
+
+    // Ações da venda (cancelar, renegociar, perdoar)
+    const [activeAction, setActiveAction] = useState<SaleAction | null>(null);
+    const [actionReason, setActionReason] = useState('');
+    const [returnProducts, setReturnProducts] = useState(true);
+    const [newInstallmentsCount, setNewInstallmentsCount] = useState(1);
+    const [newFirstDueDate, setNewFirstDueDate] = useState(() => addMonthsToDate(getTodayLocalDate(), 1));
+    const [newInterval, setNewInterval] = useState<InstallmentInterval>('monthly');
+    const [isSubmittingAction, setIsSubmittingAction] = useState(false);
+    const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
     
     // Recarregar credit sales quando cliente for atualizado
     useEffect(() => {
@@ -105,9 +151,52 @@ export const CreditSaleDetailPage: React.FC = () => {
     }
 
 
-    const pendingInstallments = saleInstallments.filter(inst => inst.status !== InstallmentStatus.Paid);
+    const pendingInstallments = saleInstallments.filter(inst => isInstallmentOpen(inst.status));
     const paidInstallments = saleInstallments.filter(inst => inst.status === InstallmentStatus.Paid);
     const overdueInstallments = saleInstallments.filter(inst => inst.status === InstallmentStatus.Overdue);
+    const cancelledInstallments = saleInstallments.filter(inst => inst.status === InstallmentStatus.Cancelled);
+    const saleIsOpen = isCreditSaleOpen(sale.status);
+    const renegotiationAmounts = splitInstallmentAmounts(sale.remainingAmount, newInstallmentsCount);
+    const saleEvents = sale.events || [];
+
+    const openAction = (action: SaleAction) => {
+        setActiveAction(current => (current === action ? null : action));
+        setActionReason('');
+    };
+
+    const handleConfirmAction = async () => {
+        if (!activeAction) return;
+        const reason = actionReason.trim();
+        if (activeAction !== 'renegotiate' && !reason) {
+            setToast({ message: 'Informe o motivo.', type: 'warning' });
+            return;
+        }
+        if (activeAction === 'renegotiate' && !newFirstDueDate) {
+            setToast({ message: 'Informe o vencimento da primeira parcela.', type: 'warning' });
+            return;
+        }
+
+        try {
+            setIsSubmittingAction(true);
+            if (activeAction === 'cancel') {
+                await cancelCreditSale(sale.id, reason, returnProducts);
+                setToast({ message: 'Venda cancelada com sucesso.', type: 'success' });
+            } else if (activeAction === 'renegotiate') {
+                const schedule = buildInstallmentSchedule(renegotiationAmounts, newFirstDueDate, newInterval);
+                await renegotiateCreditSale(sale.id, schedule.map(inst => ({ amount: inst.amount, dueDate: inst.dueDate })), reason || undefined);
+                setToast({ message: `Saldo renegociado em ${renegotiationAmounts.length}x.`, type: 'success' });
+            } else {
+                await writeOffCreditSale(sale.id, reason);
+                setToast({ message: `Saldo de ${formatCurrency(sale.remainingAmount)} perdoado.`, type: 'success' });
+            }
+            setActiveAction(null);
+            setActionReason('');
+        } catch (error: any) {
+            setToast({ message: `Erro ao atualizar a venda: ${error.message || 'Erro desconhecido'}`, type: 'error' });
+        } finally {
+            setIsSubmittingAction(false);
+        }
+    };
 
     return (
         <div className="mx-auto max-w-4xl">
@@ -149,6 +238,7 @@ export const CreditSaleDetailPage: React.FC = () => {
                         <span className={`inline-block px-3 py-1 rounded-full text-sm font-semibold border ${
                             sale.status === 'Quitado' ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 border-green-300 dark:border-green-700' :
                             sale.status === 'Atrasado' ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 border-red-300 dark:border-red-700' :
+                            sale.status === CreditSaleStatus.Cancelled || sale.status === CreditSaleStatus.WrittenOff ? 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600' :
                             'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border-blue-300 dark:border-blue-700'
                         }`}>
                             {sale.status}
@@ -172,6 +262,147 @@ export const CreditSaleDetailPage: React.FC = () => {
                         </div>
                     </div>
                 </div>
+
+                {saleIsOpen && (
+                    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+                        <div className="flex flex-wrap gap-3">
+                            <button
+                                onClick={() => openAction('renegotiate')}
+                                className={`px-4 py-2 rounded-lg font-semibold text-sm flex items-center gap-2 border transition-colors ${activeAction === 'renegotiate' ? 'bg-primary text-white border-primary' : 'border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                            >
+                                <Icon name="event_repeat" className="text-base" />
+                                Renegociar
+                            </button>
+                            <button
+                                onClick={() => openAction('writeOff')}
+                                className={`px-4 py-2 rounded-lg font-semibold text-sm flex items-center gap-2 border transition-colors ${activeAction === 'writeOff' ? 'bg-primary text-white border-primary' : 'border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                            >
+                                <Icon name="volunteer_activism" className="text-base" />
+                                Perdoar Saldo
+                            </button>
+                            <button
+                                onClick={() => openAction('cancel')}
+                                className={`px-4 py-2 rounded-lg font-semibold text-sm flex items-center gap-2 border transition-colors ${activeAction === 'cancel' ? 'bg-red-600 text-white border-red-600' : 'border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20'}`}
+                            >
+                                <Icon name="block" className="text-base" />
+                                Cancelar Venda
+                            </button>
+                        </div>
+
+                        {activeAction && (
+                            <div className="mt-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 p-4 space-y-4">
+                                {activeAction === 'cancel' && (
+                                    <>
+                                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                                            As parcelas em aberto serão canceladas e o saldo de <span className="font-semibold">{formatCurrency(sale.remainingAmount)}</span> deixa de ser cobrado. Valores já pagos não são estornados.
+                                        </p>
+                                        <label className="flex items-center gap-3 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={returnProducts}
+                                                onChange={(e) => setReturnProducts(e.target.checked)}
+                                                className="h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary"
+                                            />
+                                            <span className="text-sm font-semibold text-gray-900 dark:text-white">Devolver produtos ao estoque</span>
+                                        </label>
+                                    </>
+                                )}
+
+                                {activeAction === 'renegotiate' && (
+                                    <>
+                                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                                            As parcelas em aberto serão substituídas por um novo parcelamento do saldo de <span className="font-semibold">{formatCurrency(sale.remainingAmount)}</span>.
+                                        </p>
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                            <div className="space-y-2">
+                                                <label className="text-sm font-semibold text-gray-900 dark:text-white block">Número de parcelas</label>
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    max={24}
+                                                    value={newInstallmentsCount}
+                                                    onChange={(e) => setNewInstallmentsCount(Math.min(24, Math.max(1, Number(e.target.value) || 1)))}
+                                                    className={inputClassName}
+                                                />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <label className="text-sm font-semibold text-gray-900 dark:text-white block">Vencimento da 1ª parcela</label>
+                                                <input
+                                                    type="date"
+                                                    value={newFirstDueDate}
+                                                    onChange={(e) => setNewFirstDueDate(e.target.value)}
+                                                    className={inputClassName}
+                                                />
+                                            </div>
+                                        </div>
+                                        {newInstallmentsCount > 1 && (
+                                            <div className="flex gap-2">
+                                                {(Object.keys(INSTALLMENT_INTERVAL_LABELS) as InstallmentInterval[]).map(interval => (
+                                                    <button
+                                                        key={interval}
+                                                        onClick={() => setNewInterval(interval)}
+                                                        className={`px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors ${newInterval === interval ? 'bg-primary text-white border-primary' : 'border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                                                    >
+                                                        {INSTALLMENT_INTERVAL_LABELS[interval]}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {newFirstDueDate && (
+                                            <div className="space-y-1">
+                                                {buildInstallmentSchedule(renegotiationAmounts, newFirstDueDate, newInterval).map(inst => (
+                                                    <p key={inst.installmentNumber} className="text-xs text-gray-600 dark:text-gray-400">
+                                                        {inst.installmentNumber}ª: {formatCurrency(inst.amount)} em {formatDateShort(inst.dueDate)}
+                                                    </p>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </>
+                                )}
+
+                                {activeAction === 'writeOff' && (
+                                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                                        O saldo de <span className="font-semibold">{formatCurrency(sale.remainingAmount)}</span> será baixado sem pagamento e a venda deixa de aparecer nas cobranças.
+                                    </p>
+                                )}
+
+                                <div className="space-y-2">
+                                    <label className="text-sm font-semibold text-gray-900 dark:text-white block">
+                                        Motivo{activeAction === 'renegotiate' ? ' (opcional)' : ''}
+                                    </label>
+                                    <textarea
+                                        value={actionReason}
+                                        onChange={(e) => setActionReason(e.target.value)}
+                                        rows={2}
+                                        className="w-full px-4 py-2.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg text-base text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent transition-all resize-none"
+                                        placeholder="Ex: cliente devolveu o produto"
+                                    />
+                                </div>
+
+                                <div className="flex justify-end gap-3">
+                                    <button
+                                        onClick={() => setActiveAction(null)}
+                                        disabled={isSubmittingAction}
+                                        className="px-4 py-2 rounded-lg font-semibold text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                                    >
+                                        Voltar
+                                    </button>
+                                    <button
+                                        onClick={handleConfirmAction}
+                                        disabled={isSubmittingAction}
+                                        className={`px-4 py-2 rounded-lg font-semibold text-sm text-white transition-colors disabled:opacity-50 ${activeAction === 'cancel' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary hover:bg-primary/90'}`}
+                                    >
+                                        {isSubmittingAction
+                                            ? 'Salvando...'
+                                            : activeAction === 'cancel' ? 'Confirmar Cancelamento'
+                                            : activeAction === 'renegotiate' ? 'Confirmar Renegociação'
+                                            : 'Confirmar Perdão'}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
 
             {/* Installments */}
@@ -192,67 +423,133 @@ export const CreditSaleDetailPage: React.FC = () => {
                                 Atrasadas: <span className="font-semibold text-red-600 dark:text-red-400">{overdueInstallments.length}</span>
                             </span>
                         )}
+                        {cancelledInstallments.length > 0 && (
+                            <span className="text-gray-600 dark:text-gray-400">
+                                Canceladas: <span className="font-semibold text-gray-500 dark:text-gray-400">{cancelledInstallments.length}</span>
+                            </span>
+                        )}
                     </div>
                 </div>
 
                 <div className="space-y-3">
-                    {saleInstallments.map((installment) => (
-                        <div
-                            key={installment.id}
-                            className={`p-4 rounded-lg border ${
-                                installment.status === InstallmentStatus.Paid
-                                    ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
-                                    : installment.status === InstallmentStatus.Overdue
-                                    ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
-                                    : 'bg-gray-50 dark:bg-gray-800/50 border-gray-200 dark:border-gray-700'
-                            }`}
-                        >
-                            <div className="flex items-center justify-between flex-wrap gap-3">
-                                <div className="flex items-center gap-3">
-                                    <div className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(installment.status)}`}>
-                                        {installment.installmentNumber}ª Parcela
-                                    </div>
-                                    <div>
-                                        <p className="text-base font-bold text-gray-900 dark:text-white">
-                                            {formatCurrency(installment.amount)}
-                                        </p>
-                                        <p className="text-xs text-gray-600 dark:text-gray-400">
-                                            Vencimento: {formatDateShort(installment.dueDate)}
-                                        </p>
-                                        {installment.status === InstallmentStatus.Paid && installment.paidDate && (
-                                            <p className="text-xs text-green-600 dark:text-green-400 mt-1">
-                                                Pago em: {formatDateShort(installment.paidDate)}
-                                                {installment.paymentMethod && ` (${installment.paymentMethod})`}
+                    {saleInstallments.map((installment) => {
+                        const installmentPaidAmount = getInstallmentPaidAmount(installment);
+                        const installmentRemaining = getInstallmentRemainingAmount(installment);
+                        return (
+                            <div
+                                key={installment.id}
+                                className={`p-4 rounded-lg border ${
+                                    installment.status === InstallmentStatus.Paid
+                                        ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                                        : installment.status === InstallmentStatus.Overdue
+                                        ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                                        : installment.status === InstallmentStatus.Cancelled
+                                        ? 'bg-gray-50 dark:bg-gray-800/30 border-gray-200 dark:border-gray-700 opacity-60'
+                                        : 'bg-gray-50 dark:bg-gray-800/50 border-gray-200 dark:border-gray-700'
+                                }`}
+                            >
+                                <div className="flex items-center justify-between flex-wrap gap-3">
+                                    <div className="flex items-center gap-3">
+                                        <div className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(installment.status)}`}>
+                                            {installment.installmentNumber}ª Parcela
+                                        </div>
+                                        <div>
+                                            <p className={`text-base font-bold text-gray-900 dark:text-white ${installment.status === InstallmentStatus.Cancelled ? 'line-through' : ''}`}>
+                                                {formatCurrency(installment.amount)}
                                             </p>
-                                        )}
+                                            <p className="text-xs text-gray-600 dark:text-gray-400">
+                                                Vencimento: {formatDateShort(installment.dueDate)}
+                                            </p>
+                                            {installment.status !== InstallmentStatus.Paid && installmentPaidAmount > 0 && (
+                                                <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                                                    Pago: {formatCurrency(installmentPaidAmount)} · Saldo: <span className="font-semibold">{formatCurrency(installmentRemaining)}</span>
+                                                </p>
+                                            )}
+                                            {(installment.payments || []).length > 1 && (
+                                                <div className="mt-1 space-y-0.5">
+                                                    {(installment.payments || []).map(payment => (
+                                                        <p key={payment.id} className="text-xs text-gray-500 dark:text-gray-400">
+                                                            {formatDateShort(payment.paidDate)}: {formatCurrency(payment.amount)} ({payment.paymentMethod})
+                                                        </p>
+                                                    ))}
+                                                </div>
+                                            )}
+                                            {installment.status === InstallmentStatus.Paid && installment.paidDate && (
+                                                <p className="text-xs text-green-600 dark:text-green-400 mt-1">
+                                                    Pago em: {formatDateShort(installment.paidDate)}
+                                                    {installment.paymentMethod && ` (${installment.paymentMethod})`}
+                                                </p>
+                                            )}
+                                        </div>
                                     </div>
+                                    {installment.status === InstallmentStatus.Cancelled ? (
+                                        <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(installment.status)}`}>
+                                            {installment.status}
+                                        </span>
+                                    ) : installment.status !== InstallmentStatus.Paid ? (
+                                        <button
+                                            onClick={() => navigate(`/register-payment?saleId=${sale.id}&installmentId=${installment.id}`)}
+                                            className="px-4 py-2 bg-primary text-white rounded-lg font-semibold hover:bg-primary/90 transition-colors text-sm flex items-center gap-2"
+                                        >
+                                            <Icon name="payment" className="text-base" />
+                                            {installmentPaidAmount > 0 ? 'Pagar Saldo' : 'Registrar Pagamento'}
+                                        </button>
+                                    ) : (
+                                        <button
+                                            onClick={() => {
+                                                // SEMPRE usar os dados diretamente da parcela clicada para garantir que é a parcela correta
+                                                // Isso evita problemas com busca de transações que podem estar incorretas
+                                                navigate(`/payment-receipt?saleId=${sale.id}&installmentId=${installment.id}`);
+                                            }}
+                                            className="px-4 py-2 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border border-green-300 dark:border-green-700 rounded-lg font-semibold hover:bg-green-200 dark:hover:bg-green-900/50 transition-colors text-sm flex items-center gap-2"
+                                        >
+                                            <Icon name="receipt" className="text-base" />
+                                            Ver Comprovante
+                                        </button>
+                                    )}
                                 </div>
-                                {installment.status !== InstallmentStatus.Paid ? (
-                                    <button
-                                        onClick={() => navigate(`/register-payment?saleId=${sale.id}&installmentId=${installment.id}`)}
-                                        className="px-4 py-2 bg-primary text-white rounded-lg font-semibold hover:bg-primary/90 transition-colors text-sm flex items-center gap-2"
-                                    >
-                                        <Icon name="payment" className="text-base" />
-                                        Registrar Pagamento
-                                    </button>
-                                ) : (
-                                    <button
-                                        onClick={() => {
-                                            // SEMPRE usar os dados diretamente da parcela clicada para garantir que é a parcela correta
-                                            // Isso evita problemas com busca de transações que podem estar incorretas
-                                            navigate(`/payment-receipt?saleId=${sale.id}&installmentId=${installment.id}`);
-                                        }}
-                                        className="px-4 py-2 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border border-green-300 dark:border-green-700 rounded-lg font-semibold hover:bg-green-200 dark:hover:bg-green-900/50 transition-colors text-sm flex items-center gap-2"
-                                    >
-                                        <Icon name="receipt" className="text-base" />
-                                        Ver Comprovante
-                                    </button>
-                                )}
                             </div>
-                        </div>
-                    ))}
+                        );
+                    })}
                 </div>
             </div>
+
+            {/* Histórico de ajustes */}
+            {saleEvents.length > 0 && (
+                <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-6 mt-6 shadow-sm">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Histórico</h2>
+                    <div className="space-y-3">
+                        {saleEvents.map(event => (
+                            <div key={event.id} className="flex items-start gap-3">
+                                <Icon name={EVENT_LABELS[event.type].icon} className="text-xl text-gray-500 dark:text-gray-400" />
+                                <div>
+                                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                                        {EVENT_LABELS[event.type].label} · {formatCurrency(event.amount)}
+                                    </p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        {new Date(event.created_at).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                    </p>
+                                    {event.details && (
+                                        <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{event.details}</p>
+                                    )}
+                                    {event.reason && (
+                                        <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">Motivo: {event.reason}</p>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {toast && (
+                <Toast
+                    message={toast.message}
+                    type={toast.type}
+                    duration={4000}
+                    onClose={() => setToast(null)}
+                />
+            )}
         </div>
     );
 };
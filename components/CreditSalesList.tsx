@@ -38,6 +38,9 @@ const getStatusColor = (status: CreditSaleStatus): string => {
             return 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 border-green-300 dark:border-green-700';
         case CreditSaleStatus.Overdue:
             return 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 border-red-300 dark:border-red-700';
+        case CreditSaleStatus.Cancelled:
+        case CreditSaleStatus.WrittenOff:
+            return 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600';
         case CreditSaleStatus.Active:
         default:
             return 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border-blue-300 dark:border-blue-700';
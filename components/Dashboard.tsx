@@ -1,8 +1,11 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Appointment, AppointmentStatus, Transaction, PaymentMethod } from '../types.ts';
+import { Appointment, AppointmentStatus, Transaction, PaymentMethod, Client } from '../types.ts';
 import { generateDailySummary } from '../services/geminiService.ts';
-import { useAppointments, useTransactions, useFinalizeAppointment, useNewAppointment, useEditAppointment } from '../contexts.tsx';
+import { sumPaymentsByMethod } from '../services/transactionPaymentsService.ts';
+import { getLowStockProducts } from '../services/stockService.ts';
+import { buildBirthdayMessage, getUpcomingBirthdays } from '../services/birthdayService.ts';
+import { useAppointments, useTransactions, useFinalizeAppointment, useNewAppointment, useEditAppointment, useProducts, useClients, useSystemSettings } from '../contexts.tsx';
 
 const Icon = ({ name }: { name: string }) => <span className="material-symbols-outlined text-2xl text-zinc-500 dark:text-zinc-400">{name}</span>;
 
@@ -156,16 +159,7 @@ const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({
         e.stopPropagation();
     };
 
-    // Extract client name from appointment
-    let clientName = appointment.clientName;
-    if (appointment.clientName.includes('|')) {
-        [clientName] = appointment.clientName.split('|');
-    } else if (appointment.clientName.includes('(')) {
-        const match = appointment.clientName.match(/^(.+?)\s*\((.+?)\)$/);
-        if (match) {
-            clientName = match[1].trim();
-        }
-    }
+    const clientName = appointment.clientName;
 
     return (
         <div 
@@ -258,18 +252,8 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
                       statusStr === 'atendido' ||
                       appointment.status === AppointmentStatus.Attended ||
                       String(appointment.status) === 'Atendido';
-    const clientName = appointment.clientName.split('|')[0];
-    
-    // Extract WhatsApp number
-    let whatsappNumber = '';
-    if (appointment.clientName.includes('|')) {
-        const match = appointment.clientName.match(/\|(.+)$/);
-        if (match) {
-            whatsappNumber = match[1].trim();
-        }
-    } else {
-        whatsappNumber = appointment.clientName.includes('|') ? appointment.clientName.split('|')[1] : '';
-    }
+    const clientName = appointment.clientName;
+    const whatsappNumber = appointment.clientWhatsapp || '';
     
     const whatsappUrl2 = whatsappNumber ? `https://wa.me/55${whatsappNumber.replace(/\D/g, '')}` : null;
 
@@ -463,6 +447,9 @@ export const DashboardPage: React.FC = () => {
     
     const { appointments, fetchAppointments, addAppointment, updateAppointmentStatus, deleteAppointment } = useAppointments();
     const { transactions, fetchTransactions, addTransaction } = useTransactions();
+    const { products } = useProducts();
+    const { clients } = useClients();
+    const { settings } = useSystemSettings();
     const { setFinalizeData } = useFinalizeAppointment();
     const { setNewAppointmentData } = useNewAppointment();
     const { setEditAppointmentData } = useEditAppointment();
@@ -480,6 +467,23 @@ export const DashboardPage: React.FC = () => {
         };
     }, [fetchAppointments, fetchTransactions]);
 
+    const lowStockProducts = useMemo(() => getLowStockProducts(products), [products]);
+
+    // Aniversariantes de hoje até os próximos 6 dias
+    const upcomingBirthdays = useMemo(() => getUpcomingBirthdays(clients, getTodayLocalDate()), [clients]);
+
+    const formatBirthdayLabel = (date: string, daysUntil: number): string => {
+        if (daysUntil === 0) return 'Hoje';
+        if (daysUntil === 1) return 'Amanhã';
+        const [year, month, day] = date.split('-').map(Number);
+        return new Date(year, month - 1, day).toLocaleDateString('pt-BR', { weekday: 'short', day: '2-digit', month: '2-digit' });
+    };
+
+    const handleSendBirthdayMessage = (client: Client) => {
+        const message = buildBirthdayMessage(client, settings);
+        window.open(`https://wa.me/55${client.whatsapp.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`, '_blank');
+    };
+
     const todayStats = useMemo(() => {
         const todayStr = getTodayLocalDate();
         const todayTransactions = transactions.filter(tx => tx.date === todayStr);
@@ -500,15 +504,7 @@ export const DashboardPage: React.FC = () => {
             : 0;
         
         // Calcular métodos de pagamento
-        const paymentMethods: { [key: string]: number } = {};
-        todayTransactions.forEach(tx => {
-            if (tx.payments && Array.isArray(tx.payments)) {
-                tx.payments.forEach(payment => {
-                    const method = payment.method || 'Não especificado';
-                    paymentMethods[method] = (paymentMethods[method] || 0) + payment.value;
-                });
-            }
-        });
+        const paymentMethods: { [key: string]: number } = sumPaymentsByMethod(todayTransactions);
 
         // Método de pagamento mais usado
         let mostUsedPaymentMethod = 'N/A';
@@ -634,10 +630,9 @@ export const DashboardPage: React.FC = () => {
         
         // Create handler for saving edited appointment
         const handleSaveEditedAppointment = async (appointmentData: Omit<Appointment, 'id' | 'status' | 'created_at'>) => {
-            await Promise.all([
-                deleteAppointment(appointment.id),
-                addAppointment(appointmentData)
-            ]);
+            // Criar o novo antes de remover o antigo, para não perder o agendamento se houver conflito
+            await addAppointment(appointmentData, { ignoreAppointmentId: appointment.id });
+            await deleteAppointment(appointment.id);
         };
         
         setEditAppointmentData(appointment, handleSaveEditedAppointment);
@@ -682,6 +677,25 @@ export const DashboardPage: React.FC = () => {
                     </button>
                 </div>
             </div>
+
+            {/* Low Stock Alert */}
+            {lowStockProducts.length > 0 && (
+                <button
+                    onClick={() => navigate('/settings/stock')}
+                    className="w-full mb-6 flex items-center gap-3 rounded-lg border border-amber-300 dark:border-amber-700/60 bg-amber-50 dark:bg-amber-900/20 px-4 py-3 text-left transition-colors hover:bg-amber-100 dark:hover:bg-amber-900/30"
+                >
+                    <span className="material-symbols-outlined text-amber-600 dark:text-amber-400">inventory_2</span>
+                    <div className="flex-1 min-w-0">
+                        <p className="text-sm font-bold text-amber-800 dark:text-amber-200">
+                            {lowStockProducts.length === 1 ? '1 produto com estoque baixo' : `${lowStockProducts.length} produtos com estoque baixo`}
+                        </p>
+                        <p className="text-xs text-amber-700 dark:text-amber-300 truncate">
+                            {lowStockProducts.map(p => `${p.name} (${p.stock})`).join(', ')}
+                        </p>
+                    </div>
+                    <span className="material-symbols-outlined text-amber-600 dark:text-amber-400">chevron_right</span>
+                </button>
+            )}
             
             {/* Appointments Section */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
@@ -811,6 +825,49 @@ export const DashboardPage: React.FC = () => {
                 </div>
             </div>
 
+            {/* Birthdays This Week */}
+            {upcomingBirthdays.length > 0 && (
+                <div className="mb-6 rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15] p-4 sm:p-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <div className="flex items-center gap-2">
+                            <span className="material-symbols-outlined text-xl text-primary">cake</span>
+                            <h2 className="text-zinc-900 dark:text-white text-lg sm:text-xl font-bold tracking-[-0.015em]">Aniversariantes da Semana</h2>
+                        </div>
+                        <button
+                            onClick={() => navigate('/settings/birthdays')}
+                            className="text-xs font-semibold text-primary hover:text-primary/80 transition-colors"
+                        >
+                            Editar mensagem
+                        </button>
+                    </div>
+                    <div className="flex flex-col divide-y divide-zinc-200 dark:divide-zinc-800">
+                        {upcomingBirthdays.map(({ client, date, age, daysUntil }) => (
+                            <div key={client.id} className="flex items-center justify-between gap-3 py-3 first:pt-0 last:pb-0">
+                                <button
+                                    onClick={() => navigate(`/clients/${client.id}`)}
+                                    className="min-w-0 text-left"
+                                >
+                                    <p className="text-sm font-bold text-zinc-900 dark:text-white truncate">
+                                        {client.fullName}{client.nickname ? ` (${client.nickname})` : ''}
+                                    </p>
+                                    <p className={`text-xs ${daysUntil === 0 ? 'text-primary font-semibold' : 'text-zinc-600 dark:text-zinc-400'}`}>
+                                        {formatBirthdayLabel(date, daysUntil)} · {age} anos
+                                    </p>
+                                </button>
+                                <button
+                                    onClick={() => handleSendBirthdayMessage(client)}
+                                    className="flex shrink-0 items-center gap-1.5 px-3 py-2 rounded-lg bg-green-500/10 hover:bg-green-500/20 text-green-600 dark:text-green-400 text-sm font-bold transition-all"
+                                    title="Enviar parabéns pelo WhatsApp"
+                                >
+                                    <span className="material-symbols-outlined text-base">chat</span>
+                                    <span className="hidden sm:inline">Parabéns</span>
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Stats Cards - Today */}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
                 <div 
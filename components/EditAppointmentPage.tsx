@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Appointment } from '../types.ts';
-import { useAppointments, useAppointmentDetail } from '../contexts.tsx';
+import { useAppointments, useAppointmentDetail, useBusinessHours, useSystemSettings, useServices, useProfessionals } from '../contexts.tsx';
+import { generateTimeSlots, isSlotBooked, normalizeTime, fitsInBusinessHours, filterAppointmentsByProfessional, getFreeProfessionals } from '../services/scheduleService.ts';
 
 interface EditAppointmentPageProps {
     onSave: (appointment: Omit<Appointment, 'id' | 'status' | 'created_at'>) => Promise<void>;
@@ -11,15 +12,6 @@ interface EditAppointmentPageProps {
 const Icon = ({ name, className }: { name: string; className?: string }) => 
     <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
 
-const AVAILABLE_TIMES = ['08:00', '10:00', '14:00', '16:00'];
-
-const normalizeTime = (time: string): string => {
-    if (time.includes(':') && time.split(':').length === 3) {
-        return time.substring(0, 5);
-    }
-    return time;
-};
-
 const isTimeInPast = (date: string, time: string): boolean => {
     const now = new Date();
     const normalizedTime = normalizeTime(time);
@@ -58,11 +50,17 @@ export const EditAppointmentPage: React.FC<EditAppointmentPageProps> = ({ onSave
     const navigate = useNavigate();
     const { appointments } = useAppointments();
     const { setAppointmentDetail } = useAppointmentDetail();
+    const { businessHours } = useBusinessHours();
+    const { settings } = useSystemSettings();
+    const { services } = useServices();
+    const { activeProfessionals } = useProfessionals();
     const [step, setStep] = useState(1);
     const [clientName, setClientName] = useState('');
     const [whatsapp, setWhatsapp] = useState('');
     const [date, setDate] = useState('');
     const [time, setTime] = useState('');
+    const [serviceId, setServiceId] = useState<number | undefined>(initialAppointment.serviceId);
+    const [professionalId, setProfessionalId] = useState<number | undefined>(initialAppointment.professionalId);
     const [errorMessage, setErrorMessage] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [pendingNavigation, setPendingNavigation] = useState<{ clientName: string; date: string; time: string } | null>(null);
@@ -73,26 +71,8 @@ export const EditAppointmentPage: React.FC<EditAppointmentPageProps> = ({ onSave
             setDate(initialAppointment.date);
             setTime(normalizeTime(initialAppointment.time));
             
-            // Extract client name and WhatsApp
-            if (initialAppointment.clientName.includes('|')) {
-                const parts = initialAppointment.clientName.split('|');
-                setClientName(parts[0]);
-                if (parts[1]) {
-                    setWhatsapp(formatWhatsApp(parts[1]));
-                }
-            } else if (initialAppointment.clientName.includes('(')) {
-                const match = initialAppointment.clientName.match(/^(.+?)\s*\((.+?)\)/);
-                if (match) {
-                    setClientName(match[1].trim());
-                    if (match[2]) {
-                        setWhatsapp(formatWhatsApp(match[2]));
-                    }
-                } else {
-                    setClientName(initialAppointment.clientName);
-                }
-            } else {
-                setClientName(initialAppointment.clientName);
-            }
+            setClientName(initialAppointment.clientName);
+            setWhatsapp(initialAppointment.clientWhatsapp ? formatWhatsApp(initialAppointment.clientWhatsapp) : '');
         }
     }, [initialAppointment]);
 
@@ -157,26 +137,53 @@ export const EditAppointmentPage: React.FC<EditAppointmentPageProps> = ({ onSave
         setWhatsapp(formatted);
     };
 
+    // O horário reservado dura o tempo do serviço escolhido (ou um intervalo da agenda)
+    const selectedService = services.find(s => s.id === serviceId);
+    const bookingDuration = selectedService?.duration || initialAppointment.duration || settings.slotInterval;
+
+    // Sem profissionais cadastrados a agenda continua única (agendamentos sem profissional)
+    const hasProfessionals = activeProfessionals.length > 0;
+
+    // Profissionais com o período livre no dia e horário informados (ignorando o próprio agendamento)
+    const getAvailableProfessionals = (selectedDate: string, selectedTime: string) => {
+        const dayAppointments = appointments.filter(apt => apt.date === selectedDate);
+        return getFreeProfessionals(activeProfessionals, normalizeTime(selectedTime), bookingDuration, dayAppointments, settings.slotInterval, initialAppointment.id);
+    };
+
     // Function to check if a time slot is available (excluding current appointment)
     const isTimeSlotAvailable = (selectedDate: string, selectedTime: string): boolean => {
         const normalizedTime = normalizeTime(selectedTime);
         
-        // If it's the same date and time as the original appointment, it's always available
-        if (selectedDate === initialAppointment.date && normalizedTime === normalizeTime(initialAppointment.time)) {
-            return true;
+        if (hasProfessionals) {
+            return getAvailableProfessionals(selectedDate, normalizedTime).length > 0;
         }
         
-        const isBooked = appointments.some(apt => {
-            // Skip the current appointment being edited
-            if (apt.id === initialAppointment.id) {
-                return false;
-            }
-            const aptNormalizedTime = normalizeTime(apt.time);
-            return apt.date === selectedDate && aptNormalizedTime === normalizedTime;
-        });
-        return !isBooked;
+        // Skip the current appointment being edited
+        const dayAppointments = filterAppointmentsByProfessional(appointments.filter(apt => apt.date === selectedDate), undefined);
+        return !isSlotBooked(normalizedTime, settings.slotInterval, dayAppointments, initialAppointment.id, bookingDuration);
     };
 
+    // Só são oferecidos os profissionais livres no horário escolhido
+    const freeProfessionals = useMemo(() => {
+        if (!date || !time) return [];
+        return getAvailableProfessionals(date, time);
+    }, [date, time, appointments, activeProfessionals, bookingDuration, settings.slotInterval, initialAppointment.id]);
+
+    // Descarta o profissional escolhido se ele deixar de estar livre (mudança de data, horário ou serviço)
+    useEffect(() => {
+        if (!hasProfessionals || !time) return;
+        if (professionalId && !freeProfessionals.some(p => p.id === professionalId)) {
+            setProfessionalId(undefined);
+        } else if (!professionalId && activeProfessionals.length === 1 && freeProfessionals.length === 1) {
+            setProfessionalId(freeProfessionals[0].id);
+        }
+    }, [freeProfessionals, professionalId, hasProfessionals, time, activeProfessionals.length]);
+
+    const selectedProfessional = activeProfessionals.find(p => p.id === professionalId);
+
+    // Horários do dia gerados a partir do horário de funcionamento
+    const availableTimes = generateTimeSlots(date, businessHours, settings.slotInterval);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setErrorMessage('');
@@ -198,20 +205,28 @@ export const EditAppointmentPage: React.FC<EditAppointmentPageProps> = ({ onSave
             return;
         }
 
+        if (hasProfessionals && !selectedProfessional) {
+            setErrorMessage("Por favor, selecione o profissional!");
+            return;
+        }
+
         try {
             setIsSubmitting(true);
-            const clientNameWithWhatsApp = whatsapp ? `${clientName}|${whatsapp.replace(/\D/g, '')}` : clientName;
-            
             await onSave({
-                clientName: clientNameWithWhatsApp,
-                service: '',
+                clientName,
+                clientWhatsapp: whatsapp || undefined,
+                service: selectedService?.name || initialAppointment.service,
+                serviceId: selectedService?.id,
+                duration: selectedService?.duration || initialAppointment.duration,
+                clientId: initialAppointment.clientId,
+                professionalId: selectedProfessional?.id,
                 date,
                 time,
             });
             
             // Define pendingNavigation para que o useEffect navegue quando o appointment for criado
             setPendingNavigation({
-                clientName: clientNameWithWhatsApp,
+                clientName,
                 date,
                 time
             });
@@ -367,6 +382,30 @@ export const EditAppointmentPage: React.FC<EditAppointmentPageProps> = ({ onSave
                                 </label>
                             </div>
 
+                            {/* Service Selection */}
+                            <div className="space-y-3">
+                                <label className="block space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <Icon name="content_cut" className="text-gray-400 text-base" />
+                                        <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                                            Serviço <span className="text-gray-500 text-xs">(Opcional)</span>
+                                        </p>
+                                    </div>
+                                    <select
+                                        className="w-full h-10 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-3 text-sm font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-2 focus:ring-primary/20 transition-all"
+                                        value={serviceId ?? ''}
+                                        onChange={(e) => setServiceId(e.target.value ? Number(e.target.value) : undefined)}
+                                    >
+                                        <option value="">Sem serviço definido ({settings.slotInterval} min)</option>
+                                        {services.map(service => (
+                                            <option key={service.id} value={service.id}>
+                                                {service.name} ({service.duration} min)
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                            </div>
+
                             {/* Available Times */}
                             <div className="space-y-3">
                                 <div className="flex items-center gap-2">
@@ -374,11 +413,17 @@ export const EditAppointmentPage: React.FC<EditAppointmentPageProps> = ({ onSave
                                 <p className="text-sm font-semibold text-gray-900 dark:text-white">Horários Disponíveis</p>
                                 </div>
                                 <div className="grid grid-cols-2 gap-2">
-                                    {AVAILABLE_TIMES.map((availableTime) => {
+                                    {availableTimes.length === 0 && (
+                                        <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400 text-center py-2">
+                                            A barbearia não abre nesta data.
+                                        </p>
+                                    )}
+                                    {availableTimes.map((availableTime) => {
                                         const isPast = isTimeInPast(date, availableTime);
                                         const isBooked = !isTimeSlotAvailable(date, availableTime);
+                                        const doesNotFit = !fitsInBusinessHours(date, availableTime, bookingDuration, businessHours);
                                         const isSelected = time === availableTime;
-                                        const isDisabled = isPast || isBooked;
+                                        const isDisabled = isPast || isBooked || doesNotFit;
                                         
                                         return (
                                             <button
@@ -405,12 +450,56 @@ export const EditAppointmentPage: React.FC<EditAppointmentPageProps> = ({ onSave
                                                         Ocupado
                                                     </span>
                                                 )}
+                                                {doesNotFit && !isBooked && !isPast && (
+                                                    <span className="block text-xs mt-0.5">
+                                                        Sem tempo
+                                                    </span>
+                                                )}
                                             </button>
                                         );
                                     })}
                                 </div>
                             </div>
 
+                            {/* Professional Selection */}
+                            {hasProfessionals && (
+                                <div className="space-y-3">
+                                    <div className="flex items-center gap-2">
+                                        <Icon name="person" className="text-gray-400 text-base" />
+                                        <p className="text-sm font-semibold text-gray-900 dark:text-white">Profissional</p>
+                                    </div>
+                                    {!time ? (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-2">
+                                            Escolha um horário para ver os profissionais livres.
+                                        </p>
+                                    ) : freeProfessionals.length === 0 ? (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-2">
+                                            Nenhum profissional livre neste horário.
+                                        </p>
+                                    ) : (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {freeProfessionals.map(professional => {
+                                                const isSelected = professionalId === professional.id;
+                                                return (
+                                                    <button
+                                                        key={professional.id}
+                                                        type="button"
+                                                        onClick={() => setProfessionalId(professional.id)}
+                                                        className={`h-10 px-2 rounded-lg font-medium text-sm truncate transition-all ${
+                                                            isSelected
+                                                                ? 'bg-primary text-white ring-2 ring-primary ring-offset-2'
+                                                                : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-700 border border-gray-300 dark:border-gray-600'
+                                                        }`}
+                                                    >
+                                                        {professional.name}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Summary and Confirm Button (Desktop) */}
                             <div className="hidden lg:block pt-5 border-t border-gray-200 dark:border-gray-800 space-y-4">
                                 {/* Selected Info Summary */}
@@ -426,12 +515,18 @@ export const EditAppointmentPage: React.FC<EditAppointmentPageProps> = ({ onSave
                                                 <span className="font-medium text-gray-900 dark:text-white">{time}</span>
                                             </div>
                                         )}
+                                        {selectedProfessional && (
+                                            <div className="flex items-center justify-between text-gray-600 dark:text-gray-400">
+                                                <span>Profissional:</span>
+                                                <span className="font-medium text-gray-900 dark:text-white truncate ml-2">{selectedProfessional.name}</span>
+                                            </div>
+                                        )}
                         </div>
                     )}
 
                                 <button 
                                     type="submit"
-                                    disabled={isSubmitting || !clientName.trim() || !time}
+                                    disabled={isSubmitting || !clientName.trim() || !time || (hasProfessionals && !selectedProfessional)}
                                     className="w-full h-11 rounded-lg bg-primary text-white font-semibold hover:bg-primary/90 disabled:bg-primary/50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 text-sm shadow-lg shadow-primary/20"
                                 >
                                     {isSubmitting ? (
@@ -461,7 +556,7 @@ export const EditAppointmentPage: React.FC<EditAppointmentPageProps> = ({ onSave
                                 </button>
                                 <button 
                                     type="submit"
-                                    disabled={isSubmitting || !time}
+                                    disabled={isSubmitting || !time || (hasProfessionals && !selectedProfessional)}
                                         className="flex-1 px-6 h-10 rounded-lg bg-primary text-white font-semibold hover:bg-primary/90 disabled:bg-primary/50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 text-sm"
                                 >
                                     {isSubmitting ? (
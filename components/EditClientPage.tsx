@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { useClients } from '../contexts.tsx';
+import { useClients, useSystemSettings } from '../contexts.tsx';
+import { getTodayLocalDate } from '../services/dateService.ts';
 import { Toast, ToastType } from './Toast.tsx';
 
 const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => 
@@ -48,10 +49,18 @@ const formatCPF = (value: string): string => {
     }
 };
 
+// Limite no fiado digitado com vírgula ("150,00"); vazio = sem limite, null = valor inválido
+const parseCreditLimit = (value: string): number | undefined | null => {
+    if (!value.trim()) return undefined;
+    const parsed = parseFloat(value.replace(',', '.'));
+    return isNaN(parsed) || parsed < 0 ? null : Math.round(parsed * 100) / 100;
+};
+
 export const EditClientPage: React.FC = () => {
     const navigate = useNavigate();
     const { id } = useParams<{ id: string }>();
     const { clients, updateClient } = useClients();
+    const { settings } = useSystemSettings();
     const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     
@@ -63,6 +72,8 @@ export const EditClientPage: React.FC = () => {
         nickname: '',
         observation: '',
         cpf: '',
+        creditLimit: '',
+        birthDate: '',
     });
 
     // Preencher formulário quando cliente for carregado
@@ -74,6 +85,8 @@ export const EditClientPage: React.FC = () => {
                 nickname: client.nickname || '',
                 observation: client.observation || '',
                 cpf: client.cpf || '',
+                creditLimit: client.creditLimit !== undefined ? client.creditLimit.toFixed(2).replace('.', ',') : '',
+                birthDate: client.birthDate || '',
             });
         }
     }, [client]);
@@ -97,6 +110,17 @@ export const EditClientPage: React.FC = () => {
             return;
         }
 
+        const creditLimit = parseCreditLimit(formData.creditLimit);
+        if (creditLimit === null) {
+            setToast({ message: 'Limite no fiado inválido', type: 'error' });
+            return;
+        }
+
+        if (formData.birthDate && formData.birthDate > getTodayLocalDate()) {
+            setToast({ message: 'Data de nascimento não pode ser no futuro', type: 'error' });
+            return;
+        }
+
         try {
             setIsSubmitting(true);
             await updateClient(client.id, {
@@ -105,6 +129,8 @@ export const EditClientPage: React.FC = () => {
                 nickname: formData.nickname.trim() || undefined,
                 observation: formData.observation.trim() || undefined,
                 cpf: formData.cpf.trim() || undefined,
+                creditLimit,
+                birthDate: formData.birthDate || undefined,
             });
             
             setToast({ message: 'Cliente atualizado com sucesso!', type: 'success' });
@@ -249,6 +275,43 @@ export const EditClientPage: React.FC = () => {
                             </p>
                         </div>
 
+                        {/* Data de nascimento (Opcional) */}
+                        <div>
+                            <label className="block text-xs sm:text-sm font-semibold text-gray-900 dark:text-white mb-1.5 sm:mb-2">
+                                Data de Nascimento
+                            </label>
+                            <input
+                                type="date"
+                                value={formData.birthDate}
+                                max={getTodayLocalDate()}
+                                onChange={(e) => setFormData({ ...formData, birthDate: e.target.value })}
+                                className="w-full sm:max-w-xs px-3 sm:px-4 py-2 sm:py-2.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg text-sm sm:text-base text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent transition-all"
+                            />
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                Para a mensagem de parabéns e o desconto de aniversário (opcional)
+                            </p>
+                        </div>
+
+                        {/* Limite de crédito no fiado (Opcional) */}
+                        {settings.creditSalesEnabled && (
+                            <div>
+                                <label className="block text-xs sm:text-sm font-semibold text-gray-900 dark:text-white mb-1.5 sm:mb-2">
+                                    Limite no Fiado (R$)
+                                </label>
+                                <input
+                                    type="text"
+                                    inputMode="decimal"
+                                    value={formData.creditLimit}
+                                    onChange={(e) => setFormData({ ...formData, creditLimit: e.target.value.replace(/[^\d,]/g, '') })}
+                                    className="w-full sm:max-w-xs px-3 sm:px-4 py-2 sm:py-2.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg text-sm sm:text-base text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent transition-all"
+                                    placeholder="Sem limite"
+                                />
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                    Saldo máximo em aberto no fiado; deixe vazio para não limitar
+                                </p>
+                            </div>
+                        )}
+
                         {/* Observação (Opcional) */}
                         <div>
                             <label className="block text-xs sm:text-sm font-semibold text-gray-900 dark:text-white mb-1.5 sm:mb-2">
@@ -165,11 +165,14 @@ export const FinalizeAppointmentModal: React.FC<FinalizeAppointmentModalProps> =
         try {
             await onFinalize({
                 clientName: appointment.clientName,
+                clientId: appointment.clientId,
+                clientWhatsapp: appointment.clientWhatsapp,
                 service: selectedServices.map(s => s.name).join(', '),
                 paymentMethod: payments.map(p => p.method).join(', '),
                 subtotal: subtotal,
                 discount: discountValue,
                 value: totalValue,
+                fromAppointment: true,
             });
             console.log('onFinalize completed, closing modal and navigating...');
             onClose();
@@ -208,14 +211,7 @@ export const FinalizeAppointmentModal: React.FC<FinalizeAppointmentModalProps> =
                                 <div>
                                     <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Cliente</p>
                                     <p className="text-base font-semibold text-gray-900 dark:text-white mt-1">
-                                        {(() => {
-                                            if (appointment.clientName.includes('|')) {
-                                                return appointment.clientName.split('|')[0];
-                                            } else if (appointment.clientName.includes('(')) {
-                                                return appointment.clientName.split('(')[0].trim();
-                                            }
-                                            return appointment.clientName;
-                                        })()}
+                                        {appointment.clientName}
                                     </p>
                                 </div>
                                 
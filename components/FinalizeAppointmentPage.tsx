@@ -1,10 +1,17 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useServices, useClients } from '../contexts.tsx';
+import { useServices, useClients, useProfessionals, useSystemSettings, useTransactions } from '../contexts.tsx';
 import { Appointment, Service, PaymentMethod, Transaction, Client } from '../types.ts';
 import { ClientSearchSelector } from './ClientSearchSelector.tsx';
 import { BottomSheet } from './BottomSheet.tsx';
+import { ProfessionalPicker } from './ProfessionalPicker.tsx';
+import { LoyaltyRewardPicker } from './LoyaltyRewardPicker.tsx';
+import { BirthdayDiscountToggle } from './BirthdayDiscountToggle.tsx';
 import { getPaymentMethodOptions } from '../constants.ts';
+import { buildServiceItem, formatItemsDescription, getTransactionItems } from '../services/transactionItemsService.ts';
+import { buildTransactionPayments, formatPaymentMethods, getTransactionPayments } from '../services/transactionPaymentsService.ts';
+import { getRewardsDiscount } from '../services/loyaltyService.ts';
+import { getBirthdayDiscount, isBirthdayDiscountAvailable } from '../services/birthdayService.ts';
 
 const paymentMethodOptions = Object.values(PaymentMethod);
 
@@ -58,11 +65,16 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
     const navigate = useNavigate();
     const { services } = useServices();
     const { clients, addClient } = useClients();
+    const { activeProfessionals } = useProfessionals();
+    const { settings } = useSystemSettings();
+    const { transactions } = useTransactions();
 
     const [selectedServices, setSelectedServices] = useState<Service[]>([]);
     const [payments, setPayments] = useState<PaymentState[]>([{ id: Date.now(), method: '' as PaymentMethod, amount: '' }]);
     const [discount, setDiscount] = useState('');
     const [discountError, setDiscountError] = useState<string | null>(null);
+    const [loyaltyRewards, setLoyaltyRewards] = useState(0); // Recompensas de fidelidade trocadas neste atendimento
+    const [applyBirthdayDiscount, setApplyBirthdayDiscount] = useState(true);
     const [paymentError, setPaymentError] = useState<string | null>(null);
     const [showAllServices, setShowAllServices] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
@@ -74,6 +86,10 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
     const [clientName, setClientName] = useState('');
     const [selectedClient, setSelectedClient] = useState<Client | null>(null);
     const [appointmentWhatsapp, setAppointmentWhatsapp] = useState<string | null>(null);
+    
+    // Profissional que realizou o atendimento (vem do agendamento ou do atendimento em edição)
+    const [professionalId, setProfessionalId] = useState<number | undefined>(initialData?.professionalId ?? appointment.professionalId);
+    const [professionalError, setProfessionalError] = useState<string | null>(null);
 
     const subtotal = useMemo(() => {
         return selectedServices.reduce((acc, service) => acc + service.price, 0);
@@ -84,10 +100,34 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
         return isNaN(parsed) || parsed < 0 ? 0 : parsed;
     }, [discount]);
 
+    // Desconto de aniversário (na edição já está no desconto gravado)
+    const birthdayDiscountAvailable = useMemo(() => {
+        return !isEditing && isBirthdayDiscountAvailable(selectedClient, appointment.date, transactions, settings);
+    }, [isEditing, selectedClient, appointment.date, transactions, settings]);
+
+    const birthdayDiscount = useMemo(() => {
+        if (!birthdayDiscountAvailable || !applyBirthdayDiscount) return 0;
+        return Math.min(getBirthdayDiscount(subtotal, settings), Math.max(0, subtotal - discountValue));
+    }, [birthdayDiscountAvailable, applyBirthdayDiscount, subtotal, settings, discountValue]);
+
+    // Desconto da fidelidade, limitado ao que sobra depois dos outros descontos
+    const loyaltyDiscount = useMemo(() => {
+        return Math.min(getRewardsDiscount(loyaltyRewards, settings), Math.max(0, subtotal - discountValue - birthdayDiscount));
+    }, [loyaltyRewards, settings, subtotal, discountValue, birthdayDiscount]);
+
     const totalValue = useMemo(() => {
-        const total = subtotal - discountValue;
+        const total = subtotal - discountValue - birthdayDiscount - loyaltyDiscount;
         return total < 0 ? 0 : total;
-    }, [subtotal, discountValue]);
+    }, [subtotal, discountValue, birthdayDiscount, loyaltyDiscount]);
+
+    // Trocar de cliente ou de serviços desfaz a troca de recompensas
+    useEffect(() => {
+        setLoyaltyRewards(0);
+    }, [selectedClient?.id, subtotal]);
+
+    useEffect(() => {
+        setApplyBirthdayDiscount(true);
+    }, [selectedClient?.id]);
 
     // Filtrar serviços baseado na busca
     const filteredServices = useMemo(() => {
@@ -110,21 +150,26 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
     useEffect(() => {
         if (isEditing && initialData) {
             // Pre-fill with existing transaction data
-            // Parse and select services from the transaction
-            if (initialData.service) {
-                const serviceNames = initialData.service.split(',').map(s => s.trim().toLowerCase());
-                const preSelected = services.filter(service => 
-                    serviceNames.some(name => service.name.toLowerCase().includes(name) || name.includes(service.name.toLowerCase()))
-                );
-                setSelectedServices(preSelected);
-            }
+            // Select the services linked to the transaction items
+            const serviceIds = getTransactionItems(initialData, services, [])
+                .map(item => item.serviceId)
+                .filter((serviceId): serviceId is number => serviceId !== undefined);
+            setSelectedServices(services.filter(service => serviceIds.includes(service.id)));
             
             setDiscount(initialData.discount.toFixed(2).replace('.', ','));
-            setPayments([{ id: Date.now(), method: initialData.paymentMethod as PaymentMethod, amount: initialData.value.toFixed(2).replace('.', ',') }]);
+            // Restaura o valor pago em cada método
+            setPayments(getTransactionPayments(initialData).map((payment, index) => ({
+                id: Date.now() + index,
+                method: payment.method as PaymentMethod,
+                amount: payment.amount.toFixed(2).replace('.', ',')
+            })));
         } else if (!isEditing) {
-            // Original logic for appointments
+            // Original logic for appointments: usar o serviço vinculado, senão procurar pelo nome
             const appointmentServiceText = appointment.service.toLowerCase();
-            const preSelected = services.filter(service => appointmentServiceText.includes(service.name.toLowerCase()));
+            const linkedService = appointment.serviceId ? services.find(service => service.id === appointment.serviceId) : undefined;
+            const preSelected = linkedService
+                ? [linkedService]
+                : services.filter(service => appointmentServiceText.includes(service.name.toLowerCase()));
             setSelectedServices(preSelected);
             
             const initialSubtotal = preSelected.reduce((acc, s) => acc + s.price, 0);
@@ -209,47 +254,40 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
             return;
         }
         
+        // Fidelidade ou aniversário cobrindo todo o valor: não há o que pagar
+        const paidByDiscounts = loyaltyDiscount + birthdayDiscount > 0 && totalValue === 0;
+
         // Validar se há pelo menos um método de pagamento válido
         const validPayments = payments.filter(p => {
             const amount = parseFloat(p.amount.replace(',', '.')) || 0;
             return amount > 0 && p.method && p.method !== '';
         });
         
-        if (validPayments.length === 0) {
+        if (validPayments.length === 0 && !paidByDiscounts) {
             setPaymentError("Por favor, selecione um método de pagamento válido.");
             return;
         }
         
         const totalPaid = payments.reduce((acc, p) => acc + (parseFloat(p.amount.replace(',', '.')) || 0), 0);
-        if (Math.abs(totalPaid - totalValue) > 0.01) {
+        if (Math.abs(totalPaid - totalValue) > 0.01 && !paidByDiscounts) {
             setPaymentError(`O total pago (R$ ${totalPaid.toFixed(2)}) não corresponde ao valor final (R$ ${totalValue.toFixed(2)}). Ajuste os valores.`);
             return;
         }
 
+        if (activeProfessionals.length > 0 && !professionalId) {
+            setProfessionalError("Por favor, selecione o profissional que realizou o atendimento.");
+            return;
+        }
+
         try {
             setIsSubmitting(true);
             
             // Verificar se precisa salvar novo cliente
-            let finalClientName = clientName.trim() || (() => {
-                if (appointment.clientName.includes('|')) {
-                    return appointment.clientName.split('|')[0];
-                } else if (appointment.clientName.includes('(')) {
-                    return appointment.clientName.split('(')[0].trim();
-                }
-                return appointment.clientName;
-            })();
+            let finalClientName = clientName.trim() || appointment.clientName;
             
             // Se digitou um nome diferente e não selecionou cliente da base, perguntar se quer salvar
             if (clientName.trim() && !selectedClient) {
-                // Extrair nome original do appointment
-                const originalClientName = (() => {
-                    if (appointment.clientName.includes('|')) {
-                        return appointment.clientName.split('|')[0];
-                    } else if (appointment.clientName.includes('(')) {
-                        return appointment.clientName.split('(')[0].trim();
-                    }
-                    return appointment.clientName;
-                })();
+                const originalClientName = appointment.clientName;
                 
                 // Verificar se o cliente já existe na base
                 const clientExists = clients.some(c => 
@@ -262,24 +300,24 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
                 }
             }
             
-            // Construir clientName no formato original (com WhatsApp se houver)
-            let finalClientNameWithWhatsapp = finalClientName;
-            if (appointmentWhatsapp) {
-                // Usar o WhatsApp do agendamento
-                finalClientNameWithWhatsapp = `${finalClientName}|${appointmentWhatsapp}`;
-            } else if (selectedClient && selectedClient.whatsapp) {
-                // Se não houver WhatsApp no agendamento, usar o do cliente da base
-                finalClientNameWithWhatsapp = `${finalClientName}|${selectedClient.whatsapp}`;
-            }
-            
+            const items = selectedServices.map(service => buildServiceItem(service));
+            const transactionPayments = paidByDiscounts ? [] : buildTransactionPayments(payments, totalValue);
             const transactionData: any = {
-                clientName: finalClientNameWithWhatsapp,
-                service: selectedServices.map(s => s.name).join(', '),
-                paymentMethod: payments.map(p => p.method).join(', '),
+                clientName: finalClientName,
+                clientId: selectedClient?.id,
+                // WhatsApp do agendamento; se não houver, o do cliente da base
+                clientWhatsapp: appointmentWhatsapp || selectedClient?.whatsapp || undefined,
+                service: formatItemsDescription(items),
+                items,
+                payments: transactionPayments,
+                paymentMethod: paidByDiscounts ? (loyaltyDiscount > 0 ? 'Fidelidade' : 'Aniversário') : formatPaymentMethods(transactionPayments),
                 subtotal: subtotal,
-                discount: discountValue,
+                discount: Math.round((discountValue + birthdayDiscount + loyaltyDiscount) * 100) / 100,
                 value: totalValue,
+                loyaltyPointsRedeemed: loyaltyRewards > 0 ? loyaltyRewards * settings.loyaltyRewardPoints : undefined,
+                birthdayDiscount: birthdayDiscount > 0 ? birthdayDiscount : undefined,
                 fromAppointment: true, // Marcador para identificar que veio de um agendamento
+                professionalId,
             };
             
             // If not editing, add date (for new transactions)
@@ -309,36 +347,16 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
 
     // Inicializar nome do cliente e WhatsApp do appointment
     useEffect(() => {
-        let initialClientName = appointment.clientName;
-        let whatsappFromAppointment: string | null = null;
-        
-        // Extrair nome e WhatsApp do appointment
-                if (appointment.clientName.includes('|')) {
-            const parts = appointment.clientName.split('|');
-            initialClientName = parts[0];
-            whatsappFromAppointment = parts[1] || null;
-                } else if (appointment.clientName.includes('(')) {
-            const parts = appointment.clientName.split('(');
-            initialClientName = parts[0].trim();
-            // Extrair número entre parênteses
-            const phoneMatch = appointment.clientName.match(/\(([^)]+)\)/);
-            if (phoneMatch) {
-                whatsappFromAppointment = phoneMatch[1];
-            }
-        }
-        
-        // Definir o nome do cliente e WhatsApp do agendamento
-            setClientName(initialClientName);
-        setAppointmentWhatsapp(whatsappFromAppointment);
-            
-            // Tentar encontrar cliente na base pelo nome
-            const foundClient = clients.find(c => 
-                c.fullName.toLowerCase() === initialClientName.toLowerCase()
-            );
-        
+        setClientName(appointment.clientName);
+        setAppointmentWhatsapp(appointment.clientWhatsapp || null);
+
+        // Cliente vinculado ao agendamento; sem vínculo, tenta encontrar na base pelo nome
+        const foundClient = clients.find(c => c.id === appointment.clientId)
+            || clients.find(c => c.fullName.toLowerCase() === appointment.clientName.toLowerCase());
+
         // Sempre atualizar selectedClient, mesmo que seja null
         setSelectedClient(foundClient || null);
-    }, [appointment.clientName, clients]);
+    }, [appointment.clientName, appointment.clientWhatsapp, appointment.clientId, clients]);
 
     // Detectar se é mobile
     const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
@@ -356,6 +374,10 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
             alert("Por favor, selecione ao menos um serviço.");
             return;
         }
+        if (activeProfessionals.length > 0 && !professionalId) {
+            setProfessionalError("Por favor, selecione o profissional que realizou o atendimento.");
+            return;
+        }
         setCurrentStep(2);
     };
 
@@ -435,6 +457,15 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
                             </label>
                         </div>
 
+                        <ProfessionalPicker
+                            value={professionalId}
+                            onChange={(id) => {
+                                setProfessionalId(id);
+                                setProfessionalError(null);
+                            }}
+                            error={professionalError}
+                        />
+
                         {/* Services Section */}
                         <div className="bg-white dark:bg-gray-900/50 rounded-xl p-5 border border-gray-200 dark:border-gray-800 shadow-sm">
                             <div className="flex items-center gap-2 mb-4">
@@ -618,6 +649,26 @@ export const FinalizeAppointmentPage: React.FC<FinalizeAppointmentPageProps> = (
                                         )}
                                     </div>
 
+                                    {/* Aniversário */}
+                                    {birthdayDiscountAvailable && (
+                                        <BirthdayDiscountToggle
+                                            percentage={settings.birthdayDiscountPercentage}
+                                            discount={birthdayDiscount}
+                                            applied={applyBirthdayDiscount}
+                                            onAppliedChange={setApplyBirthdayDiscount}
+                                        />
+                                    )}
+
+                                    {/* Fidelidade (na edição os pontos do atendimento já foram lançados) */}
+                                    {!isEditing && (
+                                        <LoyaltyRewardPicker
+                                            clientId={selectedClient?.id}
+                                            maxDiscount={Math.max(0, subtotal - discountValue - birthdayDiscount)}
+                                            rewards={loyaltyRewards}
+                                            onRewardsChange={setLoyaltyRewards}
+                                        />
+                                    )}
+
                                     <div className="flex justify-between items-center pt-2 border-t border-gray-200 dark:border-gray-700">
                                         <span className="text-base font-bold text-gray-900 dark:text-white">Total</span>
                                         <span className="text-2xl font-black text-primary">R$ {totalValue.toFixed(2).replace('.', ',')}</span>
@@ -212,11 +212,6 @@ export const FinalizedServicesPage: React.FC = () => {
         return `R$ ${formattedInteger},${decimalPart}`;
     };
 
-    // Extract client name (remove WhatsApp if present)
-    const getClientName = (clientName: string): string => {
-        return clientName.includes('|') ? clientName.split('|')[0] : clientName;
-    };
-
     // Calculate totals
     const totals = useMemo(() => {
         return {
@@ -387,12 +382,12 @@ export const FinalizedServicesPage: React.FC = () => {
                                             {transaction.type === 'agendado' ? (
                                                 <>
                                                     <Icon name="event_available" className="text-base flex-shrink-0" style={{ color: '#ff0000' }} />
-                                                    <span className="truncate">{getClientName(transaction.clientName)}</span>
+                                                    <span className="truncate">{transaction.clientName}</span>
                                                 </>
                                             ) : (
                                                 <>
                                                     <Icon name="order_approve" className="text-base flex-shrink-0" style={{ color: '#ff0000' }} />
-                                                    <span className="truncate">{getClientName(transaction.clientName)}</span>
+                                                    <span className="truncate">{transaction.clientName}</span>
                                                 </>
                                             )}
                                         </p>
@@ -449,12 +444,12 @@ export const FinalizedServicesPage: React.FC = () => {
                                             {transaction.type === 'agendado' ? (
                                                 <>
                                                     <Icon name="event_available" className="text-lg" style={{ color: '#ff0000' }} />
-                                                    <span>{getClientName(transaction.clientName)}</span>
+                                                    <span>{transaction.clientName}</span>
                                                 </>
                                             ) : (
                                                 <>
                                                     <Icon name="order_approve" className="text-lg" style={{ color: '#ff0000' }} />
-                                                    <span>{getClientName(transaction.clientName)}</span>
+                                                    <span>{transaction.clientName}</span>
                                                 </>
                                             )}
                                         </p>
@@ -541,7 +536,7 @@ export const FinalizedServicesPage: React.FC = () => {
                         <div className="space-y-2 mb-5 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
                             <p className="text-sm">
                                 <span className="font-semibold text-gray-900 dark:text-white">Cliente:</span>{' '}
-                                <span className="text-gray-700 dark:text-gray-300">{getClientName(selectedTransaction.clientName)}</span>
+                                <span className="text-gray-700 dark:text-gray-300">{selectedTransaction.clientName}</span>
                             </p>
                             <p className="text-sm">
                                 <span className="font-semibold text-gray-900 dark:text-white">Valor:</span>{' '}
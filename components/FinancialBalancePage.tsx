@@ -1,35 +1,18 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { Expense, InstallmentStatus } from '../types.ts';
-import { useExpenses, useTransactions, useCreditSales, useExpenseCategories } from '../contexts.tsx';
+import { Expense } from '../types.ts';
+import { useExpenses, useTransactions, useCreditSales, useExpenseCategories, useServices, useProducts, usePaymentFees } from '../contexts.tsx';
+import { buildMarginLines, summarizeMargin, getLossLines } from '../services/marginService.ts';
+import { buildReceivables, summarizeReceivables } from '../services/paymentFeesService.ts';
+import { NetRevenueCard, ReceivablesCalendar } from './PaymentFeesSummary.tsx';
+import { getPeriodRange } from '../services/dateService.ts';
+import { isInstallmentPaid } from '../services/creditSaleService.ts';
 
 const Icon = ({ name, className }: { name: string; className?: string }) => 
     <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
 
-// Helper function to get today's date in local timezone (YYYY-MM-DD format)
-const getTodayLocalDate = (): string => {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, '0');
-    const day = String(today.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
-
-// Helper function to format Date object to YYYY-MM-DD in local timezone
-const formatLocalDate = (date: Date): string => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
-
 type DateFilter = 'day' | 'week' | 'month' | 'year' | 'all';
 
-// Helper to check if installment is paid
-const isPaid = (status: InstallmentStatus | string): boolean => {
-    return status === InstallmentStatus.Paid || status === 'Paga' || String(status).trim() === 'Paga';
-};
-
 // Format date
 const formatDate = (dateString: string): string => {
     const date = new Date(dateString + 'T00:00:00');
@@ -64,6 +47,9 @@ export const FinancialBalancePage: React.FC = () => {
     const { transactions, fetchTransactions } = useTransactions();
     const { installments, fetchCreditSales } = useCreditSales();
     const { categories } = useExpenseCategories();
+    const { services } = useServices();
+    const { products } = useProducts();
+    const { paymentFees } = usePaymentFees();
 
     // Get date filter from URL params or default to 'month'
     const [dateFilter, setDateFilter] = useState<DateFilter>(() => {
@@ -79,37 +65,7 @@ export const FinancialBalancePage: React.FC = () => {
 
     // Get date range based on filter
     const getDateRange = (filter: DateFilter): { start: string; end: string } | null => {
-        const today = new Date();
-        const startDate = new Date();
-        
-        switch(filter) {
-            case 'day':
-                return {
-                    start: getTodayLocalDate(),
-                    end: getTodayLocalDate()
-                };
-            case 'week':
-                startDate.setDate(today.getDate() - 6);
-                return {
-                    start: formatLocalDate(startDate),
-                    end: getTodayLocalDate()
-                };
-            case 'month':
-                startDate.setDate(1);
-                return {
-                    start: formatLocalDate(startDate),
-                    end: getTodayLocalDate()
-                };
-            case 'year':
-                startDate.setMonth(0, 1);
-                return {
-                    start: formatLocalDate(startDate),
-                    end: getTodayLocalDate()
-                };
-            case 'all':
-            default:
-                return null;
-        }
+        return filter === 'all' ? null : getPeriodRange(filter);
     };
 
     // Get filter label
@@ -158,7 +114,7 @@ export const FinancialBalancePage: React.FC = () => {
 
         // Add paid installments (revenues)
         installments.forEach(inst => {
-            if (isPaid(inst.status) && inst.paidDate) {
+            if (isInstallmentPaid(inst.status) && inst.paidDate) {
                 if (dateRange) {
                     if (inst.paidDate >= dateRange.start && inst.paidDate <= dateRange.end) {
                         items.push({
@@ -236,9 +192,36 @@ export const FinancialBalancePage: React.FC = () => {
             .reduce((sum, item) => sum + item.amount, 0);
     }, [balanceItems]);
 
+    // Recebíveis (bruto, taxa e líquido de cada pagamento) de todas as receitas
+    const receivables = useMemo(() => {
+        return buildReceivables(transactions, paymentFees);
+    }, [transactions, paymentFees]);
+
+    const periodReceivables = useMemo(() => {
+        const dateRange = getDateRange(dateFilter);
+        return dateRange
+            ? receivables.filter(r => r.saleDate >= dateRange.start && r.saleDate <= dateRange.end)
+            : receivables;
+    }, [receivables, dateFilter]);
+
+    // Taxas das maquininhas sobre as receitas do período
+    const totalFees = useMemo(() => {
+        return summarizeReceivables(periodReceivables).fee;
+    }, [periodReceivables]);
+
     const netProfit = useMemo(() => {
-        return totalRevenue - totalExpenses;
-    }, [totalRevenue, totalExpenses]);
+        return totalRevenue - totalFees - totalExpenses;
+    }, [totalRevenue, totalFees, totalExpenses]);
+
+    // Margem bruta dos produtos vendidos no período (receita após descontos - custo)
+    const productMargin = useMemo(() => {
+        const dateRange = getDateRange(dateFilter);
+        const periodTransactions = dateRange
+            ? transactions.filter(tx => tx.date >= dateRange.start && tx.date <= dateRange.end)
+            : transactions;
+        const lines = buildMarginLines(periodTransactions, services, products).filter(line => line.itemType === 'product');
+        return { ...summarizeMargin(lines), lossCount: getLossLines(lines).length, hasSales: lines.length > 0 };
+    }, [transactions, services, products, dateFilter]);
 
     // Handle edit expense
     const handleEditExpense = (expenseId: number) => {
@@ -286,7 +269,15 @@ export const FinancialBalancePage: React.FC = () => {
                             <p className="text-xs text-gray-500 dark:text-gray-400">Receitas e despesas ordenadas por data</p>
                         </div>
 
-                        <div className="w-10 sm:w-16" />
+                        <button
+                            type="button"
+                            onClick={() => navigate('/financial/payouts')}
+                            className="flex items-center gap-1 text-gray-600 dark:text-gray-400 hover:text-primary transition-colors text-xs sm:text-sm shrink-0 mt-0.5"
+                            title="Comissões dos profissionais"
+                        >
+                            <Icon name="percent" className="text-lg" />
+                            <span className="font-medium hidden sm:inline">Comissões</span>
+                        </button>
                     </div>
                 </div>
             </header>
@@ -340,6 +331,12 @@ export const FinancialBalancePage: React.FC = () => {
                                     <span>Receitas: {formatCurrency(totalRevenue)}</span>
                                     <span>•</span>
                                     <span>Despesas: {formatCurrency(totalExpenses)}</span>
+                                    {totalFees > 0 && (
+                                        <>
+                                            <span>•</span>
+                                            <span>Taxas: {formatCurrency(totalFees)}</span>
+                                        </>
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -353,6 +350,51 @@ export const FinancialBalancePage: React.FC = () => {
                     </p>
                 </div>
 
+                <NetRevenueCard receivables={periodReceivables} />
+
+                {/* Product Gross Margin */}
+                {productMargin.hasSales && (
+                    <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15] p-4 mb-6">
+                        <div className="flex items-center justify-between mb-3">
+                            <div className="flex items-center gap-2">
+                                <Icon name="inventory_2" className="text-primary" />
+                                <h2 className="text-base font-bold text-zinc-900 dark:text-white">Margem Bruta de Produtos</h2>
+                            </div>
+                            <span className="text-sm font-semibold text-zinc-600 dark:text-zinc-400">
+                                {productMargin.marginPercent.toFixed(1).replace('.', ',')}%
+                            </span>
+                        </div>
+                        <div className="grid grid-cols-3 gap-3 text-sm">
+                            <div>
+                                <p className="text-xs text-zinc-500 dark:text-zinc-400">Vendas</p>
+                                <p className="font-bold text-zinc-900 dark:text-white">{formatCurrency(productMargin.revenue)}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-zinc-500 dark:text-zinc-400">Custo</p>
+                                <p className="font-bold text-zinc-900 dark:text-white">{formatCurrency(productMargin.cost)}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-zinc-500 dark:text-zinc-400">Margem</p>
+                                <p className={`font-bold ${productMargin.margin >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                    {formatCurrency(productMargin.margin)}
+                                </p>
+                            </div>
+                        </div>
+                        {productMargin.lossCount > 0 && (
+                            <button
+                                type="button"
+                                onClick={() => navigate('/reports')}
+                                className="mt-3 flex items-center gap-1 text-xs font-semibold text-red-600 dark:text-red-400 hover:underline"
+                            >
+                                <Icon name="warning" className="text-sm" />
+                                {productMargin.lossCount === 1 ? '1 item vendido abaixo do custo' : `${productMargin.lossCount} itens vendidos abaixo do custo`} — ver nos relatórios
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                <ReceivablesCalendar receivables={receivables} />
+
                 {/* Balance List */}
                 <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15]">
                     <div className="p-4 border-b border-zinc-200 dark:border-zinc-800">
@@ -424,7 +466,7 @@ export const FinancialBalancePage: React.FC = () => {
                                                 {item.clientName && (
                                                     <>
                                                         <span>•</span>
-                                                        <span className="truncate">{item.clientName.split('|')[0]}</span>
+                                                        <span className="truncate">{item.clientName}</span>
                                                     </>
                                                 )}
                                             </div>
@@ -211,13 +211,29 @@ export const FinancialPage: React.FC = () => {
                         Gerencie receitas, despesas e lucro do negócio
                     </p>
                 </div>
-                <button
-                    onClick={() => navigate('/financial/expenses/new')}
-                    className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors font-semibold text-sm"
-                >
-                    <Icon name="add" />
-                    <span>Nova Despesa</span>
-                </button>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => navigate('/financial/cash-register')}
+                        className="flex items-center justify-center gap-2 px-4 py-2 bg-white dark:bg-gray-900/50 text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-800 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors font-semibold text-sm"
+                    >
+                        <Icon name="point_of_sale" />
+                        <span>Caixa</span>
+                    </button>
+                    <button
+                        onClick={() => navigate('/financial/payouts')}
+                        className="flex items-center justify-center gap-2 px-4 py-2 bg-white dark:bg-gray-900/50 text-zinc-700 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-800 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors font-semibold text-sm"
+                    >
+                        <Icon name="percent" />
+                        <span>Comissões</span>
+                    </button>
+                    <button
+                        onClick={() => navigate('/financial/expenses/new')}
+                        className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors font-semibold text-sm"
+                    >
+                        <Icon name="add" />
+                        <span>Nova Despesa</span>
+                    </button>
+                </div>
             </div>
 
             {/* Overview Panel */}
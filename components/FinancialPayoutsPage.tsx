@@ -0,0 +1,466 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTransactions, useProfessionals, useCommissions, useServices, useProducts, useExpenses } from '../contexts.tsx';
+import { buildCommissionSummaries, ProfessionalCommissionSummary } from '../services/commissionService.ts';
+import { getTodayLocalDate } from '../services/dateService.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+    <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+// Helper function to get the first day of the current month (YYYY-MM-DD format)
+const getFirstDayOfMonth = (): string => {
+    const today = new Date();
+    const year = today.getFullYear();
+    const month = String(today.getMonth() + 1).padStart(2, '0');
+    return `${year}-${month}-01`;
+};
+
+// Format date
+const formatDate = (dateString: string): string => {
+    const date = new Date(dateString + 'T00:00:00');
+    return date.toLocaleDateString('pt-BR', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric'
+    });
+};
+
+// Format currency
+const formatCurrency = (value: number): string => {
+    return `R$ ${value.toFixed(2).replace('.', ',')}`;
+};
+
+export const FinancialPayoutsPage: React.FC = () => {
+    const navigate = useNavigate();
+    const { transactions, fetchTransactions } = useTransactions();
+    const { professionals } = useProfessionals();
+    const { services } = useServices();
+    const { products } = useProducts();
+    const { fetchExpenses } = useExpenses();
+    const { rules, advances, payouts, addAdvance, deleteAdvance, addPayout, deletePayout } = useCommissions();
+
+    const [periodStart, setPeriodStart] = useState(getFirstDayOfMonth);
+    const [periodEnd, setPeriodEnd] = useState(getTodayLocalDate);
+    const [advanceProfessionalId, setAdvanceProfessionalId] = useState<number | null>(null);
+    const [advanceAmount, setAdvanceAmount] = useState('');
+    const [advanceDate, setAdvanceDate] = useState(getTodayLocalDate);
+    const [advanceDescription, setAdvanceDescription] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        fetchTransactions();
+        fetchExpenses();
+    }, [fetchTransactions, fetchExpenses]);
+
+    const isValidPeriod = !!periodStart && !!periodEnd && periodStart <= periodEnd;
+
+    const getProfessionalName = (professionalId: number) =>
+        professionals.find(p => p.id === professionalId)?.name || 'Profissional excluído';
+
+    // Profissionais ativos e os inativos que tiveram movimento no período
+    const summaries = useMemo<ProfessionalCommissionSummary[]>(() => {
+        if (!isValidPeriod) return [];
+        const all = buildCommissionSummaries(
+            professionals.map(p => p.id),
+            periodStart,
+            periodEnd,
+            transactions,
+            advances,
+            payouts,
+            rules,
+            services,
+            products
+        );
+        return all.filter(summary => {
+            const professional = professionals.find(p => p.id === summary.professionalId);
+            return professional?.active || summary.transactionsCount > 0 || summary.advancesAmount > 0 || !!summary.payout;
+        });
+    }, [isValidPeriod, professionals, periodStart, periodEnd, transactions, advances, payouts, rules, services, products]);
+
+    const periodAdvances = useMemo(() => {
+        if (!isValidPeriod) return [];
+        return advances.filter(a => a.date >= periodStart && a.date <= periodEnd);
+    }, [isValidPeriod, advances, periodStart, periodEnd]);
+
+    const totals = useMemo(() => summaries.reduce((acc, s) => ({
+        gross: acc.gross + s.grossAmount,
+        commission: acc.commission + s.commissionAmount,
+        advances: acc.advances + s.advancesAmount,
+        net: acc.net + s.netAmount,
+    }), { gross: 0, commission: 0, advances: 0, net: 0 }), [summaries]);
+
+    const openAdvanceForm = (professionalId: number) => {
+        setAdvanceProfessionalId(professionalId);
+        setAdvanceAmount('');
+        setAdvanceDate(getTodayLocalDate());
+        setAdvanceDescription('');
+    };
+
+    const handleSaveAdvance = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (advanceProfessionalId === null) return;
+
+        const amount = parseFloat(advanceAmount.replace(',', '.'));
+        if (isNaN(amount) || amount <= 0) {
+            alert('Informe um valor válido para o vale.');
+            return;
+        }
+
+        try {
+            setIsSubmitting(true);
+            await addAdvance({
+                professionalId: advanceProfessionalId,
+                amount,
+                date: advanceDate,
+                description: advanceDescription.trim() || undefined,
+            }, getProfessionalName(advanceProfessionalId));
+            setAdvanceProfessionalId(null);
+        } catch (error: any) {
+            console.error('Error adding advance:', error);
+            alert(`Erro ao registrar vale: ${error.message || 'Erro desconhecido.'}`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDeleteAdvance = async (advanceId: number) => {
+        const advance = advances.find(a => a.id === advanceId);
+        if (!advance || !confirm('Tem certeza que deseja excluir este vale? A despesa lançada também será excluída.')) {
+            return;
+        }
+
+        try {
+            await deleteAdvance(advance);
+        } catch (error: any) {
+            console.error('Error deleting advance:', error);
+            alert(`Erro ao excluir vale: ${error.message || 'Erro desconhecido.'}`);
+        }
+    };
+
+    const handleRegisterPayout = async (summary: ProfessionalCommissionSummary) => {
+        const name = getProfessionalName(summary.professionalId);
+        const message = summary.netAmount > 0
+            ? `Registrar o pagamento de ${formatCurrency(summary.netAmount)} para ${name}?\n\nO valor será lançado como despesa em "Comissões".`
+            : `Registrar o acerto de ${name} sem valor a pagar (vales cobrem a comissão)?`;
+        if (!confirm(message)) {
+            return;
+        }
+
+        try {
+            setIsSubmitting(true);
+            await addPayout({
+                professionalId: summary.professionalId,
+                periodStart,
+                periodEnd,
+                grossAmount: summary.grossAmount,
+                commissionAmount: summary.commissionAmount,
+                advancesAmount: summary.advancesAmount,
+                netAmount: Math.max(summary.netAmount, 0),
+                paidDate: getTodayLocalDate(),
+            }, name);
+        } catch (error: any) {
+            console.error('Error registering payout:', error);
+            alert(`Erro ao registrar pagamento: ${error.message || 'Erro desconhecido.'}`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleUndoPayout = async (summary: ProfessionalCommissionSummary) => {
+        if (!summary.payout || !confirm('Desfazer este acerto? A despesa lançada também será excluída.')) {
+            return;
+        }
+
+        try {
+            await deletePayout(summary.payout);
+        } catch (error: any) {
+            console.error('Error deleting payout:', error);
+            alert(`Erro ao desfazer acerto: ${error.message || 'Erro desconhecido.'}`);
+        }
+    };
+
+    // Export functions
+    const exportToCSV = () => {
+        const headers = ['Profissional', 'Atendimentos', 'Faturamento', 'Comissão', 'Vales', 'A Pagar', 'Situação'];
+        const rows = summaries.map(s => [
+            getProfessionalName(s.professionalId),
+            String(s.transactionsCount),
+            s.grossAmount.toFixed(2).replace('.', ','),
+            s.commissionAmount.toFixed(2).replace('.', ','),
+            s.advancesAmount.toFixed(2).replace('.', ','),
+            s.netAmount.toFixed(2).replace('.', ','),
+            s.payout ? `Pago em ${formatDate(s.payout.paidDate)}` : 'Pendente'
+        ]);
+
+        const csv = [headers, ...rows].map(row => row.join(';')).join('\n');
+        const blob = new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8;' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `comissoes_${periodStart}_${periodEnd}.csv`;
+        link.click();
+    };
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-background-light to-gray-50 dark:from-background-dark dark:to-gray-900 flex flex-col">
+            {/* Header */}
+            <header className="sticky top-0 z-40 bg-white dark:bg-gray-900/95 border-b border-gray-200 dark:border-gray-800 backdrop-blur-sm">
+                <div className="max-w-4xl mx-auto px-3 sm:px-6 py-2 sm:py-3">
+                    <div className="flex items-start gap-2 sm:gap-4">
+                        <button
+                            type="button"
+                            onClick={() => navigate('/financial')}
+                            className="flex items-center gap-1 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors text-xs sm:text-sm shrink-0 mt-0.5"
+                        >
+                            <Icon name="arrow_back" className="text-lg" />
+                            <span className="font-medium hidden sm:inline">Voltar</span>
+                        </button>
+
+                        <div className="text-center flex-1">
+                            <h1 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white leading-tight">
+                                Comissões
+                            </h1>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">Faturamento, comissão e vales por profissional</p>
+                        </div>
+
+                        <button
+                            onClick={exportToCSV}
+                            disabled={summaries.length === 0}
+                            className="px-3 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm font-semibold flex items-center gap-2 disabled:opacity-50 shrink-0"
+                            title="Exportar CSV"
+                        >
+                            <Icon name="download" className="text-base" />
+                            <span className="hidden sm:inline">CSV</span>
+                        </button>
+                    </div>
+                </div>
+            </header>
+
+            {/* Main Content */}
+            <main className="flex-1 max-w-4xl w-full mx-auto px-4 sm:px-6 py-6 space-y-6">
+                {/* Period */}
+                <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15] p-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="block">
+                            <span className="block text-xs font-semibold text-zinc-600 dark:text-zinc-400 mb-1">De</span>
+                            <input
+                                type="date"
+                                value={periodStart}
+                                onChange={(e) => setPeriodStart(e.target.value)}
+                                className="w-full h-10 px-3 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-gray-800 text-zinc-900 dark:text-white text-sm"
+                            />
+                        </label>
+                        <label className="block">
+                            <span className="block text-xs font-semibold text-zinc-600 dark:text-zinc-400 mb-1">Até</span>
+                            <input
+                                type="date"
+                                value={periodEnd}
+                                onChange={(e) => setPeriodEnd(e.target.value)}
+                                className="w-full h-10 px-3 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-gray-800 text-zinc-900 dark:text-white text-sm"
+                            />
+                        </label>
+                    </div>
+                    {!isValidPeriod && (
+                        <p className="text-xs text-red-500 flex items-center gap-1 mt-2">
+                            <Icon name="error" className="text-sm" />
+                            A data inicial deve ser anterior ou igual à data final
+                        </p>
+                    )}
+                    {rules.length === 0 && (
+                        <button
+                            onClick={() => navigate('/settings/commissions')}
+                            className="mt-3 w-full text-left text-xs text-orange-700 dark:text-orange-300 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-3 flex items-center gap-2"
+                        >
+                            <Icon name="warning" className="text-base" />
+                            Nenhuma regra de comissão cadastrada. Toque aqui para configurar.
+                        </button>
+                    )}
+                </div>
+
+                {/* Totals */}
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {[
+                        { label: 'Faturamento', value: totals.gross, className: 'text-zinc-900 dark:text-white' },
+                        { label: 'Comissões', value: totals.commission, className: 'text-green-600 dark:text-green-400' },
+                        { label: 'Vales', value: totals.advances, className: 'text-orange-600 dark:text-orange-400' },
+                        { label: 'A Pagar', value: totals.net, className: 'text-blue-600 dark:text-blue-400' },
+                    ].map(card => (
+                        <div key={card.label} className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15] p-4">
+                            <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400">{card.label}</p>
+                            <p className={`text-lg font-black mt-1 ${card.className}`}>{formatCurrency(card.value)}</p>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Professionals */}
+                <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15]">
+                    <div className="p-4 border-b border-zinc-200 dark:border-zinc-800">
+                        <h2 className="text-lg font-bold text-zinc-900 dark:text-white">
+                            Profissionais
+                        </h2>
+                    </div>
+                    <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                        {summaries.length === 0 ? (
+                            <div className="p-8 text-center">
+                                <Icon name="groups" className="text-5xl text-zinc-300 dark:text-zinc-700 mb-2" />
+                                <p className="text-zinc-500 dark:text-zinc-400">Nenhum profissional com movimento no período</p>
+                            </div>
+                        ) : (
+                            summaries.map(summary => (
+                                <div key={summary.professionalId} className="p-4 space-y-3">
+                                    <div className="flex items-center justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-zinc-900 dark:text-white truncate">
+                                                {getProfessionalName(summary.professionalId)}
+                                            </p>
+                                            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                                {summary.transactionsCount} {summary.transactionsCount === 1 ? 'atendimento' : 'atendimentos'} • Faturou {formatCurrency(summary.grossAmount)}
+                                            </p>
+                                        </div>
+                                        {summary.payout ? (
+                                            <span className="px-2 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 text-xs rounded-full font-semibold shrink-0">
+                                                Pago em {formatDate(summary.payout.paidDate)}
+                                            </span>
+                                        ) : (
+                                            <span className="px-2 py-0.5 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 text-xs rounded-full font-semibold shrink-0">
+                                                Pendente
+                                            </span>
+                                        )}
+                                    </div>
+
+                                    <div className="grid grid-cols-3 gap-2 text-sm">
+                                        <div>
+                                            <p className="text-xs text-zinc-500 dark:text-zinc-400">Comissão</p>
+                                            <p className="font-bold text-green-600 dark:text-green-400">{formatCurrency(summary.commissionAmount)}</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-xs text-zinc-500 dark:text-zinc-400">Vales</p>
+                                            <p className="font-bold text-orange-600 dark:text-orange-400">-{formatCurrency(summary.advancesAmount)}</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-xs text-zinc-500 dark:text-zinc-400">A Pagar</p>
+                                            <p className={`font-bold ${summary.netAmount >= 0 ? 'text-blue-600 dark:text-blue-400' : 'text-red-600 dark:text-red-400'}`}>
+                                                {formatCurrency(summary.netAmount)}
+                                            </p>
+                                        </div>
+                                    </div>
+
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => openAdvanceForm(summary.professionalId)}
+                                            className="flex-1 flex items-center justify-center gap-1.5 py-2 px-3 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-medium text-sm transition-all"
+                                        >
+                                            <Icon name="request_quote" className="text-base" />
+                                            <span>Registrar vale</span>
+                                        </button>
+                                        {summary.payout ? (
+                                            <button
+                                                onClick={() => handleUndoPayout(summary)}
+                                                className="flex-1 flex items-center justify-center gap-1.5 py-2 px-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 font-medium text-sm transition-all"
+                                            >
+                                                <Icon name="undo" className="text-base" />
+                                                <span>Desfazer acerto</span>
+                                            </button>
+                                        ) : (
+                                            <button
+                                                onClick={() => handleRegisterPayout(summary)}
+                                                disabled={isSubmitting || summary.commissionAmount <= 0}
+                                                className="flex-1 flex items-center justify-center gap-1.5 py-2 px-3 rounded-lg bg-primary text-white hover:bg-red-700 font-medium text-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                <Icon name="payments" className="text-base" />
+                                                <span>Registrar pagamento</span>
+                                            </button>
+                                        )}
+                                    </div>
+
+                                    {/* Advance Form */}
+                                    {advanceProfessionalId === summary.professionalId && (
+                                        <form onSubmit={handleSaveAdvance} className="rounded-lg bg-zinc-50 dark:bg-zinc-900/40 p-3 space-y-2">
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <input
+                                                    required
+                                                    autoFocus
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    placeholder="Valor (R$)"
+                                                    value={advanceAmount}
+                                                    onChange={(e) => setAdvanceAmount(e.target.value)}
+                                                    className="h-10 px-3 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-gray-800 text-zinc-900 dark:text-white text-sm"
+                                                />
+                                                <input
+                                                    required
+                                                    type="date"
+                                                    value={advanceDate}
+                                                    onChange={(e) => setAdvanceDate(e.target.value)}
+                                                    className="h-10 px-3 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-gray-800 text-zinc-900 dark:text-white text-sm"
+                                                />
+                                            </div>
+                                            <input
+                                                type="text"
+                                                placeholder="Observação (opcional)"
+                                                value={advanceDescription}
+                                                onChange={(e) => setAdvanceDescription(e.target.value)}
+                                                maxLength={100}
+                                                className="w-full h-10 px-3 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-gray-800 text-zinc-900 dark:text-white text-sm"
+                                            />
+                                            <div className="flex gap-2">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setAdvanceProfessionalId(null)}
+                                                    className="flex-1 h-9 rounded-lg border border-zinc-300 dark:border-zinc-600 text-zinc-900 dark:text-white font-medium text-sm"
+                                                >
+                                                    Cancelar
+                                                </button>
+                                                <button
+                                                    type="submit"
+                                                    disabled={isSubmitting}
+                                                    className="flex-1 h-9 rounded-lg bg-primary text-white font-medium text-sm disabled:opacity-50"
+                                                >
+                                                    {isSubmitting ? 'Salvando...' : 'Salvar vale'}
+                                                </button>
+                                            </div>
+                                        </form>
+                                    )}
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </div>
+
+                {/* Advances List */}
+                {periodAdvances.length > 0 && (
+                    <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15]">
+                        <div className="p-4 border-b border-zinc-200 dark:border-zinc-800">
+                            <h2 className="text-lg font-bold text-zinc-900 dark:text-white">
+                                Vales no Período
+                            </h2>
+                        </div>
+                        <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                            {periodAdvances.map(advance => (
+                                <div key={advance.id} className="p-4 flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-zinc-900 dark:text-white truncate">
+                                            {getProfessionalName(advance.professionalId)}
+                                        </p>
+                                        <p className="text-xs text-zinc-500 dark:text-zinc-400 truncate">
+                                            {formatDate(advance.date)}{advance.description ? ` • ${advance.description}` : ''}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <p className="font-bold text-orange-600 dark:text-orange-400">{formatCurrency(advance.amount)}</p>
+                                        <button
+                                            onClick={() => handleDeleteAdvance(advance.id)}
+                                            className="p-2 text-zinc-600 dark:text-zinc-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                            title="Excluir vale"
+                                        >
+                                            <Icon name="delete" className="text-base" />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+};
@@ -1,7 +1,9 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Transaction, InstallmentStatus } from '../types.ts';
-import { useTransactions, useCreditSales } from '../contexts.tsx';
+import { useTransactions, useCreditSales, usePaymentFees } from '../contexts.tsx';
+import { buildReceivables } from '../services/paymentFeesService.ts';
+import { NetRevenueCard, ReceivablesCalendar } from './PaymentFeesSummary.tsx';
 
 const Icon = ({ name, className }: { name: string; className?: string }) => 
     <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
@@ -60,6 +62,7 @@ export const FinancialRevenuesPage: React.FC = () => {
     const [searchParams, setSearchParams] = useSearchParams();
     const { transactions, fetchTransactions } = useTransactions();
     const { installments, fetchCreditSales } = useCreditSales();
+    const { paymentFees } = usePaymentFees();
 
     // Get date filter from URL params or default to 'month'
     const [dateFilter, setDateFilter] = useState<DateFilter>(() => {
@@ -192,6 +195,18 @@ export const FinancialRevenuesPage: React.FC = () => {
         return revenueItems.reduce((sum, item) => sum + item.amount, 0);
     }, [revenueItems]);
 
+    // Recebíveis (bruto, taxa e líquido de cada pagamento) de todas as receitas
+    const receivables = useMemo(() => {
+        return buildReceivables(transactions, paymentFees);
+    }, [transactions, paymentFees]);
+
+    const periodReceivables = useMemo(() => {
+        const dateRange = getDateRange(dateFilter);
+        return dateRange
+            ? receivables.filter(r => r.saleDate >= dateRange.start && r.saleDate <= dateRange.end)
+            : receivables;
+    }, [receivables, dateFilter]);
+
     const handleFilterChange = (filter: DateFilter) => {
         setDateFilter(filter);
         setSearchParams({ filter });
@@ -260,6 +275,10 @@ export const FinancialRevenuesPage: React.FC = () => {
                     </div>
                 </div>
 
+                <NetRevenueCard receivables={periodReceivables} />
+
+                <ReceivablesCalendar receivables={receivables} />
+
                 {/* Revenue List */}
                 <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15]">
                     <div className="p-4 border-b border-zinc-200 dark:border-zinc-800">
@@ -313,7 +332,7 @@ export const FinancialRevenuesPage: React.FC = () => {
                                                 {item.clientName && (
                                                     <>
                                                         <span>•</span>
-                                                        <span className="truncate">{item.clientName.split('|')[0]}</span>
+                                                        <span className="truncate">{item.clientName}</span>
                                                     </>
                                                 )}
                                             </div>
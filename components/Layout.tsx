@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { NavLink, Outlet, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts.tsx';
 import { usePageTransition } from './PageTransitionContext.tsx';
+import { SyncStatusIndicator } from './SyncStatusIndicator.tsx';
 
 const navItems = [
     { path: '/dashboard', icon: 'dashboard', label: 'Dashboard' },
@@ -191,6 +192,7 @@ export const Layout: React.FC = () => {
             <main className={`flex-1 p-4 lg:p-6 xl:p-10 overflow-y-auto w-full lg:w-auto main-content pt-20 lg:pt-4 page-transition-wrapper ${transitionStage}`} style={{ backfaceVisibility: 'hidden', WebkitBackfaceVisibility: 'hidden' }}>
                 <Outlet />
             </main>
+            <SyncStatusIndicator />
         </div>
     );
 };
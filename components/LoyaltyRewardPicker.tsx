@@ -0,0 +1,76 @@
+import React from 'react';
+import { useLoyalty, useSystemSettings } from '../contexts.tsx';
+import { formatLoyaltyPoints, getAvailableRewards, isLoyaltyActive } from '../services/loyaltyService.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+    <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+interface LoyaltyRewardPickerProps {
+    clientId?: number;
+    maxDiscount: number; // Valor que ainda pode ser descontado (subtotal - desconto digitado)
+    rewards: number;
+    onRewardsChange: (rewards: number) => void;
+}
+
+// Saldo de fidelidade do cliente no caixa e troca de recompensas por desconto
+export const LoyaltyRewardPicker: React.FC<LoyaltyRewardPickerProps> = ({ clientId, maxDiscount, rewards, onRewardsChange }) => {
+    const { settings } = useSystemSettings();
+    const { getClientBalance } = useLoyalty();
+
+    if (!clientId || !isLoyaltyActive(settings)) return null;
+
+    const balance = getClientBalance(clientId);
+    const availableRewards = getAvailableRewards(balance, settings);
+    // Não adianta trocar mais recompensas do que o necessário para zerar o valor
+    const maxRewards = Math.min(availableRewards, Math.max(0, Math.ceil(maxDiscount / settings.loyaltyRewardDiscount - 0.0001)));
+    const remaining = balance - rewards * settings.loyaltyRewardPoints;
+
+    return (
+        <div className="rounded-lg border border-primary/30 bg-primary/5 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <Icon name="loyalty" className="text-primary text-lg" />
+                    <span className="text-xs font-semibold text-gray-900 dark:text-white">Fidelidade</span>
+                </div>
+                <span className="text-xs text-gray-600 dark:text-gray-400">
+                    Saldo: <span className="font-semibold text-gray-900 dark:text-white">{formatLoyaltyPoints(remaining, settings.loyaltyMode)}</span>
+                </span>
+            </div>
+
+            {maxRewards > 0 || rewards > 0 ? (
+                <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                        {formatLoyaltyPoints(settings.loyaltyRewardPoints, settings.loyaltyMode)} = R$ {settings.loyaltyRewardDiscount.toFixed(2).replace('.', ',')} de desconto
+                    </p>
+                    <div className="flex items-center gap-1">
+                        <button
+                            type="button"
+                            onClick={() => onRewardsChange(Math.max(0, rewards - 1))}
+                            disabled={rewards === 0}
+                            className="w-7 h-7 flex items-center justify-center rounded-md border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-40"
+                        >
+                            <Icon name="remove" className="text-base" />
+                        </button>
+                        <span className="w-6 text-center text-sm font-bold text-gray-900 dark:text-white">{rewards}</span>
+                        <button
+                            type="button"
+                            onClick={() => onRewardsChange(Math.min(maxRewards, rewards + 1))}
+                            disabled={rewards >= maxRewards}
+                            className="w-7 h-7 flex items-center justify-center rounded-md border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-40"
+                        >
+                            <Icon name="add" className="text-base" />
+                        </button>
+                    </div>
+                </div>
+            ) : availableRewards > 0 ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Selecione os serviços para usar a recompensa
+                </p>
+            ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Faltam {formatLoyaltyPoints(settings.loyaltyRewardPoints - (balance % settings.loyaltyRewardPoints), settings.loyaltyMode)} para a próxima recompensa
+                </p>
+            )}
+        </div>
+    );
+};
@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Appointment, Client } from '../types.ts';
-import { useAppointments, useClients } from '../contexts.tsx';
+import { useAppointments, useClients, useBusinessHours, useSystemSettings, useServices, useProfessionals } from '../contexts.tsx';
+import { generateTimeSlots, isSlotBooked, normalizeTime, fitsInBusinessHours, filterAppointmentsByProfessional, getFreeProfessionals } from '../services/scheduleService.ts';
 import { ClientSearchField } from './ClientSearchField.tsx';
 
 interface NewAppointmentPageProps {
@@ -12,15 +13,6 @@ interface NewAppointmentPageProps {
 const Icon = ({ name, className }: { name: string; className?: string }) => 
     <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
 
-const AVAILABLE_TIMES = ['08:00', '10:00', '14:00', '16:00'];
-
-const normalizeTime = (time: string): string => {
-    if (time.includes(':') && time.split(':').length === 3) {
-        return time.substring(0, 5);
-    }
-    return time;
-};
-
 const isTimeInPast = (date: string, time: string): boolean => {
     const now = new Date();
     const normalizedTime = normalizeTime(time);
@@ -59,6 +51,10 @@ export const NewAppointmentPage: React.FC<NewAppointmentPageProps> = ({ onSave,
     const navigate = useNavigate();
     const { appointments } = useAppointments();
     const { clients } = useClients();
+    const { businessHours } = useBusinessHours();
+    const { settings } = useSystemSettings();
+    const { services } = useServices();
+    const { activeProfessionals } = useProfessionals();
     
     const [step, setStep] = useState(1);
     const [clientName, setClientName] = useState('');
@@ -78,6 +74,15 @@ export const NewAppointmentPage: React.FC<NewAppointmentPageProps> = ({ onSave,
         const params = new URLSearchParams(queryString);
         return params.get('time') || '';
     });
+    const [serviceId, setServiceId] = useState<number | undefined>(undefined);
+    const [professionalId, setProfessionalId] = useState<number | undefined>(() => {
+        // Profissional pré-selecionado ao clicar num horário livre da coluna dele na agenda
+        const hashParts = window.location.hash.split('?');
+        const queryString = hashParts.length > 1 ? hashParts[1] : '';
+        const params = new URLSearchParams(queryString);
+        const professionalParam = params.get('professional');
+        return professionalParam ? Number(professionalParam) : undefined;
+    });
     const [errorMessage, setErrorMessage] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [newAppointmentData, setNewAppointmentData] = useState<{ clientName: string; date: string; time: string } | null>(null);
@@ -119,16 +124,49 @@ export const NewAppointmentPage: React.FC<NewAppointmentPageProps> = ({ onSave,
         }
     }, [appointments, newAppointmentData, navigate]);
 
+    // Horários do dia gerados a partir do horário de funcionamento
+    const availableTimes = generateTimeSlots(date, businessHours, settings.slotInterval);
+
+    // O horário reservado dura o tempo do serviço escolhido (ou um intervalo da agenda)
+    const selectedService = services.find(s => s.id === serviceId);
+    const bookingDuration = selectedService?.duration || settings.slotInterval;
+
+    // Sem profissionais cadastrados a agenda continua única (agendamentos sem profissional)
+    const hasProfessionals = activeProfessionals.length > 0;
+
+    // Profissionais com o período livre no dia e horário informados
+    const getAvailableProfessionals = (selectedDate: string, selectedTime: string) => {
+        const dayAppointments = appointments.filter(apt => apt.date === selectedDate);
+        return getFreeProfessionals(activeProfessionals, normalizeTime(selectedTime), bookingDuration, dayAppointments, settings.slotInterval);
+    };
+
     // Function to check if a time slot is available for a given date
     const isTimeSlotAvailable = (selectedDate: string, selectedTime: string): boolean => {
-        const normalizedTime = normalizeTime(selectedTime);
-        const isBooked = appointments.some(apt => {
-            const aptNormalizedTime = normalizeTime(apt.time);
-            return apt.date === selectedDate && aptNormalizedTime === normalizedTime;
-        });
-        return !isBooked;
+        if (hasProfessionals) {
+            return getAvailableProfessionals(selectedDate, selectedTime).length > 0;
+        }
+        const dayAppointments = filterAppointmentsByProfessional(appointments.filter(apt => apt.date === selectedDate), undefined);
+        return !isSlotBooked(normalizeTime(selectedTime), settings.slotInterval, dayAppointments, undefined, bookingDuration);
     };
 
+    // Só são oferecidos os profissionais livres no horário escolhido
+    const freeProfessionals = useMemo(() => {
+        if (!time) return [];
+        return getAvailableProfessionals(date, time);
+    }, [date, time, appointments, activeProfessionals, bookingDuration, settings.slotInterval]);
+
+    // Descarta o profissional escolhido se ele deixar de estar livre (mudança de data, horário ou serviço)
+    useEffect(() => {
+        if (!hasProfessionals || !time) return;
+        if (professionalId && !freeProfessionals.some(p => p.id === professionalId)) {
+            setProfessionalId(undefined);
+        } else if (!professionalId && activeProfessionals.length === 1 && freeProfessionals.length === 1) {
+            setProfessionalId(freeProfessionals[0].id);
+        }
+    }, [freeProfessionals, professionalId, hasProfessionals, time, activeProfessionals.length]);
+
+    const selectedProfessional = activeProfessionals.find(p => p.id === professionalId);
+
     const handleWhatsAppChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const formatted = formatWhatsApp(e.target.value);
         setWhatsapp(formatted);
@@ -186,23 +224,28 @@ export const NewAppointmentPage: React.FC<NewAppointmentPageProps> = ({ onSave,
             return;
         }
 
+        if (hasProfessionals && !selectedProfessional) {
+            setErrorMessage("Por favor, selecione o profissional!");
+            return;
+        }
+
         try {
             setIsSubmitting(true);
-            const clientNameWithWhatsApp = whatsapp 
-                ? `${clientName}|${whatsapp}`
-                : clientName;
-                
             await onSave({
-                clientName: clientNameWithWhatsApp,
-                service: '',
+                clientName,
+                clientWhatsapp: whatsapp || undefined,
+                service: selectedService?.name || '',
+                serviceId: selectedService?.id,
+                duration: selectedService?.duration,
                 date,
                 time,
                 clientId: selectedClient?.id, // Incluir clientId se cliente foi selecionado da base
+                professionalId: selectedProfessional?.id,
             });
             
             // Store the data and wait for appointments to update via useEffect
             setNewAppointmentData({
-                clientName: clientNameWithWhatsApp,
+                clientName,
                 date,
                 time,
             });
@@ -372,6 +415,30 @@ export const NewAppointmentPage: React.FC<NewAppointmentPageProps> = ({ onSave,
                                 </label>
                             </div>
 
+                            {/* Service Selection */}
+                            <div className="space-y-3">
+                                <label className="block space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <Icon name="content_cut" className="text-gray-400 text-base" />
+                                        <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                                            Serviço <span className="text-gray-500 text-xs">(Opcional)</span>
+                                        </p>
+                                    </div>
+                                    <select
+                                        className="w-full h-10 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-3 text-sm font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-2 focus:ring-primary/20 transition-all"
+                                        value={serviceId ?? ''}
+                                        onChange={(e) => setServiceId(e.target.value ? Number(e.target.value) : undefined)}
+                                    >
+                                        <option value="">Sem serviço definido ({settings.slotInterval} min)</option>
+                                        {services.map(service => (
+                                            <option key={service.id} value={service.id}>
+                                                {service.name} ({service.duration} min)
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                            </div>
+
                             {/* Available Times */}
                             <div className="space-y-3">
                                 <div className="flex items-center gap-2">
@@ -379,11 +446,17 @@ export const NewAppointmentPage: React.FC<NewAppointmentPageProps> = ({ onSave,
                                 <p className="text-sm font-semibold text-gray-900 dark:text-white">Horários Disponíveis</p>
                                 </div>
                                 <div className="grid grid-cols-2 gap-2">
-                                    {AVAILABLE_TIMES.map((availableTime) => {
+                                    {availableTimes.length === 0 && (
+                                        <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400 text-center py-2">
+                                            A barbearia não abre nesta data.
+                                        </p>
+                                    )}
+                                    {availableTimes.map((availableTime) => {
                                         const isPast = isTimeInPast(date, availableTime);
                                         const isBooked = !isTimeSlotAvailable(date, availableTime);
+                                        const doesNotFit = !fitsInBusinessHours(date, availableTime, bookingDuration, businessHours);
                                         const isSelected = time === availableTime;
-                                        const isDisabled = isPast || isBooked;
+                                        const isDisabled = isPast || isBooked || doesNotFit;
                                         
                                         return (
                                             <button
@@ -410,12 +483,56 @@ export const NewAppointmentPage: React.FC<NewAppointmentPageProps> = ({ onSave,
                                                         Ocupado
                                                     </span>
                                                 )}
+                                                {doesNotFit && !isBooked && !isPast && (
+                                                    <span className="block text-xs mt-0.5">
+                                                        Sem tempo
+                                                    </span>
+                                                )}
                                             </button>
                                         );
                                     })}
                                 </div>
                             </div>
 
+                            {/* Professional Selection */}
+                            {hasProfessionals && (
+                                <div className="space-y-3">
+                                    <div className="flex items-center gap-2">
+                                        <Icon name="person" className="text-gray-400 text-base" />
+                                        <p className="text-sm font-semibold text-gray-900 dark:text-white">Profissional</p>
+                                    </div>
+                                    {!time ? (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-2">
+                                            Escolha um horário para ver os profissionais livres.
+                                        </p>
+                                    ) : freeProfessionals.length === 0 ? (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-2">
+                                            Nenhum profissional livre neste horário.
+                                        </p>
+                                    ) : (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {freeProfessionals.map(professional => {
+                                                const isSelected = professionalId === professional.id;
+                                                return (
+                                                    <button
+                                                        key={professional.id}
+                                                        type="button"
+                                                        onClick={() => setProfessionalId(professional.id)}
+                                                        className={`h-10 px-2 rounded-lg font-medium text-sm truncate transition-all ${
+                                                            isSelected
+                                                                ? 'bg-primary text-white ring-2 ring-primary ring-offset-2'
+                                                                : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-700 border border-gray-300 dark:border-gray-600'
+                                                        }`}
+                                                    >
+                                                        {professional.name}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Summary and Confirm Button (Desktop) */}
                             <div className="hidden lg:block pt-5 border-t border-gray-200 dark:border-gray-800 space-y-4">
                                 {/* Selected Info Summary */}
@@ -431,12 +548,18 @@ export const NewAppointmentPage: React.FC<NewAppointmentPageProps> = ({ onSave,
                                                 <span className="font-medium text-gray-900 dark:text-white">{time}</span>
                                             </div>
                                         )}
+                                        {selectedProfessional && (
+                                            <div className="flex items-center justify-between text-gray-600 dark:text-gray-400">
+                                                <span>Profissional:</span>
+                                                <span className="font-medium text-gray-900 dark:text-white truncate ml-2">{selectedProfessional.name}</span>
+                                            </div>
+                                        )}
                         </div>
                     )}
 
                                 <button 
                                     type="submit"
-                                    disabled={isSubmitting || !clientName.trim() || !time}
+                                    disabled={isSubmitting || !clientName.trim() || !time || (hasProfessionals && !selectedProfessional)}
                                     className="w-full h-11 rounded-lg bg-primary text-white font-semibold hover:bg-primary/90 disabled:bg-primary/50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 text-sm shadow-lg shadow-primary/20"
                                 >
                                     {isSubmitting ? (
@@ -466,7 +589,7 @@ export const NewAppointmentPage: React.FC<NewAppointmentPageProps> = ({ onSave,
                                 </button>
                                 <button 
                                     type="submit"
-                                    disabled={isSubmitting || !time}
+                                    disabled={isSubmitting || !time || (hasProfessionals && !selectedProfessional)}
                                         className="flex-1 px-6 h-10 rounded-lg bg-primary text-white font-semibold hover:bg-primary/90 disabled:bg-primary/50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 text-sm"
                                 >
                                     {isSubmitting ? (
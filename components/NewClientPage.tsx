@@ -1,6 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useClients } from '../contexts.tsx';
+import { useClients, useSystemSettings } from '../contexts.tsx';
+import { CLIENT_DUPLICATE_REASON_LABELS, ClientDuplicateMatch, DuplicateClientError } from '../services/clientDuplicateService.ts';
+import { getTodayLocalDate } from '../services/dateService.ts';
 import { Toast, ToastType } from './Toast.tsx';
 
 const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => 
@@ -48,9 +50,17 @@ const formatCPF = (value: string): string => {
     }
 };
 
+// Limite no fiado digitado com vírgula ("150,00"); vazio = sem limite, null = valor inválido
+const parseCreditLimit = (value: string): number | undefined | null => {
+    if (!value.trim()) return undefined;
+    const parsed = parseFloat(value.replace(',', '.'));
+    return isNaN(parsed) || parsed < 0 ? null : Math.round(parsed * 100) / 100;
+};
+
 export const NewClientPage: React.FC = () => {
     const navigate = useNavigate();
     const { addClient } = useClients();
+    const { settings } = useSystemSettings();
     const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     
@@ -60,11 +70,23 @@ export const NewClientPage: React.FC = () => {
         nickname: '',
         observation: '',
         cpf: '',
+        creditLimit: '',
+        birthDate: '',
     });
 
+    // Clientes parecidos encontrados ao cadastrar (o usuário decide se cadastra mesmo assim)
+    const [duplicateMatches, setDuplicateMatches] = useState<ClientDuplicateMatch[]>([]);
+
+    useEffect(() => {
+        setDuplicateMatches([]);
+    }, [formData.fullName, formData.whatsapp, formData.cpf]);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        await saveClient(false);
+    };
 
+    const saveClient = async (allowDuplicate: boolean) => {
         // Validação
         if (!formData.fullName.trim()) {
             setToast({ message: 'Nome completo é obrigatório', type: 'error' });
@@ -76,6 +98,17 @@ export const NewClientPage: React.FC = () => {
             return;
         }
 
+        const creditLimit = parseCreditLimit(formData.creditLimit);
+        if (creditLimit === null) {
+            setToast({ message: 'Limite no fiado inválido', type: 'error' });
+            return;
+        }
+
+        if (formData.birthDate && formData.birthDate > getTodayLocalDate()) {
+            setToast({ message: 'Data de nascimento não pode ser no futuro', type: 'error' });
+            return;
+        }
+
         try {
             setIsSubmitting(true);
                 await addClient({
@@ -84,7 +117,9 @@ export const NewClientPage: React.FC = () => {
                     nickname: formData.nickname.trim() || undefined,
                     observation: formData.observation.trim() || undefined,
                     cpf: formData.cpf.trim() || undefined,
-                });
+                    creditLimit,
+                    birthDate: formData.birthDate || undefined,
+                }, { allowDuplicate });
             
             setToast({ message: 'Cliente cadastrado com sucesso!', type: 'success' });
             
@@ -94,6 +129,10 @@ export const NewClientPage: React.FC = () => {
             }, 1000);
         } catch (error: any) {
             setIsSubmitting(false);
+            if (error instanceof DuplicateClientError) {
+                setDuplicateMatches(error.matches);
+                return;
+            }
             setToast({ 
                 message: `Erro ao cadastrar cliente: ${error.message || 'Erro desconhecido'}`, 
                 type: 'error' 
@@ -206,6 +245,43 @@ export const NewClientPage: React.FC = () => {
                             </p>
                         </div>
 
+                        {/* Data de nascimento (Opcional) */}
+                        <div>
+                            <label className="block text-xs sm:text-sm font-semibold text-gray-900 dark:text-white mb-1.5 sm:mb-2">
+                                Data de Nascimento
+                            </label>
+                            <input
+                                type="date"
+                                value={formData.birthDate}
+                                max={getTodayLocalDate()}
+                                onChange={(e) => setFormData({ ...formData, birthDate: e.target.value })}
+                                className="w-full sm:max-w-xs px-3 sm:px-4 py-2 sm:py-2.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg text-sm sm:text-base text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent transition-all"
+                            />
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                Para a mensagem de parabéns e o desconto de aniversário (opcional)
+                            </p>
+                        </div>
+
+                        {/* Limite de crédito no fiado (Opcional) */}
+                        {settings.creditSalesEnabled && (
+                            <div>
+                                <label className="block text-xs sm:text-sm font-semibold text-gray-900 dark:text-white mb-1.5 sm:mb-2">
+                                    Limite no Fiado (R$)
+                                </label>
+                                <input
+                                    type="text"
+                                    inputMode="decimal"
+                                    value={formData.creditLimit}
+                                    onChange={(e) => setFormData({ ...formData, creditLimit: e.target.value.replace(/[^\d,]/g, '') })}
+                                    className="w-full sm:max-w-xs px-3 sm:px-4 py-2 sm:py-2.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg text-sm sm:text-base text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent transition-all"
+                                    placeholder="Sem limite"
+                                />
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                    Saldo máximo em aberto no fiado; deixe vazio para não limitar
+                                </p>
+                            </div>
+                        )}
+
                         {/* Observação (Opcional) */}
                         <div>
                             <label className="block text-xs sm:text-sm font-semibold text-gray-900 dark:text-white mb-1.5 sm:mb-2">
@@ -223,6 +299,46 @@ export const NewClientPage: React.FC = () => {
                             </p>
                         </div>
 
+                        {/* Clientes parecidos já cadastrados */}
+                        {duplicateMatches.length > 0 && (
+                            <div className="p-3 sm:p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 rounded-lg space-y-3">
+                                <div className="flex items-start gap-2">
+                                    <Icon name="group" className="text-amber-600 dark:text-amber-400 text-xl" />
+                                    <div>
+                                        <p className="text-sm font-semibold text-amber-800 dark:text-amber-200">Este cliente pode já estar cadastrado</p>
+                                        <p className="text-xs text-amber-700 dark:text-amber-300">Confira antes de criar outro cadastro para a mesma pessoa.</p>
+                                    </div>
+                                </div>
+                                <div className="space-y-2">
+                                    {duplicateMatches.map(({ client, reasons }) => (
+                                        <div key={client.id} className="flex items-center justify-between gap-3 p-2 bg-white dark:bg-gray-800 rounded-lg border border-amber-200 dark:border-amber-800">
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">{client.fullName}</p>
+                                                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                                    {client.whatsapp}{client.cpf ? ` • ${client.cpf}` : ''} • {reasons.map(reason => CLIENT_DUPLICATE_REASON_LABELS[reason]).join(', ')}
+                                                </p>
+                                            </div>
+                                            <button
+                                                type="button"
+                                                onClick={() => navigate(`/clients/${client.id}`)}
+                                                className="shrink-0 px-3 py-1.5 text-xs font-semibold text-primary border border-primary/40 rounded-lg hover:bg-primary/10 transition-colors"
+                                            >
+                                                Abrir cadastro
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={() => saveClient(true)}
+                                    disabled={isSubmitting}
+                                    className="w-full px-4 py-2 text-sm font-semibold text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-900/40 rounded-lg hover:bg-amber-200 dark:hover:bg-amber-900/60 transition-colors disabled:opacity-50"
+                                >
+                                    Não é a mesma pessoa, cadastrar mesmo assim
+                                </button>
+                            </div>
+                        )}
+
                         {/* Botões */}
                         <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 pt-4 border-t border-gray-200 dark:border-gray-800">
                             <button
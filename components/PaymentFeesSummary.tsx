@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { PAYMENT_METHOD_COLORS } from '../constants.ts';
+import {
+    Receivable,
+    buildReceivablesCalendar,
+    summarizeReceivables,
+    summarizeReceivablesByMethod,
+} from '../services/paymentFeesService.ts';
+import { getTodayLocalDate } from '../services/dateService.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+    <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+// Format date with weekday
+const formatWeekdayDate = (dateString: string): string => {
+    const date = new Date(dateString + 'T00:00:00');
+    return date.toLocaleDateString('pt-BR', {
+        weekday: 'short',
+        day: '2-digit',
+        month: '2-digit'
+    });
+};
+
+// Format currency
+const formatCurrency = (value: number): string => {
+    return `R$ ${value.toFixed(2).replace('.', ',')}`;
+};
+
+// Receita bruta x líquida (descontadas as taxas das maquininhas), com quebra por método
+export const NetRevenueCard: React.FC<{ receivables: Receivable[] }> = ({ receivables }) => {
+    const navigate = useNavigate();
+    const summary = useMemo(() => summarizeReceivables(receivables), [receivables]);
+    const byMethod = useMemo(() => summarizeReceivablesByMethod(receivables), [receivables]);
+
+    if (receivables.length === 0) return null;
+
+    return (
+        <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15] p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                    <Icon name="credit_score" className="text-primary" />
+                    <h2 className="text-base font-bold text-zinc-900 dark:text-white">Receita Bruta x Líquida</h2>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => navigate('/settings/payment-fees')}
+                    className="text-xs font-semibold text-primary hover:underline"
+                >
+                    Configurar taxas
+                </button>
+            </div>
+            <div className="grid grid-cols-3 gap-3 text-sm">
+                <div>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">Bruto</p>
+                    <p className="font-bold text-zinc-900 dark:text-white">{formatCurrency(summary.gross)}</p>
+                </div>
+                <div>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">Taxas</p>
+                    <p className="font-bold text-red-600 dark:text-red-400">- {formatCurrency(summary.fee)}</p>
+                </div>
+                <div>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">Líquido</p>
+                    <p className="font-bold text-green-600 dark:text-green-400">{formatCurrency(summary.net)}</p>
+                </div>
+            </div>
+            <div className="mt-3 pt-3 border-t border-zinc-200 dark:border-zinc-800 space-y-1.5">
+                {byMethod.map(method => (
+                    <div key={method.method} className="flex items-center justify-between text-xs">
+                        <span className="flex items-center gap-2 text-zinc-600 dark:text-zinc-400">
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: PAYMENT_METHOD_COLORS[method.method] || '#6b7280' }}></span>
+                            {method.method || 'Não informado'}
+                        </span>
+                        <span className="text-zinc-900 dark:text-white">
+                            {formatCurrency(method.gross)}
+                            {method.fee > 0 && (
+                                <span className="text-zinc-500 dark:text-zinc-400"> → {formatCurrency(method.net)}</span>
+                            )}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Agenda dos valores de cartão/PIX que ainda vão cair na conta
+export const ReceivablesCalendar: React.FC<{ receivables: Receivable[] }> = ({ receivables }) => {
+    const [expandedDate, setExpandedDate] = useState<string | null>(null);
+    const calendar = useMemo(() => buildReceivablesCalendar(receivables, getTodayLocalDate()), [receivables]);
+    const totalNet = useMemo(() => calendar.reduce((sum, day) => sum + day.net, 0), [calendar]);
+
+    return (
+        <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-[#2a1a15] mb-6">
+            <div className="p-4 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                <h2 className="text-lg font-bold text-zinc-900 dark:text-white">Agenda de Recebimentos</h2>
+                <span className="text-sm font-bold text-green-600 dark:text-green-400">{formatCurrency(totalNet)}</span>
+            </div>
+            <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                {calendar.length === 0 ? (
+                    <div className="p-6 text-center">
+                        <Icon name="event_available" className="text-4xl text-zinc-300 dark:text-zinc-700 mb-1" />
+                        <p className="text-sm text-zinc-500 dark:text-zinc-400">Nenhum valor a receber das maquininhas</p>
+                    </div>
+                ) : (
+                    calendar.map(day => {
+                        const isExpanded = expandedDate === day.date;
+                        return (
+                            <div key={day.date}>
+                                <button
+                                    type="button"
+                                    onClick={() => setExpandedDate(isExpanded ? null : day.date)}
+                                    className="w-full p-4 flex items-center justify-between gap-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900/30 transition-colors"
+                                >
+                                    <div>
+                                        <p className="font-semibold text-zinc-900 dark:text-white capitalize">{formatWeekdayDate(day.date)}</p>
+                                        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                            {day.receivables.length} {day.receivables.length === 1 ? 'pagamento' : 'pagamentos'}
+                                            {day.fee > 0 && ` • Bruto ${formatCurrency(day.gross)}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-bold text-green-600 dark:text-green-400">{formatCurrency(day.net)}</span>
+                                        <Icon name={isExpanded ? 'expand_less' : 'expand_more'} className="text-zinc-500" />
+                                    </div>
+                                </button>
+                                {isExpanded && (
+                                    <div className="px-4 pb-4 space-y-1.5">
+                                        {day.receivables.map(receivable => (
+                                            <div key={receivable.id} className="flex items-center justify-between gap-3 text-xs">
+                                                <span className="text-zinc-600 dark:text-zinc-400 truncate">
+                                                    {receivable.method} • {receivable.clientName || receivable.description}
+                                                </span>
+                                                <span className="text-zinc-900 dark:text-white shrink-0">{formatCurrency(receivable.net)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        </div>
+    );
+};
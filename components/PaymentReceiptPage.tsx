@@ -21,12 +21,12 @@ export const PaymentReceiptPage: React.FC = () => {
     
     const { fetchCreditSales } = useCreditSales();
 
-    // Carregar dados de fiado se necessário
+    // Carregar dados de fiado se necessário (a multa e juros de um recebimento ficam no pagamento da parcela)
     useEffect(() => {
-        if ((installmentId || saleId) && creditSales.length === 0) {
+        if ((transactionId || installmentId || saleId) && creditSales.length === 0) {
             fetchCreditSales();
         }
-    }, [installmentId, saleId, creditSales.length, fetchCreditSales]);
+    }, [transactionId, installmentId, saleId, creditSales.length, fetchCreditSales]);
 
     const transaction = transactionId ? transactions.find(t => t.id.toString() === transactionId) : null;
     const installment = installmentId ? installments.find(i => i.id.toString() === installmentId) : null;
@@ -37,14 +37,20 @@ export const PaymentReceiptPage: React.FC = () => {
 
     // Se está usando dados da parcela (não tem transação)
     if (useInstallmentData) {
-        // Usar dados diretamente da parcela e venda
+        // Usar dados diretamente da parcela e venda. Valor, multa e juros, data e método vêm dos mesmos
+        // pagamentos registrados; parcelas antigas, sem registros de pagamento, usam os dados da parcela.
+        const payments = installment.payments || [];
+        const lastPayment = payments[payments.length - 1];
         const receiptData = {
             clientName: sale.clientName,
             installmentNumber: installment.installmentNumber,
             totalInstallments: sale.numberOfInstallments,
-            amount: installment.amount,
-            paidDate: installment.paidDate || installment.dueDate,
-            paymentMethod: installment.paymentMethod || 'Não informado',
+            amount: lastPayment ? payments.reduce((sum, payment) => sum + payment.amount, 0) : installment.amount,
+            lateCharges: payments.reduce((sum, payment) => sum + payment.lateFee + payment.interest, 0),
+            paidDate: lastPayment?.paidDate || installment.paidDate || installment.dueDate,
+            paymentMethod: lastPayment
+                ? Array.from(new Set(payments.map(payment => payment.paymentMethod))).join(', ')
+                : installment.paymentMethod || 'Não informado',
             products: sale.products
         };
         // Renderizar comprovante com dados da parcela
@@ -111,11 +117,18 @@ export const PaymentReceiptPage: React.FC = () => {
         totalInstallments = 1;
     }
 
+    // Multa e juros são lançados numa transação separada; o pagamento da parcela que gerou
+    // esta transação guarda os valores cobrados
+    const payment = isNewFormat
+        ? installments.flatMap(inst => inst.payments || []).find(p => p.transactionId === transaction.id)
+        : undefined;
+
     const receiptData = {
         clientName,
         installmentNumber,
         totalInstallments,
         amount: transaction.value,
+        lateCharges: payment ? payment.lateFee + payment.interest : 0,
         paidDate: transaction.date,
         paymentMethod: transaction.paymentMethod,
         products: 'Produtos do Fiado' // Não temos essa info na transação antiga
@@ -131,6 +144,7 @@ const ReceiptContent: React.FC<{
         installmentNumber: number;
         totalInstallments: number;
         amount: number;
+        lateCharges: number; // Multa e juros cobrados por atraso
         paidDate: string;
         paymentMethod: string;
         products: string;
@@ -300,9 +314,21 @@ const ReceiptContent: React.FC<{
                                 <p className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider mb-2">Forma de Pagamento</p>
                                 <p className="text-lg font-bold text-gray-900 dark:text-white">{data.paymentMethod}</p>
                             </div>
+                            {data.lateCharges > 0 && (
+                                <>
+                                    <div className="flex flex-col">
+                                        <p className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider mb-2">Valor da Parcela</p>
+                                        <p className="text-lg font-bold text-gray-900 dark:text-white">{formatCurrency(data.amount)}</p>
+                                    </div>
+                                    <div className="flex flex-col">
+                                        <p className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider mb-2">Multa e Juros</p>
+                                        <p className="text-lg font-bold text-red-600 dark:text-red-400">{formatCurrency(data.lateCharges)}</p>
+                                    </div>
+                                </>
+                            )}
                             <div className="flex flex-col sm:col-span-2">
                                 <p className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider mb-2">Valor Pago</p>
-                                <p className="text-3xl font-black text-green-600 dark:text-green-400">{formatCurrency(data.amount)}</p>
+                                <p className="text-3xl font-black text-green-600 dark:text-green-400">{formatCurrency(data.amount + data.lateCharges)}</p>
                             </div>
                         </div>
                     </div>
@@ -363,6 +389,18 @@ const ReceiptContent: React.FC<{
                                     <span className="text-sm text-gray-600">Forma de Pagamento:</span>
                                     <span className="text-sm font-bold text-gray-900">{data.paymentMethod}</span>
                                 </div>
+                                {data.lateCharges > 0 && (
+                                    <>
+                                        <div className="flex justify-between items-center">
+                                            <span className="text-sm text-gray-600">Valor da Parcela:</span>
+                                            <span className="text-sm font-bold text-gray-900">{formatCurrency(data.amount)}</span>
+                                        </div>
+                                        <div className="flex justify-between items-center">
+                                            <span className="text-sm text-gray-600">Multa e Juros:</span>
+                                            <span className="text-sm font-bold text-gray-900">{formatCurrency(data.lateCharges)}</span>
+                                        </div>
+                                    </>
+                                )}
                             </div>
 
                             {/* Valor Total */}
@@ -370,7 +408,7 @@ const ReceiptContent: React.FC<{
                                 <p className="text-xs font-semibold text-green-700 uppercase tracking-wide mb-1">
                                     Valor Pago
                                 </p>
-                                <p className="text-3xl font-black text-green-900">{formatCurrency(data.amount)}</p>
+                                <p className="text-3xl font-black text-green-900">{formatCurrency(data.amount + data.lateCharges)}</p>
                             </div>
 
                             {/* Footer */}
@@ -12,19 +12,30 @@ const Icon = ({ name, className }: { name: string; className?: string }) =>
   <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
 
 export const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, product }) => {
-  const { addProduct, updateProduct } = useProducts();
+  const { products, addProduct, updateProduct } = useProducts();
   const [name, setName] = useState('');
   const [price, setPrice] = useState('');
+  const [category, setCategory] = useState('');
+  const [costPrice, setCostPrice] = useState('');
+  const [minStock, setMinStock] = useState('');
+  const [initialStock, setInitialStock] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
     if (product) {
       setName(product.name);
       setPrice(product.price.toFixed(2).replace('.', ','));
+      setCategory(product.category || '');
+      setCostPrice(product.costPrice > 0 ? product.costPrice.toFixed(2).replace('.', ',') : '');
+      setMinStock(product.minStock > 0 ? String(product.minStock) : '');
     } else {
       setName('');
       setPrice('');
+      setCategory('');
+      setCostPrice('');
+      setMinStock('');
     }
+    setInitialStock('');
   }, [product, isOpen]);
 
   useEffect(() => {
@@ -43,12 +54,14 @@ export const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, pro
 
   if (!isOpen) return null;
 
-  const handlePriceChange = (value: string) => {
+  const existingCategories = Array.from(new Set(products.map(p => p.category).filter((c): c is string => !!c))).sort();
+
+  const handlePriceChange = (value: string, setValue: (value: string) => void = setPrice) => {
     // Remove tudo que não é número
     let digits = value.replace(/\D/g, '');
     
     if (!digits) {
-      setPrice('');
+      setValue('');
       return;
     }
     
@@ -57,12 +70,12 @@ export const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, pro
     
     // Garante pelo menos 2 dígitos
     if (digits.length === 1) {
-      setPrice('0,0' + digits);
+      setValue('0,0' + digits);
       return;
     }
     
     if (digits.length === 2) {
-      setPrice('0,' + digits);
+      setValue('0,' + digits);
       return;
     }
     
@@ -70,7 +83,7 @@ export const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, pro
     const intPart = digits.slice(0, -2);
     const decimalPart = digits.slice(-2);
     
-    setPrice(intPart + ',' + decimalPart);
+    setValue(intPart + ',' + decimalPart);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -87,16 +100,24 @@ export const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, pro
       return;
     }
 
+    const costPriceNumber = parseFloat(costPrice.replace(',', '.')) || 0;
+    const minStockNumber = parseInt(minStock, 10) || 0;
+    const initialStockNumber = parseInt(initialStock, 10) || 0;
+
     try {
       setIsSubmitting(true);
       if (product) {
-        await updateProduct({ ...product, name: name.trim(), price: priceNumber });
+        await updateProduct({ ...product, name: name.trim(), price: priceNumber, costPrice: costPriceNumber, minStock: minStockNumber, category: category.trim() || undefined });
       } else {
-        await addProduct({ name: name.trim(), price: priceNumber });
+        await addProduct({ name: name.trim(), price: priceNumber, costPrice: costPriceNumber, minStock: minStockNumber, category: category.trim() || undefined }, initialStockNumber);
       }
       onClose();
       setName('');
       setPrice('');
+      setCategory('');
+      setCostPrice('');
+      setMinStock('');
+      setInitialStock('');
     } catch (error: any) {
       console.error("Failed to save product:", error);
       alert(`Falha ao salvar produto: ${error.message || 'Erro desconhecido.'}`);
@@ -186,6 +207,31 @@ export const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, pro
             </label>
           </div>
 
+          {/* Category */}
+          <div>
+            <label className="block">
+              <div className="flex items-center gap-2 mb-1.5">
+                <Icon name="category" className="text-primary text-base" />
+                <span className="text-sm font-bold text-gray-900 dark:text-white">
+                  Categoria
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">(Opcional)</span>
+              </div>
+              <input
+                type="text"
+                list="product-categories"
+                className="w-full h-10 px-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:border-primary focus:outline-none focus:ring-3 focus:ring-primary/20 transition-all font-medium text-sm"
+                placeholder="Ex: Pomadas, Bebidas..."
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                maxLength={30}
+              />
+              <datalist id="product-categories">
+                {existingCategories.map(c => <option key={c} value={c} />)}
+              </datalist>
+            </label>
+          </div>
+
           {/* Price */}
           <div>
             <label className="block">
@@ -212,6 +258,78 @@ export const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, pro
             </label>
           </div>
 
+          {/* Cost Price */}
+          <div>
+            <label className="block">
+              <div className="flex items-center gap-2 mb-1.5">
+                <Icon name="sell" className="text-primary text-base" />
+                <span className="text-sm font-bold text-gray-900 dark:text-white">
+                  Preço de Custo
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">(Opcional)</span>
+              </div>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 dark:text-gray-400 font-bold text-sm">
+                  R$
+                </span>
+                <input
+                  type="text"
+                  className="w-full h-10 pl-10 pr-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:border-primary focus:outline-none focus:ring-3 focus:ring-primary/20 transition-all font-medium text-sm"
+                  placeholder="0,00"
+                  value={costPrice}
+                  onChange={(e) => handlePriceChange(e.target.value, setCostPrice)}
+                />
+              </div>
+            </label>
+          </div>
+
+          {/* Stock */}
+          <div className="grid grid-cols-2 gap-3">
+            {product ? (
+              <div>
+                <div className="flex items-center gap-2 mb-1.5">
+                  <Icon name="inventory_2" className="text-primary text-base" />
+                  <span className="text-sm font-bold text-gray-900 dark:text-white">Em estoque</span>
+                </div>
+                <div className="h-10 px-3 flex items-center rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white font-bold text-sm">
+                  {product.stock} un.
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Altere pela tela de Estoque</p>
+              </div>
+            ) : (
+              <label className="block">
+                <div className="flex items-center gap-2 mb-1.5">
+                  <Icon name="inventory_2" className="text-primary text-base" />
+                  <span className="text-sm font-bold text-gray-900 dark:text-white">Estoque inicial</span>
+                </div>
+                <input
+                  type="number"
+                  min="0"
+                  inputMode="numeric"
+                  className="w-full h-10 px-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:border-primary focus:outline-none focus:ring-3 focus:ring-primary/20 transition-all font-medium text-sm"
+                  placeholder="0"
+                  value={initialStock}
+                  onChange={(e) => setInitialStock(e.target.value.replace(/\D/g, ''))}
+                />
+              </label>
+            )}
+            <label className="block">
+              <div className="flex items-center gap-2 mb-1.5">
+                <Icon name="warning" className="text-primary text-base" />
+                <span className="text-sm font-bold text-gray-900 dark:text-white">Estoque mínimo</span>
+              </div>
+              <input
+                type="number"
+                min="0"
+                inputMode="numeric"
+                className="w-full h-10 px-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:border-primary focus:outline-none focus:ring-3 focus:ring-primary/20 transition-all font-medium text-sm"
+                placeholder="0 = sem alerta"
+                value={minStock}
+                onChange={(e) => setMinStock(e.target.value.replace(/\D/g, ''))}
+              />
+            </label>
+          </div>
+
           {/* Actions */}
           <div className="flex gap-2 pt-1">
             <button
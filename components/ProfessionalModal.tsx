@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { useProfessionals } from '../contexts.tsx';
+import { Professional } from '../types.ts';
+
+interface ProfessionalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  professional: Professional | null;
+}
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+  <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+export const ProfessionalModal: React.FC<ProfessionalModalProps> = ({ isOpen, onClose, professional }) => {
+  const { addProfessional, updateProfessional } = useProfessionals();
+  const [name, setName] = useState('');
+  const [active, setActive] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (professional) {
+      setName(professional.name);
+      setActive(professional.active);
+    } else {
+      setName('');
+      setActive(true);
+    }
+  }, [professional, isOpen]);
+
+  useEffect(() => {
+    const handleEsc = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    if (isOpen) {
+        window.addEventListener('keydown', handleEsc);
+    }
+    return () => {
+        window.removeEventListener('keydown', handleEsc);
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      alert("Por favor, preencha o nome do profissional.");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      if (professional) {
+        await updateProfessional({ ...professional, name: name.trim(), active });
+      } else {
+        await addProfessional({ name: name.trim(), active });
+      }
+      onClose();
+      setName('');
+    } catch (error: any) {
+      console.error("Failed to save professional:", error);
+      alert(`Falha ao salvar profissional: ${error.message || 'Erro desconhecido.'}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleModalContentClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <style>{`
+        @keyframes slideUp {
+          from {
+            opacity: 0;
+            transform: translateY(20px) scale(0.95);
+          }
+          to {
+            opacity: 1;
+            transform: translateY(0) scale(1);
+          }
+        }
+
+        .animate-slide-up {
+          animation: slideUp 0.3s cubic-bezier(0.16, 1, 0.3, 1);
+        }
+      `}</style>
+
+      <div
+        className="w-full max-w-md bg-white dark:bg-gray-900 rounded-2xl shadow-2xl animate-slide-up border border-gray-200 dark:border-gray-800 overflow-hidden"
+        onClick={handleModalContentClick}
+      >
+        {/* Header with gradient */}
+        <div className="relative bg-gradient-to-br from-primary/10 via-primary/5 to-transparent dark:from-primary/20 dark:via-primary/10 dark:to-transparent p-6 border-b border-gray-200 dark:border-gray-800">
+          <div className="absolute top-0 right-0 w-32 h-32 bg-primary/10 rounded-full blur-3xl"></div>
+          <div className="relative flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-gradient-to-br from-primary to-red-600 rounded-xl shadow-lg shadow-primary/25">
+                <Icon name={professional ? "edit" : "add"} className="text-white text-2xl" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                  {professional ? 'Editar Profissional' : 'Novo Profissional'}
+                </h2>
+                <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">
+                  {professional ? 'Atualize as informações' : 'Cadastre um novo barbeiro'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="flex items-center justify-center w-9 h-9 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-white transition-all"
+            >
+              <Icon name="close" className="text-xl" />
+            </button>
+          </div>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-5 space-y-4">
+          {/* Professional Name */}
+          <div>
+            <label className="block">
+              <div className="flex items-center gap-2 mb-1.5">
+                <Icon name="badge" className="text-primary text-base" />
+                <span className="text-sm font-bold text-gray-900 dark:text-white">
+                  Nome do Profissional
+                </span>
+                <span className="text-red-500 text-xs">*</span>
+              </div>
+              <input
+                required
+                autoFocus
+                type="text"
+                className="w-full h-10 px-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:border-primary focus:outline-none focus:ring-3 focus:ring-primary/20 transition-all font-medium text-sm"
+                placeholder="Ex: Hugo"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={50}
+              />
+            </label>
+          </div>
+
+          {/* Active */}
+          <div className="flex items-center justify-between gap-4 rounded-lg bg-gray-50 dark:bg-gray-800/50 p-3">
+            <div>
+              <p className="text-sm font-bold text-gray-900 dark:text-white">Atendendo</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Profissionais inativos não aparecem na agenda</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setActive(!active)}
+              className={`relative flex h-8 w-14 flex-shrink-0 items-center rounded-full transition-colors duration-200 ${
+                active ? 'bg-primary' : 'bg-gray-300 dark:bg-gray-600'
+              }`}
+              aria-label={active ? 'Desativar profissional' : 'Ativar profissional'}
+            >
+              <span
+                className={`inline-block h-6 w-6 transform rounded-full bg-white transition-transform duration-200 ${
+                  active ? 'translate-x-7' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-2 pt-1">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 h-10 rounded-lg border-2 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white font-semibold text-sm hover:bg-gray-50 dark:hover:bg-gray-800 transition-all"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex-1 h-10 rounded-lg bg-gradient-to-r from-primary to-red-600 hover:from-red-600 hover:to-primary text-white font-semibold text-sm shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] disabled:hover:scale-100"
+            >
+              {isSubmitting ? (
+                <span className="flex items-center justify-center gap-2">
+                  <div className="w-3.5 h-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                  Salvando...
+                </span>
+              ) : (
+                professional ? 'Atualizar' : 'Adicionar'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { useProfessionals } from '../contexts.tsx';
+
+interface ProfessionalPickerProps {
+    value?: number;
+    onChange: (professionalId: number | undefined) => void;
+    error?: string | null;
+    optional?: boolean; // Permite deixar sem profissional (tocar de novo desmarca)
+}
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+    <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+// Seleção do profissional que realizou o atendimento; não aparece enquanto não houver profissionais cadastrados
+export const ProfessionalPicker: React.FC<ProfessionalPickerProps> = ({ value, onChange, error, optional = false }) => {
+    const { professionals, activeProfessionals } = useProfessionals();
+
+    if (activeProfessionals.length === 0) return null;
+
+    // Mantém visível o profissional já vinculado mesmo que tenha sido desativado
+    const currentInactive = professionals.find(p => p.id === value && !p.active);
+    const options = currentInactive ? [...activeProfessionals, currentInactive] : activeProfessionals;
+
+    return (
+        <div className="bg-white dark:bg-gray-900/50 rounded-xl p-5 border border-gray-200 dark:border-gray-800 shadow-sm space-y-3">
+            <div className="flex items-center gap-2">
+                <Icon name="badge" className="text-primary text-xl" />
+                <p className="text-sm font-semibold text-gray-900 dark:text-white">Profissional</p>
+                {optional ? (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">(Opcional)</span>
+                ) : (
+                    <span className="text-xs text-red-600 dark:text-red-400 font-semibold">*</span>
+                )}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {options.map(professional => {
+                    const isSelected = value === professional.id;
+                    return (
+                        <button
+                            key={professional.id}
+                            type="button"
+                            onClick={() => onChange(optional && isSelected ? undefined : professional.id)}
+                            className={`h-10 px-2 rounded-lg font-medium text-sm truncate transition-all ${
+                                isSelected
+                                    ? 'bg-primary text-white ring-2 ring-primary ring-offset-2'
+                                    : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-700 border border-gray-300 dark:border-gray-600'
+                            }`}
+                        >
+                            {professional.name}
+                        </button>
+                    );
+                })}
+            </div>
+            {error && (
+                <p className="text-xs text-red-500 flex items-center gap-1">
+                    <Icon name="error" className="text-sm" />
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+};
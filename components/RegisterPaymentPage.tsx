@@ -1,18 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { useCreditSales } from '../contexts.tsx';
+import { useCreditSales, useSystemSettings } from '../contexts.tsx';
 import { InstallmentStatus, PaymentMethod } from '../types.ts';
 import { Toast, ToastType } from './Toast.tsx';
 import { BottomSheet } from './BottomSheet.tsx';
 import { getPaymentMethodOptions } from '../constants.ts';
+import { calculateLateCharges, getInstallmentPaidAmount, getInstallmentRemainingAmount } from '../services/creditSaleService.ts';
 
 const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => 
     <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>;
 
+// Máscara de valor: digita só números e os dois últimos viram centavos (2000 -> 20,00)
+const formatAmountInput = (value: string): string => {
+    let digits = value.replace(/\D/g, '');
+    if (!digits) return '0,00';
+    digits = digits.replace(/^0+/, '') || '0';
+    digits = digits.padStart(3, '0');
+    return digits.slice(0, -2) + ',' + digits.slice(-2);
+};
+
 export const RegisterPaymentPage: React.FC = () => {
     const navigate = useNavigate();
     const [searchParams] = useSearchParams();
     const { creditSales, installments, payInstallment, fetchCreditSales, updateCreditSaleStatus } = useCreditSales();
+    const { settings } = useSystemSettings();
 
     const creditSaleId = searchParams.get('saleId');
     const installmentId = searchParams.get('installmentId');
@@ -25,6 +36,8 @@ export const RegisterPaymentPage: React.FC = () => {
         const day = String(today.getDate()).padStart(2, '0');
         return `${year}-${month}-${day}`;
     });
+    const [amount, setAmount] = useState('');
+    const [chargeLateFees, setChargeLateFees] = useState(true);
     const [isPaying, setIsPaying] = useState(false);
     const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
     const [isPaymentMethodSheetOpen, setIsPaymentMethodSheetOpen] = useState(false);
@@ -48,12 +61,27 @@ export const RegisterPaymentPage: React.FC = () => {
     // Definir sale e installment antes de usar nos useEffects
     const sale = creditSales.find(s => s.id === Number(creditSaleId));
     const installment = installments.find(inst => inst.id === Number(installmentId));
+    const remainingAmount = installment ? getInstallmentRemainingAmount(installment) : 0;
+    const paidAmount = installment ? getInstallmentPaidAmount(installment) : 0;
 
+    // Valor sugerido: saldo da parcela (o cliente pode pagar só uma parte)
+    useEffect(() => {
+        if (installment) {
+            setAmount(remainingAmount.toFixed(2).replace('.', ','));
+        }
+    }, [installment?.id, remainingAmount]);
 
     const formatCurrency = (value: number): string => {
         return `R$ ${value.toFixed(2).replace('.', ',')}`;
     };
 
+    // Multa e juros sobre o valor pago depois do vencimento (regras em Configurações)
+    const amountValue = parseFloat(amount.replace(',', '.')) || 0;
+    const lateCharges = installment
+        ? calculateLateCharges(Math.min(amountValue, remainingAmount), installment.dueDate, paidDate, settings)
+        : { daysLate: 0, lateFee: 0, interest: 0, total: 0 };
+    const appliedCharges = chargeLateFees ? lateCharges.total : 0;
+
     const formatDateShort = (dateString: string): string => {
         const date = new Date(dateString + 'T00:00:00');
         return date.toLocaleDateString('pt-BR', { 
@@ -69,15 +97,33 @@ export const RegisterPaymentPage: React.FC = () => {
             return;
         }
 
+        if (amountValue <= 0) {
+            setToast({ message: 'Informe o valor recebido.', type: 'warning' });
+            return;
+        }
+        if (amountValue > remainingAmount) {
+            setToast({ message: `O valor não pode ser maior que o saldo da parcela (${formatCurrency(remainingAmount)}).`, type: 'warning' });
+            return;
+        }
+
         try {
             setIsPaying(true);
             
             // Registrar pagamento (já atualiza fetchCreditSales automaticamente)
-            await payInstallment(installment.id, paymentMethod, paidDate);
+            await payInstallment(
+                installment.id,
+                paymentMethod,
+                paidDate,
+                amountValue,
+                chargeLateFees ? { lateFee: lateCharges.lateFee, interest: lateCharges.interest } : undefined
+            );
             
             // Mostrar mensagem de sucesso imediatamente
+            const chargesMessage = appliedCharges > 0 ? ` + ${formatCurrency(appliedCharges)} de multa e juros` : '';
             setToast({ 
-                message: `Pagamento de ${formatCurrency(installment.amount)} registrado com sucesso!`, 
+                message: amountValue < remainingAmount
+                    ? `Pagamento parcial de ${formatCurrency(amountValue)}${chargesMessage} registrado. Saldo da parcela: ${formatCurrency(remainingAmount - amountValue)}`
+                    : `Pagamento de ${formatCurrency(amountValue)}${chargesMessage} registrado com sucesso!`, 
                 type: 'success' 
             });
             
@@ -185,6 +231,26 @@ export const RegisterPaymentPage: React.FC = () => {
                         </div>
                     </div>
                     
+                    {paidAmount > 0 && (
+                        <div className="mt-4 space-y-2">
+                            <div className="grid grid-cols-2 gap-4 text-center">
+                                <div className="bg-white/60 dark:bg-gray-900/40 rounded-lg p-3">
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Já pago</p>
+                                    <p className="text-base font-bold text-green-600 dark:text-green-400">{formatCurrency(paidAmount)}</p>
+                                </div>
+                                <div className="bg-white/60 dark:bg-gray-900/40 rounded-lg p-3">
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Saldo da parcela</p>
+                                    <p className="text-base font-bold text-primary">{formatCurrency(remainingAmount)}</p>
+                                </div>
+                            </div>
+                            {(installment.payments || []).map(payment => (
+                                <p key={payment.id} className="text-xs text-gray-600 dark:text-gray-400">
+                                    {formatDateShort(payment.paidDate)}: {formatCurrency(payment.amount)} ({payment.paymentMethod})
+                                </p>
+                            ))}
+                        </div>
+                    )}
+
                     {installment.status === InstallmentStatus.Overdue && (
                         <div className="mt-4 bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-700 rounded-lg p-3 flex items-center gap-2">
                             <Icon name="warning" className="text-red-600 dark:text-red-400" />
@@ -195,6 +261,25 @@ export const RegisterPaymentPage: React.FC = () => {
 
                 {/* Payment Form */}
                 <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-6 shadow-sm space-y-6 relative overflow-visible">
+                    <div className="space-y-2">
+                        <label className="text-sm font-semibold text-gray-900 dark:text-white block">
+                            Valor Recebido <span className="text-red-500">*</span>
+                        </label>
+                        <div className="relative">
+                            <span className="absolute inset-y-0 left-0 flex items-center pl-4 text-gray-500 dark:text-gray-400 text-base font-medium">R$</span>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                value={amount}
+                                onChange={(e) => setAmount(formatAmountInput(e.target.value))}
+                                className="w-full h-12 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 pl-12 pr-4 text-base font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-3 focus:ring-primary/20 transition-all"
+                            />
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            Saldo da parcela: {formatCurrency(remainingAmount)}. Informe um valor menor para registrar um pagamento parcial
+                        </p>
+                    </div>
+
                     <div className="space-y-2 relative">
                         <label className="text-sm font-semibold text-gray-900 dark:text-white block">
                             Método de Pagamento <span className="text-red-500">*</span>
@@ -265,6 +350,36 @@ export const RegisterPaymentPage: React.FC = () => {
                         />
                         <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Data em que o pagamento foi realizado (padrão: hoje)</p>
                     </div>
+
+                    {lateCharges.total > 0 && (
+                        <div className="rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-4 space-y-3">
+                            <label className="flex items-center justify-between gap-3 cursor-pointer">
+                                <span className="text-sm font-semibold text-red-800 dark:text-red-300">
+                                    Cobrar multa e juros ({lateCharges.daysLate} {lateCharges.daysLate === 1 ? 'dia' : 'dias'} de atraso)
+                                </span>
+                                <input
+                                    type="checkbox"
+                                    checked={chargeLateFees}
+                                    onChange={(e) => setChargeLateFees(e.target.checked)}
+                                    className="h-5 w-5 rounded accent-primary"
+                                />
+                            </label>
+                            <div className={`space-y-1 text-sm ${chargeLateFees ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400 dark:text-gray-500 line-through'}`}>
+                                <div className="flex justify-between">
+                                    <span>Multa ({String(settings.lateFeePercentage).replace('.', ',')}%)</span>
+                                    <span>{formatCurrency(lateCharges.lateFee)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Juros ({String(settings.dailyInterestPercentage).replace('.', ',')}% ao dia)</span>
+                                    <span>{formatCurrency(lateCharges.interest)}</span>
+                                </div>
+                            </div>
+                            <div className="flex justify-between pt-2 border-t border-red-200 dark:border-red-800 text-sm font-bold text-gray-900 dark:text-white">
+                                <span>Total a receber</span>
+                                <span>{formatCurrency(amountValue + appliedCharges)}</span>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Action Buttons */}
@@ -3,6 +3,11 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell, Legend } from 'recharts';
 import { Transaction, PaymentMethod } from '../types.ts';
 import { useTransactions, useServices, useProducts, useCreditSales } from '../contexts.tsx';
+import { getItemTotal, getTransactionItems } from '../services/transactionItemsService.ts';
+import { getTransactionPayments, sumPaymentsByMethod } from '../services/transactionPaymentsService.ts';
+import { buildMarginLines, summarizeMargin, groupMargin, getLossLines } from '../services/marginService.ts';
+import { PAYMENT_METHOD_COLORS } from '../constants.ts';
+import { formatLocalDate, getTodayLocalDate, getPeriodRange } from '../services/dateService.ts';
 
 const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => 
     <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>;
@@ -11,23 +16,6 @@ const ORDER_OF_ARRIVAL_LABEL = 'Ordem de Chegada';
 const ORDER_OF_ARRIVAL_LABEL_PLURAL = 'Ordem de Chegada';
 const ORDER_OF_ARRIVAL_LABEL_SHORT = 'Ordem de Chegada';
 
-// Helper function to get today's date in local timezone (YYYY-MM-DD format)
-const getTodayLocalDate = (): string => {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, '0');
-    const day = String(today.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
-
-// Helper function to format Date object to YYYY-MM-DD in local timezone (avoiding UTC issues)
-const formatLocalDate = (date: Date): string => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
-
 // Helper function to get start and end of today in local timezone
 const getTodayRange = () => {
     const today = new Date();
@@ -80,7 +68,7 @@ export const ReportsPage: React.FC = () => {
     const [monthlyGoal, setMonthlyGoal] = useState(10000); // Meta mensal padrão R$ 10.000
     const [isDragging, setIsDragging] = useState(false);
     const [topServicesProductsTab, setTopServicesProductsTab] = useState<'servicos' | 'produtos'>('servicos');
-    const [activeChartTab, setActiveChartTab] = useState<'performance' | 'line' | 'pie' | 'peak' | 'top'>('performance');
+    const [activeChartTab, setActiveChartTab] = useState<'performance' | 'line' | 'pie' | 'peak' | 'top' | 'margin'>('performance');
     const dragStartRef = useRef({ x: 0, scrollLeft: 0 });
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const chartContainerRef = useRef<HTMLDivElement>(null);
@@ -119,36 +107,17 @@ export const ReportsPage: React.FC = () => {
 
     // Get date ranges
     const getDateRange = (filter: 'today' | 'week' | 'month' | 'year' | 'all-time' | 'custom') => {
-        const today = new Date();
-        const startDate = new Date();
-        
         switch(filter) {
             case 'today':
-                return {
-                    start: getTodayLocalDate(),
-                    end: getTodayLocalDate()
-                };
+                return getPeriodRange('day');
             case 'week':
                 // Last 7 days (today + 6 days before)
-                startDate.setDate(today.getDate() - 6);
-                return {
-                    start: formatLocalDate(startDate),
-                    end: getTodayLocalDate()
-                };
+                return getPeriodRange('week');
             case 'month':
-                startDate.setDate(1);
-                // For chart display, we need the full month, but for filtering transactions, we use today
-                const monthEnd = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0);
-                return {
-                    start: formatLocalDate(startDate),
-                    end: getTodayLocalDate() // Still filter transactions only until today
-                };
+                // Filter transactions only until today
+                return getPeriodRange('month');
             case 'year':
-                startDate.setMonth(0, 1); // January 1st
-                return {
-                    start: formatLocalDate(startDate),
-                    end: getTodayLocalDate()
-                };
+                return getPeriodRange('year'); // January 1st
             case 'custom':
                 // Use custom date range if both dates are set
                 if (customStartDate && customEndDate) {
@@ -164,11 +133,6 @@ export const ReportsPage: React.FC = () => {
         }
     };
 
-    // Extract client name (remove WhatsApp if present) - Helper function
-    const getClientName = (clientName: string): string => {
-        return clientName.includes('|') ? clientName.split('|')[0] : clientName;
-    };
-
     // Categorize all transactions (services and sales)
     const categorizedTransactions = useMemo(() => {
         return transactions.map(transaction => {
@@ -181,10 +145,9 @@ export const ReportsPage: React.FC = () => {
             }
             
             // Categorize as scheduled or walk-in service
-            const isScheduled = transaction.clientName.includes('|');
             return {
                 ...transaction,
-                category: isScheduled ? 'agendado' as const : 'avulso' as const
+                category: transaction.fromAppointment ? 'agendado' as const : 'avulso' as const
             };
         });
     }, [transactions]);
@@ -235,14 +198,14 @@ export const ReportsPage: React.FC = () => {
 
         // Apply payment method filter
         if (paymentFilter !== 'all') {
-            filtered = filtered.filter(t => t.paymentMethod === paymentFilter);
+            filtered = filtered.filter(t => getTransactionPayments(t).some(p => p.method === paymentFilter));
         }
 
         // Apply search filter
         if (searchQuery.trim()) {
             const query = searchQuery.toLowerCase();
             filtered = filtered.filter(t => {
-                const clientName = getClientName(t.clientName).toLowerCase();
+                const clientName = t.clientName.toLowerCase();
                 const service = (t.service || '').toLowerCase();
                 return clientName.includes(query) || service.includes(query);
             });
@@ -504,15 +467,12 @@ export const ReportsPage: React.FC = () => {
         return [];
     }, [dateFilter, filteredTransactions]);
 
-    // Payment method distribution
+    // Payment method distribution (receita efetivamente recebida em cada método)
     const paymentMethodData = useMemo(() => {
-        const methodCount: { [key: string]: number } = {};
-        filteredTransactions.forEach(t => {
-            const method = t.paymentMethod || 'Não informado';
-            methodCount[method] = (methodCount[method] || 0) + 1;
-        });
-        
-        return Object.entries(methodCount).map(([name, value]) => ({ name, value }));
+        return Object.entries(sumPaymentsByMethod(filteredTransactions))
+            .filter(([, value]) => value > 0)
+            .sort((a, b) => b[1] - a[1])
+            .map(([name, value]) => ({ name, value, color: PAYMENT_METHOD_COLORS[name] || '#6b7280' }));
     }, [filteredTransactions]);
 
     // Peak hours analysis
@@ -538,7 +498,7 @@ export const ReportsPage: React.FC = () => {
         return hours;
     }, [filteredTransactions]);
 
-    // Top services - split by comma to count individually with real prices
+    // Top services - counted per line item, using the price charged on each sale
     const topServices = useMemo(() => {
         const itemCount: { [key: string]: { count: number; revenue: number } } = {};
         
@@ -548,32 +508,12 @@ export const ReportsPage: React.FC = () => {
         );
         
         serviceTransactions.forEach(t => {
-            const serviceName = t.service || 'Sem nome';
-            
-            // Split by comma to separate multiple services
-            const items = serviceName.split(',').map(item => item.trim()).filter(item => item.length > 0);
-            
-            // If no items after split, use the original name
-            const itemsToProcess = items.length > 0 ? items : [serviceName];
-            
-            // For each item, find its real price from services list
-            itemsToProcess.forEach(item => {
-                if (!itemCount[item]) {
-                    itemCount[item] = { count: 0, revenue: 0 };
+            getTransactionItems(t, services, products).forEach(item => {
+                if (!itemCount[item.name]) {
+                    itemCount[item.name] = { count: 0, revenue: 0 };
                 }
-                
-                // Find the service by name (case insensitive, partial match)
-                const foundService = services.find(s => 
-                    s.name.toLowerCase().trim() === item.toLowerCase().trim() ||
-                    item.toLowerCase().trim().includes(s.name.toLowerCase().trim()) ||
-                    s.name.toLowerCase().trim().includes(item.toLowerCase().trim())
-                );
-                
-                // Use the service's real price, or fallback to transaction value if not found
-                const itemPrice = foundService ? foundService.price : (itemsToProcess.length === 1 ? t.value : 0);
-                
-                itemCount[item].count += 1;
-                itemCount[item].revenue += itemPrice;
+                itemCount[item.name].count += item.quantity;
+                itemCount[item.name].revenue += getItemTotal(item);
             });
         });
         
@@ -581,9 +521,9 @@ export const ReportsPage: React.FC = () => {
             .map(([name, data]) => ({ name, ...data }))
             .sort((a, b) => b.revenue - a.revenue)
             .slice(0, 5);
-    }, [filteredTransactions, services]);
+    }, [filteredTransactions, services, products]);
 
-    // Top products - split by comma to count individually with real prices
+    // Top products - counted per line item, using the price charged on each sale
     const topProducts = useMemo(() => {
         const itemCount: { [key: string]: { count: number; revenue: number } } = {};
         
@@ -593,32 +533,12 @@ export const ReportsPage: React.FC = () => {
         );
         
         productTransactions.forEach(t => {
-            const productName = t.service || t.product || 'Sem nome';
-            
-            // Split by comma to separate multiple products
-            const items = productName.split(',').map(item => item.trim()).filter(item => item.length > 0);
-            
-            // If no items after split, use the original name
-            const itemsToProcess = items.length > 0 ? items : [productName];
-            
-            // For each item, find its real price from products list
-            itemsToProcess.forEach(item => {
-                if (!itemCount[item]) {
-                    itemCount[item] = { count: 0, revenue: 0 };
+            getTransactionItems(t, services, products).forEach(item => {
+                if (!itemCount[item.name]) {
+                    itemCount[item.name] = { count: 0, revenue: 0 };
                 }
-                
-                // Find the product by name (case insensitive, partial match)
-                const foundProduct = products.find(p => 
-                    p.name.toLowerCase().trim() === item.toLowerCase().trim() ||
-                    item.toLowerCase().trim().includes(p.name.toLowerCase().trim()) ||
-                    p.name.toLowerCase().trim().includes(item.toLowerCase().trim())
-                );
-                
-                // Use the product's real price, or fallback to transaction value if not found
-                const itemPrice = foundProduct ? foundProduct.price : (itemsToProcess.length === 1 ? t.value : 0);
-                
-                itemCount[item].count += 1;
-                itemCount[item].revenue += itemPrice;
+                itemCount[item.name].count += item.quantity;
+                itemCount[item.name].revenue += getItemTotal(item);
             });
         });
         
@@ -626,7 +546,29 @@ export const ReportsPage: React.FC = () => {
             .map(([name, data]) => ({ name, ...data }))
             .sort((a, b) => b.revenue - a.revenue)
             .slice(0, 5);
-    }, [filteredTransactions, products]);
+    }, [filteredTransactions, services, products]);
+
+    // Gross margin - revenue after discounts minus the cost of each sold item
+    const marginLines = useMemo(
+        () => buildMarginLines(filteredTransactions, services, products),
+        [filteredTransactions, services, products]
+    );
+    const productMarginLines = useMemo(() => marginLines.filter(line => line.itemType === 'product'), [marginLines]);
+    const marginTotals = useMemo(() => summarizeMargin(productMarginLines), [productMarginLines]);
+    const marginByProduct = useMemo(() => groupMargin(productMarginLines, line => line.name), [productMarginLines]);
+    const marginByCategory = useMemo(() => groupMargin(marginLines, line => line.category), [marginLines]);
+    const marginByPeriod = useMemo(() => {
+        // Períodos longos agrupam por mês, os demais por dia
+        const byMonth = dateFilter === 'year' || dateFilter === 'all-time';
+        return groupMargin(productMarginLines, line => byMonth ? line.date.slice(0, 7) : line.date)
+            .sort((a, b) => b.label.localeCompare(a.label));
+    }, [productMarginLines, dateFilter]);
+    const lossLines = useMemo(() => getLossLines(productMarginLines), [productMarginLines]);
+
+    const formatMarginPeriod = (key: string): string => {
+        const [year, month, day] = key.split('-');
+        return day ? `${day}/${month}` : `${month}/${year}`;
+    };
 
     const dateFilterOptions: Array<{ id: typeof dateFilter; label: string }> = [
         { id: 'today', label: 'Hoje' },
@@ -744,7 +686,7 @@ export const ReportsPage: React.FC = () => {
         const headers = ['Data', 'Cliente/Produto', 'Tipo', 'Serviço', 'Método de Pagamento', 'Valor', 'Desconto'];
         const rows = sortedTransactions.map(t => [
             formatDate(t.date),
-            getClientName(t.clientName),
+            t.clientName,
             t.category === 'vendas' ? 'Venda' : t.category === 'agendado' ? 'Agendado' : ORDER_OF_ARRIVAL_LABEL_SHORT,
             t.service || '-',
             t.paymentMethod || '-',
@@ -947,7 +889,7 @@ export const ReportsPage: React.FC = () => {
                             return `
                                 <tr>
                                     <td>${formatDate(t.date)}</td>
-                                    <td>${getClientName(t.clientName)}</td>
+                                    <td>${t.clientName}</td>
                                     <td><span class="badge ${categoryClass}">${categoryLabel}</span></td>
                                     <td>${t.service || '-'}</td>
                                     <td>${t.paymentMethod || '-'}</td>
@@ -1671,6 +1613,20 @@ export const ReportsPage: React.FC = () => {
                             <span className="hidden sm:inline">Top Serviços</span>
                         </button>
                     )}
+                    {productMarginLines.length > 0 && (
+                        <button
+                            onClick={() => setActiveChartTab('margin')}
+                            className={`flex items-center justify-center gap-2 px-2 sm:px-4 py-2 rounded-lg font-semibold text-sm whitespace-nowrap transition-all ${
+                                activeChartTab === 'margin'
+                                    ? 'bg-primary text-white shadow-md'
+                                    : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                            }`}
+                            title="Margem Bruta"
+                        >
+                            <Icon name="trending_up" className="text-base" />
+                            <span className="hidden sm:inline">Margem</span>
+                        </button>
+                    )}
                 </div>
 
                 {/* Chart Content */}
@@ -1713,11 +1669,12 @@ export const ReportsPage: React.FC = () => {
                         
                         // Only trigger swipe if movement is significant and quick
                         if (Math.abs(deltaX) > 50 && deltaTime < 300) {
-                            const availableTabs: ('performance' | 'line' | 'pie' | 'peak' | 'top')[] = ['performance'];
+                            const availableTabs: ('performance' | 'line' | 'pie' | 'peak' | 'top' | 'margin')[] = ['performance'];
                             if (lineChartData.length > 0) availableTabs.push('line');
                             if (pieChartData.length > 0) availableTabs.push('pie');
                             if (peakHours.length > 0) availableTabs.push('peak');
                             if (topServices.length > 0 || topProducts.length > 0) availableTabs.push('top');
+                            if (productMarginLines.length > 0) availableTabs.push('margin');
                             
                             const currentIndex = availableTabs.indexOf(activeChartTab);
                             
@@ -1952,6 +1909,40 @@ export const ReportsPage: React.FC = () => {
                                     </PieChart>
                                 </ResponsiveContainer>
                             </div>
+
+                            {paymentMethodData.length > 0 && (
+                                <>
+                                    <h3 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white mt-6 mb-4">Receita por Forma de Pagamento</h3>
+                                    <div className="h-64 sm:h-80">
+                                        <ResponsiveContainer width="100%" height="100%">
+                                            <PieChart>
+                                                <Pie
+                                                    data={paymentMethodData}
+                                                    cx="50%"
+                                                    cy="50%"
+                                                    labelLine={false}
+                                                    label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                                                    outerRadius={80}
+                                                    dataKey="value"
+                                                >
+                                                    {paymentMethodData.map((entry) => (
+                                                        <Cell key={`payment-${entry.name}`} fill={entry.color} />
+                                                    ))}
+                                                </Pie>
+                                                <Tooltip
+                                                    formatter={(value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`}
+                                                    contentStyle={{
+                                                        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                                                        borderColor: 'rgba(0, 0, 0, 0.1)',
+                                                        borderRadius: '8px'
+                                                    }}
+                                                />
+                                                <Legend />
+                                            </PieChart>
+                                        </ResponsiveContainer>
+                                    </div>
+                                </>
+                            )}
                         </div>
                     )}
 
@@ -2077,6 +2068,88 @@ export const ReportsPage: React.FC = () => {
                             )}
                         </div>
                     )}
+
+                    {/* Gross Margin */}
+                    {activeChartTab === 'margin' && productMarginLines.length > 0 && (
+                        <div className="animate-fade-in space-y-5">
+                            <h3 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                                <Icon name="trending_up" className="text-primary" />
+                                Margem Bruta de Produtos
+                            </h3>
+
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                <div className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">Receita</p>
+                                    <p className="font-bold text-gray-900 dark:text-white">{formatCurrency(marginTotals.revenue)}</p>
+                                </div>
+                                <div className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">Custo</p>
+                                    <p className="font-bold text-gray-900 dark:text-white">{formatCurrency(marginTotals.cost)}</p>
+                                </div>
+                                <div className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">Margem</p>
+                                    <p className={`font-bold ${marginTotals.margin >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>{formatCurrency(marginTotals.margin)}</p>
+                                </div>
+                                <div className="p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">Margem %</p>
+                                    <p className="font-bold text-gray-900 dark:text-white">{marginTotals.marginPercent.toFixed(1).replace('.', ',')}%</p>
+                                </div>
+                            </div>
+
+                            {lossLines.length > 0 && (
+                                <div className="rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-3">
+                                    <p className="text-sm font-bold text-red-700 dark:text-red-300 mb-2 flex items-center gap-1">
+                                        <Icon name="warning" className="text-base" />
+                                        Vendidos abaixo do custo ({lossLines.length})
+                                    </p>
+                                    <div className="space-y-1">
+                                        {lossLines.slice(0, 10).map((line, index) => (
+                                            <div key={`${line.transactionId}-${index}`} className="flex items-center justify-between text-sm">
+                                                <span className="text-gray-700 dark:text-gray-300 truncate">
+                                                    {formatMarginPeriod(line.date)} · {line.name}{line.quantity > 1 ? ` (${line.quantity}x)` : ''}
+                                                </span>
+                                                <span className="font-semibold text-red-600 dark:text-red-400 ml-3">{formatCurrency(line.margin)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {[
+                                { title: 'Por produto', rows: marginByProduct, formatLabel: (label: string) => label },
+                                { title: 'Por categoria', rows: marginByCategory, formatLabel: (label: string) => label },
+                                { title: 'Por período', rows: marginByPeriod, formatLabel: formatMarginPeriod },
+                            ].map(({ title, rows, formatLabel }) => (
+                                <div key={title}>
+                                    <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{title}</p>
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full text-sm">
+                                            <thead>
+                                                <tr className="text-xs text-gray-500 dark:text-gray-400 text-left">
+                                                    <th className="py-1 pr-2 font-medium"></th>
+                                                    <th className="py-1 px-2 font-medium text-right">Receita</th>
+                                                    <th className="py-1 px-2 font-medium text-right">Custo</th>
+                                                    <th className="py-1 px-2 font-medium text-right">Margem</th>
+                                                    <th className="py-1 pl-2 font-medium text-right">%</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                                                {rows.map(row => (
+                                                    <tr key={row.label}>
+                                                        <td className="py-1.5 pr-2 text-gray-900 dark:text-white">{formatLabel(row.label)}</td>
+                                                        <td className="py-1.5 px-2 text-right text-gray-700 dark:text-gray-300">{formatCurrency(row.revenue)}</td>
+                                                        <td className="py-1.5 px-2 text-right text-gray-700 dark:text-gray-300">{formatCurrency(row.cost)}</td>
+                                                        <td className={`py-1.5 px-2 text-right font-semibold ${row.margin >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>{formatCurrency(row.margin)}</td>
+                                                        <td className="py-1.5 pl-2 text-right text-gray-700 dark:text-gray-300">{row.marginPercent.toFixed(1).replace('.', ',')}%</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -2122,12 +2195,12 @@ export const ReportsPage: React.FC = () => {
                                                 ) : transaction.category === 'agendado' ? (
                                                     <>
                                                         <Icon name="event_available" className="text-base" style={{ color: '#ff0000' }} />
-                                                        <span>{getClientName(transaction.clientName)}</span>
+                                                        <span>{transaction.clientName}</span>
                                                     </>
                                                 ) : (
                                                     <>
                                                         <Icon name="order_approve" className="text-base" style={{ color: '#ff0000' }} />
-                                                        <span>{getClientName(transaction.clientName)}</span>
+                                                        <span>{transaction.clientName}</span>
                                                     </>
                                                 )}
                                             </p>
@@ -2165,12 +2238,12 @@ export const ReportsPage: React.FC = () => {
                                                 ) : transaction.category === 'agendado' ? (
                                                     <>
                                                         <Icon name="event_available" className="text-lg" style={{ color: '#ff0000' }} />
-                                                        <span>{getClientName(transaction.clientName)}</span>
+                                                        <span>{transaction.clientName}</span>
                                                     </>
                                                 ) : (
                                                     <>
                                                         <Icon name="order_approve" className="text-lg" style={{ color: '#ff0000' }} />
-                                                        <span>{getClientName(transaction.clientName)}</span>
+                                                        <span>{transaction.clientName}</span>
                                                     </>
                                                 )}
                                             </p>
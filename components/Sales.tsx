@@ -3,8 +3,24 @@ import { useNavigate } from 'react-router-dom';
 import { useProducts, useTransactions, useEditTransaction, useSystemSettings, useCreditSales, useClients } from '../contexts.tsx';
 import { Product, PaymentMethod, Transaction, Client } from '../types.ts';
 import { ClientSearchField } from './ClientSearchField.tsx';
+import { ProfessionalPicker } from './ProfessionalPicker.tsx';
 import { BottomSheet } from './BottomSheet.tsx';
 import { getPaymentMethodOptions } from '../constants.ts';
+import { buildProductItem, formatItemsDescription, getTransactionItems } from '../services/transactionItemsService.ts';
+import { buildTransactionPayments, formatPaymentMethods, getTransactionPayments } from '../services/transactionPaymentsService.ts';
+import { findInsufficientStock, isLowStock } from '../services/stockService.ts';
+import {
+    buildInstallmentSchedule,
+    checkClientCredit,
+    CreditCustomer,
+    getCreditBlockReasons,
+    INSTALLMENT_INTERVAL_LABELS,
+    InstallmentInterval,
+    isInstallmentScheduleValid,
+    splitInstallmentAmounts,
+} from '../services/creditSaleService.ts';
+import { addMonthsToDate, getTodayLocalDate } from '../services/dateService.ts';
+import { DuplicateClientError, findClientByName as findClientByNormalizedName } from '../services/clientDuplicateService.ts';
 
 const paymentMethodOptions = Object.values(PaymentMethod).filter(m => m !== PaymentMethod.Credit); // Remover Fiado da lista normal
 
@@ -33,32 +49,11 @@ const formatDiscountInput = (value: string): string => {
     return intPart + ',' + decimalPart;
 };
 
-// Helper function to get today's date in local timezone (YYYY-MM-DD format)
-const getTodayLocalDate = (): string => {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, '0');
-    const day = String(today.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
-
 const DEFAULT_CLIENT_NAME = 'Venda de Produto';
 
-const stripClientName = (value?: string): string => {
-    if (!value) return '';
-    return value.split('|')[0]?.trim() || '';
-};
-
-const buildClientDisplayName = (rawName: string, client?: Client | null): string => {
-    const sanitized = stripClientName(rawName);
-
-    if (client) {
-        const baseName = client.fullName?.trim() || sanitized || DEFAULT_CLIENT_NAME;
-        const whatsapp = client.whatsapp?.trim();
-        return whatsapp ? `${baseName}|${whatsapp}` : baseName;
-    }
-
-    return sanitized || DEFAULT_CLIENT_NAME;
+// Nome gravado na venda: o do cadastro quando o cliente foi encontrado na base
+const getSaleClientName = (rawName: string, client?: Client | null): string => {
+    return client?.fullName?.trim() || rawName.trim() || DEFAULT_CLIENT_NAME;
 };
 
 export const SalesPage: React.FC = () => {
@@ -67,14 +62,10 @@ export const SalesPage: React.FC = () => {
     const { addTransaction, updateTransaction } = useTransactions();
     const { transaction: editTransaction, onSave: onEditSave, clearEditTransactionData } = useEditTransaction();
     const { settings } = useSystemSettings();
-    const { addCreditSale } = useCreditSales();
+    const { creditSales, installments: creditInstallments, addCreditSale } = useCreditSales();
     const { clients, addClient } = useClients();
 
-    const findClientByName = useCallback((name: string): Client | null => {
-        if (!name || !name.trim()) return null;
-        const normalized = name.trim().toLowerCase();
-        return clients.find(c => c.fullName.toLowerCase() === normalized) || null;
-    }, [clients]);
+    const findClientByName = useCallback((name: string): Client | null => findClientByNormalizedName(clients, name), [clients]);
 
     const isEditing = !!editTransaction && (editTransaction.type === 'product' || editTransaction.clientName === 'Venda de Produto');
 
@@ -84,6 +75,7 @@ export const SalesPage: React.FC = () => {
     const [payments, setPayments] = useState<PaymentState[]>([{ id: Date.now(), method: '' as PaymentMethod | '', amount: '' }]);
     const [discount, setDiscount] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [professionalId, setProfessionalId] = useState<number | undefined>(undefined);
     const [openPaymentMethodSheet, setOpenPaymentMethodSheet] = useState<number | null>(null);
     
     // Estados para venda avulso
@@ -97,14 +89,12 @@ export const SalesPage: React.FC = () => {
     const [numberOfInstallments, setNumberOfInstallments] = useState(1);
     const [installmentsInputValue, setInstallmentsInputValue] = useState('1'); // Estado para permitir edição livre
     const [openPaymentDropdown, setOpenPaymentDropdown] = useState<number | null>(null);
-    const [firstDueDate, setFirstDueDate] = useState(() => {
-        const nextMonth = new Date();
-        nextMonth.setMonth(nextMonth.getMonth() + 1);
-        const year = nextMonth.getFullYear();
-        const month = String(nextMonth.getMonth() + 1).padStart(2, '0');
-        const day = String(nextMonth.getDate()).padStart(2, '0');
-        return `${year}-${month}-${day}`;
-    });
+    const [overrideCredit, setOverrideCredit] = useState(false); // Liberação do dono para cliente bloqueado
+    const [overrideReason, setOverrideReason] = useState('');
+    const [firstDueDate, setFirstDueDate] = useState(() => addMonthsToDate(getTodayLocalDate(), 1));
+    const [installmentInterval, setInstallmentInterval] = useState<InstallmentInterval>('monthly');
+    const [downPayment, setDownPayment] = useState(''); // Entrada (1ª parcela diferente), vazio = parcelas iguais
+    const [customDueDates, setCustomDueDates] = useState<Record<number, string>>({}); // Vencimentos alterados à mão (por índice)
 
     // Filter products based on search query
     const filteredProducts = useMemo(() => {
@@ -133,31 +123,59 @@ export const SalesPage: React.FC = () => {
         return total < 0 ? 0 : total;
     }, [subtotal, discountValue]);
 
+    // Regras do fiado (atraso e limite); cliente sem cadastro é conferido pelo nome e não tem limite
+    const registeredFiadoClient = isCreditSale ? (selectedClient || findClientByName(clientName)) : null;
+    const fiadoClient = useMemo<CreditCustomer | null>(() => {
+        if (!isCreditSale || !clientName.trim()) return null;
+        return registeredFiadoClient || { fullName: clientName.trim() };
+    }, [isCreditSale, clientName, registeredFiadoClient]);
+    const creditCheck = useMemo(() => {
+        if (!fiadoClient) return null;
+        return checkClientCredit(fiadoClient, creditSales, creditInstallments, totalValue, getTodayLocalDate());
+    }, [fiadoClient, creditSales, creditInstallments, totalValue]);
+    const creditBlockReasons = useMemo(() => {
+        if (!creditCheck || !fiadoClient) return [];
+        return getCreditBlockReasons(creditCheck, fiadoClient, totalValue);
+    }, [creditCheck, fiadoClient, totalValue]);
+    const isCreditBlocked = !!creditCheck?.isBlocked && !(overrideCredit && overrideReason.trim());
+
+    // Parcelas do fiado: entrada opcional, intervalo e vencimentos alterados à mão
+    const downPaymentValue = useMemo(() => {
+        const parsed = parseFloat(downPayment.replace(',', '.'));
+        return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+    }, [downPayment]);
+    const installmentSchedule = useMemo(() => {
+        if (!firstDueDate) return [];
+        const amounts = splitInstallmentAmounts(totalValue, numberOfInstallments, downPaymentValue);
+        return buildInstallmentSchedule(amounts, firstDueDate, installmentInterval).map((installment, index) => ({
+            ...installment,
+            dueDate: customDueDates[index] ?? installment.dueDate,
+        }));
+    }, [totalValue, numberOfInstallments, downPaymentValue, firstDueDate, installmentInterval, customDueDates]);
+
+    // Mudou a regra de vencimento: descarta as datas alteradas à mão
+    useEffect(() => {
+        setCustomDueDates({});
+    }, [numberOfInstallments, firstDueDate, installmentInterval]);
+
+    // Liberação vale só para o cliente escolhido
+    useEffect(() => {
+        setOverrideCredit(false);
+        setOverrideReason('');
+    }, [fiadoClient?.id, fiadoClient?.fullName]);
+
     // Pre-fill data when editing (only once when component mounts or editTransaction changes)
     const initializedTransactionId = React.useRef<number | null>(null);
     useEffect(() => {
         if (isEditing && editTransaction && products.length > 0 && initializedTransactionId.current !== editTransaction.id) {
             initializedTransactionId.current = editTransaction.id;
-            // Parse products from transaction.service (format: "Produto 1 (2x), Produto 2")
-            const serviceText = editTransaction.service;
-            const productEntries = serviceText.split(',').map(s => s.trim());
-            
+            // Rebuild the cart from the transaction items
             const newSelected = new Map<number, { product: Product; quantity: number }>();
             
-            productEntries.forEach(entry => {
-                // Check if has quantity: "Produto (2x)"
-                const quantityMatch = entry.match(/\((\d+)x\)$/);
-                const quantity = quantityMatch ? parseInt(quantityMatch[1]) : 1;
-                const productName = entry.replace(/\s*\(\d+x\)$/, '').trim();
-                
-                // Find matching product
-                const matchingProduct = products.find(p => 
-                    p.name.toLowerCase() === productName.toLowerCase() ||
-                    productName.toLowerCase().includes(p.name.toLowerCase())
-                );
-                
+            getTransactionItems(editTransaction, [], products).forEach(item => {
+                const matchingProduct = products.find(p => p.id === item.productId);
                 if (matchingProduct) {
-                    newSelected.set(matchingProduct.id, { product: matchingProduct, quantity });
+                    newSelected.set(matchingProduct.id, { product: matchingProduct, quantity: item.quantity });
                 }
             });
             
@@ -167,14 +185,13 @@ export const SalesPage: React.FC = () => {
             
             // Set discount
             setDiscount(editTransaction.discount.toFixed(2).replace('.', ','));
+            setProfessionalId(editTransaction.professionalId);
             
-            // Set payments
-            const paymentMethods = editTransaction.paymentMethod.split(',').map(m => m.trim());
-            
-            setPayments(paymentMethods.map((method, index) => ({
+            // Set payments (valor pago em cada método)
+            setPayments(getTransactionPayments(editTransaction).map((payment, index) => ({
                 id: Date.now() + index,
-                method: method as PaymentMethod,
-                amount: editTransaction.value.toFixed(2).replace('.', ',')
+                method: payment.method as PaymentMethod,
+                amount: payment.amount.toFixed(2).replace('.', ',')
             })));
             
             // Auto-advance to step 2 if we have data
@@ -186,7 +203,7 @@ export const SalesPage: React.FC = () => {
 
     useEffect(() => {
         if (!isEditing || !editTransaction) return;
-        const baseName = stripClientName(editTransaction.clientName);
+        const baseName = editTransaction.clientName?.trim() || '';
 
         if (!baseName || baseName === DEFAULT_CLIENT_NAME) {
             setAvulsoClientName('');
@@ -333,6 +350,22 @@ export const SalesPage: React.FC = () => {
                 alert('Por favor, informe a data do primeiro vencimento.');
                 return;
             }
+            if (downPaymentValue !== undefined && numberOfInstallments > 1 && downPaymentValue >= totalValue) {
+                alert('A entrada deve ser menor que o valor total da venda.');
+                return;
+            }
+            if (installmentSchedule.length < numberOfInstallments) {
+                alert(`O valor da venda não permite ${numberOfInstallments} parcelas de pelo menos R$ 0,01. Diminua o número de parcelas ou o valor da entrada.`);
+                return;
+            }
+            if (!isInstallmentScheduleValid(installmentSchedule)) {
+                alert('Os vencimentos das parcelas devem estar preenchidos e em ordem.');
+                return;
+            }
+            if (isCreditBlocked) {
+                alert(`Fiado bloqueado para este cliente:\n\n${creditBlockReasons.map(reason => `• ${reason}`).join('\n')}\n\nPara vender mesmo assim, marque a liberação do dono e informe o motivo.`);
+                return;
+            }
         } else {
             // Verificar se todos os pagamentos têm método selecionado
             const hasInvalidPayment = payments.some(p => !p.method || p.method === '');
@@ -348,55 +381,67 @@ export const SalesPage: React.FC = () => {
             }
         }
 
+        // Avisar quando a venda passa do estoque disponível
+        const insufficientStock = findInsufficientStock(
+            Array.from(selectedProducts.values()),
+            isEditing && editTransaction ? editTransaction.items : []
+        );
+        if (insufficientStock.length > 0) {
+            const details = insufficientStock
+                .map(({ product, available, quantity }) => `• ${product.name}: ${quantity} na venda, ${Math.max(available, 0)} em estoque`)
+                .join('\n');
+            if (!confirm(`Estoque insuficiente:\n\n${details}\n\nDeseja registrar a venda mesmo assim?`)) {
+                return;
+            }
+        }
+
         try {
             setIsSubmitting(true);
             
-            // Build service string with quantities
-            const serviceDescription = Array.from(selectedProducts.values())
-                .map(({ product, quantity }) => 
-                    quantity > 1 ? `${product.name} (${quantity}x)` : product.name
-                )
-                .join(', ');
+            // Build line items and the summary string with quantities
+            const items = Array.from(selectedProducts.values())
+                .map(({ product, quantity }) => buildProductItem(product, quantity));
+            const serviceDescription = formatItemsDescription(items);
+            const transactionPayments = buildTransactionPayments(payments, totalValue);
 
             if (isEditing && editTransaction && onEditSave) {
                 // Update existing transaction (não permite editar para fiado)
                 await onEditSave({
                     service: serviceDescription,
-                    paymentMethod: payments.map(p => p.method).join(', '),
+                    items,
+                    payments: transactionPayments,
+                    paymentMethod: formatPaymentMethods(transactionPayments),
                     subtotal: subtotal,
                     discount: discountValue,
                     value: totalValue,
                     type: 'product',
+                    professionalId,
                 });
                 
                 clearEditTransactionData();
                 navigate('/sales', { state: { successMessage: 'Venda atualizada com sucesso!' } });
             } else if (isCreditSale) {
-                // Criar venda no fiado
-                const installmentAmount = totalValue / numberOfInstallments;
-                const installments = Array.from({ length: numberOfInstallments }, (_, index) => ({
-                    amount: index === numberOfInstallments - 1 
-                        ? totalValue - (installmentAmount * (numberOfInstallments - 1)) // Última parcela ajusta para não ter centavos perdidos
-                        : Math.floor(installmentAmount * 100) / 100, // Arredonda para 2 casas decimais
-                }));
+                // Criar venda no fiado (a última parcela absorve os centavos do arredondamento)
+                const installments = installmentSchedule.map(({ amount, dueDate }) => ({ amount, dueDate }));
 
                 await addCreditSale({
-                    clientName: buildClientDisplayName(clientName.trim(), resolvedFiadoClient),
+                    clientName: getSaleClientName(clientName, resolvedFiadoClient),
                     clientId: resolvedFiadoClient?.id,
+                    clientWhatsapp: resolvedFiadoClient?.whatsapp,
                     products: serviceDescription,
                     totalAmount: totalValue,
                     subtotal: subtotal,
                     discount: discountValue,
                     numberOfInstallments: numberOfInstallments,
-                    firstDueDate: firstDueDate,
+                    firstDueDate: installments[0].dueDate,
                     date: getTodayLocalDate(),
-                }, installments);
+                }, installments, items, overrideCredit && overrideReason.trim() ? { reason: overrideReason.trim() } : undefined);
 
                 navigate('/credit-sales', { state: { successMessage: 'Venda no fiado registrada com sucesso!' } });
             } else {
                 let resolvedAvulsoClient = avulsoSelectedClient || findClientByName(avulsoClientName);
                 let finalClientId = resolvedAvulsoClient?.id;
-                let finalClientName = buildClientDisplayName(avulsoClientName.trim() || DEFAULT_CLIENT_NAME, resolvedAvulsoClient);
+                let finalClientName = getSaleClientName(avulsoClientName, resolvedAvulsoClient);
                 
                 // Venda avulso - verificar se precisa salvar cliente
                 // Se digitou um nome e não selecionou cliente da base, perguntar se quer salvar
@@ -424,17 +469,31 @@ export const SalesPage: React.FC = () => {
                                     if (numbers.length < 10 || numbers.length > 11) {
                                         alert('WhatsApp inválido. O cliente não foi salvo, mas a venda foi registrada.');
                                     } else {
-                                        const newClient = await addClient({
+                                        const newClientData = {
                                             fullName: avulsoClientName.trim(),
                                             whatsapp: whatsapp.trim(),
                                             nickname: undefined,
                                             observation: undefined,
                                             cpf: undefined,
-                                        });
-                                        alert('Cliente salvo com sucesso!');
+                                        };
+                                        let newClient: Client;
+                                        try {
+                                            newClient = await addClient(newClientData);
+                                            alert('Cliente salvo com sucesso!');
+                                        } catch (error) {
+                                            if (!(error instanceof DuplicateClientError)) throw error;
+                                            // Cliente parecido já cadastrado: usar o cadastro existente ou criar outro
+                                            const existing = error.matches[0].client;
+                                            newClient = confirm(
+                                                `Já existe o cliente "${existing.fullName}" (${existing.whatsapp}).\n\n` +
+                                                `OK: usar este cadastro na venda\nCancelar: salvar "${newClientData.fullName}" como novo cliente`
+                                            )
+                                                ? existing
+                                                : await addClient(newClientData, { allowDuplicate: true });
+                                        }
                                         resolvedAvulsoClient = newClient;
                                         finalClientId = newClient.id;
-                                        finalClientName = buildClientDisplayName(newClient.fullName, newClient);
+                                        finalClientName = getSaleClientName(newClient.fullName, newClient);
                                         setAvulsoSelectedClient(newClient);
                                         setAvulsoClientName(newClient.fullName);
                                     }
@@ -453,13 +512,17 @@ export const SalesPage: React.FC = () => {
                 const transactionData: Omit<Transaction, 'id' | 'created_at'> = {
                     clientName: finalClientName,
                     clientId: finalClientId,
+                    clientWhatsapp: resolvedAvulsoClient?.whatsapp,
                     service: serviceDescription,
-                    paymentMethod: payments.map(p => p.method).join(', '),
+                    items,
+                    payments: transactionPayments,
+                    paymentMethod: formatPaymentMethods(transactionPayments),
                     subtotal: subtotal,
                     discount: discountValue,
                     value: totalValue,
                     date: getTodayLocalDate(),
                     type: 'product',
+                    professionalId,
                 };
                 
                 await addTransaction(transactionData);
@@ -570,6 +633,13 @@ export const SalesPage: React.FC = () => {
                             />
                                             </div>
 
+                        {/* Vendedor - usado no cálculo de comissão sobre produtos */}
+                        <ProfessionalPicker
+                            value={professionalId}
+                            onChange={setProfessionalId}
+                            optional
+                        />
+
                         {/* Produtos */}
                         <div className="bg-white dark:bg-gray-900/50 rounded-xl p-5 border border-gray-200 dark:border-gray-800 shadow-sm space-y-4">
                             <div className="flex items-center gap-2 mb-2">
@@ -701,17 +771,15 @@ export const SalesPage: React.FC = () => {
                                                                             }`}>
                                                                                 R$ {product.price.toFixed(2).replace('.', ',')}
                                                                             </span>
-                                                                            {product.stock !== undefined && (
-                                                                                <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
-                                                                                    product.stock > 10
-                                                                                        ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
-                                                                                        : product.stock > 0
-                                                                                        ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400'
-                                                                                        : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
-                                                                                }`}>
-                                                                                    {product.stock > 0 ? `${product.stock} em estoque` : 'Sem estoque'}
-                                                                                </span>
-                                                                            )}
+                                                                            <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+                                                                                product.stock <= 0
+                                                                                    ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+                                                                                    : isLowStock(product)
+                                                                                    ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400'
+                                                                                    : 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+                                                                            }`}>
+                                                                                {product.stock > 0 ? `${product.stock} em estoque` : 'Sem estoque'}
+                                                                            </span>
                                                                         </div>
                                                                     </div>
 
@@ -1225,6 +1293,49 @@ export const SalesPage: React.FC = () => {
                                                 </div>
                                             )}
 
+                                            {/* Limite de crédito e bloqueio */}
+                                            {creditCheck && fiadoClient && (
+                                                <div className={`rounded-lg p-3 border text-xs space-y-2 ${creditCheck.isBlocked ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800/30' : 'bg-white dark:bg-gray-900/30 border-gray-200 dark:border-gray-700'}`}>
+                                                    <div className="flex flex-wrap justify-between gap-2 text-gray-600 dark:text-gray-400">
+                                                        <span>Em aberto: <span className="font-semibold text-gray-900 dark:text-white">R$ {creditCheck.outstandingAmount.toFixed(2).replace('.', ',')}</span></span>
+                                                        {creditCheck.availableCredit !== undefined ? (
+                                                            <span>Limite: <span className="font-semibold text-gray-900 dark:text-white">R$ {(fiadoClient.creditLimit || 0).toFixed(2).replace('.', ',')}</span> (disponível R$ {Math.max(0, creditCheck.availableCredit).toFixed(2).replace('.', ',')})</span>
+                                                        ) : (
+                                                            <span>Sem limite de crédito</span>
+                                                        )}
+                                                    </div>
+                                                    {creditCheck.isBlocked && (
+                                                        <>
+                                                            <div className="flex items-start gap-2 text-red-700 dark:text-red-300">
+                                                                <Icon name="block" className="text-base" />
+                                                                <div>
+                                                                    <p className="font-semibold">Fiado bloqueado</p>
+                                                                    {creditBlockReasons.map(reason => <p key={reason}>{reason}</p>)}
+                                                                </div>
+                                                            </div>
+                                                            <label className="flex items-center gap-2 cursor-pointer">
+                                                                <input
+                                                                    type="checkbox"
+                                                                    checked={overrideCredit}
+                                                                    onChange={(e) => setOverrideCredit(e.target.checked)}
+                                                                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                                                                />
+                                                                <span className="font-semibold text-gray-900 dark:text-white">Liberar venda (autorização do dono)</span>
+                                                            </label>
+                                                            {overrideCredit && (
+                                                                <input
+                                                                    type="text"
+                                                                    value={overrideReason}
+                                                                    onChange={(e) => setOverrideReason(e.target.value)}
+                                                                    placeholder="Motivo da liberação (fica no histórico da venda)"
+                                                                    className="w-full h-9 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-3 focus:ring-primary/20 transition-all"
+                                                                />
+                                                            )}
+                                                        </>
+                                                    )}
+                                                </div>
+                                            )}
+
                                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                                                 <div className="space-y-1.5">
                                                     <label className="text-xs font-semibold text-gray-900 dark:text-white block">
@@ -1269,9 +1380,6 @@ export const SalesPage: React.FC = () => {
                                                         className="w-full h-9 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-3 focus:ring-primary/20 transition-all"
                                                         required
                                                     />
-                                                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                                                        Valor por parcela: R$ {(totalValue / numberOfInstallments).toFixed(2).replace('.', ',')}
-                                                    </p>
                                                 </div>
 
                                                 <div className="space-y-1.5">
@@ -1289,15 +1397,67 @@ export const SalesPage: React.FC = () => {
                                                 </div>
                                             </div>
 
-                                            <div className="bg-white dark:bg-gray-900/30 rounded-lg p-3 mt-2">
-                                                <div className="flex justify-between items-center text-sm mb-1">
-                                                    <span className="text-gray-600 dark:text-gray-400">Total a Parcelar:</span>
-                                                    <span className="font-bold text-gray-900 dark:text-white">R$ {totalValue.toFixed(2).replace('.', ',')}</span>
+                                            {numberOfInstallments > 1 && (
+                                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                                    <div className="space-y-1.5">
+                                                        <label className="text-xs font-semibold text-gray-900 dark:text-white block">
+                                                            Intervalo
+                                                        </label>
+                                                        <div className="grid grid-cols-3 gap-1">
+                                                            {(Object.keys(INSTALLMENT_INTERVAL_LABELS) as InstallmentInterval[]).map(interval => (
+                                                                <button
+                                                                    key={interval}
+                                                                    type="button"
+                                                                    onClick={() => setInstallmentInterval(interval)}
+                                                                    className={`h-9 rounded-lg text-xs font-semibold border transition-colors ${installmentInterval === interval ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                                                                >
+                                                                    {INSTALLMENT_INTERVAL_LABELS[interval]}
+                                                                </button>
+                                                            ))}
+                                                        </div>
+                                                    </div>
+
+                                                    <div className="space-y-1.5">
+                                                        <label className="text-xs font-semibold text-gray-900 dark:text-white block">
+                                                            Entrada (opcional)
+                                                        </label>
+                                                        <input
+                                                            type="text"
+                                                            inputMode="decimal"
+                                                            value={downPayment}
+                                                            onChange={(e) => setDownPayment(e.target.value.replace(/[^\d,]/g, ''))}
+                                                            placeholder="Parcelas iguais"
+                                                            className="w-full h-9 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 text-sm font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-3 focus:ring-primary/20 transition-all"
+                                                        />
+                                                    </div>
                                                 </div>
+                                            )}
+
+                                            <div className="bg-white dark:bg-gray-900/30 rounded-lg p-3 mt-2 space-y-2">
                                                 <div className="flex justify-between items-center text-sm">
-                                                    <span className="text-gray-600 dark:text-gray-400">Parcelas de:</span>
-                                                    <span className="font-semibold text-primary">R$ {(totalValue / numberOfInstallments).toFixed(2).replace('.', ',')}</span>
+                                                    <span className="text-gray-600 dark:text-gray-400">Total a Parcelar:</span>
+                                                    <span className="font-bold text-gray-900 dark:text-white">R$ {totalValue.toFixed(2).replace('.', ',')}</span>
                                                 </div>
+                                                {installmentSchedule.map((installment, index) => (
+                                                    <div key={installment.installmentNumber} className="flex items-center justify-between gap-3 text-sm">
+                                                        <span className="text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                                                            {installment.installmentNumber}ª{index === 0 && downPaymentValue !== undefined && numberOfInstallments > 1 ? ' (entrada)' : ''}:
+                                                            <span className="font-semibold text-primary ml-1">R$ {installment.amount.toFixed(2).replace('.', ',')}</span>
+                                                        </span>
+                                                        <input
+                                                            type="date"
+                                                            value={installment.dueDate}
+                                                            onChange={(e) => setCustomDueDates(prev => ({ ...prev, [index]: e.target.value }))}
+                                                            min={getTodayLocalDate()}
+                                                            className="h-8 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 text-xs font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-3 focus:ring-primary/20 transition-all"
+                                                        />
+                                                    </div>
+                                                ))}
+                                                {numberOfInstallments > 1 && (
+                                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                        Os vencimentos podem ser alterados parcela a parcela.
+                                                    </p>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
@@ -1307,7 +1467,7 @@ export const SalesPage: React.FC = () => {
                                     {/* Botão Finalizar Venda */}
                                 <button 
                                     type="submit"
-                                        disabled={isSubmitting || (!isCreditSale && payments.some(p => !p.method)) || (isCreditSale && !clientName.trim())}
+                                        disabled={isSubmitting || (!isCreditSale && payments.some(p => !p.method)) || (isCreditSale && (!clientName.trim() || isCreditBlocked))}
                                         className="w-full px-6 h-11 rounded-lg bg-primary text-white font-bold hover:bg-primary/90 disabled:bg-primary/50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
                                 >
                                     {isSubmitting ? (
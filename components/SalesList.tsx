@@ -1,7 +1,9 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
-import { useTransactions, useCreditSales } from '../contexts.tsx';
+import { useTransactions, useCreditSales, useProducts } from '../contexts.tsx';
 import { Transaction, CreditSale, CreditSaleStatus, Installment, InstallmentStatus } from '../types.ts';
+import { getItemTotal, getTransactionItems } from '../services/transactionItemsService.ts';
+import { getInstallmentRemainingAmount, isInstallmentOpen } from '../services/creditSaleService.ts';
 
 const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => 
     <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>;
@@ -85,7 +87,7 @@ const isDateWithinRange = (dateString: string | undefined, range: { start: strin
 
 const getClientDisplayName = (clientName?: string) => {
     if (!clientName) return null;
-    const baseName = clientName.split('|')[0]?.trim();
+    const baseName = clientName.trim();
     if (!baseName || baseName === DEFAULT_CLIENT_PLACEHOLDER) return null;
     return baseName;
 };
@@ -98,6 +100,9 @@ const getStatusColor = (status: CreditSaleStatus): string => {
             return 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 border-green-300 dark:border-green-700';
         case CreditSaleStatus.Overdue:
             return 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 border-red-300 dark:border-red-700';
+        case CreditSaleStatus.Cancelled:
+        case CreditSaleStatus.WrittenOff:
+            return 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600';
         case CreditSaleStatus.Active:
         default:
             return 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border-blue-300 dark:border-blue-700';
@@ -111,6 +116,10 @@ const getStatusLabel = (status: CreditSaleStatus): string => {
             return 'Pago';
         case CreditSaleStatus.Overdue:
             return 'Atrasado';
+        case CreditSaleStatus.Cancelled:
+            return 'Cancelado';
+        case CreditSaleStatus.WrittenOff:
+            return 'Perdoado';
         case CreditSaleStatus.Active:
         default:
             return 'Em Aberto';
@@ -123,6 +132,7 @@ export const SalesListPage: React.FC = () => {
     const [searchParams] = useSearchParams();
     const { transactions, deleteTransaction } = useTransactions();
     const { creditSales, installments, fetchCreditSales, updateCreditSaleStatus } = useCreditSales();
+    const { products } = useProducts();
 
     // Tab state: 'paid' or 'credit'
     const [activeTab, setActiveTab] = useState<'paid' | 'credit'>('paid');
@@ -271,12 +281,12 @@ export const SalesListPage: React.FC = () => {
 
         const pending = installments.filter(inst => {
             const status = inst.status as InstallmentStatus;
-            const isOutstanding = status === InstallmentStatus.Pending || status === InstallmentStatus.Overdue;
+            const isOutstanding = status === InstallmentStatus.Pending || status === InstallmentStatus.PartiallyPaid || status === InstallmentStatus.Overdue;
             if (!isOutstanding) return false;
             return isDateWithinRange(inst.dueDate, dateRange);
         });
 
-        const total = pending.reduce((sum, inst) => sum + inst.amount, 0);
+        const total = pending.reduce((sum, inst) => sum + getInstallmentRemainingAmount(inst), 0);
         return { total, count: pending.length };
     }, [installments, dateRange]);
 
@@ -332,14 +342,14 @@ export const SalesListPage: React.FC = () => {
         nextWeek.setDate(nextWeek.getDate() + 7);
 
         const overdue = installments.filter(inst => inst.status === InstallmentStatus.Overdue);
-        const overdueValue = overdue.reduce((sum, inst) => sum + inst.amount, 0);
+        const overdueValue = overdue.reduce((sum, inst) => sum + getInstallmentRemainingAmount(inst), 0);
 
         const upcoming = installments.filter(inst => {
-            if (inst.status !== InstallmentStatus.Pending) return false;
+            if (inst.status !== InstallmentStatus.Pending && inst.status !== InstallmentStatus.PartiallyPaid) return false;
             const due = new Date(inst.dueDate + 'T00:00:00');
             return due >= today && due <= nextWeek;
         });
-        const upcomingValue = upcoming.reduce((sum, inst) => sum + inst.amount, 0);
+        const upcomingValue = upcoming.reduce((sum, inst) => sum + getInstallmentRemainingAmount(inst), 0);
 
         return {
             overdueCount: overdue.length,
@@ -352,7 +362,7 @@ export const SalesListPage: React.FC = () => {
     // Get next due date for a credit sale
     const getNextDueDate = (saleId: number): string | null => {
         const saleInstallments = installments
-            .filter(inst => inst.creditSaleId === saleId && inst.status !== InstallmentStatus.Paid)
+            .filter(inst => inst.creditSaleId === saleId && isInstallmentOpen(inst.status))
             .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
         
         if (saleInstallments.length === 0) return null;
@@ -639,6 +649,7 @@ export const SalesListPage: React.FC = () => {
                             {sortedPaidSales.map((sale) => {
                                 const clientDisplayName = getClientDisplayName(sale.clientName);
                                 const isFiadoService = sale.service?.toLowerCase().startsWith('fiado -');
+                                const itemsCount = getTransactionItems(sale, [], products).reduce((sum, item) => sum + item.quantity, 0);
                                 return (
                                     <div 
                                         key={sale.id}
@@ -669,6 +680,15 @@ export const SalesListPage: React.FC = () => {
                                                         <span className="material-symbols-outlined text-base">payments</span>
                                                         {sale.paymentMethod}
                                                     </span>
+                                                    {itemsCount > 0 && (
+                                                        <>
+                                                            <span className="hidden sm:inline">•</span>
+                                                            <span className="flex items-center gap-1">
+                                                                <span className="material-symbols-outlined text-base">inventory_2</span>
+                                                                {itemsCount} {itemsCount === 1 ? 'item' : 'itens'}
+                                                            </span>
+                                                        </>
+                                                    )}
                                                 </div>
                                             </div>
 
@@ -849,9 +869,29 @@ export const SalesListPage: React.FC = () => {
                                         Tem certeza que deseja excluir esta venda?
                                     </p>
                                     <div className="mt-3 p-3 bg-gray-100 dark:bg-gray-800 rounded-lg space-y-1">
-                                        <p className="text-sm text-gray-600 dark:text-gray-400">
-                                            <span className="font-semibold">Produtos:</span> {saleToDelete.service}
-                                        </p>
+                                        {(() => {
+                                            const items = getTransactionItems(saleToDelete, [], products);
+                                            if (items.length === 0) {
+                                                return (
+                                                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                                                        <span className="font-semibold">Produtos:</span> {saleToDelete.service}
+                                                    </p>
+                                                );
+                                            }
+                                            return (
+                                                <div className="text-sm text-gray-600 dark:text-gray-400">
+                                                    <span className="font-semibold">Produtos:</span>
+                                                    <ul className="mt-1 space-y-0.5">
+                                                        {items.map((item, index) => (
+                                                            <li key={`${item.name}-${index}`} className="flex justify-between gap-2">
+                                                                <span className="truncate">{item.quantity}x {item.name}</span>
+                                                                <span>{formatCurrency(getItemTotal(item))}</span>
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                </div>
+                                            );
+                                        })()}
                                         <p className="text-sm text-gray-600 dark:text-gray-400">
                                             <span className="font-semibold">Valor:</span> {formatCurrency(saleToDelete.value)}
                                         </p>
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { Client } from '../types.ts';
 import { useClients } from '../contexts.tsx';
+import { CLIENT_DUPLICATE_REASON_LABELS, ClientDuplicateMatch, DuplicateClientError } from '../services/clientDuplicateService.ts';
 
 interface SaveClientModalProps {
     isOpen: boolean;
@@ -24,6 +25,7 @@ export const SaveClientModal: React.FC<SaveClientModalProps> = ({
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [errorMessage, setErrorMessage] = useState('');
     const [successMessage, setSuccessMessage] = useState('');
+    const [duplicateMatches, setDuplicateMatches] = useState<ClientDuplicateMatch[]>([]);
     const whatsappInputRef = React.useRef<HTMLInputElement>(null);
 
     // Focar no campo WhatsApp quando o modal abrir e bloquear scroll
@@ -51,6 +53,7 @@ export const SaveClientModal: React.FC<SaveClientModalProps> = ({
             setIsSubmitting(false);
             setErrorMessage('');
             setSuccessMessage('');
+            setDuplicateMatches([]);
         }
     }, [isOpen]);
 
@@ -71,9 +74,18 @@ export const SaveClientModal: React.FC<SaveClientModalProps> = ({
     const handleWhatsAppChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const formatted = formatWhatsApp(e.target.value);
         setWhatsapp(formatted);
+        setDuplicateMatches([]);
     };
 
-    const handleSubmit = async (e?: React.FormEvent) => {
+    // Cliente já cadastrado escolhido no lugar de um novo cadastro
+    const handleUseExistingClient = (client: Client) => {
+        if (onSuccess) {
+            onSuccess(client);
+        }
+        onClose();
+    };
+
+    const handleSubmit = async (e?: React.FormEvent, allowDuplicate = false) => {
         if (e) {
             e.preventDefault();
         }
@@ -96,7 +108,7 @@ export const SaveClientModal: React.FC<SaveClientModalProps> = ({
                 nickname: undefined,
                 observation: undefined,
                 cpf: undefined,
-            });
+            }, { allowDuplicate });
 
             // Mostrar mensagem de sucesso
             setSuccessMessage('Cliente salvo com sucesso!');
@@ -109,6 +121,11 @@ export const SaveClientModal: React.FC<SaveClientModalProps> = ({
                 onClose();
             }, 800);
         } catch (error: any) {
+            if (error instanceof DuplicateClientError) {
+                setDuplicateMatches(error.matches);
+                setIsSubmitting(false);
+                return;
+            }
             console.error('Erro ao salvar cliente:', error);
             setErrorMessage('Erro ao salvar cliente. Tente novamente.');
             setIsSubmitting(false);
@@ -226,6 +243,38 @@ export const SaveClientModal: React.FC<SaveClientModalProps> = ({
                             </div>
                         )}
 
+                        {/* Clientes parecidos já cadastrados */}
+                        {duplicateMatches.length > 0 && (
+                            <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 rounded-lg space-y-2">
+                                <p className="text-sm font-semibold text-amber-800 dark:text-amber-200">Este cliente pode já estar cadastrado:</p>
+                                {duplicateMatches.map(({ client, reasons }) => (
+                                    <div key={client.id} className="flex items-center justify-between gap-2 p-2 bg-white dark:bg-gray-800 rounded-lg">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{client.fullName}</p>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                                {client.whatsapp} • {reasons.map(reason => CLIENT_DUPLICATE_REASON_LABELS[reason]).join(', ')}
+                                            </p>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleUseExistingClient(client)}
+                                            className="shrink-0 px-3 py-1.5 text-xs font-semibold text-white bg-primary rounded-lg hover:bg-primary/90 transition-colors"
+                                        >
+                                            Usar este
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    type="button"
+                                    onClick={() => handleSubmit(undefined, true)}
+                                    disabled={isSubmitting}
+                                    className="w-full px-3 py-2 text-xs font-semibold text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-900/40 rounded-lg hover:bg-amber-200 dark:hover:bg-amber-900/60 transition-colors disabled:opacity-50"
+                                >
+                                    Não é a mesma pessoa, salvar mesmo assim
+                                </button>
+                            </div>
+                        )}
+
                         {/* Error Message */}
                         {errorMessage && (
                             <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-2">
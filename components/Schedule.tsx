@@ -1,26 +1,9 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAppointments, useTransactions, useFinalizeAppointment, useNewAppointment, useAppointmentDetail } from '../contexts.tsx';
-import { Appointment, AppointmentStatus, Transaction } from '../types.ts';
-
-// --- Date Helper Functions ---
-const formatDateYYYYMMDD = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
-
-// Helper function to get today's date in local timezone (YYYY-MM-DD format)
-const getTodayLocalDate = (): string => {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, '0');
-    const day = String(today.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
-
-const AVAILABLE_TIMES = ['08:00', '10:00', '14:00', '16:00'];
+import { useAppointments, useTransactions, useFinalizeAppointment, useNewAppointment, useAppointmentDetail, useBusinessHours, useSystemSettings, useProfessionals } from '../contexts.tsx';
+import { Appointment, AppointmentStatus, Transaction, Professional } from '../types.ts';
+import { generateTimeSlots, getBusinessHoursForDate, isSlotBooked, normalizeTime, timeToMinutes, getAppointmentDuration, getAppointmentEndTime, filterAppointmentsByProfessional } from '../services/scheduleService.ts';
+import { formatLocalDate, getTodayLocalDate } from '../services/dateService.ts';
 
 const Icon = ({ name, className }: { name: string; className?: string }) => 
     <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
@@ -35,6 +18,9 @@ export const SchedulePage: React.FC = () => {
     const { setFinalizeData } = useFinalizeAppointment();
     const { setNewAppointmentData } = useNewAppointment();
     const { setAppointmentDetail } = useAppointmentDetail();
+    const { businessHours } = useBusinessHours();
+    const { settings } = useSystemSettings();
+    const { professionals, activeProfessionals } = useProfessionals();
     const todayDateStr = getTodayLocalDate();
     
     // Recarregar agendamentos quando cliente for atualizado
@@ -80,17 +66,17 @@ export const SchedulePage: React.FC = () => {
     const handlePrevDay = () => {
         const prev = new Date(selectedDateObj);
         prev.setDate(prev.getDate() - 1);
-        setSelectedDate(formatDateYYYYMMDD(prev));
+        setSelectedDate(formatLocalDate(prev));
     };
 
     const handleNextDay = () => {
         const next = new Date(selectedDateObj);
         next.setDate(next.getDate() + 1);
-        setSelectedDate(formatDateYYYYMMDD(next));
+        setSelectedDate(formatLocalDate(next));
     };
 
     const handleDateSelect = (date: Date) => {
-        setSelectedDate(formatDateYYYYMMDD(date));
+        setSelectedDate(formatLocalDate(date));
         setShowCalendar(false);
     };
 
@@ -104,16 +90,19 @@ export const SchedulePage: React.FC = () => {
         navigate(`/appointment/${appointment.id}`);
     };
 
-    const handleNewAppointment = (preSelectedTime?: string) => {
+    const handleNewAppointment = (preSelectedTime?: string, professionalId?: number) => {
         const handleSaveAppointment = async (appointmentData: Omit<Appointment, 'id' | 'status' | 'created_at'>) => {
             await addAppointment(appointmentData);
         };
         setNewAppointmentData(handleSaveAppointment, selectedDate);
         
-        // Navegar com parâmetros de data e hora se fornecidos
+        // Navegar com parâmetros de data, hora e profissional se fornecidos
         if (preSelectedTime) {
             // Para hash routing, os parâmetros vêm depois do path no hash
-            const url = `/new-appointment?date=${encodeURIComponent(selectedDate)}&time=${encodeURIComponent(preSelectedTime)}`;
+            let url = `/new-appointment?date=${encodeURIComponent(selectedDate)}&time=${encodeURIComponent(preSelectedTime)}`;
+            if (professionalId) {
+                url += `&professional=${professionalId}`;
+            }
             console.log('Schedule: Navigating to:', url);
             navigate(url);
         } else {
@@ -121,18 +110,6 @@ export const SchedulePage: React.FC = () => {
         }
     };
 
-    // Extract client name helper
-    const extractClientName = (clientName: string): string => {
-        if (clientName.includes('|')) {
-            return clientName.split('|')[0];
-        }
-        if (clientName.includes('(')) {
-            const match = clientName.match(/^(.+?)\s*\(/);
-            return match ? match[1].trim() : clientName;
-        }
-        return clientName;
-    };
-
     // Generate calendar days for picker
     const generateCalendarDays = () => {
         const today = new Date(getTodayLocalDate() + 'T00:00:00');
@@ -155,40 +132,121 @@ export const SchedulePage: React.FC = () => {
         };
     }, [dayAppointments]);
 
-    const orderOfArrivalAppointments = useMemo(() => {
-        return dayAppointments.filter(app => !app.clientName.includes('|'));
-    }, [dayAppointments]);
+    const isClosedDay = !getBusinessHoursForDate(selectedDate, businessHours)?.isOpen;
+
+    // Horários gerados a partir do horário de funcionamento do dia
+    const daySlots = useMemo(() => {
+        return generateTimeSlots(selectedDate, businessHours, settings.slotInterval);
+    }, [selectedDate, businessHours, settings.slotInterval]);
 
-    const timeSlots = AVAILABLE_TIMES.map((timeSlot) => {
-        const appointment = dayAppointments.find(app => {
-            const normalizedAppTime = app.time.includes(':') && app.time.split(':').length === 3 
-                ? app.time.substring(0, 5)
-                : app.time;
-            return normalizedAppTime === timeSlot;
+    const getCurrentTime = (): string => {
+        const now = new Date();
+        return `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+    };
+
+    // Uma coluna por profissional ativo (e pelos inativos que ainda têm agendamentos no dia).
+    // Agendamentos sem profissional ficam numa coluna à parte; sem profissionais cadastrados ela é a agenda única.
+    const scheduleColumns = useMemo(() => {
+        const columns: { key: string; title: string; professional?: Professional; appointments: Appointment[]; acceptsBookings: boolean }[] = [];
+
+        professionals.forEach(professional => {
+            const professionalAppointments = filterAppointmentsByProfessional(dayAppointments, professional.id);
+            if (professional.active || professionalAppointments.length > 0) {
+                columns.push({
+                    key: `professional-${professional.id}`,
+                    title: professional.name,
+                    professional,
+                    appointments: professionalAppointments,
+                    acceptsBookings: professional.active,
+                });
+            }
         });
-        return { timeSlot, appointment };
-    });
 
-    const visibleSlots = timeSlots.filter(slot => {
-        if (!slot.appointment) {
-            if (isPastSelected) {
-                return false;
+        const unassignedAppointments = filterAppointmentsByProfessional(dayAppointments, undefined);
+        if (activeProfessionals.length === 0 || unassignedAppointments.length > 0) {
+            columns.push({
+                key: 'unassigned',
+                title: activeProfessionals.length === 0 ? 'Agenda' : 'Sem profissional',
+                appointments: unassignedAppointments,
+                acceptsBookings: activeProfessionals.length === 0,
+            });
+        }
+
+        return columns;
+    }, [professionals, activeProfessionals, dayAppointments]);
+
+    const freeSlotsCount = useMemo(() => {
+        return scheduleColumns
+            .filter(column => column.acceptsBookings)
+            .reduce((total, column) => total + daySlots.filter(slot => {
+                if (isTodaySelected && slot < getCurrentTime()) return false;
+                return !isSlotBooked(slot, settings.slotInterval, column.appointments);
+            }).length, 0);
+    }, [scheduleColumns, daySlots, settings.slotInterval, isTodaySelected]);
+
+    // Monta a grade de horários de uma coluna: agendamentos no horário em que começam e horários livres entre eles
+    const buildTimeSlots = (columnAppointments: Appointment[], acceptsBookings: boolean) => {
+        const slots: { timeSlot: string; appointment?: Appointment }[] = [];
+        const placedIds = new Set<number>();
+
+        daySlots.forEach((timeSlot) => {
+            const slotStart = timeToMinutes(timeSlot);
+            const startingHere = columnAppointments.filter(app => {
+                const appStart = timeToMinutes(normalizeTime(app.time));
+                return appStart >= slotStart && appStart < slotStart + settings.slotInterval;
+            });
+
+            if (startingHere.length > 0) {
+                startingHere.forEach(app => {
+                    placedIds.add(app.id);
+                    slots.push({ timeSlot: normalizeTime(app.time), appointment: app });
+                });
+                return;
             }
-            if (isTodaySelected) {
-                const now = new Date();
-                const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-                if (slot.timeSlot < currentTime) {
+
+            // Horário ocupado por um atendimento mais longo que começou antes: já aparece no bloco dele
+            if (!acceptsBookings || isSlotBooked(timeSlot, settings.slotInterval, columnAppointments)) {
+                return;
+            }
+
+            slots.push({ timeSlot });
+        });
+
+        // Agendamentos fora da grade atual (ex.: feitos antes de mudar o horário) continuam visíveis
+        columnAppointments.forEach(app => {
+            if (!placedIds.has(app.id)) {
+                slots.push({ timeSlot: normalizeTime(app.time), appointment: app });
+            }
+        });
+
+        return slots.sort((a, b) => a.timeSlot.localeCompare(b.timeSlot));
+    };
+
+    const visibleColumns = scheduleColumns.map(column => {
+        const visibleSlots = buildTimeSlots(column.appointments, column.acceptsBookings).filter(slot => {
+            if (!slot.appointment) {
+                if (isPastSelected) {
+                    return false;
+                }
+                if (isTodaySelected && slot.timeSlot < getCurrentTime()) {
                     return false;
                 }
             }
-        }
-        if (statusFilter === 'all') return true;
-        if (!slot.appointment) return false;
-        return slot.appointment.status === statusFilter;
+            if (statusFilter === 'all') return true;
+            if (!slot.appointment) return false;
+            return slot.appointment.status === statusFilter;
+        });
+
+        return {
+            ...column,
+            visibleSlots,
+            morningSlots: visibleSlots.filter(({ timeSlot }) => timeSlot < '12:00'),
+            afternoonSlots: visibleSlots.filter(({ timeSlot }) => timeSlot >= '12:00'),
+        };
     });
 
-    const morningSlots = visibleSlots.filter(({ timeSlot }) => ['08:00', '10:00'].includes(timeSlot));
-    const afternoonSlots = visibleSlots.filter(({ timeSlot }) => ['14:00', '16:00'].includes(timeSlot));
+    const hasVisibleSlots = visibleColumns.some(column => column.visibleSlots.length > 0);
+    const isSingleColumn = visibleColumns.length === 1;
 
     return (
         <div className="flex flex-col h-full">
@@ -265,7 +323,7 @@ export const SchedulePage: React.FC = () => {
                                                 </div>
                                             ))}
                                             {calendarDays.slice(0, 30).map((date) => {
-                                    const dateStr = formatDateYYYYMMDD(date);
+                                    const dateStr = formatLocalDate(date);
                                                 const isSelected = dateStr === selectedDate;
                                                 const isToday = dateStr === getTodayLocalDate();
                                                 const isPast = new Date(dateStr) < new Date(getTodayLocalDate());
@@ -321,7 +379,7 @@ export const SchedulePage: React.FC = () => {
             </header>
 
             <main className="flex-1 w-full px-4 sm:px-0">
-                <div className="max-w-5xl mx-auto space-y-6 px-2 sm:px-4">
+                <div className={`${isSingleColumn ? 'max-w-5xl' : 'max-w-7xl'} mx-auto space-y-6 px-2 sm:px-4`}>
                     {isPastSelected && (
                         <div className="rounded-2xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 p-4 text-sm text-amber-800 dark:text-amber-200">
                             Este dia já passou. Horários livres não podem ser agendados retroativamente; apenas consulta dos registros realizados.
@@ -332,20 +390,11 @@ export const SchedulePage: React.FC = () => {
                             <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">Agendamentos</p>
                             <p className="text-2xl font-black text-gray-900 dark:text-white">{dayAppointments.length}</p>
                             <p className="text-xs text-gray-500 dark:text-gray-400">
-                                {selectedDate < todayDateStr
-                                    ? `${AVAILABLE_TIMES.length} horários esgotados`
-                                    : `${Math.max(
-                                        AVAILABLE_TIMES.filter((slot) => {
-                                            if (slot && selectedDate === todayDateStr) {
-                                                const now = new Date();
-                                                const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-                                                return slot > currentTime;
-                                            }
-                                            return true;
-                                        }).length -
-                                            dayAppointments.filter(app => !app.time.includes('|')).length,
-                                        0
-                                    )} horários livres`}
+                                {isClosedDay
+                                    ? 'Fechado neste dia'
+                                    : selectedDate < todayDateStr
+                                    ? `${daySlots.length} horários esgotados`
+                                    : `${freeSlotsCount} horários livres`}
                             </p>
                         </div>
                         <div className="rounded-2xl border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/30 p-5 sm:p-6 shadow-sm space-y-1.5">
@@ -379,80 +428,110 @@ export const SchedulePage: React.FC = () => {
                     </div>
 
                     <div className="space-y-3">
-                            {visibleSlots.length === 0 ? (
+                            {!hasVisibleSlots ? (
                                 <div className="rounded-2xl border border-dashed border-gray-300 dark:border-gray-700 p-6 text-center text-sm text-gray-500 dark:text-gray-400">
-                                    Nenhum horário encontrado para o filtro selecionado.
+                                    {isClosedDay && statusFilter === 'all'
+                                        ? 'A barbearia não abre neste dia.'
+                                        : 'Nenhum horário encontrado para o filtro selecionado.'}
                                 </div>
                             ) : (
-                                <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
-                                    {[
-                                        { title: 'Manhã', slots: morningSlots },
-                                        { title: 'Tarde', slots: afternoonSlots },
-                                    ].map(({ title, slots }) => (
-                                        <div key={title} className="space-y-3">
-                                            <h3 className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest px-1">{title}</h3>
-                                            {slots.length === 0 ? (
-                                                <div className="rounded-3xl border border-dashed border-gray-200 dark:border-gray-800 text-xs text-gray-500 dark:text-gray-400 p-5 text-center">
-                                                    Sem horários disponíveis
+                                <div className={`grid grid-cols-1 gap-5 ${isSingleColumn ? '' : visibleColumns.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-2 xl:grid-cols-3'}`}>
+                                    {visibleColumns.map(column => (
+                                        <div key={column.key} className="space-y-4">
+                                            {!isSingleColumn && (
+                                                <div className="flex items-center justify-between gap-2 px-1 pb-2 border-b border-gray-200 dark:border-gray-800">
+                                                    <div className="flex items-center gap-2 min-w-0">
+                                                        <Icon name={column.professional ? 'person' : 'person_off'} className="text-primary text-xl" />
+                                                        <h2 className="text-base font-bold text-gray-900 dark:text-white truncate">{column.title}</h2>
+                                                    </div>
+                                                    <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">
+                                                        {column.appointments.length} {column.appointments.length === 1 ? 'agendamento' : 'agendamentos'}
+                                                    </span>
                                                 </div>
-                                            ) : (
-                                                slots.map(({ timeSlot, appointment }) => {
-                                                    const clientName = appointment ? extractClientName(appointment.clientName) : 'Disponível';
-                                                    const statusStyles: { [key in AppointmentStatus]: { bg: string; text: string; label: string; dot: string } } = {
-                                                        [AppointmentStatus.Confirmed]: { 
-                                                            bg: 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800', 
-                                                            text: 'text-blue-700 dark:text-blue-300',
-                                                            label: 'Confirmado',
-                                                            dot: 'bg-blue-500'
-                                                        },
-                                                        [AppointmentStatus.Arrived]: { 
-                                                            bg: 'bg-yellow-50 dark:bg-yellow-900/30 border-yellow-200 dark:border-yellow-800', 
-                                                            text: 'text-yellow-700 dark:text-yellow-300',
-                                                            label: 'Chegou',
-                                                            dot: 'bg-yellow-500'
-                                                        },
-                                                        [AppointmentStatus.Attended]: { 
-                                                            bg: 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-800', 
-                                                            text: 'text-green-700 dark:text-green-300',
-                                                            label: 'Atendido',
-                                                            dot: 'bg-green-500'
-                                                        },
-                                                    };
-
-                                                    return (
-                                                        <button
-                                                            key={timeSlot}
-                                                            onClick={() => appointment ? handleAppointmentClick(appointment) : handleNewAppointment(timeSlot)}
-                                                            className={`w-full p-5 rounded-3xl border transition-all text-left flex items-center justify-between gap-4 ${
-                                                                appointment
-                                                                    ? `${statusStyles[appointment.status].bg} border-transparent hover:shadow-lg hover:-translate-y-0.5`
-                                                                    : 'bg-gray-50 dark:bg-gray-900/40 border-dashed border-gray-300 dark:border-gray-700 hover:border-primary/50 hover:shadow hover:-translate-y-0.5'
-                                                            }`}
-                                                        >
-                                                            <div className="flex items-center gap-4 min-w-0">
-                                                                <div className="flex flex-col items-center bg-white/70 dark:bg-black/20 rounded-2xl px-3 py-2 shadow-inner">
-                                                                    <span className="text-[10px] font-semibold text-gray-500 dark:text-gray-400 uppercase">Horário</span>
-                                                                    <span className="text-xl font-black text-gray-900 dark:text-white">{timeSlot}</span>
-                                                                </div>
-                                                                <div className="min-w-0">
-                                                                    <p className="text-base font-bold text-gray-900 dark:text-white truncate">{clientName}</p>
-                                                                    {appointment ? (
-                                                                        <>
-                                                                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{appointment.service}</p>
-                                                                            <p className={`text-xs font-semibold ${statusStyles[appointment.status].text}`}>
-                                                                                {statusStyles[appointment.status].label}
-                                                                            </p>
-                                                                        </>
-                                                                    ) : (
-                                                                        <p className="text-xs text-gray-500 dark:text-gray-400">Clique para agendar</p>
-                                                                    )}
-                                                                </div>
-                                                            </div>
-                                                            <Icon name={appointment ? 'arrow_forward' : 'add'} className="text-gray-400 dark:text-gray-500 text-xl" />
-                                                        </button>
-                                                    );
-                                                })
                                             )}
+                                            <div className={isSingleColumn ? 'grid grid-cols-1 lg:grid-cols-2 gap-5' : 'space-y-5'}>
+                                                {[
+                                                    { title: 'Manhã', slots: column.morningSlots },
+                                                    { title: 'Tarde', slots: column.afternoonSlots },
+                                                ].map(({ title, slots }) => (
+                                                    <div key={title} className="space-y-3">
+                                                        <h3 className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest px-1">{title}</h3>
+                                                        {slots.length === 0 ? (
+                                                            <div className="rounded-3xl border border-dashed border-gray-200 dark:border-gray-800 text-xs text-gray-500 dark:text-gray-400 p-5 text-center">
+                                                                Sem horários disponíveis
+                                                            </div>
+                                                        ) : (
+                                                        slots.map(({ timeSlot, appointment }) => {
+                                                            const clientName = appointment ? appointment.clientName : 'Disponível';
+                                                            const statusStyles: { [key in AppointmentStatus]: { bg: string; text: string; label: string; dot: string } } = {
+                                                                [AppointmentStatus.Confirmed]: { 
+                                                                    bg: 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-800', 
+                                                                    text: 'text-blue-700 dark:text-blue-300',
+                                                                    label: 'Confirmado',
+                                                                    dot: 'bg-blue-500'
+                                                                },
+                                                                [AppointmentStatus.Arrived]: { 
+                                                                    bg: 'bg-yellow-50 dark:bg-yellow-900/30 border-yellow-200 dark:border-yellow-800', 
+                                                                    text: 'text-yellow-700 dark:text-yellow-300',
+                                                                    label: 'Chegou',
+                                                                    dot: 'bg-yellow-500'
+                                                                },
+                                                                [AppointmentStatus.Attended]: { 
+                                                                    bg: 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-800', 
+                                                                    text: 'text-green-700 dark:text-green-300',
+                                                                    label: 'Atendido',
+                                                                    dot: 'bg-green-500'
+                                                                },
+                                                            };
+
+                                                            // Cada agendamento ocupa uma altura proporcional à sua duração
+                                                            const slotSpan = appointment
+                                                                ? Math.max(1, getAppointmentDuration(appointment, settings.slotInterval) / settings.slotInterval)
+                                                                : 1;
+
+                                                            return (
+                                                                <button
+                                                                    key={appointment ? `apt-${appointment.id}` : `${column.key}-${timeSlot}`}
+                                                                    style={{ minHeight: `${slotSpan * 6}rem` }}
+                                                                    onClick={() => appointment ? handleAppointmentClick(appointment) : handleNewAppointment(timeSlot, column.professional?.id)}
+                                                                    className={`w-full p-5 rounded-3xl border transition-all text-left flex items-center justify-between gap-4 ${
+                                                                        appointment
+                                                                            ? `${statusStyles[appointment.status].bg} border-transparent hover:shadow-lg hover:-translate-y-0.5`
+                                                                            : 'bg-gray-50 dark:bg-gray-900/40 border-dashed border-gray-300 dark:border-gray-700 hover:border-primary/50 hover:shadow hover:-translate-y-0.5'
+                                                                    }`}
+                                                                >
+                                                                    <div className="flex items-center gap-4 min-w-0">
+                                                                        <div className="flex flex-col items-center bg-white/70 dark:bg-black/20 rounded-2xl px-3 py-2 shadow-inner">
+                                                                            <span className="text-[10px] font-semibold text-gray-500 dark:text-gray-400 uppercase">Horário</span>
+                                                                            <span className="text-xl font-black text-gray-900 dark:text-white">{timeSlot}</span>
+                                                                            {appointment && (
+                                                                                <span className="text-[10px] font-semibold text-gray-500 dark:text-gray-400">
+                                                                                    até {getAppointmentEndTime(appointment, settings.slotInterval)}
+                                                                                </span>
+                                                                            )}
+                                                                        </div>
+                                                                        <div className="min-w-0">
+                                                                            <p className="text-base font-bold text-gray-900 dark:text-white truncate">{clientName}</p>
+                                                                            {appointment ? (
+                                                                                <>
+                                                                                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{appointment.service}</p>
+                                                                                    <p className={`text-xs font-semibold ${statusStyles[appointment.status].text}`}>
+                                                                                        {statusStyles[appointment.status].label}
+                                                                                    </p>
+                                                                                </>
+                                                                            ) : (
+                                                                                <p className="text-xs text-gray-500 dark:text-gray-400">Clique para agendar</p>
+                                                                            )}
+                                                                        </div>
+                                                                    </div>
+                                                                    <Icon name={appointment ? 'arrow_forward' : 'add'} className="text-gray-400 dark:text-gray-500 text-xl" />
+                                                                </button>
+                                                            );
+                                                        })
+                                                        )}
+                                                    </div>
+                                                ))}
+                                            </div>
                                         </div>
                                     ))}
                                 </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useServices } from '../contexts.tsx';
 import { Service } from '../types.ts';
+import { DEFAULT_SERVICE_DURATION } from '../constants.ts';
 
 interface ServiceModalProps {
   isOpen: boolean;
@@ -15,15 +16,18 @@ export const ServiceModal: React.FC<ServiceModalProps> = ({ isOpen, onClose, ser
   const { addService, updateService } = useServices();
   const [name, setName] = useState('');
   const [price, setPrice] = useState('');
+  const [duration, setDuration] = useState(String(DEFAULT_SERVICE_DURATION));
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
     if (service) {
       setName(service.name);
       setPrice(service.price.toFixed(2).replace('.', ','));
+      setDuration(String(service.duration || DEFAULT_SERVICE_DURATION));
     } else {
       setName('');
       setPrice('');
+      setDuration(String(DEFAULT_SERVICE_DURATION));
     }
   }, [service, isOpen]);
 
@@ -86,13 +90,19 @@ export const ServiceModal: React.FC<ServiceModalProps> = ({ isOpen, onClose, ser
       alert("Por favor, preencha um preço válido maior que zero.");
         return;
     }
+
+    const durationNumber = parseInt(duration, 10);
+    if (isNaN(durationNumber) || durationNumber <= 0) {
+      alert("Por favor, preencha uma duração válida em minutos.");
+      return;
+    }
     
     try {
       setIsSubmitting(true);
       if (service) {
-        await updateService({ ...service, name: name.trim(), price: priceNumber });
+        await updateService({ ...service, name: name.trim(), price: priceNumber, duration: durationNumber });
       } else {
-        await addService({ name: name.trim(), price: priceNumber });
+        await addService({ name: name.trim(), price: priceNumber, duration: durationNumber });
         }
         onClose();
       setName('');
@@ -212,6 +222,34 @@ export const ServiceModal: React.FC<ServiceModalProps> = ({ isOpen, onClose, ser
             </label>
           </div>
 
+          {/* Duration */}
+          <div>
+            <label className="block">
+              <div className="flex items-center gap-2 mb-1.5">
+                <Icon name="timer" className="text-primary text-base" />
+                <span className="text-sm font-bold text-gray-900 dark:text-white">
+                  Duração
+                </span>
+                <span className="text-red-500 text-xs">*</span>
+              </div>
+              <div className="relative">
+                <input
+                  required
+                  type="number"
+                  min={5}
+                  step={5}
+                  className="w-full h-10 pl-3 pr-12 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:border-primary focus:outline-none focus:ring-3 focus:ring-primary/20 transition-all font-bold text-base"
+                  placeholder="30"
+                  value={duration}
+                  onChange={(e) => setDuration(e.target.value.replace(/\D/g, ''))}
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 dark:text-gray-400 font-bold text-sm">
+                  min
+                </span>
+              </div>
+            </label>
+          </div>
+
           {/* Actions */}
           <div className="flex gap-2 pt-1">
             <button
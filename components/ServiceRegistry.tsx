@@ -1,11 +1,18 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useServices, useTransactions, useClients } from '../contexts.tsx';
+import { useServices, useTransactions, useClients, useProfessionals, useSystemSettings } from '../contexts.tsx';
 import { Service, PaymentMethod, Client } from '../types.ts';
 import { Toast, type ToastType } from './Toast.tsx';
 import { ClientSearchField } from './ClientSearchField.tsx';
 import { BottomSheet } from './BottomSheet.tsx';
+import { ProfessionalPicker } from './ProfessionalPicker.tsx';
+import { LoyaltyRewardPicker } from './LoyaltyRewardPicker.tsx';
+import { BirthdayDiscountToggle } from './BirthdayDiscountToggle.tsx';
 import { getPaymentMethodOptions } from '../constants.ts';
+import { buildServiceItem, formatItemsDescription } from '../services/transactionItemsService.ts';
+import { buildTransactionPayments, formatPaymentMethods } from '../services/transactionPaymentsService.ts';
+import { getRewardsDiscount } from '../services/loyaltyService.ts';
+import { getBirthdayDiscount, isBirthdayDiscountAvailable } from '../services/birthdayService.ts';
 
 const paymentMethodOptions = Object.values(PaymentMethod);
 
@@ -58,14 +65,20 @@ const getTodayLocalDate = (): string => {
 
 export const ServiceRegistryPage: React.FC = () => {
   const { services } = useServices();
-  const { addTransaction } = useTransactions();
+  const { transactions, addTransaction } = useTransactions();
   const { clients, addClient } = useClients();
+  const { activeProfessionals } = useProfessionals();
+  const { settings } = useSystemSettings();
   const navigate = useNavigate();
   const [clientName, setClientName] = useState('');
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [selectedServices, setSelectedServices] = useState<Service[]>([]);
+  const [professionalId, setProfessionalId] = useState<number | undefined>(undefined);
+  const [professionalError, setProfessionalError] = useState<string | null>(null);
   const [payments, setPayments] = useState<PaymentState[]>([{ id: Date.now(), method: '' as PaymentMethod, amount: '0,00' }]);
   const [discount, setDiscount] = useState('');
+  const [loyaltyRewards, setLoyaltyRewards] = useState(0); // Recompensas de fidelidade trocadas neste atendimento
+  const [applyBirthdayDiscount, setApplyBirthdayDiscount] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null);
   const [paymentError, setPaymentError] = useState<string | null>(null);
@@ -84,10 +97,33 @@ export const ServiceRegistryPage: React.FC = () => {
     return isNaN(parsed) || parsed < 0 ? 0 : parsed;
   }, [discount]);
 
+  const birthdayDiscountAvailable = useMemo(() => {
+    return isBirthdayDiscountAvailable(selectedClient, getTodayLocalDate(), transactions, settings);
+  }, [selectedClient, transactions, settings]);
+
+  const birthdayDiscount = useMemo(() => {
+    if (!birthdayDiscountAvailable || !applyBirthdayDiscount) return 0;
+    return Math.min(getBirthdayDiscount(subtotal, settings), Math.max(0, subtotal - discountValue));
+  }, [birthdayDiscountAvailable, applyBirthdayDiscount, subtotal, settings, discountValue]);
+
+  // Desconto da fidelidade, limitado ao que sobra depois dos outros descontos
+  const loyaltyDiscount = useMemo(() => {
+    return Math.min(getRewardsDiscount(loyaltyRewards, settings), Math.max(0, subtotal - discountValue - birthdayDiscount));
+  }, [loyaltyRewards, settings, subtotal, discountValue, birthdayDiscount]);
+
   const totalValue = useMemo(() => {
-    const total = subtotal - discountValue;
+    const total = subtotal - discountValue - birthdayDiscount - loyaltyDiscount;
     return total < 0 ? 0 : total;
-  }, [subtotal, discountValue]);
+  }, [subtotal, discountValue, birthdayDiscount, loyaltyDiscount]);
+
+  // Trocar de cliente ou de serviços desfaz a troca de recompensas
+  useEffect(() => {
+    setLoyaltyRewards(0);
+  }, [selectedClient?.id, subtotal]);
+
+  useEffect(() => {
+    setApplyBirthdayDiscount(true);
+  }, [selectedClient?.id]);
 
   // Filtrar serviços baseado na busca
   const filteredServices = useMemo(() => {
@@ -182,7 +218,10 @@ export const ServiceRegistryPage: React.FC = () => {
   const handleClear = () => {
     setClientName('');
     setSelectedServices([]);
+    setProfessionalId(undefined);
+    setProfessionalError(null);
     setDiscount('');
+    setLoyaltyRewards(0);
     setPayments([{ id: Date.now(), method: '' as PaymentMethod, amount: '0,00' }]);
     setPaymentError(null);
     setDiscountError(null);
@@ -199,6 +238,12 @@ export const ServiceRegistryPage: React.FC = () => {
       return;
     }
     
+    if (activeProfessionals.length > 0 && !professionalId) {
+      setProfessionalError("Por favor, selecione o profissional que realizou o atendimento.");
+      setToast({ message: "Por favor, selecione o profissional que realizou o atendimento.", type: 'error' });
+      return;
+    }
+    
     // Validar desconto
     if (discountValue >= subtotal && subtotal > 0) {
       setDiscountError(`O desconto não pode ser igual ou maior que o subtotal (R$ ${subtotal.toFixed(2).replace('.', ',')})`);
@@ -206,20 +251,23 @@ export const ServiceRegistryPage: React.FC = () => {
       return;
     }
     
+    // Fidelidade ou aniversário cobrindo todo o valor: não há o que pagar
+    const paidByDiscounts = loyaltyDiscount + birthdayDiscount > 0 && totalValue === 0;
+
     // Validar se há pelo menos um método de pagamento válido
     const validPayments = payments.filter(p => {
       const amount = parseFloat(p.amount.replace(',', '.')) || 0;
       return amount > 0 && p.method;
     });
     
-    if (validPayments.length === 0) {
+    if (validPayments.length === 0 && !paidByDiscounts) {
       setPaymentError("Por favor, selecione um método de pagamento válido.");
       setToast({ message: "Por favor, selecione um método de pagamento válido.", type: 'error' });
       return;
     }
     
     const totalPaid = payments.reduce((acc, p) => acc + (parseFloat(p.amount.replace(',', '.')) || 0), 0);
-    if (Math.abs(totalPaid - totalValue) > 0.01) {
+    if (Math.abs(totalPaid - totalValue) > 0.01 && !paidByDiscounts) {
         setPaymentError(`O total pago (R$ ${totalPaid.toFixed(2)}) não corresponde ao valor final (R$ ${totalValue.toFixed(2)}).`);
         setToast({ 
           message: `O total pago (R$ ${totalPaid.toFixed(2)}) não corresponde ao valor final (R$ ${totalValue.toFixed(2)}). Ajuste os valores.`, 
@@ -231,21 +279,24 @@ export const ServiceRegistryPage: React.FC = () => {
     try {
         setIsSubmitting(true);
         
-        // Construir clientName com WhatsApp se houver
-        let finalClientNameWithWhatsapp = clientName.trim();
-        if (selectedClient && selectedClient.whatsapp) {
-            finalClientNameWithWhatsapp = `${clientName.trim()}|${selectedClient.whatsapp}`;
-        }
-        
+        const items = selectedServices.map(service => buildServiceItem(service));
+        const transactionPayments = paidByDiscounts ? [] : buildTransactionPayments(payments, totalValue);
+
         await addTransaction({
             date: getTodayLocalDate(),
-            clientName: finalClientNameWithWhatsapp,
-            service: selectedServices.map(s => s.name).join(', '),
-            paymentMethod: payments.map(p => p.method).join(', '),
+            clientName: clientName.trim(),
+            service: formatItemsDescription(items),
+            items,
+            payments: transactionPayments,
+            paymentMethod: paidByDiscounts ? (loyaltyDiscount > 0 ? 'Fidelidade' : 'Aniversário') : formatPaymentMethods(transactionPayments),
             subtotal,
-            discount: discountValue,
+            discount: Math.round((discountValue + birthdayDiscount + loyaltyDiscount) * 100) / 100,
             value: totalValue,
+            loyaltyPointsRedeemed: loyaltyRewards > 0 ? loyaltyRewards * settings.loyaltyRewardPoints : undefined,
+            birthdayDiscount: birthdayDiscount > 0 ? birthdayDiscount : undefined,
             clientId: selectedClient?.id, // Incluir clientId se cliente foi selecionado da base
+            clientWhatsapp: selectedClient?.whatsapp,
+            professionalId,
         });
 
         handleClear();
@@ -273,6 +324,10 @@ export const ServiceRegistryPage: React.FC = () => {
       setToast({ message: "Por favor, selecione ao menos um serviço.", type: 'error' });
       return;
     }
+    if (activeProfessionals.length > 0 && !professionalId) {
+      setProfessionalError("Por favor, selecione o profissional que realizou o atendimento.");
+      return;
+    }
     setCurrentStep(2);
   };
 
@@ -345,6 +400,15 @@ export const ServiceRegistryPage: React.FC = () => {
                         </label>
                     </div>
 
+                    <ProfessionalPicker
+                        value={professionalId}
+                        onChange={(id) => {
+                            setProfessionalId(id);
+                            setProfessionalError(null);
+                        }}
+                        error={professionalError}
+                    />
+
                     {/* Services */}
                     <div className="bg-white dark:bg-gray-900/50 rounded-xl p-5 border border-gray-200 dark:border-gray-800 shadow-sm">
                         <div className="flex items-center gap-2 mb-4">
@@ -528,6 +592,24 @@ export const ServiceRegistryPage: React.FC = () => {
                                     )}
                                 </div>
 
+                                {/* Aniversário */}
+                                {birthdayDiscountAvailable && (
+                                    <BirthdayDiscountToggle
+                                        percentage={settings.birthdayDiscountPercentage}
+                                        discount={birthdayDiscount}
+                                        applied={applyBirthdayDiscount}
+                                        onAppliedChange={setApplyBirthdayDiscount}
+                                    />
+                                )}
+
+                                {/* Fidelidade */}
+                                <LoyaltyRewardPicker
+                                    clientId={selectedClient?.id}
+                                    maxDiscount={Math.max(0, subtotal - discountValue - birthdayDiscount)}
+                                    rewards={loyaltyRewards}
+                                    onRewardsChange={setLoyaltyRewards}
+                                />
+
                                 <div className="flex justify-between items-center pt-2 border-t border-gray-200 dark:border-gray-700">
                                     <span className="text-base font-bold text-gray-900 dark:text-white">Total</span>
                                     <span className="text-2xl font-black text-primary">R$ {totalValue.toFixed(2).replace('.', ',')}</span>
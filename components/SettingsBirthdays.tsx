@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSystemSettings } from '../contexts.tsx';
+import { DEFAULT_BIRTHDAY_MESSAGE } from '../constants.ts';
+import { buildBirthdayMessage } from '../services/birthdayService.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+  <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+const formatDecimal = (value: number): string => String(value).replace('.', ',');
+
+const parseDecimal = (value: string): number => parseFloat(value.replace(',', '.'));
+
+export const SettingsBirthdaysPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { settings, updateBirthdayRules } = useSystemSettings();
+  const [template, setTemplate] = useState(settings.birthdayMessageTemplate);
+  const [discountEnabled, setDiscountEnabled] = useState(settings.birthdayDiscountEnabled);
+  const [discountPercentage, setDiscountPercentage] = useState(settings.birthdayDiscountPercentage ? formatDecimal(settings.birthdayDiscountPercentage) : '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    setTemplate(settings.birthdayMessageTemplate);
+    setDiscountEnabled(settings.birthdayDiscountEnabled);
+    setDiscountPercentage(settings.birthdayDiscountPercentage ? formatDecimal(settings.birthdayDiscountPercentage) : '');
+  }, [settings]);
+
+  const handleSave = async () => {
+    setError('');
+    setSuccessMessage('');
+
+    const percentage = parseDecimal(discountPercentage);
+    if (!template.trim()) {
+      setError('Escreva a mensagem de parabéns.');
+      return;
+    }
+    if (discountEnabled && (isNaN(percentage) || percentage <= 0 || percentage > 100)) {
+      setError('Informe o desconto de aniversário entre 0 e 100%.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateBirthdayRules({
+        birthdayMessageTemplate: template.trim(),
+        birthdayDiscountEnabled: discountEnabled,
+        birthdayDiscountPercentage: isNaN(percentage) || percentage <= 0 || percentage > 100 ? settings.birthdayDiscountPercentage : percentage,
+      });
+      setSuccessMessage('Aniversários salvos com sucesso!');
+    } catch (error: any) {
+      console.error('Failed to save birthday rules:', error);
+      alert(`Falha ao salvar aniversários: ${error.message || 'Erro desconhecido.'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'h-10 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-3 text-sm font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-2 focus:ring-primary/20 transition-all disabled:opacity-50';
+  const previewPercentage = parseDecimal(discountPercentage);
+  const preview = buildBirthdayMessage(
+    { id: 0, fullName: 'João Silva', whatsapp: '' },
+    {
+      birthdayMessageTemplate: template,
+      birthdayDiscountEnabled: discountEnabled,
+      birthdayDiscountPercentage: isNaN(previewPercentage) ? 0 : previewPercentage,
+    }
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 border-b border-gray-200 dark:border-gray-800 backdrop-blur-xl">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-5">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <button
+              onClick={() => navigate('/settings')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 transition-all text-sm font-medium"
+            >
+              <Icon name="arrow_back" className="text-lg" />
+              <span className="hidden sm:inline">Voltar</span>
+            </button>
+
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 bg-gradient-to-r from-primary to-red-600 hover:from-red-600 hover:to-primary text-white font-semibold py-2 px-4 rounded-lg shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon name="save" className="text-lg" />
+              <span>{isSaving ? 'Salvando...' : 'Salvar'}</span>
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-2 h-2 rounded-full bg-primary animate-pulse"></div>
+              <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent">
+                Aniversários
+              </h1>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Mensagem de parabéns pelo WhatsApp e desconto automático no mês do aniversário
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-4">
+        {successMessage && (
+          <div className="rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 p-3">
+            <p className="text-sm text-green-700 dark:text-green-300">{successMessage}</p>
+          </div>
+        )}
+        {error && (
+          <div className="rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+            <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+          </div>
+        )}
+
+        {/* Mensagem */}
+        <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <h3 className="font-bold text-gray-900 dark:text-white text-base">Mensagem de parabéns</h3>
+            <button
+              onClick={() => { setTemplate(DEFAULT_BIRTHDAY_MESSAGE); setSuccessMessage(''); }}
+              className="text-xs font-semibold text-primary hover:text-primary/80 transition-colors"
+            >
+              Restaurar padrão
+            </button>
+          </div>
+          <textarea
+            value={template}
+            onChange={(e) => { setTemplate(e.target.value); setSuccessMessage(''); }}
+            rows={4}
+            className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-2 focus:ring-primary/20 transition-all resize-none"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Use <span className="font-semibold">{'{nome}'}</span> para o apelido (ou primeiro nome) do cliente e <span className="font-semibold">{'{desconto}'}</span> para o aviso do desconto de aniversário.
+          </p>
+          <div className="rounded-lg bg-gray-50 dark:bg-gray-800/60 p-3">
+            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">Prévia</p>
+            <p className="text-sm text-gray-900 dark:text-white whitespace-pre-line">{preview}</p>
+          </div>
+        </div>
+
+        {/* Desconto */}
+        <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-bold text-gray-900 dark:text-white text-base">Desconto de aniversário</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                Aplicado sozinho no caixa para clientes cadastrados no mês do aniversário, uma vez por ano
+              </p>
+            </div>
+            <button
+              onClick={() => { setDiscountEnabled(!discountEnabled); setSuccessMessage(''); }}
+              className={`relative flex h-8 w-14 shrink-0 items-center rounded-full transition-colors duration-200 ${discountEnabled ? 'bg-primary' : 'bg-gray-300 dark:bg-gray-600'}`}
+            >
+              <span className={`inline-block h-6 w-6 transform rounded-full bg-white transition-transform duration-200 ${discountEnabled ? 'translate-x-7' : 'translate-x-1'}`} />
+            </button>
+          </div>
+          <label className="block space-y-1 max-w-xs">
+            <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">Desconto (% sobre o subtotal)</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder="0"
+              value={discountPercentage}
+              disabled={!discountEnabled}
+              onChange={(e) => { setDiscountPercentage(e.target.value); setSuccessMessage(''); }}
+              className={`w-full ${inputClass}`}
+            />
+          </label>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useBusinessHours, useSystemSettings } from '../contexts.tsx';
+import { BusinessHours } from '../types.ts';
+import { WEEKDAY_NAMES } from '../constants.ts';
+import { generateTimeSlots, timeToMinutes } from '../services/scheduleService.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+  <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+const SLOT_INTERVAL_OPTIONS = [15, 20, 30, 40, 45, 60, 90, 120];
+
+// Próxima data (YYYY-MM-DD) que cai no dia da semana informado, usada para pré-visualizar os horários
+const getNextDateForWeekday = (weekday: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + ((weekday - date.getDay() + 7) % 7));
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const validateDay = (day: BusinessHours): string | null => {
+  if (!day.isOpen) return null;
+  if (timeToMinutes(day.openTime) >= timeToMinutes(day.closeTime)) {
+    return 'O horário de fechamento deve ser depois da abertura.';
+  }
+  if (!!day.breakStart !== !!day.breakEnd) {
+    return 'Informe o início e o fim do intervalo.';
+  }
+  if (day.breakStart && day.breakEnd) {
+    const breakStart = timeToMinutes(day.breakStart);
+    const breakEnd = timeToMinutes(day.breakEnd);
+    if (breakStart >= breakEnd) {
+      return 'O fim do intervalo deve ser depois do início.';
+    }
+    if (breakStart < timeToMinutes(day.openTime) || breakEnd > timeToMinutes(day.closeTime)) {
+      return 'O intervalo deve estar dentro do horário de funcionamento.';
+    }
+  }
+  return null;
+};
+
+export const SettingsBusinessHoursPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { businessHours, updateBusinessHours } = useBusinessHours();
+  const { settings, updateSlotInterval } = useSystemSettings();
+  const [draft, setDraft] = useState<BusinessHours[]>(businessHours);
+  const [slotInterval, setSlotInterval] = useState<number>(settings.slotInterval);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    setDraft(businessHours);
+  }, [businessHours]);
+
+  useEffect(() => {
+    setSlotInterval(settings.slotInterval);
+  }, [settings.slotInterval]);
+
+  const updateDraft = (weekday: number, updates: Partial<BusinessHours>) => {
+    setDraft(prev => prev.map(day => day.weekday === weekday ? { ...day, ...updates } : day));
+    setErrors(prev => {
+      const { [weekday]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setSuccessMessage('');
+  };
+
+  const handleSave = async () => {
+    const newErrors: Record<number, string> = {};
+    draft.forEach(day => {
+      const error = validateDay(day);
+      if (error) newErrors[day.weekday] = error;
+    });
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const changedDays = draft.filter(day => {
+        const original = businessHours.find(bh => bh.weekday === day.weekday);
+        return JSON.stringify(original) !== JSON.stringify(day);
+      });
+      for (const day of changedDays) {
+        const { weekday, ...updates } = day;
+        await updateBusinessHours(weekday, updates);
+      }
+      if (slotInterval !== settings.slotInterval) {
+        await updateSlotInterval(slotInterval);
+      }
+      setSuccessMessage('Horário de funcionamento salvo com sucesso!');
+    } catch (error: any) {
+      console.error('Failed to save business hours:', error);
+      alert(`Falha ao salvar horário de funcionamento: ${error.message || 'Erro desconhecido.'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'h-10 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-3 text-sm font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-2 focus:ring-primary/20 transition-all disabled:opacity-50';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 border-b border-gray-200 dark:border-gray-800 backdrop-blur-xl">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-5">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <button
+              onClick={() => navigate('/settings')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 transition-all text-sm font-medium"
+            >
+              <Icon name="arrow_back" className="text-lg" />
+              <span className="hidden sm:inline">Voltar</span>
+            </button>
+
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 bg-gradient-to-r from-primary to-red-600 hover:from-red-600 hover:to-primary text-white font-semibold py-2 px-4 rounded-lg shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon name="save" className="text-lg" />
+              <span>{isSaving ? 'Salvando...' : 'Salvar'}</span>
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-2 h-2 rounded-full bg-primary animate-pulse"></div>
+              <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent">
+                Horário de Funcionamento
+              </h1>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Defina os dias, horários e intervalos usados para gerar os horários da agenda
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-4">
+        {successMessage && (
+          <div className="rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 p-3">
+            <p className="text-sm text-green-700 dark:text-green-300">{successMessage}</p>
+          </div>
+        )}
+
+        {/* Intervalo entre horários */}
+        <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-primary/10 to-primary/5 dark:from-primary/20 dark:to-primary/10 rounded-lg">
+              <Icon name="timer" className="text-primary text-xl" />
+            </div>
+            <div>
+              <h3 className="font-bold text-gray-900 dark:text-white text-base">Intervalo entre horários</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Duração de cada horário disponível na agenda</p>
+            </div>
+          </div>
+          <select
+            value={slotInterval}
+            onChange={(e) => {
+              setSlotInterval(Number(e.target.value));
+              setSuccessMessage('');
+            }}
+            className={inputClass}
+          >
+            {SLOT_INTERVAL_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} minutos</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Dias da semana */}
+        <div className="grid gap-3 sm:gap-4 grid-cols-1 lg:grid-cols-2">
+          {draft.map(day => {
+            const previewSlots = day.isOpen && !validateDay(day)
+              ? generateTimeSlots(getNextDateForWeekday(day.weekday), [day], slotInterval)
+              : [];
+
+            return (
+              <div
+                key={day.weekday}
+                className={`bg-white dark:bg-gray-900/50 rounded-xl border p-4 shadow-sm space-y-4 ${
+                  errors[day.weekday] ? 'border-red-300 dark:border-red-800' : 'border-gray-200 dark:border-gray-800'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <h3 className="font-bold text-gray-900 dark:text-white text-base">{WEEKDAY_NAMES[day.weekday]}</h3>
+                  <button
+                    type="button"
+                    onClick={() => updateDraft(day.weekday, { isOpen: !day.isOpen })}
+                    className={`relative flex h-8 w-14 items-center rounded-full transition-colors duration-200 ${
+                      day.isOpen ? 'bg-primary' : 'bg-gray-300 dark:bg-gray-600'
+                    }`}
+                    aria-label={day.isOpen ? 'Fechar neste dia' : 'Abrir neste dia'}
+                  >
+                    <span
+                      className={`inline-block h-6 w-6 transform rounded-full bg-white transition-transform duration-200 ${
+                        day.isOpen ? 'translate-x-7' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+
+                {day.isOpen ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="block space-y-1">
+                        <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">Abertura</span>
+                        <input
+                          type="time"
+                          value={day.openTime}
+                          onChange={(e) => updateDraft(day.weekday, { openTime: e.target.value })}
+                          className={`w-full ${inputClass}`}
+                        />
+                      </label>
+                      <label className="block space-y-1">
+                        <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">Fechamento</span>
+                        <input
+                          type="time"
+                          value={day.closeTime}
+                          onChange={(e) => updateDraft(day.weekday, { closeTime: e.target.value })}
+                          className={`w-full ${inputClass}`}
+                        />
+                      </label>
+                      <label className="block space-y-1">
+                        <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">Início do almoço</span>
+                        <input
+                          type="time"
+                          value={day.breakStart || ''}
+                          onChange={(e) => updateDraft(day.weekday, { breakStart: e.target.value || undefined })}
+                          className={`w-full ${inputClass}`}
+                        />
+                      </label>
+                      <label className="block space-y-1">
+                        <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">Fim do almoço</span>
+                        <input
+                          type="time"
+                          value={day.breakEnd || ''}
+                          onChange={(e) => updateDraft(day.weekday, { breakEnd: e.target.value || undefined })}
+                          className={`w-full ${inputClass}`}
+                        />
+                      </label>
+                    </div>
+
+                    {errors[day.weekday] ? (
+                      <p className="text-xs text-red-600 dark:text-red-400">{errors[day.weekday]}</p>
+                    ) : (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {previewSlots.length} {previewSlots.length === 1 ? 'horário' : 'horários'} na agenda
+                        {previewSlots.length > 0 && ` (${previewSlots[0]} – ${previewSlots[previewSlots.length - 1]})`}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Fechado</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+};
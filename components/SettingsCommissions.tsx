@@ -0,0 +1,309 @@
+import React, { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCommissions, useServices, useProducts, useProfessionals } from '../contexts.tsx';
+import { CommissionItemType, CommissionRule } from '../types.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+  <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+export const SettingsCommissionsPage: React.FC = () => {
+  const { rules, saveRule, deleteRule } = useCommissions();
+  const { services } = useServices();
+  const { products } = useProducts();
+  const { professionals } = useProfessionals();
+  const navigate = useNavigate();
+  const [itemType, setItemType] = useState<CommissionItemType>('service');
+  const [itemId, setItemId] = useState('');
+  const [professionalId, setProfessionalId] = useState('');
+  const [percentage, setPercentage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<CommissionRule | null>(null);
+
+  const items = itemType === 'service' ? services : products;
+
+  const getItemLabel = (rule: CommissionRule) => {
+    if (rule.itemId === undefined) {
+      return rule.itemType === 'service' ? 'Todos os serviços' : 'Todos os produtos';
+    }
+    const catalog = rule.itemType === 'service' ? services : products;
+    return catalog.find(item => item.id === rule.itemId)?.name || 'Item excluído';
+  };
+
+  const getProfessionalLabel = (rule: CommissionRule) => {
+    if (rule.professionalId === undefined) return 'Todos os profissionais';
+    return professionals.find(p => p.id === rule.professionalId)?.name || 'Profissional excluído';
+  };
+
+  // Regras gerais primeiro, depois as específicas
+  const sortedRules = useMemo(() => {
+    const specificity = (rule: CommissionRule) => (rule.itemId !== undefined ? 2 : 0) + (rule.professionalId !== undefined ? 1 : 0);
+    return [...rules].sort((a, b) =>
+      a.itemType.localeCompare(b.itemType) || specificity(a) - specificity(b) || a.id - b.id
+    );
+  }, [rules]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedPercentage = parseFloat(percentage.replace(',', '.'));
+    if (isNaN(parsedPercentage) || parsedPercentage < 0 || parsedPercentage > 100) {
+      alert("Informe um percentual entre 0 e 100.");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await saveRule({
+        itemType,
+        itemId: itemId ? Number(itemId) : undefined,
+        professionalId: professionalId ? Number(professionalId) : undefined,
+        percentage: parsedPercentage,
+      });
+      setPercentage('');
+    } catch (error: any) {
+      console.error("Failed to save commission rule:", error);
+      alert(`Falha ao salvar regra de comissão: ${error.message || 'Erro desconhecido.'}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await deleteRule(ruleToDelete.id);
+      setRuleToDelete(null);
+    } catch (error: any) {
+      console.error("Failed to delete commission rule:", error);
+      alert(`Falha ao excluir regra de comissão: ${error.message || 'Erro desconhecido.'}`);
+    }
+  };
+
+  const selectClassName = "w-full h-10 px-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-primary focus:outline-none focus:ring-3 focus:ring-primary/20 transition-all font-medium text-sm";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <style>{`
+        @keyframes slideInUp {
+          from {
+            opacity: 0;
+            transform: translateY(10px);
+          }
+          to {
+            opacity: 1;
+            transform: translateY(0);
+          }
+        }
+
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+
+        .animate-slide-in-up {
+          animation: slideInUp 0.4s ease-out;
+        }
+
+        .animate-fade-in {
+          animation: fadeIn 0.3s ease-out;
+        }
+      `}</style>
+
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 border-b border-gray-200 dark:border-gray-800 backdrop-blur-xl">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-5">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <button
+              onClick={() => navigate('/settings')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 transition-all text-sm font-medium"
+            >
+              <Icon name="arrow_back" className="text-lg" />
+              <span className="hidden sm:inline">Voltar</span>
+            </button>
+
+            <button
+              onClick={() => navigate('/financial/payouts')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 transition-all text-sm font-medium"
+            >
+              <Icon name="payments" className="text-lg" />
+              <span>Acertos</span>
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-2 h-2 rounded-full bg-primary animate-pulse"></div>
+              <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent">
+                Comissões
+              </h1>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Percentual de comissão por serviço ou produto, opcionalmente por profissional
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-6">
+        {/* Rule Form */}
+        <form
+          onSubmit={handleSubmit}
+          className="animate-slide-in-up bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 sm:p-5 shadow-sm space-y-4"
+        >
+          <div className="flex items-center gap-2">
+            <Icon name="percent" className="text-primary text-xl" />
+            <h2 className="text-base font-bold text-gray-900 dark:text-white">Nova regra</h2>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <label className="block">
+              <span className="block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">Tipo</span>
+              <select
+                value={itemType}
+                onChange={(e) => { setItemType(e.target.value as CommissionItemType); setItemId(''); }}
+                className={selectClassName}
+              >
+                <option value="service">Serviços</option>
+                <option value="product">Produtos</option>
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">Item</span>
+              <select value={itemId} onChange={(e) => setItemId(e.target.value)} className={selectClassName}>
+                <option value="">{itemType === 'service' ? 'Todos os serviços' : 'Todos os produtos'}</option>
+                {items.map(item => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">Profissional</span>
+              <select value={professionalId} onChange={(e) => setProfessionalId(e.target.value)} className={selectClassName}>
+                <option value="">Todos os profissionais</option>
+                {professionals.map(professional => (
+                  <option key={professional.id} value={professional.id}>{professional.name}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">Comissão (%)</span>
+              <input
+                required
+                type="text"
+                inputMode="decimal"
+                value={percentage}
+                onChange={(e) => setPercentage(e.target.value)}
+                placeholder="Ex: 40"
+                className={selectClassName}
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              A regra mais específica vale: item + profissional, depois item, depois profissional e por último a regra geral. Salvar uma combinação existente atualiza o percentual.
+            </p>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex-shrink-0 flex items-center justify-center gap-2 h-10 px-4 rounded-lg bg-gradient-to-r from-primary to-red-600 hover:from-red-600 hover:to-primary text-white font-semibold text-sm shadow-lg shadow-primary/25 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              <Icon name="save" className="text-lg" />
+              {isSubmitting ? 'Salvando...' : 'Salvar regra'}
+            </button>
+          </div>
+        </form>
+
+        {/* Rules List */}
+        {sortedRules.length === 0 ? (
+          <div className="animate-slide-in-up bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-12 text-center shadow-sm">
+            <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-gradient-to-br from-primary/20 to-primary/5 dark:from-primary/30 dark:to-primary/10 flex items-center justify-center">
+              <Icon name="percent" className="text-4xl text-primary" />
+            </div>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-2">
+              Nenhuma regra de comissão
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Sem regras, nenhuma comissão é calculada nos acertos
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm divide-y divide-gray-100 dark:divide-gray-800">
+            {sortedRules.map((rule, index) => (
+              <div
+                key={rule.id}
+                className="animate-slide-in-up flex items-center justify-between gap-3 p-4"
+                style={{ animationDelay: `${index * 0.03}s` }}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="p-2 bg-gradient-to-br from-primary/10 to-primary/5 dark:from-primary/20 dark:to-primary/10 rounded-lg flex-shrink-0">
+                    <Icon name={rule.itemType === 'service' ? 'content_cut' : 'shopping_bag'} className="text-primary text-xl" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-bold text-gray-900 dark:text-white text-sm truncate">{getItemLabel(rule)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{getProfessionalLabel(rule)}</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-lg font-black text-primary">{rule.percentage.toLocaleString('pt-BR')}%</span>
+                  <button
+                    onClick={() => setRuleToDelete(rule)}
+                    className="flex items-center justify-center p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 transition-all"
+                  >
+                    <Icon name="delete" className="text-base" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {/* Delete Confirmation Modal */}
+      {ruleToDelete && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in">
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-5 animate-slide-in-up border border-gray-200 dark:border-gray-700">
+            <div className="flex items-start gap-4">
+              <div className="p-3 bg-red-100 dark:bg-red-900/30 rounded-xl flex-shrink-0">
+                <Icon name="warning" className="text-red-600 dark:text-red-400 text-3xl" />
+              </div>
+              <div className="flex-1">
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+                  Confirmar Exclusão
+                </h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">
+                  Tem certeza que deseja excluir a regra:
+                </p>
+                <p className="text-base font-bold text-gray-900 dark:text-white">
+                  {getItemLabel(ruleToDelete)} · {getProfessionalLabel(ruleToDelete)} ({ruleToDelete.percentage.toLocaleString('pt-BR')}%)?
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  Acertos já registrados não são alterados.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={() => setRuleToDelete(null)}
+                className="flex-1 py-3 px-4 rounded-xl border-2 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white font-bold hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleConfirmDelete}
+                className="flex-1 py-3 px-4 rounded-xl bg-gradient-to-r from-red-600 to-red-700 text-white font-bold hover:from-red-700 hover:to-red-800 transition-all shadow-lg shadow-red-500/30"
+              >
+                Excluir
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useServices, useSystemSettings } from '../contexts.tsx';
+import { LoyaltyMode } from '../types.ts';
+import { LOYALTY_MODE_LABELS, formatLoyaltyPoints } from '../services/loyaltyService.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+  <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+const formatDecimal = (value: number): string => String(value).replace('.', ',');
+
+const parseDecimal = (value: string): number => parseFloat(value.replace(',', '.'));
+
+export const SettingsLoyaltyPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { services } = useServices();
+  const { settings, updateLoyaltyRules } = useSystemSettings();
+  const [enabled, setEnabled] = useState(settings.loyaltyEnabled);
+  const [mode, setMode] = useState<LoyaltyMode>(settings.loyaltyMode);
+  const [pointsPerReal, setPointsPerReal] = useState(formatDecimal(settings.loyaltyPointsPerReal));
+  const [serviceIds, setServiceIds] = useState<number[]>(settings.loyaltyServiceIds);
+  const [rewardPoints, setRewardPoints] = useState(String(settings.loyaltyRewardPoints || ''));
+  const [rewardDiscount, setRewardDiscount] = useState(settings.loyaltyRewardDiscount ? settings.loyaltyRewardDiscount.toFixed(2).replace('.', ',') : '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    setEnabled(settings.loyaltyEnabled);
+    setMode(settings.loyaltyMode);
+    setPointsPerReal(formatDecimal(settings.loyaltyPointsPerReal));
+    setServiceIds(settings.loyaltyServiceIds);
+    setRewardPoints(String(settings.loyaltyRewardPoints || ''));
+    setRewardDiscount(settings.loyaltyRewardDiscount ? settings.loyaltyRewardDiscount.toFixed(2).replace('.', ',') : '');
+  }, [settings]);
+
+  const toggleService = (serviceId: number) => {
+    setServiceIds(prev => prev.includes(serviceId) ? prev.filter(id => id !== serviceId) : [...prev, serviceId]);
+    setSuccessMessage('');
+  };
+
+  const handleSave = async () => {
+    setError('');
+    setSuccessMessage('');
+
+    const points = parseDecimal(pointsPerReal);
+    const reward = Number(rewardPoints);
+    const discount = parseDecimal(rewardDiscount);
+    if (enabled) {
+      if (mode === 'points' && (isNaN(points) || points <= 0)) {
+        setError('Informe quantos pontos o cliente ganha a cada R$ 1,00.');
+        return;
+      }
+      if (!Number.isInteger(reward) || reward <= 0) {
+        setError(`Informe quantos ${mode === 'stamps' ? 'selos' : 'pontos'} valem uma recompensa.`);
+        return;
+      }
+      if (isNaN(discount) || discount <= 0) {
+        setError('Informe o valor do desconto da recompensa.');
+        return;
+      }
+    }
+
+    try {
+      setIsSaving(true);
+      await updateLoyaltyRules({
+        loyaltyEnabled: enabled,
+        loyaltyMode: mode,
+        loyaltyPointsPerReal: isNaN(points) || points <= 0 ? settings.loyaltyPointsPerReal : points,
+        loyaltyServiceIds: serviceIds,
+        loyaltyRewardPoints: Number.isInteger(reward) && reward > 0 ? reward : settings.loyaltyRewardPoints,
+        loyaltyRewardDiscount: isNaN(discount) || discount <= 0 ? settings.loyaltyRewardDiscount : Math.round(discount * 100) / 100,
+      });
+      setSuccessMessage('Programa de fidelidade salvo com sucesso!');
+    } catch (error: any) {
+      console.error('Failed to save loyalty rules:', error);
+      alert(`Falha ao salvar programa de fidelidade: ${error.message || 'Erro desconhecido.'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'h-10 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-3 text-sm font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-2 focus:ring-primary/20 transition-all disabled:opacity-50';
+  const rewardSummary = Number(rewardPoints) > 0 && parseDecimal(rewardDiscount) > 0
+    ? `A cada ${formatLoyaltyPoints(Number(rewardPoints), mode)}, o cliente troca por R$ ${parseDecimal(rewardDiscount).toFixed(2).replace('.', ',')} de desconto.`
+    : '';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 border-b border-gray-200 dark:border-gray-800 backdrop-blur-xl">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-5">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <button
+              onClick={() => navigate('/settings')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 transition-all text-sm font-medium"
+            >
+              <Icon name="arrow_back" className="text-lg" />
+              <span className="hidden sm:inline">Voltar</span>
+            </button>
+
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 bg-gradient-to-r from-primary to-red-600 hover:from-red-600 hover:to-primary text-white font-semibold py-2 px-4 rounded-lg shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon name="save" className="text-lg" />
+              <span>{isSaving ? 'Salvando...' : 'Salvar'}</span>
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-2 h-2 rounded-full bg-primary animate-pulse"></div>
+              <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent">
+                Programa de Fidelidade
+              </h1>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Pontos ou selos ganhos nos atendimentos de clientes cadastrados, trocados por desconto no caixa
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-4">
+        {successMessage && (
+          <div className="rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 p-3">
+            <p className="text-sm text-green-700 dark:text-green-300">{successMessage}</p>
+          </div>
+        )}
+        {error && (
+          <div className="rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+            <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+          </div>
+        )}
+
+        {/* Ativação */}
+        <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm flex items-center justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-gray-900 dark:text-white text-base">Ativar programa</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+              Desativado, os clientes param de ganhar pontos, mas o saldo continua guardado
+            </p>
+          </div>
+          <button
+            onClick={() => { setEnabled(!enabled); setSuccessMessage(''); }}
+            className={`relative flex h-8 w-14 shrink-0 items-center rounded-full transition-colors duration-200 ${enabled ? 'bg-primary' : 'bg-gray-300 dark:bg-gray-600'}`}
+          >
+            <span className={`inline-block h-6 w-6 transform rounded-full bg-white transition-transform duration-200 ${enabled ? 'translate-x-7' : 'translate-x-1'}`} />
+          </button>
+        </div>
+
+        {/* Regra de acúmulo */}
+        <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm space-y-4">
+          <h3 className="font-bold text-gray-900 dark:text-white text-base">Como o cliente ganha</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {(Object.keys(LOYALTY_MODE_LABELS) as LoyaltyMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => { setMode(option); setSuccessMessage(''); }}
+                className={`p-3 rounded-lg border text-left transition-colors ${
+                  mode === option ? 'border-primary bg-primary/5' : 'border-gray-200 dark:border-gray-700 hover:border-primary/50'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <Icon name={option === 'stamps' ? 'approval' : 'stars'} className={mode === option ? 'text-primary' : 'text-gray-400'} />
+                  <span className="text-sm font-semibold text-gray-900 dark:text-white">{LOYALTY_MODE_LABELS[option]}</span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {option === 'stamps' ? 'Ex.: 1 selo por corte, o 10º corte sai de graça' : 'Ex.: 1 ponto a cada R$ 1,00 em serviços'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {mode === 'points' ? (
+            <label className="block space-y-1 max-w-xs">
+              <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">Pontos a cada R$ 1,00</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={pointsPerReal}
+                onChange={(e) => { setPointsPerReal(e.target.value); setSuccessMessage(''); }}
+                className={`w-full ${inputClass}`}
+              />
+            </label>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-gray-600 dark:text-gray-400">
+                Serviços que dão selo {serviceIds.length === 0 && '(nenhum marcado = todos)'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {services.map(service => (
+                  <button
+                    key={service.id}
+                    onClick={() => toggleService(service.id)}
+                    className={`px-3 py-1.5 rounded-full border text-xs font-medium transition-colors ${
+                      serviceIds.includes(service.id)
+                        ? 'border-primary bg-primary text-white'
+                        : 'border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-primary/50'
+                    }`}
+                  >
+                    {service.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Recompensa */}
+        <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm space-y-4">
+          <h3 className="font-bold text-gray-900 dark:text-white text-base">Recompensa</h3>
+          <div className="grid grid-cols-2 gap-3 max-w-md">
+            <label className="block space-y-1">
+              <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">{mode === 'stamps' ? 'Selos necessários' : 'Pontos necessários'}</span>
+              <input
+                type="number"
+                min={1}
+                value={rewardPoints}
+                onChange={(e) => { setRewardPoints(e.target.value); setSuccessMessage(''); }}
+                className={`w-full ${inputClass}`}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">Desconto (R$)</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                placeholder="0,00"
+                value={rewardDiscount}
+                onChange={(e) => { setRewardDiscount(e.target.value); setSuccessMessage(''); }}
+                className={`w-full ${inputClass}`}
+              />
+            </label>
+          </div>
+          {rewardSummary && <p className="text-xs text-gray-500 dark:text-gray-400">{rewardSummary}</p>}
+        </div>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Só contam os serviços de clientes cadastrados. Excluir um atendimento remove os pontos ganhos e devolve os trocados nele.
+        </p>
+      </main>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTheme, useSystemSettings } from '../contexts.tsx';
 
@@ -7,8 +7,35 @@ const Icon = ({ name }: { name: string }) => <span className="material-symbols-o
 export const SettingsMainPage: React.FC = () => {
   const navigate = useNavigate();
   const { theme, setTheme } = useTheme();
-  const { settings, updateCreditSalesEnabled } = useSystemSettings();
+  const { settings, updateCreditSalesEnabled, updateLateChargeRules } = useSystemSettings();
   const [isUpdating, setIsUpdating] = useState(false);
+  const [lateFeePercentage, setLateFeePercentage] = useState(String(settings.lateFeePercentage).replace('.', ','));
+  const [dailyInterestPercentage, setDailyInterestPercentage] = useState(String(settings.dailyInterestPercentage).replace('.', ','));
+  const [isSavingLateCharges, setIsSavingLateCharges] = useState(false);
+
+  useEffect(() => {
+    setLateFeePercentage(String(settings.lateFeePercentage).replace('.', ','));
+    setDailyInterestPercentage(String(settings.dailyInterestPercentage).replace('.', ','));
+  }, [settings.lateFeePercentage, settings.dailyInterestPercentage]);
+
+  const handleSaveLateCharges = async () => {
+    const lateFee = parseFloat(lateFeePercentage.replace(',', '.')) || 0;
+    const dailyInterest = parseFloat(dailyInterestPercentage.replace(',', '.')) || 0;
+    if (lateFee < 0 || lateFee > 100 || dailyInterest < 0 || dailyInterest > 100) {
+      alert('Informe percentuais entre 0 e 100.');
+      return;
+    }
+    try {
+      setIsSavingLateCharges(true);
+      await updateLateChargeRules({ lateFeePercentage: lateFee, dailyInterestPercentage: dailyInterest });
+    } catch (error: any) {
+      alert(`Erro ao salvar multa e juros: ${error.message || 'Erro desconhecido'}`);
+    } finally {
+      setIsSavingLateCharges(false);
+    }
+  };
+
+  const percentageInputClass = 'w-24 h-10 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-3 text-sm font-semibold text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-2 focus:ring-primary/20 transition-all';
 
   return (
     <div className="mx-auto max-w-4xl">
@@ -43,6 +70,121 @@ export const SettingsMainPage: React.FC = () => {
           </div>
         </button>
 
+        {/* Profissionais */}
+        <button
+          onClick={() => navigate('/settings/professionals')}
+          className="w-full bg-white dark:bg-card-dark rounded-xl shadow-lg border border-slate-200 dark:border-border-dark p-6 hover:shadow-xl transition-all text-left group"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-primary/10 dark:bg-primary/20 group-hover:bg-primary/20 dark:group-hover:bg-primary/30 transition-colors">
+                <Icon name="groups" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-text-light-primary dark:text-text-dark-primary">
+                  Profissionais
+                </h2>
+                <p className="text-sm text-text-light-secondary dark:text-text-dark-secondary mt-1">
+                  Cadastre os barbeiros e organize a agenda de cada um
+                </p>
+              </div>
+            </div>
+            <Icon name="chevron_right" />
+          </div>
+        </button>
+
+        {/* Comissões */}
+        <button
+          onClick={() => navigate('/settings/commissions')}
+          className="w-full bg-white dark:bg-card-dark rounded-xl shadow-lg border border-slate-200 dark:border-border-dark p-6 hover:shadow-xl transition-all text-left group"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-primary/10 dark:bg-primary/20 group-hover:bg-primary/20 dark:group-hover:bg-primary/30 transition-colors">
+                <Icon name="percent" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-text-light-primary dark:text-text-dark-primary">
+                  Comissões
+                </h2>
+                <p className="text-sm text-text-light-secondary dark:text-text-dark-secondary mt-1">
+                  Defina o percentual de comissão dos profissionais por serviço e produto
+                </p>
+              </div>
+            </div>
+            <Icon name="chevron_right" />
+          </div>
+        </button>
+
+        {/* Taxas e Recebimentos */}
+        <button
+          onClick={() => navigate('/settings/payment-fees')}
+          className="w-full bg-white dark:bg-card-dark rounded-xl shadow-lg border border-slate-200 dark:border-border-dark p-6 hover:shadow-xl transition-all text-left group"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-primary/10 dark:bg-primary/20 group-hover:bg-primary/20 dark:group-hover:bg-primary/30 transition-colors">
+                <Icon name="credit_score" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-text-light-primary dark:text-text-dark-primary">
+                  Taxas e Recebimentos
+                </h2>
+                <p className="text-sm text-text-light-secondary dark:text-text-dark-secondary mt-1">
+                  Configure a taxa da maquininha e o prazo de recebimento de PIX, crédito e débito
+                </p>
+              </div>
+            </div>
+            <Icon name="chevron_right" />
+          </div>
+        </button>
+
+        {/* Programa de Fidelidade */}
+        <button
+          onClick={() => navigate('/settings/loyalty')}
+          className="w-full bg-white dark:bg-card-dark rounded-xl shadow-lg border border-slate-200 dark:border-border-dark p-6 hover:shadow-xl transition-all text-left group"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-primary/10 dark:bg-primary/20 group-hover:bg-primary/20 dark:group-hover:bg-primary/30 transition-colors">
+                <Icon name="loyalty" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-text-light-primary dark:text-text-dark-primary">
+                  Programa de Fidelidade
+                </h2>
+                <p className="text-sm text-text-light-secondary dark:text-text-dark-secondary mt-1">
+                  Pontos por valor gasto ou selos por serviço, trocados por desconto no caixa
+                </p>
+              </div>
+            </div>
+            <Icon name="chevron_right" />
+          </div>
+        </button>
+
+        {/* Aniversários */}
+        <button
+          onClick={() => navigate('/settings/birthdays')}
+          className="w-full bg-white dark:bg-card-dark rounded-xl shadow-lg border border-slate-200 dark:border-border-dark p-6 hover:shadow-xl transition-all text-left group"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-primary/10 dark:bg-primary/20 group-hover:bg-primary/20 dark:group-hover:bg-primary/30 transition-colors">
+                <Icon name="cake" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-text-light-primary dark:text-text-dark-primary">
+                  Aniversários
+                </h2>
+                <p className="text-sm text-text-light-secondary dark:text-text-dark-secondary mt-1">
+                  Mensagem de parabéns pelo WhatsApp e desconto no mês do aniversário
+                </p>
+              </div>
+            </div>
+            <Icon name="chevron_right" />
+          </div>
+        </button>
+
         {/* Gestão de Produtos */}
         <button
           onClick={() => navigate('/settings/products')}
@@ -89,6 +231,29 @@ export const SettingsMainPage: React.FC = () => {
           </div>
         </button>
 
+        {/* Horário de Funcionamento */}
+        <button
+          onClick={() => navigate('/settings/business-hours')}
+          className="w-full bg-white dark:bg-card-dark rounded-xl shadow-lg border border-slate-200 dark:border-border-dark p-6 hover:shadow-xl transition-all text-left group"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-lg bg-primary/10 dark:bg-primary/20 group-hover:bg-primary/20 dark:group-hover:bg-primary/30 transition-colors">
+                <Icon name="schedule" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-text-light-primary dark:text-text-dark-primary">
+                  Horário de Funcionamento
+                </h2>
+                <p className="text-sm text-text-light-secondary dark:text-text-dark-secondary mt-1">
+                  Defina os dias, horários, almoço e intervalo da agenda
+                </p>
+              </div>
+            </div>
+            <Icon name="chevron_right" />
+          </div>
+        </button>
+
         {/* Configurações do Sistema */}
         <div className="bg-white dark:bg-card-dark rounded-xl shadow-lg border border-slate-200 dark:border-border-dark">
           <div className="p-6 border-b border-slate-200 dark:border-border-dark">
@@ -138,6 +303,54 @@ export const SettingsMainPage: React.FC = () => {
                 />
               </button>
             </div>
+
+            {/* Multa e juros do fiado */}
+            {settings.creditSalesEnabled && (
+              <div className="flex flex-col gap-4 pt-6 border-t border-slate-200 dark:border-border-dark">
+                <div className="flex items-center gap-4">
+                  <div className="p-3 rounded-lg bg-primary/10 dark:bg-primary/20">
+                    <Icon name="percent" />
+                  </div>
+                  <div>
+                    <h3 className="text-base font-semibold text-text-light-primary dark:text-text-dark-primary">
+                      Multa e Juros do Fiado
+                    </h3>
+                    <p className="text-sm text-text-light-secondary dark:text-text-dark-secondary mt-1">
+                      Cobrados sobre o valor pago depois do vencimento (use 0 para não cobrar)
+                    </p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-end gap-4">
+                  <label className="flex flex-col gap-1 text-sm font-medium text-text-light-primary dark:text-text-dark-primary">
+                    Multa (%)
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={lateFeePercentage}
+                      onChange={(e) => setLateFeePercentage(e.target.value)}
+                      className={percentageInputClass}
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 text-sm font-medium text-text-light-primary dark:text-text-dark-primary">
+                    Juros ao dia (%)
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={dailyInterestPercentage}
+                      onChange={(e) => setDailyInterestPercentage(e.target.value)}
+                      className={percentageInputClass}
+                    />
+                  </label>
+                  <button
+                    onClick={handleSaveLateCharges}
+                    disabled={isSavingLateCharges}
+                    className="h-10 px-4 rounded-lg bg-primary text-white text-sm font-semibold hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSavingLateCharges ? 'Salvando...' : 'Salvar'}
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
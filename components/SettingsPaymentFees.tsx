@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePaymentFees } from '../contexts.tsx';
+import { PAYMENT_METHOD_COLORS } from '../constants.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+  <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+interface FeeDraft {
+  method: string;
+  feePercentage: string;
+  settlementDays: string;
+}
+
+const formatPercentage = (value: number): string => String(value).replace('.', ',');
+
+// Valida um método e devolve a mensagem de erro (ou null)
+const validateFee = (fee: FeeDraft): string | null => {
+  const percentage = parseFloat(fee.feePercentage.replace(',', '.'));
+  if (isNaN(percentage) || percentage < 0 || percentage >= 100) {
+    return 'Informe uma taxa entre 0 e 100%.';
+  }
+  const days = Number(fee.settlementDays);
+  if (!Number.isInteger(days) || days < 0 || days > 365) {
+    return 'Informe o prazo em dias (0 a 365).';
+  }
+  return null;
+};
+
+export const SettingsPaymentFeesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { paymentFees, updatePaymentFee } = usePaymentFees();
+  const [draft, setDraft] = useState<FeeDraft[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    setDraft(paymentFees.map(fee => ({
+      method: fee.method,
+      feePercentage: formatPercentage(fee.feePercentage),
+      settlementDays: String(fee.settlementDays),
+    })));
+  }, [paymentFees]);
+
+  const updateDraft = (method: string, updates: Partial<FeeDraft>) => {
+    setDraft(prev => prev.map(fee => fee.method === method ? { ...fee, ...updates } : fee));
+    setErrors(prev => {
+      const { [method]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setSuccessMessage('');
+  };
+
+  const handleSave = async () => {
+    const newErrors: Record<string, string> = {};
+    draft.forEach(fee => {
+      const error = validateFee(fee);
+      if (error) newErrors[fee.method] = error;
+    });
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      for (const fee of draft) {
+        const feePercentage = parseFloat(fee.feePercentage.replace(',', '.'));
+        const settlementDays = Number(fee.settlementDays);
+        const original = paymentFees.find(f => f.method === fee.method);
+        if (original && original.feePercentage === feePercentage && original.settlementDays === settlementDays) {
+          continue;
+        }
+        await updatePaymentFee(fee.method, { feePercentage, settlementDays });
+      }
+      setSuccessMessage('Taxas salvas com sucesso!');
+    } catch (error: any) {
+      console.error('Failed to save payment fees:', error);
+      alert(`Falha ao salvar taxas: ${error.message || 'Erro desconhecido.'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'h-10 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-3 text-sm font-medium text-gray-900 dark:text-white focus:border-primary focus:outline-0 focus:ring-2 focus:ring-primary/20 transition-all disabled:opacity-50';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 border-b border-gray-200 dark:border-gray-800 backdrop-blur-xl">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-5">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <button
+              onClick={() => navigate('/settings')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 transition-all text-sm font-medium"
+            >
+              <Icon name="arrow_back" className="text-lg" />
+              <span className="hidden sm:inline">Voltar</span>
+            </button>
+
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 bg-gradient-to-r from-primary to-red-600 hover:from-red-600 hover:to-primary text-white font-semibold py-2 px-4 rounded-lg shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon name="save" className="text-lg" />
+              <span>{isSaving ? 'Salvando...' : 'Salvar'}</span>
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-2 h-2 rounded-full bg-primary animate-pulse"></div>
+              <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent">
+                Taxas e Recebimentos
+              </h1>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Taxa da maquininha e prazo de recebimento de cada forma de pagamento
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-4">
+        {successMessage && (
+          <div className="rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 p-3">
+            <p className="text-sm text-green-700 dark:text-green-300">{successMessage}</p>
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:gap-4 grid-cols-1 lg:grid-cols-3">
+          {draft.map(fee => (
+            <div
+              key={fee.method}
+              className={`bg-white dark:bg-gray-900/50 rounded-xl border p-4 shadow-sm space-y-4 ${
+                errors[fee.method] ? 'border-red-300 dark:border-red-800' : 'border-gray-200 dark:border-gray-800'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: PAYMENT_METHOD_COLORS[fee.method] || '#6b7280' }}></span>
+                <h3 className="font-bold text-gray-900 dark:text-white text-base">{fee.method}</h3>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">Taxa (%)</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={fee.feePercentage}
+                    onChange={(e) => updateDraft(fee.method, { feePercentage: e.target.value })}
+                    className={`w-full ${inputClass}`}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">Recebe em (dias)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={365}
+                    value={fee.settlementDays}
+                    onChange={(e) => updateDraft(fee.method, { settlementDays: e.target.value })}
+                    className={`w-full ${inputClass}`}
+                  />
+                </label>
+              </div>
+
+              {errors[fee.method] ? (
+                <p className="text-xs text-red-600 dark:text-red-400">{errors[fee.method]}</p>
+              ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {fee.settlementDays === '0' ? 'Cai na conta no mesmo dia' : `Cai na conta em D+${fee.settlementDays}`}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Pagamentos em dinheiro não têm taxa e entram no caixa na hora.
+        </p>
+      </main>
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useProducts } from '../contexts.tsx';
 import { Product } from '../types.ts';
 import { ProductModal } from './ProductModal.tsx';
+import { isLowStock } from '../services/stockService.ts';
 
 const Icon = ({ name, className }: { name: string; className?: string }) => 
   <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
@@ -79,6 +80,14 @@ export const SettingsProductsPage: React.FC = () => {
               <span className="hidden sm:inline">Voltar</span>
             </button>
 
+            <div className="flex items-center gap-2">
+            <button
+              onClick={() => navigate('/settings/stock')}
+              className="flex items-center gap-2 py-2 px-4 rounded-lg border-2 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white font-semibold hover:bg-gray-50 dark:hover:bg-gray-800 transition-all"
+            >
+              <Icon name="inventory_2" className="text-lg" />
+              <span>Estoque</span>
+            </button>
             <button
               onClick={() => handleOpenProductModal()}
               className="flex items-center gap-2 bg-gradient-to-r from-primary to-red-600 hover:from-red-600 hover:to-primary text-white font-semibold py-2 px-4 rounded-lg shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-all duration-300 hover:scale-[1.02] active:scale-[0.98]"
@@ -87,6 +96,7 @@ export const SettingsProductsPage: React.FC = () => {
               <span className="hidden sm:inline">Novo Produto</span>
               <span className="sm:hidden">Novo</span>
             </button>
+            </div>
           </div>
 
           <div>
@@ -148,16 +158,36 @@ export const SettingsProductsPage: React.FC = () => {
                         <h3 className="font-bold text-gray-900 dark:text-white text-base truncate">
                           {product.name}
                         </h3>
+                        {product.category && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{product.category}</p>
+                        )}
                       </div>
                     </div>
                   </div>
 
                   {/* Price */}
-                  <div className="mb-4">
+                  <div className="mb-3">
                     <p className="text-2xl font-black text-primary">
                       R$ {product.price.toFixed(2).replace('.', ',')}
                     </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">Preço de venda</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Preço de venda{product.costPrice > 0 && ` · Custo R$ ${product.costPrice.toFixed(2).replace('.', ',')}`}
+                    </p>
+                  </div>
+
+                  {/* Stock */}
+                  <div className="mb-4 flex items-center gap-2">
+                    <span className={`inline-flex items-center gap-1 text-xs font-semibold px-2.5 py-1 rounded-full ${
+                      isLowStock(product)
+                        ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                        : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300'
+                    }`}>
+                      <Icon name="inventory_2" className="text-sm" />
+                      {product.stock} em estoque
+                    </span>
+                    {isLowStock(product) && (
+                      <span className="text-xs font-semibold text-red-600 dark:text-red-400">Estoque baixo</span>
+                    )}
                   </div>
 
                   {/* Actions */}
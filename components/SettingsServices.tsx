@@ -158,6 +158,10 @@ export const SettingsServicesPage: React.FC = () => {
                       R$ {service.price.toFixed(2).replace('.', ',')}
                     </p>
                     <p className="text-xs text-gray-500 dark:text-gray-400">Valor por atendimento</p>
+                    <p className="mt-1 inline-flex items-center gap-1 text-xs font-semibold text-gray-600 dark:text-gray-300">
+                      <Icon name="timer" className="text-sm" />
+                      {service.duration} min
+                    </p>
                   </div>
 
                   {/* Actions */}
@@ -0,0 +1,387 @@
+import React, { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useProducts } from '../contexts.tsx';
+import { Product, StockMovement } from '../types.ts';
+import { STOCK_MOVEMENT_LABELS } from '../constants.ts';
+import { isLowStock } from '../services/stockService.ts';
+import { getTodayLocalDate } from '../services/dateService.ts';
+
+const Icon = ({ name, className }: { name: string; className?: string }) =>
+  <span className={`material-symbols-outlined ${className || ''}`}>{name}</span>;
+
+const formatDate = (dateStr: string): string => {
+  const [year, month, day] = dateStr.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const formatCurrency = (value: number): string => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+type MovementMode = 'entry' | 'adjustment';
+
+export const SettingsStockPage: React.FC = () => {
+  const { products, updateProduct, recordStockMovements, fetchStockMovements } = useProducts();
+  const navigate = useNavigate();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showLowStockOnly, setShowLowStockOnly] = useState(false);
+
+  // Movimentação manual
+  const [productToMove, setProductToMove] = useState<Product | null>(null);
+  const [mode, setMode] = useState<MovementMode>('entry');
+  const [quantity, setQuantity] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [reason, setReason] = useState('');
+  const [date, setDate] = useState(getTodayLocalDate);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Histórico
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [history, setHistory] = useState<StockMovement[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+
+  const lowStockCount = useMemo(() => products.filter(isLowStock).length, [products]);
+  const stockCostValue = useMemo(
+    () => products.reduce((sum, p) => sum + Math.max(p.stock, 0) * p.costPrice, 0),
+    [products]
+  );
+
+  const filteredProducts = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return products
+      .filter(p => !showLowStockOnly || isLowStock(p))
+      .filter(p => !query || p.name.toLowerCase().includes(query));
+  }, [products, searchQuery, showLowStockOnly]);
+
+  const openMovement = (product: Product, movementMode: MovementMode) => {
+    setProductToMove(product);
+    setMode(movementMode);
+    setQuantity(movementMode === 'adjustment' ? String(product.stock) : '');
+    setUnitCost(product.costPrice > 0 ? product.costPrice.toFixed(2).replace('.', ',') : '');
+    setReason('');
+    setDate(getTodayLocalDate());
+  };
+
+  const closeMovement = () => {
+    setProductToMove(null);
+    setQuantity('');
+    setUnitCost('');
+    setReason('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!productToMove) return;
+
+    const parsedQuantity = parseInt(quantity, 10);
+    if (isNaN(parsedQuantity) || parsedQuantity < 0 || (mode === 'entry' && parsedQuantity === 0)) {
+      alert(mode === 'entry' ? "Informe a quantidade recebida." : "Informe a quantidade contada no estoque.");
+      return;
+    }
+
+    // No ajuste, a quantidade informada é o saldo contado; a movimentação é a diferença
+    const movementQuantity = mode === 'entry' ? parsedQuantity : parsedQuantity - productToMove.stock;
+    if (movementQuantity === 0) {
+      alert("O estoque informado é igual ao atual. Nada a ajustar.");
+      return;
+    }
+
+    const parsedUnitCost = parseFloat(unitCost.replace(',', '.'));
+    const entryUnitCost = mode === 'entry' && !isNaN(parsedUnitCost) && parsedUnitCost > 0 ? parsedUnitCost : undefined;
+
+    try {
+      setIsSubmitting(true);
+      await recordStockMovements([{
+        productId: productToMove.id,
+        type: mode,
+        quantity: movementQuantity,
+        unitCost: entryUnitCost,
+        reason: reason.trim() || undefined,
+        date,
+      }]);
+      // A última compra passa a ser o custo do produto
+      if (entryUnitCost !== undefined && entryUnitCost !== productToMove.costPrice) {
+        await updateProduct({ ...productToMove, costPrice: entryUnitCost });
+      }
+      closeMovement();
+    } catch (error: any) {
+      console.error("Failed to record stock movement:", error);
+      alert(`Falha ao registrar movimentação: ${error.message || 'Erro desconhecido.'}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openHistory = async (product: Product) => {
+    setHistoryProduct(product);
+    setHistory([]);
+    try {
+      setIsLoadingHistory(true);
+      setHistory(await fetchStockMovements(product.id));
+    } catch (error: any) {
+      alert(`Falha ao carregar histórico: ${error.message || 'Erro desconhecido.'}`);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      {/* Header */}
+      <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 border-b border-gray-200 dark:border-gray-800 backdrop-blur-xl">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-5">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <button
+              onClick={() => navigate('/settings/products')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800 transition-all text-sm font-medium"
+            >
+              <Icon name="arrow_back" className="text-lg" />
+              <span className="hidden sm:inline">Voltar</span>
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <div className="w-2 h-2 rounded-full bg-primary animate-pulse"></div>
+              <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent">
+                Controle de Estoque
+              </h1>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Registre entradas de mercadoria e ajustes de contagem. As vendas dão baixa automaticamente.
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-4">
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Produtos</p>
+            <p className="text-xl font-black text-gray-900 dark:text-white">{products.length}</p>
+          </div>
+          <button
+            onClick={() => setShowLowStockOnly(prev => !prev)}
+            className={`text-left rounded-xl border p-4 shadow-sm transition-all ${
+              showLowStockOnly
+                ? 'bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-800'
+                : 'bg-white dark:bg-gray-900/50 border-gray-200 dark:border-gray-800'
+            }`}
+          >
+            <p className="text-xs text-gray-500 dark:text-gray-400">Estoque baixo</p>
+            <p className={`text-xl font-black ${lowStockCount > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>{lowStockCount}</p>
+          </button>
+          <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-4 shadow-sm">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Valor em estoque (custo)</p>
+            <p className="text-xl font-black text-primary">{formatCurrency(stockCostValue)}</p>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="relative">
+          <Icon name="search" className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-xl" />
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Buscar produto..."
+            className="w-full h-11 pl-10 pr-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder:text-gray-400 focus:border-primary focus:outline-none transition-all text-sm"
+          />
+        </div>
+
+        {/* Products */}
+        {filteredProducts.length === 0 ? (
+          <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 p-10 text-center shadow-sm">
+            <Icon name="inventory_2" className="text-4xl text-gray-400 mb-2" />
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {showLowStockOnly ? 'Nenhum produto com estoque baixo' : 'Nenhum produto encontrado'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm divide-y divide-gray-200 dark:divide-gray-800">
+            {filteredProducts.map(product => (
+              <div key={product.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-900 dark:text-white truncate">{product.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Mínimo: {product.minStock > 0 ? product.minStock : '-'}
+                    {product.costPrice > 0 && ` · Custo ${formatCurrency(product.costPrice)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`min-w-[4.5rem] text-center text-sm font-bold px-3 py-1.5 rounded-lg ${
+                    isLowStock(product)
+                      ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
+                  }`}>
+                    {product.stock} un.
+                  </span>
+                  <button
+                    onClick={() => openMovement(product, 'entry')}
+                    className="flex items-center gap-1 py-1.5 px-3 rounded-lg bg-primary text-white text-sm font-semibold hover:bg-red-700 transition-all"
+                  >
+                    <Icon name="add" className="text-base" />
+                    Entrada
+                  </button>
+                  <button
+                    onClick={() => openMovement(product, 'adjustment')}
+                    className="flex items-center gap-1 py-1.5 px-3 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 text-sm font-semibold hover:bg-gray-200 dark:hover:bg-gray-700 transition-all"
+                  >
+                    <Icon name="tune" className="text-base" />
+                    Ajuste
+                  </button>
+                  <button
+                    onClick={() => openHistory(product)}
+                    title="Histórico"
+                    className="flex items-center justify-center w-9 h-9 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-all"
+                  >
+                    <Icon name="history" className="text-base" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {/* Movement Modal */}
+      {productToMove && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={closeMovement}>
+          <form
+            onSubmit={handleSubmit}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4 border border-gray-200 dark:border-gray-800"
+          >
+            <div>
+              <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+                {mode === 'entry' ? 'Entrada de estoque' : 'Ajuste de estoque'}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {productToMove.name} · atual: {productToMove.stock} un.
+              </p>
+            </div>
+
+            <label className="block">
+              <span className="text-sm font-bold text-gray-900 dark:text-white">
+                {mode === 'entry' ? 'Quantidade recebida' : 'Quantidade contada'}
+              </span>
+              <input
+                autoFocus
+                type="number"
+                min="0"
+                inputMode="numeric"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value.replace(/\D/g, ''))}
+                className="mt-1 w-full h-10 px-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-primary focus:outline-none transition-all text-sm"
+              />
+              {mode === 'adjustment' && quantity !== '' && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  Diferença: {(parseInt(quantity, 10) || 0) - productToMove.stock > 0 ? '+' : ''}{(parseInt(quantity, 10) || 0) - productToMove.stock} un.
+                </span>
+              )}
+            </label>
+
+            {mode === 'entry' && (
+              <label className="block">
+                <span className="text-sm font-bold text-gray-900 dark:text-white">Custo unitário (R$)</span>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={unitCost}
+                  onChange={(e) => setUnitCost(e.target.value.replace(/[^\d,]/g, ''))}
+                  placeholder="0,00"
+                  className="mt-1 w-full h-10 px-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-primary focus:outline-none transition-all text-sm"
+                />
+              </label>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-sm font-bold text-gray-900 dark:text-white">Data</span>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="mt-1 w-full h-10 px-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-primary focus:outline-none transition-all text-sm"
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm font-bold text-gray-900 dark:text-white">Observação</span>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={mode === 'entry' ? 'Ex: Fornecedor' : 'Ex: Perda, contagem'}
+                  maxLength={100}
+                  className="mt-1 w-full h-10 px-3 rounded-lg border-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-primary focus:outline-none transition-all text-sm"
+                />
+              </label>
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={closeMovement}
+                className="flex-1 py-2.5 px-4 rounded-xl border-2 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white font-bold hover:bg-gray-50 dark:hover:bg-gray-800 transition-all"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="flex-1 py-2.5 px-4 rounded-xl bg-primary text-white font-bold hover:bg-red-700 disabled:opacity-50 transition-all"
+              >
+                {isSubmitting ? 'Salvando...' : 'Registrar'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* History Modal */}
+      {historyProduct && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setHistoryProduct(null)}>
+          <div
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-md w-full max-h-[80vh] flex flex-col border border-gray-200 dark:border-gray-800"
+          >
+            <div className="p-5 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-bold text-gray-900 dark:text-white">Histórico</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{historyProduct.name}</p>
+              </div>
+              <button
+                onClick={() => setHistoryProduct(null)}
+                className="flex items-center justify-center w-9 h-9 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-all"
+              >
+                <Icon name="close" className="text-xl" />
+              </button>
+            </div>
+            <div className="overflow-y-auto divide-y divide-gray-200 dark:divide-gray-800">
+              {isLoadingHistory ? (
+                <p className="p-5 text-sm text-gray-500 dark:text-gray-400">Carregando...</p>
+              ) : history.length === 0 ? (
+                <p className="p-5 text-sm text-gray-500 dark:text-gray-400">Nenhuma movimentação registrada</p>
+              ) : (
+                history.map(movement => (
+                  <div key={movement.id} className="px-5 py-3 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-gray-900 dark:text-white">{STOCK_MOVEMENT_LABELS[movement.type]}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {formatDate(movement.date)}
+                        {movement.unitCost !== undefined && ` · ${formatCurrency(movement.unitCost)}/un.`}
+                        {movement.reason && ` · ${movement.reason}`}
+                      </p>
+                    </div>
+                    <span className={`text-sm font-bold ${movement.quantity > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
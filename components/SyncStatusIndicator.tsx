@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { useOfflineSync } from '../contexts.tsx';
+import type { PendingOperation } from '../services/offlineStore.ts';
+
+// Format currency
+const formatCurrency = (value: number): string => {
+    return `R$ ${Number(value || 0).toFixed(2).replace('.', ',')}`;
+};
+
+// Format date (YYYY-MM-DD)
+const formatDate = (dateString: string): string => {
+    const [year, month, day] = dateString.split('-');
+    return `${day}/${month}/${year}`;
+};
+
+const describeOperation = (operation: PendingOperation): string => {
+    const clientName = operation.payload.clientName || 'Cliente';
+    if (operation.kind === 'addTransaction') {
+        return `Venda: ${operation.payload.service || clientName} • ${formatCurrency(operation.payload.value)}`;
+    }
+    if (operation.kind === 'removeTransaction') {
+        return `Desfazer venda incompleta: ${operation.payload.service || clientName} • ${formatCurrency(operation.payload.value)}`;
+    }
+    return `Agendamento: ${clientName} • ${formatDate(operation.payload.date)} às ${String(operation.payload.time).slice(0, 5)}`;
+};
+
+// Indicador de conexão e da fila de gravações offline (fica oculto quando está tudo sincronizado)
+export const SyncStatusIndicator: React.FC = () => {
+    const { isOnline, isSyncing, pendingOperations, syncNow, retryOperation, discardOperation } = useOfflineSync();
+    const [isOpen, setIsOpen] = useState(false);
+
+    const conflicts = pendingOperations.filter(op => op.status === 'conflict');
+
+    if (isOnline && pendingOperations.length === 0) return null;
+
+    const handleDiscard = async (operation: PendingOperation) => {
+        if (!confirm(`Descartar "${describeOperation(operation)}"? Essa gravação será perdida.`)) {
+            return;
+        }
+        try {
+            await discardOperation(operation.id!);
+        } catch (error: any) {
+            console.error('Error discarding offline operation:', error);
+            alert(`Erro ao descartar: ${error.message || 'Erro desconhecido.'}`);
+        }
+    };
+
+    const label = !isOnline
+        ? 'Offline'
+        : isSyncing
+            ? 'Sincronizando...'
+            : conflicts.length > 0
+                ? `${conflicts.length} ${conflicts.length === 1 ? 'conflito' : 'conflitos'}`
+                : 'Aguardando envio';
+
+    const colorClass = !isOnline
+        ? 'bg-zinc-800 text-white'
+        : conflicts.length > 0
+            ? 'bg-red-600 text-white'
+            : 'bg-amber-500 text-white';
+
+    return (
+        <div className="fixed bottom-4 right-4 z-[60] flex flex-col items-end gap-2">
+            {isOpen && (
+                <div className="w-80 max-w-[calc(100vw-2rem)] rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 shadow-2xl">
+                    <div className="p-3 border-b border-zinc-200 dark:border-zinc-800 flex items-center justify-between">
+                        <p className="text-sm font-bold text-zinc-900 dark:text-white">Gravações pendentes</p>
+                        {isOnline && (
+                            <button
+                                onClick={() => syncNow()}
+                                disabled={isSyncing}
+                                className="text-xs font-semibold text-primary hover:underline disabled:opacity-50"
+                            >
+                                Sincronizar agora
+                            </button>
+                        )}
+                    </div>
+                    <div className="max-h-72 overflow-y-auto divide-y divide-zinc-200 dark:divide-zinc-800">
+                        {pendingOperations.length === 0 ? (
+                            <p className="p-3 text-xs text-zinc-500 dark:text-zinc-400">
+                                Sem internet. Vendas e agendamentos feitos agora ficam salvos neste aparelho e são enviados quando a conexão voltar.
+                            </p>
+                        ) : (
+                            pendingOperations.map(operation => (
+                                <div key={operation.id} className="p-3 space-y-1">
+                                    <p className="text-xs font-semibold text-zinc-900 dark:text-white">{describeOperation(operation)}</p>
+                                    {operation.status === 'conflict' ? (
+                                        <>
+                                            <p className="text-xs text-red-600 dark:text-red-400">{operation.error}</p>
+                                            <div className="flex gap-3">
+                                                <button
+                                                    onClick={() => retryOperation(operation.id!)}
+                                                    disabled={!isOnline || isSyncing}
+                                                    className="text-xs font-semibold text-primary hover:underline disabled:opacity-50"
+                                                >
+                                                    Tentar de novo
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDiscard(operation)}
+                                                    className="text-xs font-semibold text-zinc-500 hover:text-red-600 hover:underline"
+                                                >
+                                                    Descartar
+                                                </button>
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <p className="text-xs text-zinc-500 dark:text-zinc-400">Aguardando conexão</p>
+                                    )}
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </div>
+            )}
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-full shadow-lg text-xs font-semibold ${colorClass}`}
+                title="Status da sincronização"
+            >
+                <span className={`material-symbols-outlined text-base ${isSyncing ? 'animate-spin' : ''}`}>
+                    {!isOnline ? 'cloud_off' : isSyncing ? 'sync' : conflicts.length > 0 ? 'sync_problem' : 'cloud_upload'}
+                </span>
+                <span>{label}</span>
+                {pendingOperations.length > 0 && (
+                    <span className="px-1.5 py-0.5 rounded-full bg-white/20">{pendingOperations.length}</span>
+                )}
+            </button>
+        </div>
+    );
+};
@@ -2,24 +2,16 @@ import React, { useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { Installment, InstallmentStatus, Transaction } from '../types.ts';
-import { useTransactions, useEditTransaction, useCreditSales } from '../contexts.tsx';
+import { useTransactions, useEditTransaction, useCreditSales, useServices, useProducts } from '../contexts.tsx';
+import { getItemTotal, getTransactionItems, parseItemsDescription } from '../services/transactionItemsService.ts';
+import { getTransactionPayments } from '../services/transactionPaymentsService.ts';
+import { isInstallmentOpen } from '../services/creditSaleService.ts';
 
 const Icon = ({ name, className, style }: { name: string; className?: string; style?: React.CSSProperties }) => 
     <span className={`material-symbols-outlined ${className || ''}`} style={style}>{name}</span>;
 
-const parseProductList = (value?: string) => {
-    if (!value) return [];
-    return value.split(',').map((item) => {
-        const trimmed = item.trim();
-        const match = trimmed.match(/\((\d+)x\)$/);
-        if (match) {
-            const qty = Number(match[1]);
-            const name = trimmed.replace(/\s*\(\d+x\)$/, '').trim();
-            return { name, quantity: qty };
-        }
-        return { name: trimmed, quantity: 1 };
-    });
-};
+// Item exibido no card de produtos/serviços (vendas no fiado não têm valor por item)
+type DisplayItem = { name: string; quantity: number; total?: number };
 
 export const TransactionDetailPage: React.FC = () => {
     const { id } = useParams<{ id: string }>();
@@ -27,6 +19,8 @@ export const TransactionDetailPage: React.FC = () => {
     const location = useLocation();
     const { transactions, deleteTransaction, updateTransaction } = useTransactions();
     const { creditSales, installments } = useCreditSales();
+    const { services } = useServices();
+    const { products } = useProducts();
     const { setEditTransactionData, clearEditTransactionData } = useEditTransaction();
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
@@ -92,7 +86,13 @@ export const TransactionDetailPage: React.FC = () => {
         return `R$ ${value.toFixed(2).replace('.', ',')}`;
     };
 
-    const parsedProducts = useMemo(() => parseProductList(transaction.service), [transaction.service]);
+    const transactionItems = useMemo<DisplayItem[]>(() => getTransactionItems(transaction, services, products).map(item => ({
+        name: item.name,
+        quantity: item.quantity,
+        total: getItemTotal(item),
+    })), [transaction, services, products]);
+
+    const transactionPayments = useMemo(() => getTransactionPayments(transaction), [transaction]);
 
     const formatDateShort = (dateStr: string): string => {
         if (!dateStr) return '-';
@@ -106,29 +106,19 @@ export const TransactionDetailPage: React.FC = () => {
                 return 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-300 dark:border-green-700';
             case InstallmentStatus.Overdue:
                 return 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-300 dark:border-red-700';
+            case InstallmentStatus.PartiallyPaid:
+                return 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-300 dark:border-blue-700';
+            case InstallmentStatus.Cancelled:
+                return 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-300 dark:border-gray-600';
             default:
                 return 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 border-yellow-300 dark:border-yellow-700';
         }
     };
 
-    // Extract client name (remove WhatsApp if present)
-    const getClientName = (clientName: string): string => {
-        return clientName.includes('|') ? clientName.split('|')[0] : clientName;
-    };
-
-    // Extract WhatsApp number
-    const getWhatsApp = (clientName: string): string | null => {
-        if (clientName.includes('|')) {
-            const match = clientName.match(/\|(.+)$/);
-            return match ? match[1].trim() : null;
-        }
-        return null;
-    };
-
-    const whatsapp = getWhatsApp(transaction.clientName);
+    const whatsapp = transaction.clientWhatsapp || null;
     const whatsappUrl = whatsapp ? `https://wa.me/55${whatsapp.replace(/\D/g, '')}` : null;
 
-    const baseClientName = getClientName(transaction.clientName);
+    const baseClientName = transaction.clientName;
     const hasClientInfo = !!baseClientName && baseClientName !== 'Venda de Produto';
 
     const isFiadoTransaction = useMemo(() => {
@@ -149,7 +139,7 @@ export const TransactionDetailPage: React.FC = () => {
         const totalInstallments = Number(match[3]);
 
         const matchingSale = creditSales.find(sale => 
-            sale.clientName?.toLowerCase() === parsedClient &&
+            (transaction.clientId ? sale.clientId === transaction.clientId : sale.clientName?.toLowerCase() === parsedClient) &&
             sale.numberOfInstallments === totalInstallments
         );
 
@@ -170,14 +160,14 @@ export const TransactionDetailPage: React.FC = () => {
             currentInstallment,
             otherInstallments,
         };
-    }, [isFiadoTransaction, transaction.service, creditSales, installments]);
+    }, [isFiadoTransaction, transaction.service, transaction.clientId, creditSales, installments]);
 
-    const fiadoProducts = useMemo(() => {
+    const fiadoProducts = useMemo<DisplayItem[]>(() => {
         if (!fiadoDetails) return [];
-        return parseProductList(fiadoDetails.sale.products);
+        return parseItemsDescription(fiadoDetails.sale.products);
     }, [fiadoDetails]);
 
-    const displayProducts = fiadoDetails && fiadoProducts.length > 0 ? fiadoProducts : parsedProducts;
+    const displayProducts = fiadoDetails && fiadoProducts.length > 0 ? fiadoProducts : transactionItems;
 
     const handleEdit = () => {
         if (isProductSale) {
@@ -234,7 +224,7 @@ export const TransactionDetailPage: React.FC = () => {
         setShowDeleteConfirm(false);
     };
 
-    const isScheduled = !isProductSale && transaction.clientName.includes('|');
+    const isScheduled = !isProductSale && !!transaction.fromAppointment;
     const pageTitle = isProductSale ? 'Detalhes da Venda' : 'Detalhes do Serviço';
 
     return (
@@ -419,7 +409,7 @@ export const TransactionDetailPage: React.FC = () => {
                                             <span className="font-semibold">{item.name}</span>
                                         </div>
                                         <span className="text-xs font-semibold text-gray-600 dark:text-gray-300">
-                                            {item.quantity}x
+                                            {item.quantity}x{item.total !== undefined && ` • ${formatCurrency(item.total)}`}
                                         </span>
                                     </div>
                                 ))}
@@ -440,9 +430,20 @@ export const TransactionDetailPage: React.FC = () => {
                                 Pagamento
                             </span>
                         </div>
-                        <p className="text-lg font-semibold text-gray-900 dark:text-white">
-                            {transaction.paymentMethod}
-                        </p>
+                        {transactionPayments.length > 1 ? (
+                            <div className="space-y-2">
+                                {transactionPayments.map((payment, index) => (
+                                    <div key={`${payment.method}-${index}`} className="flex items-center justify-between">
+                                        <span className="text-base font-semibold text-gray-900 dark:text-white">{payment.method}</span>
+                                        <span className="text-base font-semibold text-gray-900 dark:text-white">{formatCurrency(payment.amount)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                                {transaction.paymentMethod}
+                            </p>
+                        )}
                     </section>
 
                     {/* Financial Summary */}
@@ -524,7 +525,7 @@ export const TransactionDetailPage: React.FC = () => {
                                 <div className="flex items-center justify-between mb-3">
                                     <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">Parcelas restantes</p>
                                     <span className="text-xs text-gray-500 dark:text-gray-400">
-                                        {fiadoDetails.otherInstallments.filter(inst => inst.status !== InstallmentStatus.Paid).length} em aberto
+                                        {fiadoDetails.otherInstallments.filter(inst => isInstallmentOpen(inst.status)).length} em aberto
                                     </span>
                                 </div>
                                 {fiadoDetails.otherInstallments.length === 0 ? (
@@ -594,7 +595,7 @@ export const TransactionDetailPage: React.FC = () => {
                             {!isProductSale && (
                                 <p className="text-sm">
                                     <span className="font-semibold text-gray-900 dark:text-white">Cliente:</span>{' '}
-                                    <span className="text-gray-700 dark:text-gray-300">{getClientName(transaction.clientName)}</span>
+                                    <span className="text-gray-700 dark:text-gray-300">{transaction.clientName}</span>
                                 </p>
                             )}
                             <p className="text-sm">
@@ -1,4 +1,4 @@
-import { WeeklyRevenue } from './types.ts';
+import { WeeklyRevenue, BusinessHours, StockMovementType, PaymentMethodFee } from './types.ts';
 import { PaymentMethod } from './types';
 import { BottomSheetOption } from './components/BottomSheet';
 
@@ -34,3 +34,43 @@ export const getPaymentMethodOptions = (excludeCredit: boolean = false): BottomS
     color: PAYMENT_METHOD_COLORS[method] || '#6b7280',
   }));
 };
+
+// Nomes dos dias da semana (índice igual ao Date.getDay())
+export const WEEKDAY_NAMES = ['Domingo', 'Segunda-feira', 'Terça-feira', 'Quarta-feira', 'Quinta-feira', 'Sexta-feira', 'Sábado'];
+
+// Intervalo padrão entre horários da agenda (minutos)
+export const DEFAULT_SLOT_INTERVAL = 30;
+
+// Duração padrão de um serviço sem duração cadastrada (minutos)
+export const DEFAULT_SERVICE_DURATION = 30;
+
+// Horário de funcionamento padrão, usado enquanto a tabela business_hours não estiver configurada
+export const DEFAULT_BUSINESS_HOURS: BusinessHours[] = WEEKDAY_NAMES.map((_, weekday) => ({
+  weekday,
+  isOpen: weekday !== 0,
+  openTime: '08:00',
+  closeTime: '18:00',
+  breakStart: weekday !== 0 ? '12:00' : undefined,
+  breakEnd: weekday !== 0 ? '14:00' : undefined,
+}));
+
+// Métodos com taxa de adquirente e prazo de recebimento; Dinheiro entra na hora e sem taxa
+export const DEFAULT_PAYMENT_METHOD_FEES: PaymentMethodFee[] = [
+  { method: PaymentMethod.Pix, feePercentage: 0, settlementDays: 0 },
+  { method: PaymentMethod.DebitCard, feePercentage: 0, settlementDays: 1 },
+  { method: PaymentMethod.CreditCard, feePercentage: 0, settlementDays: 30 },
+];
+
+// Mensagem de parabéns padrão; {nome} vira o apelido (ou primeiro nome) e {desconto} o desconto de aniversário
+export const DEFAULT_BIRTHDAY_MESSAGE = 'Parabéns, {nome}! 🎉 A Hugo Barbearia deseja um feliz aniversário. {desconto}';
+
+// Categoria de despesa usada nos lançamentos automáticos de vales e acertos de comissão
+export const COMMISSION_EXPENSE_CATEGORY = 'Comissões';
+
+// Rótulos das movimentações de estoque
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  entry: 'Entrada',
+  adjustment: 'Ajuste',
+  sale: 'Venda',
+  credit_sale: 'Venda no fiado',
+};
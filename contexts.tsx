@@ -1,6 +1,27 @@
 import React, { useState, useEffect, createContext, useContext, useMemo, useCallback, useRef } from 'react';
-import { Service, Product, Appointment, AppointmentStatus, Transaction, CreditSale, Installment, InstallmentStatus, CreditSaleStatus, SystemSettings, Client, Expense, ExpenseCategory } from './types.ts';
-import { supabase } from './services/supabaseClient.ts';
+import { Service, Product, Appointment, AppointmentStatus, Transaction, CreditSale, Installment, InstallmentStatus, CreditSaleStatus, SystemSettings, Client, Expense, ExpenseCategory, BusinessHours, Professional, CommissionRule, ProfessionalAdvance, ProfessionalPayout, TransactionItem, StockMovement, CashSession, CashMovement, CashMovementType, PaymentMethodFee, LoyaltyEntry } from './types.ts';
+import { repositories, authRepository, type CashSessionClosing, type InstallmentLateCharges, type RenegotiatedInstallment } from './repositories/index.ts';
+import { DEFAULT_BUSINESS_HOURS, DEFAULT_SLOT_INTERVAL, COMMISSION_EXPENSE_CATEGORY, DEFAULT_PAYMENT_METHOD_FEES, DEFAULT_BIRTHDAY_MESSAGE } from './constants.ts';
+import { findOverlappingAppointment, getAppointmentEndTime, normalizeTime, filterAppointmentsByProfessional } from './services/scheduleService.ts';
+import { buildSaleStockMovements, type NewStockMovement } from './services/stockService.ts';
+import { checkClientCredit, getCreditBlockReasons, getCreditSaleStatus, type CreditCustomer, type LateChargeRules } from './services/creditSaleService.ts';
+import { getTodayLocalDate } from './services/dateService.ts';
+import { DuplicateClientError, findDuplicateClients } from './services/clientDuplicateService.ts';
+import { capitalizeWords, formatClientData, formatCPF, formatWhatsApp } from './services/clientFormatService.ts';
+import { buildTransactionLoyaltyEntries, getLoyaltyBalance, type LoyaltyRules, type NewLoyaltyEntry } from './services/loyaltyService.ts';
+import type { BirthdayRules } from './services/birthdayService.ts';
+import {
+    PendingOperation,
+    PendingOperationKind,
+    readCache,
+    writeCache,
+    getPendingOperations,
+    addPendingOperation,
+    updatePendingOperation,
+    removePendingOperation,
+    generateOfflineId,
+    isNetworkError,
+} from './services/offlineStore.ts';
 import type { User, Session } from '@supabase/supabase-js';
 
 // --- AUTH CONTEXT ---
@@ -27,34 +48,26 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   useEffect(() => {
     // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    authRepository.getSession().then(session => {
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
     });
 
     // Listen for auth changes
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    return authRepository.onAuthStateChange(session => {
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
     });
-
-    return () => subscription.unsubscribe();
   }, []);
 
   const signIn = async (email: string, password: string) => {
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-    return { error };
+    return authRepository.signIn(email, password);
   };
 
   const signOut = async () => {
-    await supabase.auth.signOut();
+    await authRepository.signOut();
   };
 
   const value = useMemo(() => ({
@@ -106,6 +119,155 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
 };
 
+// --- OFFLINE SYNC CONTEXT ---
+// Reenvio de uma gravação da fila; erros que não são de rede marcam a operação como conflito
+type SyncHandler = (operation: PendingOperation) => Promise<void>;
+
+interface OfflineSyncContextType {
+    isOnline: boolean;
+    isSyncing: boolean;
+    pendingOperations: PendingOperation[];
+    // offlineId: o mesmo identificador já usado na tentativa online, para o reenvio não duplicar o registro
+    queueOperation: (kind: PendingOperationKind, payload: any, offlineId?: string, options?: PendingOperation['options']) => Promise<PendingOperation>;
+    registerSyncHandler: (kind: PendingOperationKind, handler: SyncHandler) => () => void;
+    syncNow: () => Promise<void>;
+    retryOperation: (operationId: number) => Promise<void>;
+    discardOperation: (operationId: number) => Promise<void>;
+}
+const OfflineSyncContext = createContext<OfflineSyncContextType | undefined>(undefined);
+
+export const useOfflineSync = () => {
+    const context = useContext(OfflineSyncContext);
+    if (!context) throw new Error('useOfflineSync must be used within a OfflineSyncProvider');
+    return context;
+};
+
+// Leitura com cache offline: guarda a última resposta e, sem conexão, devolve a cópia local
+const loadWithCache = async <T,>(cacheKey: string, load: () => Promise<T[]>): Promise<T[]> => {
+    try {
+        const data = await load();
+        writeCache(cacheKey, data);
+        return data;
+    } catch (error) {
+        if (isNetworkError(error)) {
+            const cached = await readCache<T[]>(cacheKey);
+            if (cached) return cached;
+        }
+        throw error;
+    }
+};
+
+export const OfflineSyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [pendingOperations, setPendingOperations] = useState<PendingOperation[]>([]);
+    const pendingRef = useRef<PendingOperation[]>([]);
+    const handlersRef = useRef(new Map<PendingOperationKind, SyncHandler>());
+    const syncingRef = useRef(false);
+
+    const setPending = useCallback((operations: PendingOperation[]) => {
+        pendingRef.current = operations;
+        setPendingOperations(operations);
+    }, []);
+
+    const syncNow = useCallback(async () => {
+        if (syncingRef.current || !navigator.onLine) return;
+        syncingRef.current = true;
+        setIsSyncing(true);
+        try {
+            // Reenvia na ordem em que as gravações foram feitas; para na primeira falha de rede
+            for (const operation of pendingRef.current.filter(op => op.status === 'pending')) {
+                const handler = handlersRef.current.get(operation.kind);
+                if (!handler) continue;
+                try {
+                    await handler(operation);
+                    await removePendingOperation(operation.id!);
+                    setPending(pendingRef.current.filter(op => op.id !== operation.id));
+                } catch (error: any) {
+                    if (isNetworkError(error)) break;
+                    console.error('Error syncing offline operation:', error);
+                    const conflicted: PendingOperation = { ...operation, status: 'conflict', error: error.message || 'Erro desconhecido.' };
+                    await updatePendingOperation(conflicted);
+                    setPending(pendingRef.current.map(op => op.id === operation.id ? conflicted : op));
+                }
+            }
+        } finally {
+            syncingRef.current = false;
+            setIsSyncing(false);
+        }
+    }, [setPending]);
+
+    useEffect(() => {
+        getPendingOperations()
+            .then(operations => {
+                setPending(operations);
+                if (operations.length > 0) syncNow();
+            })
+            .catch(error => console.error('Error loading offline queue:', error));
+
+        const handleOnline = () => {
+            setIsOnline(true);
+            syncNow();
+        };
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [setPending, syncNow]);
+
+    const queueOperation = useCallback(async (kind: PendingOperationKind, payload: any, offlineId?: string, options?: PendingOperation['options']) => {
+        const operation = await addPendingOperation({
+            kind,
+            payload,
+            options,
+            offlineId: offlineId || generateOfflineId(),
+            tempId: -Date.now(),
+            createdAt: new Date().toISOString(),
+            status: 'pending',
+        });
+        setPending([...pendingRef.current, operation]);
+        return operation;
+    }, [setPending]);
+
+    const registerSyncHandler = useCallback((kind: PendingOperationKind, handler: SyncHandler) => {
+        handlersRef.current.set(kind, handler);
+        return () => {
+            if (handlersRef.current.get(kind) === handler) handlersRef.current.delete(kind);
+        };
+    }, []);
+
+    const retryOperation = useCallback(async (operationId: number) => {
+        const operation = pendingRef.current.find(op => op.id === operationId);
+        if (!operation) return;
+        const retried: PendingOperation = { ...operation, status: 'pending', error: undefined };
+        await updatePendingOperation(retried);
+        setPending(pendingRef.current.map(op => op.id === operationId ? retried : op));
+        await syncNow();
+    }, [setPending, syncNow]);
+
+    const discardOperation = useCallback(async (operationId: number) => {
+        await removePendingOperation(operationId);
+        setPending(pendingRef.current.filter(op => op.id !== operationId));
+    }, [setPending]);
+
+    const value = useMemo(() => ({
+        isOnline,
+        isSyncing,
+        pendingOperations,
+        queueOperation,
+        registerSyncHandler,
+        syncNow,
+        retryOperation,
+        discardOperation,
+    }), [isOnline, isSyncing, pendingOperations, queueOperation, registerSyncHandler, syncNow, retryOperation, discardOperation]);
+
+    return <OfflineSyncContext.Provider value={value}>{children}</OfflineSyncContext.Provider>;
+};
+
 // --- SERVICES CONTEXT ---
 interface ServicesContextType {
     services: Service[];
@@ -125,9 +287,11 @@ export const ServicesProvider: React.FC<{children: React.ReactNode}> = ({ childr
     const [services, setServices] = useState<Service[]>([]);
 
     const fetchServices = useCallback(async () => {
-        const { data, error } = await supabase.from('services').select('*').order('name');
-        if (error) console.error('Error fetching services:', error);
-        else setServices(data || []);
+        try {
+            setServices(await loadWithCache('services', repositories.services.list));
+        } catch (error) {
+            console.error('Error fetching services:', error);
+        }
     }, []);
 
     useEffect(() => {
@@ -135,37 +299,33 @@ export const ServicesProvider: React.FC<{children: React.ReactNode}> = ({ childr
     }, [fetchServices]);
 
     const addService = useCallback(async (service: Omit<Service, 'id' | 'created_at'>) => {
-        const { data, error } = await supabase.from('services').insert([service]).select();
-        if (error) {
+        try {
+            const newService = await repositories.services.create(service);
+            setServices(prev => [...prev, newService].sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (error) {
             console.error('Error adding service:', error);
             throw error;
         }
-        if (data) {
-            setServices(prev => [...prev, data[0]].sort((a, b) => a.name.localeCompare(b.name)));
-        }
     }, []);
 
     const updateService = useCallback(async (updatedService: Service) => {
-        const { id, ...serviceData } = updatedService;
-        const { data, error } = await supabase.from('services').update(serviceData).eq('id', id).select();
-        if (error) {
+        try {
+            const savedService = await repositories.services.update(updatedService);
+            setServices(prev => prev.map(s => s.id === savedService.id ? savedService : s));
+        } catch (error) {
             console.error('Error updating service:', error);
             throw error;
         }
-        if(data) {
-            setServices(prev => prev.map(s => s.id === id ? data[0] : s));
-        }
     }, []);
 
     const deleteService = useCallback(async (serviceId: number) => {
-        const { error } = await supabase.from('services').delete().eq('id', serviceId);
-        if (error) {
+        try {
+            await repositories.services.remove(serviceId);
+            setServices(prev => prev.filter(s => s.id !== serviceId));
+        } catch (error) {
             console.error('Error deleting service:', error);
             throw error;
         }
-        else {
-            setServices(prev => prev.filter(s => s.id !== serviceId));
-        }
     }, []);
 
     const value = useMemo(() => ({ services, addService, updateService, deleteService }), [services, addService, updateService, deleteService]);
@@ -176,9 +336,12 @@ export const ServicesProvider: React.FC<{children: React.ReactNode}> = ({ childr
 // --- PRODUCTS CONTEXT ---
 interface ProductsContextType {
     products: Product[];
-    addProduct: (product: Omit<Product, 'id' | 'created_at'>) => Promise<void>;
+    fetchProducts: () => Promise<void>;
+    addProduct: (product: Omit<Product, 'id' | 'created_at' | 'stock'>, initialStock?: number) => Promise<void>;
     updateProduct: (updatedProduct: Product) => Promise<void>;
     deleteProduct: (productId: number) => Promise<void>;
+    fetchStockMovements: (productId: number) => Promise<StockMovement[]>;
+    recordStockMovements: (movements: NewStockMovement[]) => Promise<void>;
 }
 const ProductsContext = createContext<ProductsContextType | undefined>(undefined);
 
@@ -192,54 +355,213 @@ export const ProductsProvider: React.FC<{children: React.ReactNode}> = ({ childr
     const [products, setProducts] = useState<Product[]>([]);
 
     const fetchProducts = useCallback(async () => {
-        const { data, error } = await supabase.from('products').select('*').order('name');
-        if (error) console.error('Error fetching products:', error);
-        else setProducts(data || []);
+        try {
+            setProducts(await loadWithCache('products', repositories.products.list));
+        } catch (error) {
+            console.error('Error fetching products:', error);
+        }
     }, []);
 
     useEffect(() => {
         fetchProducts();
     }, [fetchProducts]);
 
-    const addProduct = useCallback(async (product: Omit<Product, 'id' | 'created_at'>) => {
-        const { data, error } = await supabase.from('products').insert([product]).select();
-        if (error) {
-            console.error('Error adding product:', error);
+    const recordStockMovements = useCallback(async (movements: NewStockMovement[]) => {
+        if (movements.length === 0) return;
+        try {
+            await repositories.products.addStockMovements(movements);
+        } catch (error) {
+            console.error('Error adding stock movements:', error);
             throw error;
         }
-        if (data) {
-            setProducts(prev => [...prev, data[0]].sort((a, b) => a.name.localeCompare(b.name)));
+        // O saldo é recalculado no banco; recarrega para refletir o estoque atual
+        await fetchProducts();
+    }, [fetchProducts]);
+
+    const fetchStockMovements = useCallback(async (productId: number): Promise<StockMovement[]> => {
+        try {
+            return await repositories.products.listStockMovements(productId);
+        } catch (error) {
+            console.error('Error fetching stock movements:', error);
+            throw error;
         }
     }, []);
 
+    const addProduct = useCallback(async (product: Omit<Product, 'id' | 'created_at' | 'stock'>, initialStock: number = 0) => {
+        let newProduct: Product;
+        try {
+            newProduct = await repositories.products.create(product);
+        } catch (error) {
+            console.error('Error adding product:', error);
+            throw error;
+        }
+        setProducts(prev => [...prev, newProduct].sort((a, b) => a.name.localeCompare(b.name)));
+        if (initialStock > 0) {
+            await recordStockMovements([{
+                productId: newProduct.id,
+                type: 'entry',
+                quantity: initialStock,
+                unitCost: product.costPrice || undefined,
+                reason: 'Estoque inicial',
+                date: getTodayLocalDate(),
+            }]);
+        }
+    }, [recordStockMovements]);
+
     const updateProduct = useCallback(async (updatedProduct: Product) => {
         const { id, ...productData } = updatedProduct;
-        const { data, error } = await supabase.from('products').update(productData).eq('id', id).select();
-        if (error) {
+        try {
+            const savedProduct = await repositories.products.update(id, productData);
+            setProducts(prev => prev.map(p => p.id === id ? savedProduct : p));
+        } catch (error) {
             console.error('Error updating product:', error);
             throw error;
         }
-        if(data) {
-            setProducts(prev => prev.map(p => p.id === id ? data[0] : p));
-        }
     }, []);
 
     const deleteProduct = useCallback(async (productId: number) => {
-        const { error } = await supabase.from('products').delete().eq('id', productId);
-        if (error) {
+        try {
+            await repositories.products.remove(productId);
+            setProducts(prev => prev.filter(p => p.id !== productId));
+        } catch (error) {
             console.error('Error deleting product:', error);
             throw error;
         }
-        else {
-            setProducts(prev => prev.filter(p => p.id !== productId));
-        }
     }, []);
 
-    const value = useMemo(() => ({ products, addProduct, updateProduct, deleteProduct }), [products, addProduct, updateProduct, deleteProduct]);
+    const value = useMemo(() => ({ products, fetchProducts, addProduct, updateProduct, deleteProduct, fetchStockMovements, recordStockMovements }), [products, fetchProducts, addProduct, updateProduct, deleteProduct, fetchStockMovements, recordStockMovements]);
     
     return <ProductsContext.Provider value={value}>{children}</ProductsContext.Provider>;
 }
 
+// --- PROFESSIONALS CONTEXT ---
+interface ProfessionalsContextType {
+    professionals: Professional[];
+    activeProfessionals: Professional[];
+    addProfessional: (professional: Omit<Professional, 'id' | 'created_at'>) => Promise<void>;
+    updateProfessional: (updatedProfessional: Professional) => Promise<void>;
+    deleteProfessional: (professionalId: number) => Promise<void>;
+}
+const ProfessionalsContext = createContext<ProfessionalsContextType | undefined>(undefined);
+
+export const useProfessionals = () => {
+    const context = useContext(ProfessionalsContext);
+    if(!context) throw new Error('useProfessionals must be used within a ProfessionalsProvider');
+    return context;
+}
+
+export const ProfessionalsProvider: React.FC<{children: React.ReactNode}> = ({ children }) => {
+    const [professionals, setProfessionals] = useState<Professional[]>([]);
+
+    const fetchProfessionals = useCallback(async () => {
+        try {
+            setProfessionals(await loadWithCache('professionals', repositories.professionals.list));
+        } catch (error) {
+            console.error('Error fetching professionals:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchProfessionals();
+    }, [fetchProfessionals]);
+
+    const addProfessional = useCallback(async (professional: Omit<Professional, 'id' | 'created_at'>) => {
+        try {
+            const newProfessional = await repositories.professionals.create(professional);
+            setProfessionals(prev => [...prev, newProfessional].sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (error) {
+            console.error('Error adding professional:', error);
+            throw error;
+        }
+    }, []);
+
+    const updateProfessional = useCallback(async (updatedProfessional: Professional) => {
+        try {
+            const savedProfessional = await repositories.professionals.update(updatedProfessional);
+            setProfessionals(prev => prev.map(p => p.id === savedProfessional.id ? savedProfessional : p).sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (error) {
+            console.error('Error updating professional:', error);
+            throw error;
+        }
+    }, []);
+
+    const deleteProfessional = useCallback(async (professionalId: number) => {
+        try {
+            await repositories.professionals.remove(professionalId);
+            setProfessionals(prev => prev.filter(p => p.id !== professionalId));
+        } catch (error) {
+            console.error('Error deleting professional:', error);
+            throw error;
+        }
+    }, []);
+
+    const activeProfessionals = useMemo(() => professionals.filter(p => p.active), [professionals]);
+
+    const value = useMemo(() => ({ professionals, activeProfessionals, addProfessional, updateProfessional, deleteProfessional }), [professionals, activeProfessionals, addProfessional, updateProfessional, deleteProfessional]);
+    
+    return <ProfessionalsContext.Provider value={value}>{children}</ProfessionalsContext.Provider>;
+}
+
+// --- FIDELIDADE ---
+interface LoyaltyContextType {
+    entries: LoyaltyEntry[];
+    fetchLoyaltyEntries: () => Promise<void>;
+    recordLoyaltyEntries: (entries: NewLoyaltyEntry[]) => Promise<void>;
+    getClientBalance: (clientId: number) => number;
+}
+const LoyaltyContext = createContext<LoyaltyContextType | undefined>(undefined);
+
+export const useLoyalty = () => {
+    const context = useContext(LoyaltyContext);
+    if (!context) throw new Error('useLoyalty must be used within a LoyaltyProvider');
+    return context;
+};
+
+// Os pontos são lançados pelo TransactionsProvider ao gravar o atendimento,
+// por isso este provider precisa ficar por fora dele.
+export const LoyaltyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [entries, setEntries] = useState<LoyaltyEntry[]>([]);
+
+    const fetchLoyaltyEntries = useCallback(async () => {
+        try {
+            setEntries(await loadWithCache('loyalty_entries', repositories.loyalty.listEntries));
+        } catch (error) {
+            console.error('Error fetching loyalty entries:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchLoyaltyEntries();
+
+        // Clientes mesclados levam os pontos do cadastro duplicado
+        const handleClientUpdated = () => {
+            fetchLoyaltyEntries();
+        };
+        window.addEventListener('clientUpdated', handleClientUpdated);
+
+        return () => {
+            window.removeEventListener('clientUpdated', handleClientUpdated);
+        };
+    }, [fetchLoyaltyEntries]);
+
+    const recordLoyaltyEntries = useCallback(async (newEntries: NewLoyaltyEntry[]) => {
+        if (newEntries.length === 0) return;
+        try {
+            const saved = await repositories.loyalty.addEntries(newEntries);
+            setEntries(prev => [...saved, ...prev]);
+        } catch (error) {
+            console.error('Error adding loyalty entries:', error);
+            throw error;
+        }
+    }, []);
+
+    const getClientBalance = useCallback((clientId: number) => getLoyaltyBalance(entries, clientId), [entries]);
+
+    const value = useMemo(() => ({ entries, fetchLoyaltyEntries, recordLoyaltyEntries, getClientBalance }), [entries, fetchLoyaltyEntries, recordLoyaltyEntries, getClientBalance]);
+
+    return <LoyaltyContext.Provider value={value}>{children}</LoyaltyContext.Provider>;
+};
+
 // --- TRANSACTIONS CONTEXT ---
 interface TransactionsContextType {
     transactions: Transaction[];
@@ -258,20 +580,16 @@ export const useTransactions = () => {
 
 export const TransactionsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [transactions, setTransactions] = useState<Transaction[]>([]);
+    const { fetchProducts, recordStockMovements } = useProducts();
+    const { settings } = useSystemSettings();
+    const { fetchLoyaltyEntries, recordLoyaltyEntries, getClientBalance } = useLoyalty();
+    const { pendingOperations, queueOperation, registerSyncHandler, discardOperation } = useOfflineSync();
     
     const fetchTransactions = useCallback(async () => {
-        const { data, error } = await supabase.from('transactions').select('*').order('created_at', { ascending: false });
-        if (error) console.error('Error fetching transactions:', error);
-        else {
-            const mappedData = data?.map(({ clientname, paymentmethod, type, client_id, from_appointment, ...rest }) => ({
-                ...rest,
-                clientName: clientname,
-                paymentMethod: paymentmethod,
-                type: type || 'service',
-                clientId: client_id || undefined,
-                fromAppointment: from_appointment || false,
-            })) || [];
-            setTransactions(mappedData);
+        try {
+            setTransactions(await loadWithCache('transactions', repositories.transactions.list));
+        } catch (error) {
+            console.error('Error fetching transactions:', error);
         }
     }, []);
 
@@ -290,81 +608,161 @@ export const TransactionsProvider: React.FC<{ children: React.ReactNode }> = ({
     }, [fetchTransactions]);
 
 
-    const addTransaction = useCallback(async (transactionData: Omit<Transaction, 'id' | 'created_at'>) => {
-        const newTransactionData: any = {
-            clientname: transactionData.clientName,
-            service: transactionData.service,
-            date: transactionData.date,
-            paymentmethod: transactionData.paymentMethod,
-            subtotal: transactionData.subtotal,
-            discount: transactionData.discount,
-            value: transactionData.value,
-        };
-        
-        // Se o transactionData tem clientId, incluir na inserção
-        if ('clientId' in transactionData && transactionData.clientId) {
-            newTransactionData.client_id = transactionData.clientId;
-        }
-        
-        // Se o transactionData tem type, incluir na inserção
-        if ('type' in transactionData && transactionData.type) {
-            newTransactionData.type = transactionData.type;
-        }
-        
-        // Se o transactionData tem fromAppointment, incluir na inserção
-        if ('fromAppointment' in transactionData) {
-            newTransactionData.from_appointment = transactionData.fromAppointment;
+    // Grava a transação (com itens, pagamentos, baixa de estoque e pontos de fidelidade).
+    // offlineId identifica vendas feitas sem conexão, para não duplicar no reenvio.
+    const saveTransaction = useCallback(async (transactionData: Omit<Transaction, 'id' | 'created_at'>, offlineId?: string) => {
+        const pointsRedeemed = transactionData.loyaltyPointsRedeemed || 0;
+        if (pointsRedeemed > 0 && (!transactionData.clientId || getClientBalance(transactionData.clientId) < pointsRedeemed)) {
+            throw new Error('Saldo de fidelidade insuficiente para a recompensa.');
         }
-        
-        const { data, error } = await supabase.from('transactions').insert([newTransactionData]).select();
-        if (error) {
+
+        let savedTransaction: Transaction;
+        try {
+            savedTransaction = await repositories.transactions.create(transactionData, offlineId);
+        } catch (error) {
             console.error('Error adding transaction:', error);
             throw error;
         }
-        if(data) {
-            const { clientname, paymentmethod, type, client_id, from_appointment, ...rest } = data[0];
-            const mappedTransaction = { 
-                ...rest, 
-                clientName: clientname, 
-                paymentMethod: paymentmethod, 
-                type: type || 'service', 
-                clientId: client_id || undefined,
-                fromAppointment: from_appointment || false
-            };
-            setTransactions(prev => [mappedTransaction, ...prev]);
+        try {
+            // Baixa do estoque dos produtos vendidos
+            await recordStockMovements(buildSaleStockMovements(savedTransaction.items || [], 'sale', savedTransaction.date, { transactionId: savedTransaction.id }));
+            await recordLoyaltyEntries(buildTransactionLoyaltyEntries(savedTransaction, settings));
+        } catch (stockError) {
+            // Desfaz a transação para não deixar venda sem baixa de estoque ou sem os pontos
+            // (as movimentações de estoque e os pontos são apagados junto e o saldo volta)
+            try {
+                await repositories.transactions.remove(savedTransaction.id);
+            } catch (removeError) {
+                // Sem conseguir desfazer agora, a exclusão vai para a fila (antes de um eventual reenvio da venda)
+                console.error('Error undoing incomplete transaction:', removeError);
+                await queueOperation('removeTransaction', { ...transactionData, id: savedTransaction.id }, offlineId);
+            }
+            await fetchProducts();
+            throw stockError;
         }
-    }, []);
+        setTransactions(prev => [savedTransaction, ...prev]);
+    }, [fetchProducts, recordStockMovements, recordLoyaltyEntries, getClientBalance, settings, queueOperation]);
+
+    const addTransaction = useCallback(async (transactionData: Omit<Transaction, 'id' | 'created_at'>) => {
+        // O mesmo offlineId vai na tentativa online e na fila: se a venda chegou ao servidor
+        // antes de a conexão cair, o reenvio a encontra em vez de gravar outra
+        const offlineId = generateOfflineId();
+        if (navigator.onLine) {
+            try {
+                await saveTransaction(transactionData, offlineId);
+                return;
+            } catch (error) {
+                if (!isNetworkError(error)) throw error;
+            }
+        }
+        // Sem conexão: a venda fica na fila local e é enviada quando a internet voltar
+        await queueOperation('addTransaction', transactionData, offlineId);
+    }, [saveTransaction, queueOperation]);
+
+    useEffect(() => registerSyncHandler('addTransaction', async (operation) => {
+        // A venda pode ter chegado ao servidor antes de a conexão cair (resposta perdida)
+        const existingId = await repositories.transactions.findIdByOfflineId(operation.offlineId);
+        if (existingId !== undefined) {
+            // Lê a fila gravada, não a do último render: a remoção pode ter entrado depois do registro deste handler
+            const incompleteRemoval = (await getPendingOperations()).find(op => op.kind === 'removeTransaction' && op.offlineId === operation.offlineId);
+            if (!incompleteRemoval) {
+                await fetchTransactions();
+                return;
+            }
+            // Gravada pela metade numa tentativa anterior: apaga e grava de novo, completa
+            await repositories.transactions.remove(existingId);
+            await discardOperation(incompleteRemoval.id!);
+        }
+        await saveTransaction(operation.payload, operation.offlineId);
+    }), [registerSyncHandler, saveTransaction, fetchTransactions, discardOperation]);
+
+    useEffect(() => registerSyncHandler('removeTransaction', async (operation) => {
+        await repositories.transactions.remove(operation.payload.id);
+        setTransactions(prev => prev.filter(t => t.id !== operation.payload.id));
+        await fetchProducts();
+        await fetchLoyaltyEntries();
+    }), [registerSyncHandler, fetchProducts, fetchLoyaltyEntries]);
+
+    // Vendas ainda na fila aparecem nas listas com ID temporário (negativo)
+    const pendingTransactions = useMemo<Transaction[]>(() => pendingOperations
+        .filter(op => op.kind === 'addTransaction')
+        .map(op => ({ ...op.payload, id: op.tempId, created_at: op.createdAt })), [pendingOperations]);
 
     const updateTransaction = useCallback(async (id: number, updates: Partial<Omit<Transaction, 'id' | 'created_at'>>) => {
-        const updateData: Record<string, any> = {};
-        if (updates.clientName !== undefined) updateData.clientname = updates.clientName;
-        if (updates.service !== undefined) updateData.service = updates.service;
-        if (updates.date !== undefined) updateData.date = updates.date;
-        if (updates.paymentMethod !== undefined) updateData.paymentmethod = updates.paymentMethod;
-        if (updates.subtotal !== undefined) updateData.subtotal = updates.subtotal;
-        if (updates.discount !== undefined) updateData.discount = updates.discount;
-        if (updates.value !== undefined) updateData.value = updates.value;
-        if (updates.type !== undefined) updateData.type = updates.type;
-        if (updates.fromAppointment !== undefined) updateData.from_appointment = updates.fromAppointment;
-
-        const { error } = await supabase.from('transactions').update(updateData).eq('id', id);
-        if (error) {
+        if (id < 0) {
+            throw new Error('Esta venda ainda não foi sincronizada. Aguarde a conexão voltar para editá-la.');
+        }
+        let saved: Partial<Transaction>;
+        try {
+            saved = await repositories.transactions.update(id, updates);
+        } catch (error) {
             console.error('Error updating transaction:', error);
             throw error;
         }
-        setTransactions(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
-    }, []);
+
+        if (saved.items !== undefined) {
+            // Refaz a baixa de estoque com os novos itens. Vendas anteriores ao controle de
+            // estoque não têm movimentações e continuam sem movimentar o estoque.
+            let removedMovements: StockMovement[];
+            try {
+                removedMovements = await repositories.products.removeTransactionStockMovements(id);
+            } catch (error) {
+                console.error('Error replacing stock movements:', error);
+                throw error;
+            }
+            if (removedMovements.length > 0) {
+                const date = updates.date ?? transactions.find(t => t.id === id)?.date ?? getTodayLocalDate();
+                const movements = buildSaleStockMovements(saved.items, 'sale', date, { transactionId: id });
+                if (movements.length > 0) await recordStockMovements(movements);
+                else await fetchProducts();
+            }
+
+            // Refaz os pontos ganhos com os novos itens (a troca de recompensa continua como estava)
+            const current = transactions.find(t => t.id === id);
+            try {
+                await repositories.loyalty.removeEarnedEntries(id);
+                if (current) {
+                    const entries = buildTransactionLoyaltyEntries({ ...current, ...updates, ...saved }, settings);
+                    await repositories.loyalty.addEntries(entries.filter(entry => entry.type === 'earned'));
+                }
+            } catch (error) {
+                console.error('Error replacing loyalty entries:', error);
+                throw error;
+            } finally {
+                await fetchLoyaltyEntries();
+            }
+        }
+
+        setTransactions(prev => prev.map(t => t.id === id ? { ...t, ...updates, ...saved } : t));
+    }, [transactions, settings, fetchProducts, recordStockMovements, fetchLoyaltyEntries]);
 
     const deleteTransaction = useCallback(async (id: number) => {
-        const { error } = await supabase.from('transactions').delete().eq('id', id);
-        if (error) {
+        // Venda ainda na fila: basta descartá-la
+        const pendingOperation = pendingOperations.find(op => op.kind === 'addTransaction' && op.tempId === id);
+        if (pendingOperation) {
+            await discardOperation(pendingOperation.id!);
+            return;
+        }
+        try {
+            await repositories.transactions.remove(id);
+        } catch (error) {
             console.error('Error deleting transaction:', error);
             throw error;
         }
+        // As movimentações de estoque e os pontos de fidelidade da venda são apagados junto (o saldo volta no banco)
+        const deleted = transactions.find(t => t.id === id);
         setTransactions(prev => prev.filter(t => t.id !== id));
-    }, []);
+        if (deleted?.items?.some(item => item.productId !== undefined)) {
+            await fetchProducts();
+        }
+        if (deleted?.clientId) {
+            await fetchLoyaltyEntries();
+        }
+    }, [transactions, fetchProducts, fetchLoyaltyEntries, pendingOperations, discardOperation]);
+
+    const allTransactions = useMemo(() => [...pendingTransactions, ...transactions], [pendingTransactions, transactions]);
 
-    const value = useMemo(() => ({ transactions, fetchTransactions, addTransaction, updateTransaction, deleteTransaction }), [transactions, fetchTransactions, addTransaction, updateTransaction, deleteTransaction]);
+    const value = useMemo(() => ({ transactions: allTransactions, fetchTransactions, addTransaction, updateTransaction, deleteTransaction }), [allTransactions, fetchTransactions, addTransaction, updateTransaction, deleteTransaction]);
 
     return <TransactionsContext.Provider value={value}>{children}</TransactionsContext.Provider>;
 }
@@ -373,7 +771,7 @@ export const TransactionsProvider: React.FC<{ children: React.ReactNode }> = ({
 interface AppointmentsContextType {
     appointments: Appointment[];
     fetchAppointments: () => Promise<void>;
-    addAppointment: (appointment: Omit<Appointment, 'id' | 'status' | 'created_at'>) => Promise<void>;
+    addAppointment: (appointment: Omit<Appointment, 'id' | 'status' | 'created_at'>, options?: { ignoreAppointmentId?: number }) => Promise<void>;
     updateAppointmentStatus: (appointmentId: number, status: AppointmentStatus) => Promise<void>;
     deleteAppointment: (appointmentId: number) => Promise<void>;
 }
@@ -387,18 +785,14 @@ export const useAppointments = () => {
 
 export const AppointmentsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [appointments, setAppointments] = useState<Appointment[]>([]);
+    const { settings } = useSystemSettings();
+    const { pendingOperations, queueOperation, registerSyncHandler, discardOperation } = useOfflineSync();
 
     const fetchAppointments = useCallback(async () => {
-        const { data, error } = await supabase.from('appointments').select('*').order('date').order('time');
-        if (error) {
+        try {
+            setAppointments(await loadWithCache('appointments', repositories.appointments.list));
+        } catch (error) {
             console.error('Error fetching appointments:', error);
-        } else {
-            const mappedData = data?.map(({ clientname, client_id, ...rest }) => ({
-                ...rest,
-                clientName: clientname,
-                clientId: client_id || undefined,
-            })) || [];
-            setAppointments(mappedData);
         }
     }, []);
     
@@ -417,65 +811,104 @@ export const AppointmentsProvider: React.FC<{ children: React.ReactNode }> = ({
     }, [fetchAppointments]);
 
 
-    const addAppointment = useCallback(async (appointmentData: Omit<Appointment, 'id' | 'status' | 'created_at'>) => {
-        const newAppointmentData: any = {
-            clientname: appointmentData.clientName,
-            service: appointmentData.service,
-            date: appointmentData.date,
-            time: appointmentData.time,
-            status: AppointmentStatus.Confirmed,
-        };
-        
-        // Se o appointmentData tem clientId, incluir na inserção
-        if ('clientId' in appointmentData && appointmentData.clientId) {
-            newAppointmentData.client_id = appointmentData.clientId;
-        }
-        
-        const { data, error } = await supabase.from('appointments').insert([newAppointmentData]).select();
-        
-        if (error) {
+    // Grava o agendamento. offlineId identifica agendamentos feitos sem conexão.
+    const saveAppointment = useCallback(async (appointmentData: Omit<Appointment, 'id' | 'status' | 'created_at'>, offlineId?: string) => {
+        try {
+            const newAppointment = await repositories.appointments.create({ ...appointmentData, status: AppointmentStatus.Confirmed }, offlineId);
+            setAppointments(prev => [...prev, newAppointment]);
+        } catch (error) {
             console.error('Error adding appointment:', error);
             throw error;
         }
-        if (data) {
-            const { clientname, client_id, ...rest } = data[0];
-            const mappedAppointment = { ...rest, clientName: clientname, clientId: client_id || undefined };
-            setAppointments(prev => [...prev, mappedAppointment]);
-        }
     }, []);
 
-    const updateAppointmentStatus = useCallback(async (appointmentId: number, status: AppointmentStatus) => {
-        const statusValue = String(status); // Ensure it's a string
-        
-        const { data, error } = await supabase
-            .from('appointments')
-            .update({ status: statusValue })
-            .eq('id', appointmentId)
-            .select();
+    // Rejeitar agendamentos que se sobrepõem a outro já existente no mesmo dia na agenda do mesmo profissional
+    // (ignoreAppointmentId permite substituir um agendamento na edição)
+    const assertNoOverlap = useCallback((appointmentData: Omit<Appointment, 'id' | 'status' | 'created_at'>, sameDayAppointments: Appointment[], ignoreAppointmentId?: number) => {
+        const dayAppointments = filterAppointmentsByProfessional(
+            sameDayAppointments.filter(apt => apt.date === appointmentData.date),
+            appointmentData.professionalId
+        );
+        const duration = appointmentData.duration || settings.slotInterval;
+        const overlapping = findOverlappingAppointment(appointmentData.time, duration, dayAppointments, settings.slotInterval, ignoreAppointmentId);
+        if (overlapping) {
+            throw new Error(`Conflito de horário com ${overlapping.clientName} (${normalizeTime(overlapping.time)} - ${getAppointmentEndTime(overlapping, settings.slotInterval)}).`);
+        }
+    }, [settings.slotInterval]);
+
+    // Agendamentos ainda na fila aparecem na agenda com ID temporário (negativo)
+    const pendingAppointments = useMemo<Appointment[]>(() => pendingOperations
+        .filter(op => op.kind === 'addAppointment')
+        .map(op => ({ ...op.payload, id: op.tempId, status: AppointmentStatus.Confirmed, created_at: op.createdAt })), [pendingOperations]);
+
+    const allAppointments = useMemo(() => [...appointments, ...pendingAppointments], [appointments, pendingAppointments]);
+
+    const addAppointment = useCallback(async (appointmentData: Omit<Appointment, 'id' | 'status' | 'created_at'>, options?: { ignoreAppointmentId?: number }) => {
+        assertNoOverlap(appointmentData, allAppointments, options?.ignoreAppointmentId);
+
+        const offlineId = generateOfflineId();
+        if (navigator.onLine) {
+            try {
+                await saveAppointment(appointmentData, offlineId);
+                return;
+            } catch (error) {
+                if (!isNetworkError(error)) throw error;
+            }
+        }
+        // Sem conexão: o agendamento fica na fila local e é enviado quando a internet voltar
+        await queueOperation('addAppointment', appointmentData, offlineId, options);
+    }, [allAppointments, assertNoOverlap, saveAppointment, queueOperation]);
+
+    useEffect(() => registerSyncHandler('addAppointment', async (operation) => {
+        const existingId = await repositories.appointments.findIdByOfflineId(operation.offlineId);
+        if (existingId !== undefined) {
+            await fetchAppointments();
+            return;
+        }
+
+        // O horário pode ter sido ocupado em outro aparelho enquanto este estava offline
+        const dayAppointments = await repositories.appointments.listByDate(operation.payload.date);
+        // Na remarcação o agendamento antigo ainda pode estar no servidor e não conta como conflito
+        assertNoOverlap(operation.payload, dayAppointments, operation.options?.ignoreAppointmentId);
 
-        if (error) {
+        await saveAppointment(operation.payload, operation.offlineId);
+    }), [registerSyncHandler, assertNoOverlap, saveAppointment, fetchAppointments]);
+
+    const updateAppointmentStatus = useCallback(async (appointmentId: number, status: AppointmentStatus) => {
+        if (appointmentId < 0) {
+            throw new Error('Este agendamento ainda não foi sincronizado. Aguarde a conexão voltar para alterá-lo.');
+        }
+        let updatedAppointment: Appointment | undefined;
+        try {
+            updatedAppointment = await repositories.appointments.updateStatus(appointmentId, status);
+        } catch (error) {
             console.error('Error updating appointment status:', error);
             throw error;
         }
-        if (data && data.length > 0) {
-            const { clientname, ...rest } = data[0];
-            const mappedAppointment = { ...rest, clientName: clientname };
+        if (updatedAppointment) {
             setAppointments(prev => prev.map(app => 
-                app.id === appointmentId ? mappedAppointment : app
+                app.id === appointmentId ? updatedAppointment! : app
             ));
         }
     }, []);
 
     const deleteAppointment = useCallback(async (appointmentId: number) => {
-        const { error } = await supabase.from('appointments').delete().eq('id', appointmentId);
-        if (error) {
+        // Agendamento ainda na fila: basta descartá-lo
+        const pendingOperation = pendingOperations.find(op => op.kind === 'addAppointment' && op.tempId === appointmentId);
+        if (pendingOperation) {
+            await discardOperation(pendingOperation.id!);
+            return;
+        }
+        try {
+            await repositories.appointments.remove(appointmentId);
+        } catch (error) {
             console.error('Error deleting appointment:', error);
             throw error;
         }
         setAppointments(prev => prev.filter(app => app.id !== appointmentId));
-    }, []);
+    }, [pendingOperations, discardOperation]);
 
-    const value = useMemo(() => ({ appointments, fetchAppointments, addAppointment, updateAppointmentStatus, deleteAppointment }), [appointments, fetchAppointments, addAppointment, updateAppointmentStatus, deleteAppointment]);
+    const value = useMemo(() => ({ appointments: allAppointments, fetchAppointments, addAppointment, updateAppointmentStatus, deleteAppointment }), [allAppointments, fetchAppointments, addAppointment, updateAppointmentStatus, deleteAppointment]);
 
     return <AppointmentsContext.Provider value={value}>{children}</AppointmentsContext.Provider>;
 };
@@ -728,6 +1161,10 @@ export const AppointmentDetailProvider: React.FC<{ children: React.ReactNode }>
 interface SystemSettingsContextType {
     settings: SystemSettings;
     updateCreditSalesEnabled: (enabled: boolean) => Promise<void>;
+    updateSlotInterval: (minutes: number) => Promise<void>;
+    updateLateChargeRules: (rules: LateChargeRules) => Promise<void>; // Multa e juros do fiado
+    updateLoyaltyRules: (rules: LoyaltyRules) => Promise<void>; // Programa de fidelidade
+    updateBirthdayRules: (rules: BirthdayRules) => Promise<void>; // Mensagem e desconto de aniversário
 }
 
 const SystemSettingsContext = createContext<SystemSettingsContextType | undefined>(undefined);
@@ -741,25 +1178,29 @@ export const useSystemSettings = () => {
 export const SystemSettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [settings, setSettings] = useState<SystemSettings>({
         creditSalesEnabled: false, // Default
+        slotInterval: DEFAULT_SLOT_INTERVAL,
+        lateFeePercentage: 0, // Sem multa e juros até serem configurados
+        dailyInterestPercentage: 0,
+        loyaltyEnabled: false, // Programa de fidelidade desativado até ser configurado
+        loyaltyMode: 'points',
+        loyaltyPointsPerReal: 1,
+        loyaltyServiceIds: [],
+        loyaltyRewardPoints: 0,
+        loyaltyRewardDiscount: 0,
+        birthdayMessageTemplate: DEFAULT_BIRTHDAY_MESSAGE,
+        birthdayDiscountEnabled: false, // Sem desconto de aniversário até ser configurado
+        birthdayDiscountPercentage: 0,
     });
 
-    // Buscar configurações do Supabase
+    // Buscar configurações salvas
     const fetchSettings = useCallback(async () => {
-        const { data, error } = await supabase
-            .from('system_settings')
-            .select('*')
-            .single();
-        
-        if (error) {
-            // Se a tabela não existir ou não houver registro, usar padrões
+        try {
+            const savedSettings = await repositories.settings.getSystemSettings();
+            if (savedSettings) setSettings(savedSettings);
+            else console.log('Settings not found, using defaults');
+        } catch (error) {
+            // Se a tabela não existir, usar padrões
             console.log('Settings not found, using defaults');
-            return;
-        }
-        
-        if (data) {
-            setSettings({
-                creditSalesEnabled: data.credit_sales_enabled || false,
-            });
         }
     }, []);
 
@@ -769,16 +1210,9 @@ export const SystemSettingsProvider: React.FC<{ children: React.ReactNode }> = (
 
     const updateCreditSalesEnabled = useCallback(async (enabled: boolean) => {
         // Tentar atualizar ou criar registro
-        const { error } = await supabase
-            .from('system_settings')
-            .upsert({ 
-                id: 1, // Sempre usar ID 1 para configurações gerais
-                credit_sales_enabled: enabled 
-            }, {
-                onConflict: 'id'
-            });
-        
-        if (error) {
+        try {
+            await repositories.settings.saveSystemSettings({ creditSalesEnabled: enabled });
+        } catch (error) {
             console.error('Error updating settings:', error);
             throw error;
         }
@@ -786,10 +1220,58 @@ export const SystemSettingsProvider: React.FC<{ children: React.ReactNode }> = (
         setSettings(prev => ({ ...prev, creditSalesEnabled: enabled }));
     }, []);
 
+    const updateSlotInterval = useCallback(async (minutes: number) => {
+        try {
+            await repositories.settings.saveSystemSettings({ slotInterval: minutes });
+        } catch (error) {
+            console.error('Error updating slot interval:', error);
+            throw error;
+        }
+        
+        setSettings(prev => ({ ...prev, slotInterval: minutes }));
+    }, []);
+
+    const updateLateChargeRules = useCallback(async (rules: LateChargeRules) => {
+        try {
+            await repositories.settings.saveSystemSettings(rules);
+        } catch (error) {
+            console.error('Error updating late charge rules:', error);
+            throw error;
+        }
+
+        setSettings(prev => ({ ...prev, ...rules }));
+    }, []);
+
+    const updateLoyaltyRules = useCallback(async (rules: LoyaltyRules) => {
+        try {
+            await repositories.settings.saveSystemSettings(rules);
+        } catch (error) {
+            console.error('Error updating loyalty rules:', error);
+            throw error;
+        }
+
+        setSettings(prev => ({ ...prev, ...rules }));
+    }, []);
+
+    const updateBirthdayRules = useCallback(async (rules: BirthdayRules) => {
+        try {
+            await repositories.settings.saveSystemSettings(rules);
+        } catch (error) {
+            console.error('Error updating birthday rules:', error);
+            throw error;
+        }
+
+        setSettings(prev => ({ ...prev, ...rules }));
+    }, []);
+
     const value = useMemo(() => ({
         settings,
         updateCreditSalesEnabled,
-    }), [settings, updateCreditSalesEnabled]);
+        updateSlotInterval,
+        updateLateChargeRules,
+        updateLoyaltyRules,
+        updateBirthdayRules,
+    }), [settings, updateCreditSalesEnabled, updateSlotInterval, updateLateChargeRules, updateLoyaltyRules, updateBirthdayRules]);
 
     return (
         <SystemSettingsContext.Provider value={value}>
@@ -798,14 +1280,159 @@ export const SystemSettingsProvider: React.FC<{ children: React.ReactNode }> = (
     );
 };
 
-// --- CREDIT SALES CONTEXT ---
-interface CreditSalesContextType {
-    creditSales: CreditSale[];
+// --- BUSINESS HOURS CONTEXT ---
+interface BusinessHoursContextType {
+    businessHours: BusinessHours[];
+    fetchBusinessHours: () => Promise<void>;
+    updateBusinessHours: (weekday: number, updates: Partial<Omit<BusinessHours, 'weekday'>>) => Promise<void>;
+}
+
+const BusinessHoursContext = createContext<BusinessHoursContextType | undefined>(undefined);
+
+export const useBusinessHours = () => {
+    const context = useContext(BusinessHoursContext);
+    if (!context) throw new Error('useBusinessHours must be used within a BusinessHoursProvider');
+    return context;
+};
+
+export const BusinessHoursProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [businessHours, setBusinessHours] = useState<BusinessHours[]>(DEFAULT_BUSINESS_HOURS);
+
+    const fetchBusinessHours = useCallback(async () => {
+        let savedHours: BusinessHours[];
+        try {
+            savedHours = await repositories.settings.listBusinessHours();
+        } catch (error) {
+            // Se a tabela não existir, manter o horário padrão
+            console.log('Business hours not found, using defaults');
+            return;
+        }
+
+        if (savedHours.length > 0) {
+            // Dias sem registro continuam com o horário padrão
+            setBusinessHours(DEFAULT_BUSINESS_HOURS.map(defaultDay =>
+                savedHours.find(item => item.weekday === defaultDay.weekday) || defaultDay
+            ));
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchBusinessHours();
+    }, [fetchBusinessHours]);
+
+    const updateBusinessHours = useCallback(async (weekday: number, updates: Partial<Omit<BusinessHours, 'weekday'>>) => {
+        const current = businessHours.find(bh => bh.weekday === weekday)
+            || DEFAULT_BUSINESS_HOURS.find(bh => bh.weekday === weekday)!;
+        const updated: BusinessHours = { ...current, ...updates, weekday };
+
+        try {
+            await repositories.settings.saveBusinessHours(updated);
+        } catch (error) {
+            console.error('Error updating business hours:', error);
+            throw error;
+        }
+
+        setBusinessHours(prev => prev.map(bh => bh.weekday === weekday ? updated : bh));
+    }, [businessHours]);
+
+    const value = useMemo(() => ({
+        businessHours,
+        fetchBusinessHours,
+        updateBusinessHours,
+    }), [businessHours, fetchBusinessHours, updateBusinessHours]);
+
+    return (
+        <BusinessHoursContext.Provider value={value}>
+            {children}
+        </BusinessHoursContext.Provider>
+    );
+};
+
+// --- PAYMENT FEES CONTEXT ---
+interface PaymentFeesContextType {
+    paymentFees: PaymentMethodFee[];
+    fetchPaymentFees: () => Promise<void>;
+    updatePaymentFee: (method: string, updates: Partial<Omit<PaymentMethodFee, 'method'>>) => Promise<void>;
+}
+
+const PaymentFeesContext = createContext<PaymentFeesContextType | undefined>(undefined);
+
+export const usePaymentFees = () => {
+    const context = useContext(PaymentFeesContext);
+    if (!context) throw new Error('usePaymentFees must be used within a PaymentFeesProvider');
+    return context;
+};
+
+export const PaymentFeesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [paymentFees, setPaymentFees] = useState<PaymentMethodFee[]>(DEFAULT_PAYMENT_METHOD_FEES);
+
+    const fetchPaymentFees = useCallback(async () => {
+        let savedFees: PaymentMethodFee[];
+        try {
+            savedFees = await repositories.settings.listPaymentFees();
+        } catch (error) {
+            // Se a tabela não existir, manter as taxas padrão (sem taxa)
+            console.log('Payment fees not found, using defaults');
+            return;
+        }
+
+        if (savedFees.length > 0) {
+            // Métodos sem registro continuam com o padrão
+            setPaymentFees(DEFAULT_PAYMENT_METHOD_FEES.map(defaultFee =>
+                savedFees.find(item => item.method === defaultFee.method) || defaultFee
+            ));
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchPaymentFees();
+    }, [fetchPaymentFees]);
+
+    const updatePaymentFee = useCallback(async (method: string, updates: Partial<Omit<PaymentMethodFee, 'method'>>) => {
+        const current = paymentFees.find(f => f.method === method)
+            || DEFAULT_PAYMENT_METHOD_FEES.find(f => f.method === method)
+            || { method, feePercentage: 0, settlementDays: 0 };
+        const updated: PaymentMethodFee = { ...current, ...updates, method };
+
+        try {
+            await repositories.settings.savePaymentFee(updated);
+        } catch (error) {
+            console.error('Error updating payment fee:', error);
+            throw error;
+        }
+
+        setPaymentFees(prev => prev.map(f => f.method === method ? updated : f));
+    }, [paymentFees]);
+
+    const value = useMemo(() => ({
+        paymentFees,
+        fetchPaymentFees,
+        updatePaymentFee,
+    }), [paymentFees, fetchPaymentFees, updatePaymentFee]);
+
+    return (
+        <PaymentFeesContext.Provider value={value}>
+            {children}
+        </PaymentFeesContext.Provider>
+    );
+};
+
+// --- CREDIT SALES CONTEXT ---
+// Liberação do dono para vender no fiado a cliente bloqueado (atraso ou limite); fica no histórico da venda
+export interface CreditOverride {
+    reason: string;
+}
+
+interface CreditSalesContextType {
+    creditSales: CreditSale[];
     installments: Installment[];
     fetchCreditSales: () => Promise<void>;
-    addCreditSale: (sale: Omit<CreditSale, 'id' | 'status' | 'totalPaid' | 'remainingAmount' | 'created_at'>, installments: Omit<Installment, 'id' | 'status' | 'created_at'>[]) => Promise<void>;
-    payInstallment: (installmentId: number, paymentMethod: string, paidDate?: string) => Promise<void>;
+    addCreditSale: (sale: Omit<CreditSale, 'id' | 'status' | 'totalPaid' | 'remainingAmount' | 'created_at'>, installments: Pick<Installment, 'amount' | 'dueDate'>[], items?: TransactionItem[], creditOverride?: CreditOverride) => Promise<void>; // Parcelas na ordem, já com valor e vencimento; cliente bloqueado (atraso ou limite) só com creditOverride
+    payInstallment: (installmentId: number, paymentMethod: string, paidDate?: string, amount?: number, lateCharges?: InstallmentLateCharges) => Promise<CreditSale>; // Sem amount paga o saldo da parcela; devolve a venda atualizada
     updateCreditSaleStatus: () => Promise<void>; // Atualiza status baseado nas parcelas
+    cancelCreditSale: (creditSaleId: number, reason: string, returnProducts: boolean) => Promise<void>;
+    renegotiateCreditSale: (creditSaleId: number, installments: RenegotiatedInstallment[], reason?: string) => Promise<void>; // Parcelas devem somar o saldo da venda
+    writeOffCreditSale: (creditSaleId: number, reason: string) => Promise<void>;
 }
 
 const CreditSalesContext = createContext<CreditSalesContextType | undefined>(undefined);
@@ -819,92 +1446,19 @@ export const useCreditSales = () => {
 export const CreditSalesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [creditSales, setCreditSales] = useState<CreditSale[]>([]);
     const [installments, setInstallments] = useState<Installment[]>([]);
+    const { fetchProducts, recordStockMovements } = useProducts();
 
     const fetchCreditSales = useCallback(async () => {
-        // Buscar vendas no fiado
-        const { data: salesData, error: salesError } = await supabase
-            .from('credit_sales')
-            .select('*')
-            .order('created_at', { ascending: false });
-        
-        if (salesError) {
-            console.error('Error fetching credit sales:', salesError);
-            return;
-        }
-
-        // Buscar parcelas
-        const { data: installmentsData, error: installmentsError } = await supabase
-            .from('installments')
-            .select('*')
-            .order('duedate', { ascending: true });
-        
-        if (installmentsError) {
-            console.error('Error fetching installments:', installmentsError);
-            return;
-        }
-
-        if (salesData) {
-            const mappedSales = salesData.map(({ 
-                id, 
-                clientname, 
-                client_id,
-                products, 
-                totalamount, 
-                subtotal, 
-                discount, 
-                numberofinstallments, 
-                firstduedate, 
-                status, 
-                totalpaid, 
-                remainingamount, 
-                date, 
-                created_at 
-            }) => ({
-                id,
-                clientName: clientname,
-                clientId: client_id || undefined,
-                products,
-                totalAmount: totalamount || 0,
-                subtotal: subtotal || 0,
-                discount: discount || 0,
-                numberOfInstallments: numberofinstallments || 1,
-                firstDueDate: firstduedate,
-                status,
-                totalPaid: totalpaid || 0,
-                remainingAmount: remainingamount || 0,
-                date,
-                created_at,
-            })) as CreditSale[];
-            setCreditSales(mappedSales);
-        } else {
-            setCreditSales([]);
-        }
-
-        if (installmentsData) {
-            const mappedInstallments = installmentsData.map(({ 
-                id, 
-                creditsaleid, 
-                installmentnumber, 
-                amount, 
-                duedate, 
-                status, 
-                paiddate, 
-                paymentmethod, 
-                created_at 
-            }) => ({
-                id,
-                creditSaleId: creditsaleid,
-                installmentNumber: installmentnumber || 1,
-                amount: amount || 0,
-                dueDate: duedate,
-                status,
-                paidDate: paiddate,
-                paymentMethod: paymentmethod,
-                created_at,
-            })) as Installment[];
-            setInstallments(mappedInstallments);
-        } else {
-            setInstallments([]);
+        try {
+            // Buscar vendas no fiado e parcelas
+            const [salesData, installmentsData] = await Promise.all([
+                repositories.creditSales.list(),
+                repositories.creditSales.listInstallments(),
+            ]);
+            setCreditSales(salesData);
+            setInstallments(installmentsData);
+        } catch (error) {
+            console.error('Error fetching credit sales:', error);
         }
     }, []);
 
@@ -924,187 +1478,134 @@ export const CreditSalesProvider: React.FC<{ children: React.ReactNode }> = ({ c
 
     const addCreditSale = useCallback(async (
         sale: Omit<CreditSale, 'id' | 'status' | 'totalPaid' | 'remainingAmount' | 'created_at'>,
-        installmentsData: Omit<Installment, 'id' | 'status' | 'created_at'>[]
+        installmentsData: Pick<Installment, 'amount' | 'dueDate'>[],
+        items: TransactionItem[] = [],
+        creditOverride?: CreditOverride
     ) => {
-        // Calcular valores das parcelas
-        const installmentAmount = sale.totalAmount / sale.numberOfInstallments;
-        
-        // Criar venda no fiado
-        const creditSaleData: any = {
-            clientname: sale.clientName,
-            products: sale.products,
-            totalamount: sale.totalAmount,
-            subtotal: sale.subtotal,
-            discount: sale.discount,
-            numberofinstallments: sale.numberOfInstallments,
-            firstduedate: sale.firstDueDate,
-            status: CreditSaleStatus.Active,
-            totalpaid: 0,
-            remainingamount: sale.totalAmount,
-            date: sale.date,
-        };
-        
-        // Se o sale tem clientId, incluir na inserção
-        if ('clientId' in sale && sale.clientId) {
-            creditSaleData.client_id = sale.clientId;
+        // Regras do fiado conferidas na gravação, com o saldo atual do banco: cliente com parcela
+        // atrasada ou acima do limite só compra com a liberação do dono (motivo obrigatório)
+        let blockReasons: string[];
+        try {
+            const [client, openSales, allInstallments] = await Promise.all([
+                sale.clientId ? repositories.clients.findById(sale.clientId) : Promise.resolve(undefined),
+                repositories.creditSales.listOpen(),
+                repositories.creditSales.listInstallments(),
+            ]);
+            const customer: CreditCustomer = client || { id: sale.clientId, fullName: sale.clientName };
+            const creditCheck = checkClientCredit(customer, openSales, allInstallments, sale.totalAmount, getTodayLocalDate());
+            blockReasons = creditCheck.isBlocked ? getCreditBlockReasons(creditCheck, customer, sale.totalAmount) : [];
+        } catch (error) {
+            console.error('Error checking client credit:', error);
+            throw error;
+        }
+        if (blockReasons.length > 0 && !creditOverride?.reason.trim()) {
+            throw new Error(`Fiado bloqueado para este cliente: ${blockReasons.join('; ')}. A venda precisa da liberação do dono.`);
         }
-        
-        const { data: saleData, error: saleError } = await supabase
-            .from('credit_sales')
-            .insert([creditSaleData])
-            .select()
-            .single();
-
-        if (saleError) {
-            console.error('Error adding credit sale:', saleError);
-            throw saleError;
-        }
-
-        if (!saleData) {
-            throw new Error('Failed to create credit sale');
-        }
-
-        // Criar parcelas
-        const installmentsToInsert = installmentsData.map((inst, index) => {
-            const dueDate = new Date(sale.firstDueDate);
-            dueDate.setMonth(dueDate.getMonth() + index);
-            return {
-                creditsaleid: saleData.id,
-                installmentnumber: index + 1,
-                amount: inst.amount,
-                duedate: dueDate.toISOString().split('T')[0],
-                status: InstallmentStatus.Pending,
-            };
-        });
 
-        const { error: installmentsError } = await supabase
-            .from('installments')
-            .insert(installmentsToInsert);
+        // Parcelas com os vencimentos escolhidos na venda (semanal, quinzenal, mensal ou datas avulsas)
+        const installmentsToInsert = installmentsData.map((inst, index) => ({
+            installmentNumber: index + 1,
+            amount: inst.amount,
+            dueDate: inst.dueDate,
+            status: InstallmentStatus.Pending,
+        }));
 
-        if (installmentsError) {
-            console.error('Error adding installments:', installmentsError);
-            // Reverter criação da venda se der erro nas parcelas
-            await supabase.from('credit_sales').delete().eq('id', saleData.id);
-            throw installmentsError;
+        // Criar venda no fiado com as parcelas
+        let savedSale: CreditSale;
+        try {
+            savedSale = await repositories.creditSales.create({
+                ...sale,
+                status: CreditSaleStatus.Active,
+                totalPaid: 0,
+                remainingAmount: sale.totalAmount,
+            }, installmentsToInsert);
+        } catch (error) {
+            console.error('Error adding credit sale:', error);
+            throw error;
+        }
+
+        // Baixa do estoque dos produtos vendidos no fiado e registro da liberação (se houver)
+        try {
+            await recordStockMovements(buildSaleStockMovements(items, 'credit_sale', sale.date, { creditSaleId: savedSale.id }));
+            if (creditOverride && blockReasons.length > 0) {
+                await repositories.creditSales.addEvent({
+                    creditSaleId: savedSale.id,
+                    type: 'limit_override',
+                    amount: sale.totalAmount,
+                    reason: creditOverride.reason.trim(),
+                    details: `Venda liberada pelo dono: ${blockReasons.join('; ')}`,
+                });
+            }
+        } catch (stockError) {
+            await repositories.creditSales.remove(savedSale.id);
+            throw stockError;
         }
 
         // Atualizar lista
         await fetchCreditSales();
-    }, [fetchCreditSales]);
+    }, [fetchCreditSales, recordStockMovements]);
 
-    const payInstallment = useCallback(async (installmentId: number, paymentMethod: string, paidDate?: string) => {
-        const paymentDate = paidDate || new Date().toISOString().split('T')[0];
-
-        const { data: installment, error: updateError } = await supabase
-            .from('installments')
-            .update({
-                status: InstallmentStatus.Paid,
-                paiddate: paymentDate,
-                paymentmethod: paymentMethod,
-            })
-            .eq('id', installmentId)
-            .select()
-            .single();
-
-        if (updateError) {
-            console.error('Error paying installment:', updateError);
-            throw updateError;
-        }
-
-        if (installment) {
-            // Buscar dados da venda no fiado
-            const creditSaleId = installment.creditsaleid;
-            const { data: creditSale } = await supabase
-                .from('credit_sales')
-                .select('*')
-                .eq('id', creditSaleId)
-                .single();
-
-            if (creditSale) {
-                const newTotalPaid = (creditSale.totalpaid || 0) + installment.amount;
-                const newRemaining = Math.max(0, (creditSale.remainingamount || 0) - installment.amount);
-                
-                // Verificar se está quitado (buscar novamente para incluir a que acabou de ser paga)
-                const { data: allInstallments } = await supabase
-                    .from('installments')
-                    .select('status')
-                    .eq('creditsaleid', creditSaleId);
-
-                const allPaid = allInstallments?.every(inst => 
-                    inst.status === InstallmentStatus.Paid
-                );
-
-                await supabase
-                    .from('credit_sales')
-                    .update({
-                        totalpaid: newTotalPaid,
-                        remainingamount: newRemaining,
-                        status: allPaid ? CreditSaleStatus.Paid : CreditSaleStatus.Active,
-                    })
-                    .eq('id', creditSaleId);
-
-                // NOVO: Criar transação no relatório para registrar o pagamento
-                const transactionDescription = `Fiado - ${creditSale.clientname} - Parcela ${installment.installmentnumber}/${creditSale.numberofinstallments}`;
-                
-                await supabase
-                    .from('transactions')
-                    .insert([{
-                        clientname: creditSale.clientname,
-                        service: transactionDescription,
-                        date: paymentDate,
-                        paymentmethod: paymentMethod,
-                        subtotal: installment.amount,
-                        discount: 0,
-                        value: installment.amount,
-                        type: 'product', // Classificar como produto/venda
-                    }]);
-            }
+    const payInstallment = useCallback(async (installmentId: number, paymentMethod: string, paidDate?: string, amount?: number, lateCharges?: InstallmentLateCharges) => {
+        // Pagamento, parcela, totais da venda e transação do relatório são gravados juntos (ou nada é gravado)
+        let updatedSale: CreditSale;
+        try {
+            updatedSale = await repositories.creditSales.payInstallment(installmentId, paymentMethod, paidDate || getTodayLocalDate(), amount, lateCharges);
+        } catch (error) {
+            console.error('Error paying installment:', error);
+            throw error;
         }
 
         await fetchCreditSales();
+        return updatedSale;
     }, [fetchCreditSales]);
 
     const updateCreditSaleStatus = useCallback(async () => {
         // Atualizar status das parcelas baseado na data de vencimento
-        const today = new Date().toISOString().split('T')[0];
+        const today = getTodayLocalDate();
         
         // Marcar parcelas atrasadas
-        await supabase
-            .from('installments')
-            .update({ status: InstallmentStatus.Overdue })
-            .eq('status', InstallmentStatus.Pending)
-            .lt('duedate', today);
+        await repositories.creditSales.markOverdueInstallments(today);
 
         // Atualizar status das vendas
-        const { data: sales } = await supabase
-            .from('credit_sales')
-            .select('id')
-            .neq('status', CreditSaleStatus.Paid);
-
-        if (sales) {
-            for (const sale of sales) {
-                const { data: saleInstallments } = await supabase
-                    .from('installments')
-                    .select('status')
-                    .eq('creditsaleid', sale.id);
-
-                if (saleInstallments) {
-                    const hasOverdue = saleInstallments.some(inst => inst.status === InstallmentStatus.Overdue);
-                    const allPaid = saleInstallments.every(inst => inst.status === InstallmentStatus.Paid);
-                    
-                    let newStatus = CreditSaleStatus.Active;
-                    if (allPaid) {
-                        newStatus = CreditSaleStatus.Paid;
-                    } else if (hasOverdue) {
-                        newStatus = CreditSaleStatus.Overdue;
-                    }
-
-                    await supabase
-                        .from('credit_sales')
-                        .update({ status: newStatus })
-                        .eq('id', sale.id);
-                }
-            }
+        const sales = await repositories.creditSales.listOpen();
+        for (const sale of sales) {
+            const saleInstallments = await repositories.creditSales.listInstallmentsBySale(sale.id);
+            await repositories.creditSales.update(sale.id, { status: getCreditSaleStatus(saleInstallments) });
+        }
+
+        await fetchCreditSales();
+    }, [fetchCreditSales]);
+
+    // Cancelamento, renegociação e perdão ficam registrados no histórico da venda (credit_sale_events)
+    const cancelCreditSale = useCallback(async (creditSaleId: number, reason: string, returnProducts: boolean) => {
+        try {
+            await repositories.creditSales.cancel(creditSaleId, reason, returnProducts);
+        } catch (error) {
+            console.error('Error cancelling credit sale:', error);
+            throw error;
+        }
+
+        await fetchCreditSales();
+        if (returnProducts) await fetchProducts();
+    }, [fetchCreditSales, fetchProducts]);
+
+    const renegotiateCreditSale = useCallback(async (creditSaleId: number, installmentsData: RenegotiatedInstallment[], reason?: string) => {
+        try {
+            await repositories.creditSales.renegotiate(creditSaleId, installmentsData, reason);
+        } catch (error) {
+            console.error('Error renegotiating credit sale:', error);
+            throw error;
+        }
+
+        await fetchCreditSales();
+    }, [fetchCreditSales]);
+
+    const writeOffCreditSale = useCallback(async (creditSaleId: number, reason: string) => {
+        try {
+            await repositories.creditSales.writeOff(creditSaleId, reason);
+        } catch (error) {
+            console.error('Error writing off credit sale:', error);
+            throw error;
         }
 
         await fetchCreditSales();
@@ -1117,7 +1618,10 @@ export const CreditSalesProvider: React.FC<{ children: React.ReactNode }> = ({ c
         addCreditSale,
         payInstallment,
         updateCreditSaleStatus,
-    }), [creditSales, installments, fetchCreditSales, addCreditSale, payInstallment, updateCreditSaleStatus]);
+        cancelCreditSale,
+        renegotiateCreditSale,
+        writeOffCreditSale,
+    }), [creditSales, installments, fetchCreditSales, addCreditSale, payInstallment, updateCreditSaleStatus, cancelCreditSale, renegotiateCreditSale, writeOffCreditSale]);
 
     return (
         <CreditSalesContext.Provider value={value}>
@@ -1127,12 +1631,18 @@ export const CreditSalesProvider: React.FC<{ children: React.ReactNode }> = ({ c
 };
 
 // --- CLIENTES ---
+export interface AddClientOptions {
+    allowDuplicate?: boolean; // Cadastra mesmo com cliente parecido (confirmado pelo usuário)
+}
+
 const ClientsContext = React.createContext<{
     clients: Client[];
     fetchClients: () => Promise<void>;
-    addClient: (client: Omit<Client, 'id' | 'created_at'>) => Promise<void>;
+    addClient: (client: Omit<Client, 'id' | 'created_at'>, options?: AddClientOptions) => Promise<Client>;
+    importClients: (clients: Omit<Client, 'id' | 'created_at'>[]) => Promise<Client[]>;
     updateClient: (id: number, client: Partial<Client>) => Promise<void>;
     deleteClient: (id: number) => Promise<void>;
+    mergeClients: (survivorId: number, duplicateId: number) => Promise<Client>;
     isLoading: boolean;
 } | undefined>(undefined);
 
@@ -1151,25 +1661,7 @@ export const ClientsProvider: React.FC<{ children: React.ReactNode }> = ({ child
     const fetchClients = useCallback(async () => {
         setIsLoading(true);
         try {
-            const { data, error } = await supabase
-                .from('clients')
-                .select('*')
-                .order('fullname', { ascending: true });
-
-            if (error) throw error;
-
-            // Mapear os dados do banco (snake_case) para o formato Client (camelCase)
-            const mappedClients: Client[] = (data || []).map((item: any) => ({
-                id: item.id,
-                fullName: item.fullname,
-                whatsapp: item.whatsapp,
-                nickname: item.nickname || undefined,
-                observation: item.observation || undefined,
-                cpf: item.cpf || undefined,
-                created_at: item.created_at,
-            }));
-
-            setClients(mappedClients);
+            setClients(await loadWithCache('clients', repositories.clients.list));
         } catch (error) {
             console.error('Error fetching clients:', error);
         } finally {
@@ -1177,98 +1669,16 @@ export const ClientsProvider: React.FC<{ children: React.ReactNode }> = ({ child
         }
     }, []);
 
-    // Função para capitalizar palavras maiores que 3 letras
-    const capitalizeWords = useCallback((text: string): string => {
-        if (!text) return text;
-        
-        return text
-            .toLowerCase()
-            .split(' ')
-            .map(word => {
-                // Se a palavra tem mais de 3 letras, capitaliza a primeira letra
-                if (word.length > 3) {
-                    return word.charAt(0).toUpperCase() + word.slice(1);
-                }
-                // Se tem 3 ou menos letras, mantém minúscula
-                return word;
-            })
-            .join(' ');
-    }, []);
-
-    // Função para formatar WhatsApp: (87) 99155-6444
-    const formatWhatsApp = useCallback((whatsapp: string): string => {
-        if (!whatsapp) return whatsapp;
-        
-        // Remove todos os caracteres não numéricos
-        const numbers = whatsapp.replace(/\D/g, '');
-        
-        // Se tiver 10 ou 11 dígitos (com ou sem 9 inicial)
-        if (numbers.length === 10) {
-            // Formato: (DDD) XXXX-XXXX
-            return `(${numbers.slice(0, 2)}) ${numbers.slice(2, 6)}-${numbers.slice(6)}`;
-        } else if (numbers.length === 11) {
-            // Formato: (DDD) 9XXXX-XXXX
-            return `(${numbers.slice(0, 2)}) ${numbers.slice(2, 7)}-${numbers.slice(7)}`;
-        }
-        
-        // Se não tiver o tamanho correto, retorna sem formatação (será validado em outro lugar)
-        return whatsapp;
-    }, []);
-
-    // Função para formatar CPF: 116.438.494-50
-    const formatCPF = useCallback((cpf: string): string => {
-        if (!cpf) return cpf;
-        
-        // Remove todos os caracteres não numéricos
-        const numbers = cpf.replace(/\D/g, '');
-        
-        // Se tiver 11 dígitos, formata: XXX.XXX.XXX-XX
-        if (numbers.length === 11) {
-            return `${numbers.slice(0, 3)}.${numbers.slice(3, 6)}.${numbers.slice(6, 9)}-${numbers.slice(9)}`;
+    const addClient = useCallback(async (client: Omit<Client, 'id' | 'created_at'>, options: AddClientOptions = {}): Promise<Client> => {
+        // Mesmo WhatsApp, mesmo CPF ou nome parecido: quem chamou decide se usa o cadastro existente
+        const duplicates = findDuplicateClients(client, clients);
+        if (duplicates.length > 0 && !options.allowDuplicate) {
+            throw new DuplicateClientError(duplicates);
         }
-        
-        // Se não tiver 11 dígitos, retorna sem formatação (será validado em outro lugar)
-        return cpf;
-    }, []);
 
-    const addClient = useCallback(async (client: Omit<Client, 'id' | 'created_at'>): Promise<Client> => {
-        try {
-            // Capitalizar campos de texto antes de salvar
-            const capitalizedClient = {
-                fullName: capitalizeWords(client.fullName),
-                whatsapp: formatWhatsApp(client.whatsapp), // Formatar WhatsApp
-                nickname: client.nickname ? capitalizeWords(client.nickname) : null,
-                observation: client.observation ? capitalizeWords(client.observation) : null,
-                cpf: client.cpf ? formatCPF(client.cpf) : null, // Formatar CPF
-            };
-
-            const { data, error } = await supabase
-                .from('clients')
-                .insert([{
-                    fullname: capitalizedClient.fullName,
-                    whatsapp: capitalizedClient.whatsapp,
-                    nickname: capitalizedClient.nickname,
-                    observation: capitalizedClient.observation,
-                    cpf: capitalizedClient.cpf,
-                }])
-                .select()
-                .single();
-
-            if (error) {
-                console.error('Error adding client:', error);
-                throw error;
-            }
-
-            // Mapear os dados retornados para o formato Client
-            const newClient: Client = {
-                id: data.id,
-                fullName: data.fullname,
-                whatsapp: data.whatsapp,
-                nickname: data.nickname || undefined,
-                observation: data.observation || undefined,
-                cpf: data.cpf || undefined,
-                created_at: data.created_at,
-            };
+        try {
+            // Capitalizar campos de texto e formatar WhatsApp e CPF antes de salvar
+            const newClient = await repositories.clients.create(formatClientData(client));
 
             // Atualizar a lista de clientes
             setClients(prev => [...prev, newClient]);
@@ -1279,7 +1689,19 @@ export const ClientsProvider: React.FC<{ children: React.ReactNode }> = ({ child
             console.error('Error adding client:', error);
             throw error;
         }
-    }, [capitalizeWords, formatWhatsApp, formatCPF]);
+    }, [clients]);
+
+    // Importação em lote: os duplicados já foram separados na pré-visualização
+    const importClients = useCallback(async (newClients: Omit<Client, 'id' | 'created_at'>[]): Promise<Client[]> => {
+        try {
+            const created = await repositories.clients.createMany(newClients.map(formatClientData));
+            setClients(prev => [...prev, ...created]);
+            return created;
+        } catch (error) {
+            console.error('Error importing clients:', error);
+            throw error;
+        }
+    }, []);
 
     const updateClient = useCallback(async (id: number, client: Partial<Client>) => {
         try {
@@ -1289,108 +1711,28 @@ export const ClientsProvider: React.FC<{ children: React.ReactNode }> = ({ child
                 throw new Error('Cliente não encontrado');
             }
 
-            const updateData: any = {};
-            // Capitalizar campos de texto antes de atualizar
-            if (client.fullName !== undefined) updateData.fullname = capitalizeWords(client.fullName);
+            const updateData: Partial<Omit<Client, 'id' | 'created_at'>> = {};
+            // Capitalizar campos de texto antes de atualizar (opcionais vazios limpam o valor)
+            if (client.fullName !== undefined) updateData.fullName = capitalizeWords(client.fullName);
             if (client.whatsapp !== undefined) updateData.whatsapp = formatWhatsApp(client.whatsapp); // Formatar WhatsApp
-            if (client.nickname !== undefined) updateData.nickname = client.nickname ? capitalizeWords(client.nickname) : null;
-            if (client.observation !== undefined) updateData.observation = client.observation ? capitalizeWords(client.observation) : null;
-            if (client.cpf !== undefined) updateData.cpf = client.cpf ? formatCPF(client.cpf) : null; // Formatar CPF
-
-            const { data, error } = await supabase
-                .from('clients')
-                .update(updateData)
-                .eq('id', id)
-                .select()
-                .single();
-
-            if (error) throw error;
-
-            // Mapear os dados retornados para o formato Client
-            const updatedClient: Client = {
-                id: data.id,
-                fullName: data.fullname,
-                whatsapp: data.whatsapp,
-                nickname: data.nickname || undefined,
-                observation: data.observation || undefined,
-                cpf: data.cpf || undefined,
-                created_at: data.created_at,
-            };
+            if (client.nickname !== undefined) updateData.nickname = client.nickname ? capitalizeWords(client.nickname) : '';
+            if (client.observation !== undefined) updateData.observation = client.observation ? capitalizeWords(client.observation) : '';
+            if (client.cpf !== undefined) updateData.cpf = client.cpf ? formatCPF(client.cpf) : ''; // Formatar CPF
+            if ('creditLimit' in client) updateData.creditLimit = client.creditLimit; // undefined remove o limite
+            if ('birthDate' in client) updateData.birthDate = client.birthDate; // undefined remove a data
+
+            const updatedClient = await repositories.clients.update(id, updateData);
 
             setClients(prev => prev.map(c => c.id === id ? updatedClient : c));
 
             // Se o nome ou WhatsApp foi alterado, atualizar todas as transações e agendamentos relacionados
             if (client.fullName !== undefined || client.whatsapp !== undefined) {
-                const oldName = oldClient.fullName;
-                const newName = client.fullName !== undefined ? capitalizeWords(client.fullName) : oldName;
+                const newName = client.fullName !== undefined ? capitalizeWords(client.fullName) : oldClient.fullName;
                 const newWhatsapp = client.whatsapp !== undefined ? formatWhatsApp(client.whatsapp) : oldClient.whatsapp;
-                const newNameWithWhatsapp = `${newName}|${newWhatsapp}`;
 
                 // ATUALIZAR USANDO client_id - muito mais preciso e seguro
-                // Só atualizar registros que têm client_id correspondente ao ID do cliente sendo editado
-                
-                // 1. Atualizar transações vinculadas ao cliente
-                const { data: transactionsData } = await supabase
-                    .from('transactions')
-                    .select('id, clientname')
-                    .eq('client_id', id);
-                
-                if (transactionsData && transactionsData.length > 0) {
-                    for (const transaction of transactionsData) {
-                        let newClientName = newName;
-                        // Se tinha WhatsApp no formato antigo, manter no formato novo
-                        if (transaction.clientname.includes('|')) {
-                            newClientName = newNameWithWhatsapp;
-                        }
-                        
-                        await supabase
-                            .from('transactions')
-                            .update({ clientname: newClientName })
-                            .eq('id', transaction.id);
-                    }
-                }
-
-                // 2. Atualizar agendamentos vinculados ao cliente
-                const { data: appointmentsData } = await supabase
-                    .from('appointments')
-                    .select('id, clientname')
-                    .eq('client_id', id);
-                
-                if (appointmentsData && appointmentsData.length > 0) {
-                    for (const appointment of appointmentsData) {
-                        let newClientName = newName;
-                        // Se tinha WhatsApp no formato antigo, manter no formato novo
-                        if (appointment.clientname.includes('|')) {
-                            newClientName = newNameWithWhatsapp;
-                        }
-                        
-                        await supabase
-                            .from('appointments')
-                            .update({ clientname: newClientName })
-                            .eq('id', appointment.id);
-                    }
-                }
-
-                // 3. Atualizar vendas no fiado vinculadas ao cliente
-                const { data: creditSalesData } = await supabase
-                    .from('credit_sales')
-                    .select('id, clientname')
-                    .eq('client_id', id);
-                
-                if (creditSalesData && creditSalesData.length > 0) {
-                    for (const creditSale of creditSalesData) {
-                        let newClientName = newName;
-                        // Se tinha WhatsApp no formato antigo, manter no formato novo
-                        if (creditSale.clientname.includes('|')) {
-                            newClientName = newNameWithWhatsapp;
-                        }
-                        
-                        await supabase
-                            .from('credit_sales')
-                            .update({ clientname: newClientName })
-                            .eq('id', creditSale.id);
-                    }
-                }
+                // Só atualiza transações, agendamentos e vendas no fiado vinculados a este cliente
+                await repositories.clients.renameReferences(id, newName, newWhatsapp);
 
                 // Aguardar um pouco para garantir que todas as atualizações foram processadas
                 // e então disparar evento customizado para recarregar transações, agendamentos e credit sales
@@ -1402,16 +1744,11 @@ export const ClientsProvider: React.FC<{ children: React.ReactNode }> = ({ child
             console.error('Error updating client:', error);
             throw error;
         }
-    }, [capitalizeWords, formatWhatsApp, formatCPF, clients]);
+    }, [clients]);
 
     const deleteClient = useCallback(async (id: number) => {
         try {
-            const { error } = await supabase
-                .from('clients')
-                .delete()
-                .eq('id', id);
-
-            if (error) throw error;
+            await repositories.clients.remove(id);
 
             setClients(prev => prev.filter(c => c.id !== id));
         } catch (error) {
@@ -1420,6 +1757,23 @@ export const ClientsProvider: React.FC<{ children: React.ReactNode }> = ({ child
         }
     }, []);
 
+    const mergeClients = useCallback(async (survivorId: number, duplicateId: number): Promise<Client> => {
+        try {
+            const survivor = await repositories.clients.merge(survivorId, duplicateId);
+
+            setClients(prev => prev
+                .filter(c => c.id !== duplicateId)
+                .map(c => c.id === survivorId ? survivor : c));
+
+            // Recarregar transações, agendamentos e vendas no fiado que passaram para o cliente mantido
+            window.dispatchEvent(new CustomEvent('clientUpdated'));
+            return survivor;
+        } catch (error) {
+            console.error('Error merging clients:', error);
+            throw error;
+        }
+    }, []);
+
     useEffect(() => {
         fetchClients();
     }, [fetchClients]);
@@ -1429,8 +1783,10 @@ export const ClientsProvider: React.FC<{ children: React.ReactNode }> = ({ child
             clients,
             fetchClients,
             addClient,
+            importClients,
             updateClient,
             deleteClient,
+            mergeClients,
             isLoading,
         }}>
             {children}
@@ -1442,7 +1798,7 @@ export const ClientsProvider: React.FC<{ children: React.ReactNode }> = ({ child
 const ExpensesContext = React.createContext<{
     expenses: Expense[];
     fetchExpenses: () => Promise<void>;
-    addExpense: (expense: Omit<Expense, 'id' | 'created_at'>) => Promise<void>;
+    addExpense: (expense: Omit<Expense, 'id' | 'created_at'>) => Promise<Expense | null>;
     updateExpense: (id: number, expense: Partial<Expense>) => Promise<void>;
     deleteExpense: (id: number) => Promise<void>;
 } | undefined>(undefined);
@@ -1459,28 +1815,10 @@ export const ExpensesProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     const [expenses, setExpenses] = useState<Expense[]>([]);
 
     const fetchExpenses = useCallback(async () => {
-        const { data, error } = await supabase
-            .from('expenses')
-            .select('*')
-            .order('date', { ascending: false });
-
-        if (error) {
+        try {
+            setExpenses(await repositories.expenses.list());
+        } catch (error) {
             console.error('Error fetching expenses:', error);
-            return;
-        }
-
-        if (data) {
-            const mappedExpenses: Expense[] = data.map((item: any) => ({
-                id: item.id,
-                description: item.description,
-                amount: item.amount,
-                date: item.date,
-                category: item.category || undefined,
-                created_at: item.created_at,
-            }));
-            setExpenses(mappedExpenses);
-        } else {
-            setExpenses([]);
         }
     }, []);
 
@@ -1489,74 +1827,31 @@ export const ExpensesProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }, [fetchExpenses]);
 
     const addExpense = useCallback(async (expense: Omit<Expense, 'id' | 'created_at'>) => {
-        const { data, error } = await supabase
-            .from('expenses')
-            .insert([{
-                description: expense.description,
-                amount: expense.amount,
-                date: expense.date,
-                category: expense.category || null,
-            }])
-            .select()
-            .single();
-
-        if (error) {
+        try {
+            const newExpense = await repositories.expenses.create(expense);
+            setExpenses(prev => [newExpense, ...prev]);
+            return newExpense;
+        } catch (error) {
             console.error('Error adding expense:', error);
             throw error;
         }
-
-        if (data) {
-            const newExpense: Expense = {
-                id: data.id,
-                description: data.description,
-                amount: data.amount,
-                date: data.date,
-                category: data.category || undefined,
-                created_at: data.created_at,
-            };
-            setExpenses(prev => [newExpense, ...prev]);
-        }
     }, []);
 
     const updateExpense = useCallback(async (id: number, expense: Partial<Expense>) => {
-        const updateData: any = {};
-        if (expense.description !== undefined) updateData.description = expense.description;
-        if (expense.amount !== undefined) updateData.amount = expense.amount;
-        if (expense.date !== undefined) updateData.date = expense.date;
-        if (expense.category !== undefined) updateData.category = expense.category || null;
-
-        const { data, error } = await supabase
-            .from('expenses')
-            .update(updateData)
-            .eq('id', id)
-            .select()
-            .single();
-
-        if (error) {
+        const { id: _id, created_at: _createdAt, ...expenseData } = expense;
+        try {
+            const updatedExpense = await repositories.expenses.update(id, expenseData);
+            setExpenses(prev => prev.map(e => e.id === id ? updatedExpense : e));
+        } catch (error) {
             console.error('Error updating expense:', error);
             throw error;
         }
-
-        if (data) {
-            const updatedExpense: Expense = {
-                id: data.id,
-                description: data.description,
-                amount: data.amount,
-                date: data.date,
-                category: data.category || undefined,
-                created_at: data.created_at,
-            };
-            setExpenses(prev => prev.map(e => e.id === id ? updatedExpense : e));
-        }
     }, []);
 
     const deleteExpense = useCallback(async (id: number) => {
-        const { error } = await supabase
-            .from('expenses')
-            .delete()
-            .eq('id', id);
-
-        if (error) {
+        try {
+            await repositories.expenses.remove(id);
+        } catch (error) {
             console.error('Error deleting expense:', error);
             throw error;
         }
@@ -1598,26 +1893,10 @@ export const ExpenseCategoriesProvider: React.FC<{ children: React.ReactNode }>
     const [categories, setCategories] = useState<ExpenseCategory[]>([]);
 
     const fetchCategories = useCallback(async () => {
-        const { data, error } = await supabase
-            .from('expense_categories')
-            .select('*')
-            .order('name', { ascending: true });
-
-        if (error) {
+        try {
+            setCategories(await repositories.expenseCategories.list());
+        } catch (error) {
             console.error('Error fetching expense categories:', error);
-            return;
-        }
-
-        if (data) {
-            const mappedCategories: ExpenseCategory[] = data.map((item: any) => ({
-                id: item.id,
-                name: item.name,
-                color: item.color || '#6b7280',
-                created_at: item.created_at,
-            }));
-            setCategories(mappedCategories);
-        } else {
-            setCategories([]);
         }
     }, []);
 
@@ -1626,66 +1905,30 @@ export const ExpenseCategoriesProvider: React.FC<{ children: React.ReactNode }>
     }, [fetchCategories]);
 
     const addCategory = useCallback(async (category: Omit<ExpenseCategory, 'id' | 'created_at'>) => {
-        const { data, error } = await supabase
-            .from('expense_categories')
-            .insert([{
-                name: category.name,
-                color: category.color || '#6b7280',
-            }])
-            .select()
-            .single();
-
-        if (error) {
+        try {
+            const newCategory = await repositories.expenseCategories.create(category);
+            setCategories(prev => [...prev, newCategory].sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (error) {
             console.error('Error adding expense category:', error);
             throw error;
         }
-
-        if (data) {
-            const newCategory: ExpenseCategory = {
-                id: data.id,
-                name: data.name,
-                color: data.color || '#6b7280',
-                created_at: data.created_at,
-            };
-            setCategories(prev => [...prev, newCategory].sort((a, b) => a.name.localeCompare(b.name)));
-        }
     }, []);
 
     const updateCategory = useCallback(async (id: number, category: Partial<ExpenseCategory>) => {
-        const updateData: any = {};
-        if (category.name !== undefined) updateData.name = category.name;
-        if (category.color !== undefined) updateData.color = category.color;
-
-        const { data, error } = await supabase
-            .from('expense_categories')
-            .update(updateData)
-            .eq('id', id)
-            .select()
-            .single();
-
-        if (error) {
+        const { id: _id, created_at: _createdAt, ...categoryData } = category;
+        try {
+            const updatedCategory = await repositories.expenseCategories.update(id, categoryData);
+            setCategories(prev => prev.map(c => c.id === id ? updatedCategory : c).sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (error) {
             console.error('Error updating expense category:', error);
             throw error;
         }
-
-        if (data) {
-            const updatedCategory: ExpenseCategory = {
-                id: data.id,
-                name: data.name,
-                color: data.color || '#6b7280',
-                created_at: data.created_at,
-            };
-            setCategories(prev => prev.map(c => c.id === id ? updatedCategory : c).sort((a, b) => a.name.localeCompare(b.name)));
-        }
     }, []);
 
     const deleteCategory = useCallback(async (id: number) => {
-        const { error } = await supabase
-            .from('expense_categories')
-            .delete()
-            .eq('id', id);
-
-        if (error) {
+        try {
+            await repositories.expenseCategories.remove(id);
+        } catch (error) {
             console.error('Error deleting expense category:', error);
             throw error;
         }
@@ -1705,3 +1948,248 @@ export const ExpenseCategoriesProvider: React.FC<{ children: React.ReactNode }>
         </ExpenseCategoriesContext.Provider>
     );
 };
+
+// --- COMISSÕES ---
+interface CommissionsContextType {
+    rules: CommissionRule[];
+    advances: ProfessionalAdvance[];
+    payouts: ProfessionalPayout[];
+    saveRule: (rule: Omit<CommissionRule, 'id' | 'created_at'>) => Promise<void>;
+    deleteRule: (ruleId: number) => Promise<void>;
+    addAdvance: (advance: Omit<ProfessionalAdvance, 'id' | 'created_at' | 'expenseId'>, professionalName: string) => Promise<void>;
+    deleteAdvance: (advance: ProfessionalAdvance) => Promise<void>;
+    addPayout: (payout: Omit<ProfessionalPayout, 'id' | 'created_at' | 'expenseId'>, professionalName: string) => Promise<void>;
+    deletePayout: (payout: ProfessionalPayout) => Promise<void>;
+}
+const CommissionsContext = createContext<CommissionsContextType | undefined>(undefined);
+
+export const useCommissions = () => {
+    const context = useContext(CommissionsContext);
+    if (!context) throw new Error('useCommissions must be used within a CommissionsProvider');
+    return context;
+};
+
+const formatShortDate = (date: string) => {
+    const [, month, day] = date.split('-');
+    return `${day}/${month}`;
+};
+
+// Vales e acertos de comissão geram despesas automaticamente (categoria "Comissões"),
+// por isso este provider precisa ficar dentro do ExpensesProvider.
+export const CommissionsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { addExpense, deleteExpense } = useExpenses();
+    const [rules, setRules] = useState<CommissionRule[]>([]);
+    const [advances, setAdvances] = useState<ProfessionalAdvance[]>([]);
+    const [payouts, setPayouts] = useState<ProfessionalPayout[]>([]);
+
+    const fetchCommissionData = useCallback(async () => {
+        await Promise.all([
+            repositories.commissions.listRules()
+                .then(setRules)
+                .catch(error => console.error('Error fetching commission rules:', error)),
+            repositories.commissions.listAdvances()
+                .then(setAdvances)
+                .catch(error => console.error('Error fetching professional advances:', error)),
+            repositories.commissions.listPayouts()
+                .then(setPayouts)
+                .catch(error => console.error('Error fetching professional payouts:', error)),
+        ]);
+    }, []);
+
+    useEffect(() => {
+        fetchCommissionData();
+    }, [fetchCommissionData]);
+
+    // Cria ou atualiza a regra para a combinação tipo + item + profissional
+    const saveRule = useCallback(async (rule: Omit<CommissionRule, 'id' | 'created_at'>) => {
+        const existing = rules.find(r =>
+            r.itemType === rule.itemType &&
+            r.itemId === rule.itemId &&
+            r.professionalId === rule.professionalId
+        );
+
+        if (existing) {
+            try {
+                const updatedRule = await repositories.commissions.updateRulePercentage(existing.id, rule.percentage);
+                setRules(prev => prev.map(r => r.id === existing.id ? updatedRule : r));
+            } catch (error) {
+                console.error('Error updating commission rule:', error);
+                throw error;
+            }
+            return;
+        }
+
+        try {
+            const newRule = await repositories.commissions.createRule(rule);
+            setRules(prev => [...prev, newRule]);
+        } catch (error) {
+            console.error('Error adding commission rule:', error);
+            throw error;
+        }
+    }, [rules]);
+
+    const deleteRule = useCallback(async (ruleId: number) => {
+        try {
+            await repositories.commissions.removeRule(ruleId);
+        } catch (error) {
+            console.error('Error deleting commission rule:', error);
+            throw error;
+        }
+        setRules(prev => prev.filter(r => r.id !== ruleId));
+    }, []);
+
+    const addAdvance = useCallback(async (advance: Omit<ProfessionalAdvance, 'id' | 'created_at' | 'expenseId'>, professionalName: string) => {
+        const expense = await addExpense({
+            description: advance.description ? `Vale - ${professionalName} (${advance.description})` : `Vale - ${professionalName}`,
+            amount: advance.amount,
+            date: advance.date,
+            category: COMMISSION_EXPENSE_CATEGORY,
+        });
+
+        try {
+            const newAdvance = await repositories.commissions.createAdvance({ ...advance, expenseId: expense?.id });
+            setAdvances(prev => [newAdvance, ...prev]);
+        } catch (error) {
+            console.error('Error adding professional advance:', error);
+            // Desfaz a despesa para não deixar lançamento órfão
+            if (expense) await deleteExpense(expense.id);
+            throw error;
+        }
+    }, [addExpense, deleteExpense]);
+
+    const deleteAdvance = useCallback(async (advance: ProfessionalAdvance) => {
+        try {
+            await repositories.commissions.removeAdvance(advance.id);
+        } catch (error) {
+            console.error('Error deleting professional advance:', error);
+            throw error;
+        }
+        setAdvances(prev => prev.filter(a => a.id !== advance.id));
+        if (advance.expenseId) await deleteExpense(advance.expenseId);
+    }, [deleteExpense]);
+
+    // O acerto lança como despesa apenas o valor líquido pago (os vales já foram lançados ao serem entregues)
+    const addPayout = useCallback(async (payout: Omit<ProfessionalPayout, 'id' | 'created_at' | 'expenseId'>, professionalName: string) => {
+        const expense = payout.netAmount > 0
+            ? await addExpense({
+                description: `Comissão - ${professionalName} (${formatShortDate(payout.periodStart)} a ${formatShortDate(payout.periodEnd)})`,
+                amount: payout.netAmount,
+                date: payout.paidDate,
+                category: COMMISSION_EXPENSE_CATEGORY,
+            })
+            : null;
+
+        try {
+            const newPayout = await repositories.commissions.createPayout({ ...payout, expenseId: expense?.id });
+            setPayouts(prev => [newPayout, ...prev]);
+        } catch (error) {
+            console.error('Error adding professional payout:', error);
+            if (expense) await deleteExpense(expense.id);
+            throw error;
+        }
+    }, [addExpense, deleteExpense]);
+
+    const deletePayout = useCallback(async (payout: ProfessionalPayout) => {
+        try {
+            await repositories.commissions.removePayout(payout.id);
+        } catch (error) {
+            console.error('Error deleting professional payout:', error);
+            throw error;
+        }
+        setPayouts(prev => prev.filter(p => p.id !== payout.id));
+        if (payout.expenseId) await deleteExpense(payout.expenseId);
+    }, [deleteExpense]);
+
+    const value = useMemo(() => ({
+        rules, advances, payouts, saveRule, deleteRule, addAdvance, deleteAdvance, addPayout, deletePayout,
+    }), [rules, advances, payouts, saveRule, deleteRule, addAdvance, deleteAdvance, addPayout, deletePayout]);
+
+    return <CommissionsContext.Provider value={value}>{children}</CommissionsContext.Provider>;
+};
+
+// --- CAIXA ---
+interface CashRegisterContextType {
+    sessions: CashSession[];
+    currentSession: CashSession | null; // Sessão aberta (no máximo uma)
+    fetchSessions: () => Promise<void>;
+    openSession: (openingAmount: number, notes?: string) => Promise<void>;
+    addCashMovement: (sessionId: number, type: CashMovementType, amount: number, description?: string) => Promise<void>;
+    deleteCashMovement: (movement: CashMovement) => Promise<void>;
+    closeSession: (sessionId: number, closing: CashSessionClosing) => Promise<void>;
+}
+const CashRegisterContext = createContext<CashRegisterContextType | undefined>(undefined);
+
+export const useCashRegister = () => {
+    const context = useContext(CashRegisterContext);
+    if (!context) throw new Error('useCashRegister must be used within a CashRegisterProvider');
+    return context;
+};
+
+export const CashRegisterProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [sessions, setSessions] = useState<CashSession[]>([]);
+
+    const fetchSessions = useCallback(async () => {
+        try {
+            setSessions(await repositories.cashRegister.listSessions());
+        } catch (error) {
+            console.error('Error fetching cash sessions:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchSessions();
+    }, [fetchSessions]);
+
+    const currentSession = useMemo(() => sessions.find(s => !s.closedAt) || null, [sessions]);
+
+    const openSession = useCallback(async (openingAmount: number, notes?: string) => {
+        if (currentSession) {
+            throw new Error('Já existe um caixa aberto. Feche-o antes de abrir outro.');
+        }
+        try {
+            const newSession = await repositories.cashRegister.openSession(openingAmount, notes);
+            setSessions(prev => [newSession, ...prev]);
+        } catch (error) {
+            console.error('Error opening cash session:', error);
+            throw error;
+        }
+    }, [currentSession]);
+
+    const addCashMovement = useCallback(async (sessionId: number, type: CashMovementType, amount: number, description?: string) => {
+        try {
+            const movement = await repositories.cashRegister.addMovement(sessionId, type, amount, description);
+            setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, movements: [...s.movements, movement] } : s));
+        } catch (error) {
+            console.error('Error adding cash movement:', error);
+            throw error;
+        }
+    }, []);
+
+    const deleteCashMovement = useCallback(async (movement: CashMovement) => {
+        try {
+            await repositories.cashRegister.removeMovement(movement.id);
+        } catch (error) {
+            console.error('Error deleting cash movement:', error);
+            throw error;
+        }
+        setSessions(prev => prev.map(s => s.id === movement.sessionId
+            ? { ...s, movements: s.movements.filter(m => m.id !== movement.id) }
+            : s));
+    }, []);
+
+    const closeSession = useCallback(async (sessionId: number, closing: CashSessionClosing) => {
+        try {
+            const closedSession = await repositories.cashRegister.closeSession(sessionId, closing);
+            setSessions(prev => prev.map(s => s.id === sessionId ? closedSession : s));
+        } catch (error) {
+            console.error('Error closing cash session:', error);
+            throw error;
+        }
+    }, []);
+
+    const value = useMemo(() => ({
+        sessions, currentSession, fetchSessions, openSession, addCashMovement, deleteCashMovement, closeSession,
+    }), [sessions, currentSession, fetchSessions, openSession, addCashMovement, deleteCashMovement, closeSession]);
+
+    return <CashRegisterContext.Provider value={value}>{children}</CashRegisterContext.Provider>;
+};
@@ -0,0 +1,82 @@
+import type { SupabaseClient, User, Session } from '@supabase/supabase-js';
+
+// Login do app, com a mesma troca de backend dos repositórios de dados
+export interface AuthRepository {
+  getSession(): Promise<Session | null>;
+  // Avisa a cada login/logout; devolve a função que cancela a inscrição
+  onAuthStateChange(listener: (session: Session | null) => void): () => void;
+  signIn(email: string, password: string): Promise<{ error: any }>;
+  signOut(): Promise<void>;
+}
+
+export const createSupabaseAuthRepository = (client: SupabaseClient): AuthRepository => ({
+  async getSession() {
+    const { data: { session } } = await client.auth.getSession();
+    return session;
+  },
+  onAuthStateChange(listener) {
+    const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => listener(session));
+    return () => subscription.unsubscribe();
+  },
+  async signIn(email, password) {
+    const { error } = await client.auth.signInWithPassword({ email, password });
+    return { error };
+  },
+  async signOut() {
+    await client.auth.signOut();
+  },
+});
+
+const MEMORY_SESSION_KEY = 'barbearia-memory-session';
+
+// Backend em memória: aceita qualquer e-mail e senha (uso local, sem Supabase)
+export const createMemoryAuthRepository = (): AuthRepository => {
+  const listeners = new Set<(session: Session | null) => void>();
+
+  const loadSession = (): Session | null => {
+    const stored = localStorage.getItem(MEMORY_SESSION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  };
+
+  const setSession = (session: Session | null) => {
+    if (session) localStorage.setItem(MEMORY_SESSION_KEY, JSON.stringify(session));
+    else localStorage.removeItem(MEMORY_SESSION_KEY);
+    listeners.forEach(listener => listener(session));
+  };
+
+  return {
+    async getSession() {
+      return loadSession();
+    },
+    onAuthStateChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    async signIn(email, password) {
+      if (!email || !password) return { error: { message: 'Informe e-mail e senha.' } };
+      const now = new Date().toISOString();
+      const user = {
+        id: 'local-user',
+        email,
+        aud: 'authenticated',
+        role: 'authenticated',
+        app_metadata: {},
+        user_metadata: {},
+        created_at: now,
+      } as User;
+      setSession({
+        access_token: 'local',
+        refresh_token: 'local',
+        token_type: 'bearer',
+        expires_in: 0,
+        user,
+      } as Session);
+      return { error: null };
+    },
+    async signOut() {
+      setSession(null);
+    },
+  };
+};
@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CreditSale, CreditSaleStatus, InstallmentStatus, PaymentMethod } from '../types.ts';
+import { buildInstallmentSchedule, splitInstallmentAmounts } from '../services/creditSaleService.ts';
+import { createMemoryDataSource } from './memoryDataSource.ts';
+import { createRepositories, Repositories } from './repositories.ts';
+
+let repositories: Repositories;
+
+// Venda no fiado em aberto, dividida em parcelas mensais iguais
+const createSale = (totalAmount: number, numberOfInstallments: number, firstDueDate: string = '2024-04-10'): Promise<CreditSale> =>
+  repositories.creditSales.create({
+    clientName: 'Carlos Souza',
+    products: 'Pomada',
+    subtotal: totalAmount,
+    discount: 0,
+    totalAmount,
+    numberOfInstallments,
+    firstDueDate,
+    status: CreditSaleStatus.Active,
+    totalPaid: 0,
+    remainingAmount: totalAmount,
+    date: '2024-03-10',
+  }, buildInstallmentSchedule(splitInstallmentAmounts(totalAmount, numberOfInstallments), firstDueDate));
+
+beforeEach(() => {
+  repositories = createRepositories(createMemoryDataSource());
+});
+
+describe('payInstallment', () => {
+  it('paga a parcela, atualiza a venda e lança a transação', async () => {
+    const sale = await createSale(100, 2);
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+
+    const updated = await repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-04-10');
+
+    expect(updated.totalPaid).toBe(50);
+    expect(updated.remainingAmount).toBe(50);
+    expect(updated.status).toBe(CreditSaleStatus.Active);
+    const [paid] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    expect(paid.status).toBe(InstallmentStatus.Paid);
+    expect(paid.paidDate).toBe('2024-04-10');
+    expect(paid.paymentMethod).toBe(PaymentMethod.Pix);
+    const [transaction] = await repositories.transactions.list();
+    expect(transaction.service).toBe('Fiado - Carlos Souza - Parcela 1/2');
+    expect(transaction.value).toBe(50);
+    expect(transaction.date).toBe('2024-04-10');
+  });
+
+  it('quita a venda ao pagar a última parcela', async () => {
+    const sale = await createSale(100, 2);
+    const installments = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    for (const installment of installments) {
+      await repositories.creditSales.payInstallment(installment.id, PaymentMethod.Cash, '2024-04-10');
+    }
+
+    const paidSale = await repositories.creditSales.findById(sale.id);
+    expect(paidSale?.status).toBe(CreditSaleStatus.Paid);
+    expect(paidSale?.remainingAmount).toBe(0);
+    expect(await repositories.transactions.list()).toHaveLength(2);
+  });
+
+  it('recusa pagar de novo e não grava nada', async () => {
+    const sale = await createSale(100, 2);
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    await repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-04-10');
+
+    await expect(repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-04-11'))
+      .rejects.toThrow('Esta parcela já foi paga.');
+
+    expect((await repositories.creditSales.findById(sale.id))?.totalPaid).toBe(50);
+    expect(await repositories.transactions.list()).toHaveLength(1);
+  });
+});
+
+describe('pagamentos parciais', () => {
+  it('registra parte da parcela e mantém o saldo em aberto', async () => {
+    const sale = await createSale(100, 2);
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+
+    const updated = await repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-04-05', 20);
+
+    expect(updated.totalPaid).toBe(20);
+    expect(updated.remainingAmount).toBe(80);
+    const [partial] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    expect(partial.status).toBe(InstallmentStatus.PartiallyPaid);
+    expect(partial.payments?.map(payment => payment.amount)).toEqual([20]);
+    expect((await repositories.transactions.list())[0].service).toBe('Fiado - Carlos Souza - Parcela 1/2 (parcial)');
+  });
+
+  it('sem valor informado paga o saldo restante da parcela', async () => {
+    const sale = await createSale(100, 2);
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    await repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-04-05', 20);
+
+    await repositories.creditSales.payInstallment(first.id, PaymentMethod.Cash, '2024-04-08');
+
+    const [paid] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    expect(paid.status).toBe(InstallmentStatus.Paid);
+    expect(paid.payments?.map(payment => payment.amount)).toEqual([20, 30]);
+    expect((await repositories.creditSales.findById(sale.id))?.remainingAmount).toBe(50);
+  });
+
+  it('parcela atrasada continua atrasada depois de um pagamento parcial', async () => {
+    const sale = await createSale(100, 2, '2024-01-10');
+    await repositories.creditSales.markOverdueInstallments('2024-01-20');
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+
+    await repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-01-20', 10);
+
+    const [overdue] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    expect(overdue.status).toBe(InstallmentStatus.Overdue);
+  });
+
+  it('recusa valor zerado ou acima do saldo da parcela', async () => {
+    const sale = await createSale(100, 2);
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+
+    await expect(repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-04-05', 0))
+      .rejects.toThrow('O valor do pagamento deve ser maior que zero.');
+    await expect(repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-04-05', 50.01))
+      .rejects.toThrow('O valor do pagamento é maior que o saldo da parcela (R$ 50,00).');
+    expect(await repositories.transactions.list()).toEqual([]);
+  });
+});
+
+describe('multa e juros', () => {
+  it('grava os encargos no pagamento e lança a receita separada, sem abater o saldo', async () => {
+    const sale = await createSale(100, 2, '2024-01-10');
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+
+    const updated = await repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-01-20', undefined, { lateFee: 1, interest: 0.17 });
+
+    expect(updated.totalPaid).toBe(50);
+    expect(updated.remainingAmount).toBe(50);
+    const [paid] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    expect(paid.payments?.map(payment => [payment.amount, payment.lateFee, payment.interest])).toEqual([[50, 1, 0.17]]);
+    const services = (await repositories.transactions.list()).map(transaction => [transaction.service, transaction.value]);
+    expect(services).toEqual(expect.arrayContaining([
+      ['Fiado - Carlos Souza - Parcela 1/2', 50],
+      ['Fiado - Carlos Souza - Parcela 1/2 - Multa e juros', 1.17],
+    ]));
+  });
+
+  it('liga cada pagamento à sua transação, mesmo com dois pagamentos no mesmo dia', async () => {
+    const sale = await createSale(100, 2, '2024-01-10');
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+
+    await repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-01-20', 20, { lateFee: 0.4, interest: 0.07 });
+    await repositories.creditSales.payInstallment(first.id, PaymentMethod.Cash, '2024-01-20', undefined, { lateFee: 0.6, interest: 0.1 });
+
+    const [paid] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    const transactions = await repositories.transactions.list();
+    expect(paid.payments?.map(payment => {
+      const transaction = transactions.find(t => t.id === payment.transactionId);
+      return [transaction?.service, transaction?.value, payment.lateFee, payment.interest];
+    })).toEqual([
+      ['Fiado - Carlos Souza - Parcela 1/2 (parcial)', 20, 0.4, 0.07],
+      ['Fiado - Carlos Souza - Parcela 1/2', 30, 0.6, 0.1],
+    ]);
+  });
+});
+
+describe('cancelamento, renegociação e perdão', () => {
+  it('cancela a venda, encerra as parcelas em aberto e devolve os produtos', async () => {
+    const product = await repositories.products.create({ name: 'Pomada', price: 50, costPrice: 20, minStock: 0 });
+    await repositories.products.addStockMovements([{ productId: product.id, type: 'entry', quantity: 10, date: '2024-03-01' }]);
+    const sale = await createSale(100, 2);
+    await repositories.products.addStockMovements([{ productId: product.id, type: 'credit_sale', quantity: -2, creditSaleId: sale.id, date: '2024-03-10' }]);
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    await repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-04-10');
+
+    const cancelled = await repositories.creditSales.cancel(sale.id, 'Cliente devolveu', true);
+
+    expect(cancelled.status).toBe(CreditSaleStatus.Cancelled);
+    expect(cancelled.remainingAmount).toBe(0);
+    const installments = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    expect(installments.map(installment => installment.status)).toEqual([InstallmentStatus.Paid, InstallmentStatus.Cancelled]);
+    expect((await repositories.products.list())[0].stock).toBe(10);
+    const events = (await repositories.creditSales.findById(sale.id))?.events || [];
+    expect(events.map(event => [event.type, event.amount, event.reason])).toEqual([['cancelled', 50, 'Cliente devolveu']]);
+  });
+
+  it('renegocia o saldo em novas parcelas que somam o que falta', async () => {
+    const sale = await createSale(90, 3);
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    await repositories.creditSales.payInstallment(first.id, PaymentMethod.Pix, '2024-04-10');
+
+    const renegotiated = await repositories.creditSales.renegotiate(sale.id, [
+      { amount: 20, dueDate: '2099-01-10' },
+      { amount: 20, dueDate: '2099-02-10' },
+      { amount: 20, dueDate: '2099-03-10' },
+    ], 'Pediu mais prazo');
+
+    expect(renegotiated.status).toBe(CreditSaleStatus.Active);
+    expect(renegotiated.numberOfInstallments).toBe(6);
+    const installments = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    expect(installments.map(installment => [installment.installmentNumber, installment.status])).toEqual([
+      [1, InstallmentStatus.Paid],
+      [2, InstallmentStatus.Cancelled],
+      [3, InstallmentStatus.Cancelled],
+      [4, InstallmentStatus.Pending],
+      [5, InstallmentStatus.Pending],
+      [6, InstallmentStatus.Pending],
+    ]);
+    const [event] = (await repositories.creditSales.findById(sale.id))?.events || [];
+    expect(event.details).toBe('Saldo renegociado em 3x a partir de 10/01/2099');
+  });
+
+  it('recusa renegociação que não soma o saldo', async () => {
+    const sale = await createSale(90, 3);
+
+    await expect(repositories.creditSales.renegotiate(sale.id, [{ amount: 80, dueDate: '2099-01-10' }]))
+      .rejects.toThrow('O novo parcelamento (R$ 80,00) precisa somar o saldo da venda (R$ 90,00).');
+    const installments = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    expect(installments.every(installment => installment.status === InstallmentStatus.Pending)).toBe(true);
+  });
+
+  it('perdoa o saldo e não aceita novos ajustes na venda encerrada', async () => {
+    const sale = await createSale(100, 2);
+
+    const writtenOff = await repositories.creditSales.writeOff(sale.id, 'Cliente mudou de cidade');
+
+    expect(writtenOff.status).toBe(CreditSaleStatus.WrittenOff);
+    expect(writtenOff.remainingAmount).toBe(0);
+    const events = (await repositories.creditSales.findById(sale.id))?.events || [];
+    expect(events.map(event => [event.type, event.amount])).toEqual([['written_off', 100]]);
+    await expect(repositories.creditSales.cancel(sale.id, 'Engano', false))
+      .rejects.toThrow(`Esta venda não está em aberto (status: ${CreditSaleStatus.WrittenOff}).`);
+  });
+});
@@ -0,0 +1,58 @@
+// Acesso às tabelas independente do backend (Supabase ou memória).
+// Os repositórios só conversam com esta interface; as linhas seguem os nomes de coluna do banco.
+
+export type Row = Record<string, any>;
+
+export type FilterOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in';
+
+export interface Filter {
+  column: string;
+  operator: FilterOperator;
+  value: any;
+}
+
+export interface OrderBy {
+  column: string;
+  ascending?: boolean; // Padrão: crescente
+}
+
+// Tabela filha trazida junto de cada linha (ex: transaction_items de uma transação)
+export interface Embed {
+  table: string;
+  foreignKey: string; // Coluna da tabela filha que aponta para o id da linha
+}
+
+export interface SelectOptions {
+  filters?: Filter[];
+  orderBy?: OrderBy[];
+  limit?: number;
+  embed?: Embed[];
+}
+
+export interface DataSource {
+  select(table: string, options?: SelectOptions): Promise<Row[]>;
+  insert(table: string, rows: Row[], options?: { embed?: Embed[] }): Promise<Row[]>;
+  update(table: string, values: Row, filters: Filter[], options?: { embed?: Embed[] }): Promise<Row[]>;
+  remove(table: string, filters: Filter[]): Promise<Row[]>;
+  upsert(table: string, row: Row, onConflict: string): Promise<Row>;
+  rpc(fn: string, params: Row): Promise<any>; // Função do banco (executa numa única transação)
+}
+
+// Erro devolvido pelo backend, com o código original (ex: '23505' para chave duplicada)
+export class DataSourceError extends Error {
+  code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'DataSourceError';
+    this.code = code;
+  }
+}
+
+export const eq = (column: string, value: any): Filter => ({ column, operator: 'eq', value });
+export const neq = (column: string, value: any): Filter => ({ column, operator: 'neq', value });
+export const lt = (column: string, value: any): Filter => ({ column, operator: 'lt', value });
+export const lte = (column: string, value: any): Filter => ({ column, operator: 'lte', value });
+export const gt = (column: string, value: any): Filter => ({ column, operator: 'gt', value });
+export const gte = (column: string, value: any): Filter => ({ column, operator: 'gte', value });
+export const isIn = (column: string, values: any[]): Filter => ({ column, operator: 'in', value: values });
@@ -0,0 +1,21 @@
+import { supabase } from '../services/supabaseClient.ts';
+import { createSupabaseDataSource } from './supabaseDataSource.ts';
+import { createMemoryDataSource } from './memoryDataSource.ts';
+import { createRepositories } from './repositories.ts';
+import { createSupabaseAuthRepository, createMemoryAuthRepository } from './authRepository.ts';
+
+export * from './repositories.ts';
+export type { AuthRepository } from './authRepository.ts';
+
+// DATA_BACKEND=memory roda o app inteiro sem Supabase (dados no localStorage do navegador)
+const useMemoryBackend = process.env.DATA_BACKEND === 'memory';
+
+const dataSource = useMemoryBackend
+  ? createMemoryDataSource({ storageKey: 'barbearia-memory-db' })
+  : createSupabaseDataSource(supabase);
+
+export const repositories = createRepositories(dataSource);
+
+export const authRepository = useMemoryBackend
+  ? createMemoryAuthRepository()
+  : createSupabaseAuthRepository(supabase);
@@ -0,0 +1,584 @@
+import {
+  Service,
+  Product,
+  Professional,
+  StockMovement,
+  Transaction,
+  TransactionItem,
+  TransactionPayment,
+  Appointment,
+  CreditSale,
+  CreditSaleEvent,
+  Installment,
+  InstallmentPayment,
+  Client,
+  Expense,
+  ExpenseCategory,
+  CommissionRule,
+  ProfessionalAdvance,
+  ProfessionalPayout,
+  CashSession,
+  CashMovement,
+  BusinessHours,
+  PaymentMethodFee,
+  SystemSettings,
+  LoyaltyEntry,
+} from '../types.ts';
+import { DEFAULT_BIRTHDAY_MESSAGE, DEFAULT_SERVICE_DURATION, DEFAULT_SLOT_INTERVAL } from '../constants.ts';
+import { formatItemsDescription } from '../services/transactionItemsService.ts';
+import { formatPaymentMethods } from '../services/transactionPaymentsService.ts';
+import type { NewStockMovement } from '../services/stockService.ts';
+import type { NewLoyaltyEntry } from '../services/loyaltyService.ts';
+import type { Row } from './dataSource.ts';
+
+// Conversão entre as linhas do banco (snake_case / minúsculas) e os tipos do app (camelCase).
+// Todo acesso a dados passa por aqui, qualquer que seja o backend.
+
+const toOptionalNumber = (value: any): number | undefined => {
+  return value !== null && value !== undefined ? Number(value) : undefined;
+};
+
+// --- SERVIÇOS ---
+export const mapService = (row: Row): Service => ({
+  id: row.id,
+  name: row.name,
+  price: Number(row.price),
+  duration: row.duration || DEFAULT_SERVICE_DURATION,
+  created_at: row.created_at,
+});
+
+export const toServiceRow = (service: Omit<Service, 'id' | 'created_at'>): Row => ({
+  name: service.name,
+  price: service.price,
+  duration: service.duration,
+});
+
+// --- PROFISSIONAIS ---
+export const mapProfessional = (row: Row): Professional => ({
+  id: row.id,
+  name: row.name,
+  active: row.active !== false,
+  created_at: row.created_at,
+});
+
+export const toProfessionalRow = (professional: Omit<Professional, 'id' | 'created_at'>): Row => ({
+  name: professional.name,
+  active: professional.active,
+});
+
+// --- PRODUTOS E ESTOQUE ---
+export const mapProduct = (row: Row): Product => ({
+  id: row.id,
+  name: row.name,
+  price: Number(row.price),
+  costPrice: Number(row.cost_price) || 0,
+  stock: row.stock_quantity || 0,
+  minStock: row.min_stock || 0,
+  category: row.category || undefined,
+  created_at: row.created_at,
+});
+
+// O estoque não é gravado aqui: ele só muda pelas movimentações (trigger em stock_movements)
+export const toProductRow = (product: Omit<Product, 'id' | 'created_at' | 'stock'>): Row => ({
+  name: product.name,
+  price: product.price,
+  cost_price: product.costPrice,
+  min_stock: product.minStock,
+  category: product.category || null,
+});
+
+export const mapStockMovement = (row: Row): StockMovement => ({
+  id: row.id,
+  productId: row.product_id,
+  type: row.movement_type,
+  quantity: row.quantity,
+  unitCost: toOptionalNumber(row.unit_cost),
+  transactionId: row.transaction_id || undefined,
+  creditSaleId: row.credit_sale_id || undefined,
+  reason: row.reason || undefined,
+  date: row.date,
+  created_at: row.created_at,
+});
+
+export const toStockMovementRow = (movement: NewStockMovement): Row => ({
+  product_id: movement.productId,
+  movement_type: movement.type,
+  quantity: movement.quantity,
+  unit_cost: movement.unitCost ?? null,
+  transaction_id: movement.transactionId ?? null,
+  credit_sale_id: movement.creditSaleId ?? null,
+  reason: movement.reason || null,
+  date: movement.date,
+});
+
+// --- TRANSAÇÕES ---
+export const mapTransactionItem = (row: Row): TransactionItem => ({
+  id: row.id,
+  itemType: row.item_type,
+  serviceId: row.service_id ?? undefined,
+  productId: row.product_id ?? undefined,
+  name: row.name,
+  quantity: row.quantity,
+  unitPrice: Number(row.unit_price),
+  unitCost: toOptionalNumber(row.unit_cost),
+  discount: Number(row.discount) || 0,
+});
+
+export const toTransactionItemRow = (transactionId: number, item: TransactionItem): Row => ({
+  transaction_id: transactionId,
+  item_type: item.itemType,
+  service_id: item.serviceId ?? null,
+  product_id: item.productId ?? null,
+  name: item.name,
+  quantity: item.quantity,
+  unit_price: item.unitPrice,
+  unit_cost: item.unitCost ?? null,
+  discount: item.discount,
+});
+
+export const mapTransactionPayment = (row: Row): TransactionPayment => ({
+  id: row.id,
+  method: row.method,
+  amount: Number(row.amount),
+});
+
+export const toTransactionPaymentRow = (transactionId: number, payment: TransactionPayment): Row => ({
+  transaction_id: transactionId,
+  method: payment.method,
+  amount: payment.amount,
+});
+
+// Itens e pagamentos vêm embutidos na linha (transaction_items / transaction_payments)
+export const mapTransaction = (row: Row): Transaction => ({
+  id: row.id,
+  date: row.date,
+  clientName: row.clientname,
+  service: row.service,
+  paymentMethod: row.paymentmethod,
+  value: Number(row.value) || 0,
+  subtotal: Number(row.subtotal) || 0,
+  discount: Number(row.discount) || 0,
+  type: row.type || 'service',
+  clientId: row.client_id || undefined,
+  clientWhatsapp: row.client_whatsapp || undefined,
+  fromAppointment: row.from_appointment || false,
+  professionalId: row.professional_id || undefined,
+  loyaltyPointsRedeemed: row.loyalty_points_redeemed || undefined,
+  birthdayDiscount: row.birthday_discount ? Number(row.birthday_discount) : undefined,
+  items: (row.transaction_items || [])
+    .sort((a: Row, b: Row) => a.id - b.id)
+    .map(mapTransactionItem),
+  payments: (row.transaction_payments || [])
+    .sort((a: Row, b: Row) => a.id - b.id)
+    .map(mapTransactionPayment),
+  created_at: row.created_at,
+});
+
+export const toTransactionRow = (transaction: Omit<Transaction, 'id' | 'created_at'>): Row => {
+  const items = transaction.items || [];
+  const payments = transaction.payments || [];
+  const row: Row = {
+    clientname: transaction.clientName,
+    // Os resumos são sempre gerados a partir dos itens e pagamentos, quando existem
+    service: items.length > 0 ? formatItemsDescription(items) : transaction.service,
+    date: transaction.date,
+    paymentmethod: payments.length > 0 ? formatPaymentMethods(payments) : transaction.paymentMethod,
+    subtotal: transaction.subtotal,
+    discount: transaction.discount,
+    value: transaction.value,
+  };
+  if (transaction.clientId) row.client_id = transaction.clientId;
+  if (transaction.clientWhatsapp) row.client_whatsapp = transaction.clientWhatsapp;
+  if (transaction.type) row.type = transaction.type;
+  if ('fromAppointment' in transaction) row.from_appointment = transaction.fromAppointment;
+  if (transaction.professionalId) row.professional_id = transaction.professionalId;
+  if (transaction.loyaltyPointsRedeemed) row.loyalty_points_redeemed = transaction.loyaltyPointsRedeemed;
+  if (transaction.birthdayDiscount) row.birthday_discount = transaction.birthdayDiscount;
+  return row;
+};
+
+// Só as colunas informadas; itens e pagamentos refazem os resumos
+export const toTransactionUpdateRow = (updates: Partial<Omit<Transaction, 'id' | 'created_at'>>): Row => {
+  const row: Row = {};
+  if (updates.clientName !== undefined) row.clientname = updates.clientName;
+  if ('clientId' in updates) row.client_id = updates.clientId ?? null;
+  if ('clientWhatsapp' in updates) row.client_whatsapp = updates.clientWhatsapp || null;
+  if (updates.service !== undefined) row.service = updates.service;
+  if (updates.date !== undefined) row.date = updates.date;
+  if (updates.paymentMethod !== undefined) row.paymentmethod = updates.paymentMethod;
+  if (updates.subtotal !== undefined) row.subtotal = updates.subtotal;
+  if (updates.discount !== undefined) row.discount = updates.discount;
+  if (updates.value !== undefined) row.value = updates.value;
+  if (updates.type !== undefined) row.type = updates.type;
+  if (updates.fromAppointment !== undefined) row.from_appointment = updates.fromAppointment;
+  // professionalId pode ser enviado como undefined para desvincular o profissional
+  if ('professionalId' in updates) row.professional_id = updates.professionalId ?? null;
+  if (updates.items && updates.items.length > 0) row.service = formatItemsDescription(updates.items);
+  if (updates.payments && updates.payments.length > 0) row.paymentmethod = formatPaymentMethods(updates.payments);
+  return row;
+};
+
+// --- AGENDAMENTOS ---
+export const mapAppointment = (row: Row): Appointment => ({
+  id: row.id,
+  time: row.time,
+  clientName: row.clientname,
+  service: row.service,
+  status: row.status,
+  date: row.date,
+  clientId: row.client_id || undefined,
+  clientWhatsapp: row.client_whatsapp || undefined,
+  serviceId: row.service_id || undefined,
+  duration: row.duration || undefined,
+  professionalId: row.professional_id || undefined,
+  created_at: row.created_at,
+});
+
+export const toAppointmentRow = (appointment: Omit<Appointment, 'id' | 'created_at'>): Row => {
+  const row: Row = {
+    clientname: appointment.clientName,
+    service: appointment.service,
+    date: appointment.date,
+    time: appointment.time,
+    status: appointment.status,
+  };
+  if (appointment.clientId) row.client_id = appointment.clientId;
+  if (appointment.clientWhatsapp) row.client_whatsapp = appointment.clientWhatsapp;
+  if (appointment.serviceId) row.service_id = appointment.serviceId;
+  if (appointment.duration) row.duration = appointment.duration;
+  if (appointment.professionalId) row.professional_id = appointment.professionalId;
+  return row;
+};
+
+// --- FIADO ---
+export const mapCreditSaleEvent = (row: Row): CreditSaleEvent => ({
+  id: row.id,
+  creditSaleId: row.credit_sale_id,
+  type: row.event_type,
+  amount: Number(row.amount) || 0,
+  reason: row.reason || undefined,
+  details: row.details || undefined,
+  created_at: row.created_at,
+});
+
+export const toCreditSaleEventRow = (event: Omit<CreditSaleEvent, 'id' | 'created_at'>): Row => ({
+  credit_sale_id: event.creditSaleId,
+  event_type: event.type,
+  amount: event.amount,
+  reason: event.reason || null,
+  details: event.details || null,
+});
+
+// Histórico vem embutido na linha (credit_sale_events) quando a consulta pede
+export const mapCreditSale = (row: Row): CreditSale => ({
+  id: row.id,
+  clientName: row.clientname,
+  clientId: row.client_id || undefined,
+  clientWhatsapp: row.client_whatsapp || undefined,
+  products: row.products,
+  totalAmount: Number(row.totalamount) || 0,
+  subtotal: Number(row.subtotal) || 0,
+  discount: Number(row.discount) || 0,
+  numberOfInstallments: row.numberofinstallments || 1,
+  firstDueDate: row.firstduedate,
+  status: row.status,
+  totalPaid: Number(row.totalpaid) || 0,
+  remainingAmount: Number(row.remainingamount) || 0,
+  date: row.date,
+  events: row.credit_sale_events
+    ? row.credit_sale_events
+      .map(mapCreditSaleEvent)
+      .sort((a: CreditSaleEvent, b: CreditSaleEvent) => a.created_at.localeCompare(b.created_at))
+    : undefined,
+  created_at: row.created_at,
+});
+
+export const toCreditSaleRow = (sale: Partial<Omit<CreditSale, 'id' | 'created_at'>>): Row => {
+  const row: Row = {};
+  if (sale.clientName !== undefined) row.clientname = sale.clientName;
+  if (sale.clientId) row.client_id = sale.clientId;
+  if (sale.clientWhatsapp) row.client_whatsapp = sale.clientWhatsapp;
+  if (sale.products !== undefined) row.products = sale.products;
+  if (sale.totalAmount !== undefined) row.totalamount = sale.totalAmount;
+  if (sale.subtotal !== undefined) row.subtotal = sale.subtotal;
+  if (sale.discount !== undefined) row.discount = sale.discount;
+  if (sale.numberOfInstallments !== undefined) row.numberofinstallments = sale.numberOfInstallments;
+  if (sale.firstDueDate !== undefined) row.firstduedate = sale.firstDueDate;
+  if (sale.status !== undefined) row.status = sale.status;
+  if (sale.totalPaid !== undefined) row.totalpaid = sale.totalPaid;
+  if (sale.remainingAmount !== undefined) row.remainingamount = sale.remainingAmount;
+  if (sale.date !== undefined) row.date = sale.date;
+  return row;
+};
+
+export const mapInstallmentPayment = (row: Row): InstallmentPayment => ({
+  id: row.id,
+  installmentId: row.installment_id,
+  amount: Number(row.amount) || 0,
+  paidDate: row.paid_date,
+  paymentMethod: row.payment_method,
+  lateFee: Number(row.late_fee) || 0,
+  interest: Number(row.interest) || 0,
+  transactionId: row.transaction_id ?? undefined,
+  created_at: row.created_at,
+});
+
+// Pagamentos vêm embutidos na linha (installment_payments)
+export const mapInstallment = (row: Row): Installment => ({
+  id: row.id,
+  creditSaleId: row.creditsaleid,
+  installmentNumber: row.installmentnumber || 1,
+  amount: Number(row.amount) || 0,
+  dueDate: row.duedate,
+  status: row.status,
+  paidDate: row.paiddate || undefined,
+  paymentMethod: row.paymentmethod || undefined,
+  payments: (row.installment_payments || [])
+    .map(mapInstallmentPayment)
+    .sort((a: InstallmentPayment, b: InstallmentPayment) => a.paidDate.localeCompare(b.paidDate) || a.id - b.id),
+  created_at: row.created_at,
+});
+
+export const toInstallmentRow = (installment: Partial<Omit<Installment, 'id' | 'created_at'>>): Row => {
+  const row: Row = {};
+  if (installment.creditSaleId !== undefined) row.creditsaleid = installment.creditSaleId;
+  if (installment.installmentNumber !== undefined) row.installmentnumber = installment.installmentNumber;
+  if (installment.amount !== undefined) row.amount = installment.amount;
+  if (installment.dueDate !== undefined) row.duedate = installment.dueDate;
+  if (installment.status !== undefined) row.status = installment.status;
+  if ('paidDate' in installment) row.paiddate = installment.paidDate ?? null;
+  if ('paymentMethod' in installment) row.paymentmethod = installment.paymentMethod ?? null;
+  return row;
+};
+
+// --- CLIENTES ---
+export const mapClient = (row: Row): Client => ({
+  id: row.id,
+  fullName: row.fullname,
+  whatsapp: row.whatsapp,
+  nickname: row.nickname || undefined,
+  observation: row.observation || undefined,
+  cpf: row.cpf || undefined,
+  creditLimit: row.credit_limit === null || row.credit_limit === undefined ? undefined : Number(row.credit_limit),
+  birthDate: row.birth_date || undefined,
+  created_at: row.created_at,
+});
+
+// Campos opcionais presentes e vazios são gravados como null (limpa o valor)
+export const toClientRow = (client: Partial<Omit<Client, 'id' | 'created_at'>>): Row => {
+  const row: Row = {};
+  if (client.fullName !== undefined) row.fullname = client.fullName;
+  if (client.whatsapp !== undefined) row.whatsapp = client.whatsapp;
+  if ('nickname' in client) row.nickname = client.nickname || null;
+  if ('observation' in client) row.observation = client.observation || null;
+  if ('cpf' in client) row.cpf = client.cpf || null;
+  if ('creditLimit' in client) row.credit_limit = client.creditLimit ?? null;
+  if ('birthDate' in client) row.birth_date = client.birthDate || null;
+  return row;
+};
+
+// --- DESPESAS ---
+export const mapExpense = (row: Row): Expense => ({
+  id: row.id,
+  description: row.description,
+  amount: Number(row.amount),
+  date: row.date,
+  category: row.category || undefined,
+  created_at: row.created_at,
+});
+
+export const toExpenseRow = (expense: Partial<Omit<Expense, 'id' | 'created_at'>>): Row => {
+  const row: Row = {};
+  if (expense.description !== undefined) row.description = expense.description;
+  if (expense.amount !== undefined) row.amount = expense.amount;
+  if (expense.date !== undefined) row.date = expense.date;
+  if (expense.category !== undefined) row.category = expense.category || null;
+  return row;
+};
+
+export const mapExpenseCategory = (row: Row): ExpenseCategory => ({
+  id: row.id,
+  name: row.name,
+  color: row.color || '#6b7280',
+  created_at: row.created_at,
+});
+
+export const toExpenseCategoryRow = (category: Partial<Omit<ExpenseCategory, 'id' | 'created_at'>>): Row => {
+  const row: Row = {};
+  if (category.name !== undefined) row.name = category.name;
+  if (category.color !== undefined) row.color = category.color || '#6b7280';
+  return row;
+};
+
+// --- COMISSÕES ---
+export const mapCommissionRule = (row: Row): CommissionRule => ({
+  id: row.id,
+  itemType: row.item_type,
+  itemId: row.item_id ?? undefined,
+  professionalId: row.professional_id ?? undefined,
+  percentage: Number(row.percentage),
+  created_at: row.created_at,
+});
+
+export const toCommissionRuleRow = (rule: Omit<CommissionRule, 'id' | 'created_at'>): Row => ({
+  item_type: rule.itemType,
+  item_id: rule.itemId ?? null,
+  professional_id: rule.professionalId ?? null,
+  percentage: rule.percentage,
+});
+
+export const mapProfessionalAdvance = (row: Row): ProfessionalAdvance => ({
+  id: row.id,
+  professionalId: row.professional_id,
+  amount: Number(row.amount),
+  date: row.date,
+  description: row.description || undefined,
+  expenseId: row.expense_id ?? undefined,
+  created_at: row.created_at,
+});
+
+export const toProfessionalAdvanceRow = (advance: Omit<ProfessionalAdvance, 'id' | 'created_at'>): Row => ({
+  professional_id: advance.professionalId,
+  amount: advance.amount,
+  date: advance.date,
+  description: advance.description || null,
+  expense_id: advance.expenseId ?? null,
+});
+
+export const mapProfessionalPayout = (row: Row): ProfessionalPayout => ({
+  id: row.id,
+  professionalId: row.professional_id,
+  periodStart: row.period_start,
+  periodEnd: row.period_end,
+  grossAmount: Number(row.gross_amount),
+  commissionAmount: Number(row.commission_amount),
+  advancesAmount: Number(row.advances_amount),
+  netAmount: Number(row.net_amount),
+  paidDate: row.paid_date,
+  expenseId: row.expense_id ?? undefined,
+  created_at: row.created_at,
+});
+
+export const toProfessionalPayoutRow = (payout: Omit<ProfessionalPayout, 'id' | 'created_at'>): Row => ({
+  professional_id: payout.professionalId,
+  period_start: payout.periodStart,
+  period_end: payout.periodEnd,
+  gross_amount: payout.grossAmount,
+  commission_amount: payout.commissionAmount,
+  advances_amount: payout.advancesAmount,
+  net_amount: payout.netAmount,
+  paid_date: payout.paidDate,
+  expense_id: payout.expenseId ?? null,
+});
+
+// --- CAIXA ---
+export const mapCashMovement = (row: Row): CashMovement => ({
+  id: row.id,
+  sessionId: row.session_id,
+  type: row.movement_type,
+  amount: Number(row.amount),
+  description: row.description || undefined,
+  created_at: row.created_at,
+});
+
+// Movimentações vêm embutidas na linha (cash_movements)
+export const mapCashSession = (row: Row): CashSession => ({
+  id: row.id,
+  openedAt: row.opened_at,
+  closedAt: row.closed_at || undefined,
+  openingAmount: Number(row.opening_amount),
+  cashSalesAmount: toOptionalNumber(row.cash_sales_amount),
+  expectedAmount: toOptionalNumber(row.expected_amount),
+  countedAmount: toOptionalNumber(row.counted_amount),
+  notes: row.notes || undefined,
+  movements: (row.cash_movements || [])
+    .map(mapCashMovement)
+    .sort((a: CashMovement, b: CashMovement) => a.created_at.localeCompare(b.created_at)),
+  created_at: row.created_at,
+});
+
+// --- FIDELIDADE ---
+export const mapLoyaltyEntry = (row: Row): LoyaltyEntry => ({
+  id: row.id,
+  clientId: row.client_id,
+  type: row.entry_type,
+  points: Number(row.points) || 0,
+  transactionId: row.transaction_id || undefined,
+  description: row.description || undefined,
+  date: row.date,
+  created_at: row.created_at,
+});
+
+export const toLoyaltyEntryRow = (entry: NewLoyaltyEntry): Row => ({
+  client_id: entry.clientId,
+  entry_type: entry.type,
+  points: entry.points,
+  transaction_id: entry.transactionId ?? null,
+  description: entry.description || null,
+  date: entry.date,
+});
+
+// --- CONFIGURAÇÕES ---
+export const mapSystemSettings = (row: Row): SystemSettings => ({
+  creditSalesEnabled: row.credit_sales_enabled || false,
+  slotInterval: row.slot_interval || DEFAULT_SLOT_INTERVAL,
+  lateFeePercentage: Number(row.late_fee_percentage) || 0,
+  dailyInterestPercentage: Number(row.daily_interest_percentage) || 0,
+  loyaltyEnabled: row.loyalty_enabled || false,
+  loyaltyMode: row.loyalty_mode || 'points',
+  loyaltyPointsPerReal: Number(row.loyalty_points_per_real) || 0,
+  loyaltyServiceIds: row.loyalty_service_ids || [],
+  loyaltyRewardPoints: Number(row.loyalty_reward_points) || 0,
+  loyaltyRewardDiscount: Number(row.loyalty_reward_discount) || 0,
+  birthdayMessageTemplate: row.birthday_message_template || DEFAULT_BIRTHDAY_MESSAGE,
+  birthdayDiscountEnabled: row.birthday_discount_enabled || false,
+  birthdayDiscountPercentage: Number(row.birthday_discount_percentage) || 0,
+});
+
+export const toSystemSettingsRow = (settings: Partial<SystemSettings>): Row => {
+  const row: Row = {};
+  if (settings.creditSalesEnabled !== undefined) row.credit_sales_enabled = settings.creditSalesEnabled;
+  if (settings.slotInterval !== undefined) row.slot_interval = settings.slotInterval;
+  if (settings.lateFeePercentage !== undefined) row.late_fee_percentage = settings.lateFeePercentage;
+  if (settings.dailyInterestPercentage !== undefined) row.daily_interest_percentage = settings.dailyInterestPercentage;
+  if (settings.loyaltyEnabled !== undefined) row.loyalty_enabled = settings.loyaltyEnabled;
+  if (settings.loyaltyMode !== undefined) row.loyalty_mode = settings.loyaltyMode;
+  if (settings.loyaltyPointsPerReal !== undefined) row.loyalty_points_per_real = settings.loyaltyPointsPerReal;
+  if (settings.loyaltyServiceIds !== undefined) row.loyalty_service_ids = settings.loyaltyServiceIds;
+  if (settings.loyaltyRewardPoints !== undefined) row.loyalty_reward_points = settings.loyaltyRewardPoints;
+  if (settings.loyaltyRewardDiscount !== undefined) row.loyalty_reward_discount = settings.loyaltyRewardDiscount;
+  if (settings.birthdayMessageTemplate !== undefined) row.birthday_message_template = settings.birthdayMessageTemplate;
+  if (settings.birthdayDiscountEnabled !== undefined) row.birthday_discount_enabled = settings.birthdayDiscountEnabled;
+  if (settings.birthdayDiscountPercentage !== undefined) row.birthday_discount_percentage = settings.birthdayDiscountPercentage;
+  return row;
+};
+
+export const mapBusinessHours = (row: Row): BusinessHours => ({
+  weekday: row.weekday,
+  isOpen: row.is_open ?? true,
+  openTime: row.open_time,
+  closeTime: row.close_time,
+  breakStart: row.break_start || undefined,
+  breakEnd: row.break_end || undefined,
+});
+
+export const toBusinessHoursRow = (hours: BusinessHours): Row => ({
+  weekday: hours.weekday,
+  is_open: hours.isOpen,
+  open_time: hours.openTime,
+  close_time: hours.closeTime,
+  break_start: hours.breakStart || null,
+  break_end: hours.breakEnd || null,
+});
+
+export const mapPaymentMethodFee = (row: Row): PaymentMethodFee => ({
+  method: row.method,
+  feePercentage: Number(row.fee_percentage) || 0,
+  settlementDays: row.settlement_days ?? 0,
+});
+
+export const toPaymentMethodFeeRow = (fee: PaymentMethodFee): Row => ({
+  method: fee.method,
+  fee_percentage: fee.feePercentage,
+  settlement_days: fee.settlementDays,
+});
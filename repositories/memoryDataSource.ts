@@ -0,0 +1,504 @@
+import { DataSource, DataSourceError, Embed, Filter, OrderBy, Row } from './dataSource.ts';
+import { CreditSaleStatus, InstallmentStatus } from '../types.ts';
+import {
+  applyCreditSalePayment,
+  getCreditSaleStatus,
+  getInstallmentRemainingAmount,
+  getInstallmentStatusAfterPayment,
+  isCreditSaleOpen,
+  isInstallmentOpen,
+  isInstallmentPaid,
+} from '../services/creditSaleService.ts';
+import { getTodayLocalDate } from '../services/dateService.ts';
+
+// Backend em memória: roda o app sem Supabase (desenvolvimento local e testes).
+// Reproduz o comportamento do banco que o app usa: ids sequenciais, created_at, chaves
+// estrangeiras com ON DELETE, colunas únicas, o trigger de saldo do estoque e as funções (rpc).
+
+type Tables = Record<string, Row[]>;
+
+interface Relation {
+  table: string;
+  column: string;
+  references: string;
+  onDelete: 'cascade' | 'set null';
+}
+
+interface Trigger {
+  table: string;
+  afterInsert?: (row: Row, tables: Tables) => void;
+  afterDelete?: (row: Row, tables: Tables) => void;
+}
+
+// Mesmas chaves estrangeiras dos scripts supabase_*.sql
+const RELATIONS: Relation[] = [
+  { table: 'transaction_items', column: 'transaction_id', references: 'transactions', onDelete: 'cascade' },
+  { table: 'transaction_payments', column: 'transaction_id', references: 'transactions', onDelete: 'cascade' },
+  { table: 'stock_movements', column: 'transaction_id', references: 'transactions', onDelete: 'cascade' },
+  { table: 'stock_movements', column: 'credit_sale_id', references: 'credit_sales', onDelete: 'cascade' },
+  { table: 'stock_movements', column: 'product_id', references: 'products', onDelete: 'cascade' },
+  { table: 'installments', column: 'creditsaleid', references: 'credit_sales', onDelete: 'cascade' },
+  { table: 'installment_payments', column: 'installment_id', references: 'installments', onDelete: 'cascade' },
+  { table: 'installment_payments', column: 'transaction_id', references: 'transactions', onDelete: 'set null' },
+  { table: 'credit_sale_events', column: 'credit_sale_id', references: 'credit_sales', onDelete: 'cascade' },
+  { table: 'cash_movements', column: 'session_id', references: 'cash_sessions', onDelete: 'cascade' },
+  { table: 'commission_rules', column: 'professional_id', references: 'professionals', onDelete: 'cascade' },
+  { table: 'professional_advances', column: 'professional_id', references: 'professionals', onDelete: 'cascade' },
+  { table: 'professional_payouts', column: 'professional_id', references: 'professionals', onDelete: 'cascade' },
+  { table: 'professional_advances', column: 'expense_id', references: 'expenses', onDelete: 'set null' },
+  { table: 'professional_payouts', column: 'expense_id', references: 'expenses', onDelete: 'set null' },
+  { table: 'transactions', column: 'client_id', references: 'clients', onDelete: 'set null' },
+  { table: 'appointments', column: 'client_id', references: 'clients', onDelete: 'set null' },
+  { table: 'credit_sales', column: 'client_id', references: 'clients', onDelete: 'set null' },
+  { table: 'transactions', column: 'professional_id', references: 'professionals', onDelete: 'set null' },
+  { table: 'appointments', column: 'professional_id', references: 'professionals', onDelete: 'set null' },
+  { table: 'appointments', column: 'service_id', references: 'services', onDelete: 'set null' },
+  { table: 'transaction_items', column: 'service_id', references: 'services', onDelete: 'set null' },
+  { table: 'transaction_items', column: 'product_id', references: 'products', onDelete: 'set null' },
+  { table: 'loyalty_entries', column: 'client_id', references: 'clients', onDelete: 'cascade' },
+  { table: 'loyalty_entries', column: 'transaction_id', references: 'transactions', onDelete: 'cascade' },
+];
+
+// Colunas únicas (valores nulos não conflitam, como nos índices parciais)
+const UNIQUE_COLUMNS: Record<string, string[]> = {
+  transactions: ['offline_id'],
+  appointments: ['offline_id'],
+  business_hours: ['weekday'],
+  payment_method_fees: ['method'],
+};
+
+// Equivalente ao trigger apply_stock_movement (supabase_stock_tables.sql)
+const adjustProductStock = (tables: Tables, productId: number, delta: number) => {
+  const product = (tables.products || []).find(p => p.id === productId);
+  if (product) product.stock_quantity = (product.stock_quantity || 0) + delta;
+};
+
+const TRIGGERS: Trigger[] = [
+  {
+    table: 'stock_movements',
+    afterInsert: (row, tables) => adjustProductStock(tables, row.product_id, row.quantity),
+    afterDelete: (row, tables) => adjustProductStock(tables, row.product_id, -row.quantity),
+  },
+];
+
+// Funções do banco chamadas via rpc; se lançarem erro, nenhuma alteração é gravada
+interface FunctionContext {
+  tables: Tables;
+  insert: (table: string, row: Row) => Row;
+}
+
+type DatabaseFunction = (params: Row, context: FunctionContext) => Row;
+
+// Equivalente à função pay_installment (supabase_pay_installment_function.sql)
+const payInstallment: DatabaseFunction = (params, { tables, insert }) => {
+  const installment = (tables.installments || []).find(i => i.id === params.p_installment_id);
+  if (!installment) throw new DataSourceError('Parcela não encontrada.', 'P0001');
+  if (isInstallmentPaid(installment.status)) throw new DataSourceError('Esta parcela já foi paga.', 'P0001');
+  if (installment.status === InstallmentStatus.Cancelled) throw new DataSourceError('Esta parcela foi cancelada.', 'P0001');
+
+  const sale = (tables.credit_sales || []).find(s => s.id === installment.creditsaleid);
+  if (!sale) throw new DataSourceError('Venda não encontrada.', 'P0001');
+
+  const payments = (tables.installment_payments || []).filter(p => p.installment_id === installment.id);
+  const remaining = getInstallmentRemainingAmount({
+    amount: Number(installment.amount),
+    status: installment.status,
+    payments: payments.map(p => ({ amount: Number(p.amount) })),
+  });
+  const amount = Math.round(Number(params.p_amount ?? remaining) * 100) / 100;
+  if (!(amount > 0)) throw new DataSourceError('O valor do pagamento deve ser maior que zero.', 'P0001');
+  if (amount > remaining) {
+    throw new DataSourceError(`O valor do pagamento é maior que o saldo da parcela (R$ ${remaining.toFixed(2).replace('.', ',')}).`, 'P0001');
+  }
+
+  const lateFee = Math.max(0, Number(params.p_late_fee) || 0);
+  const interest = Math.max(0, Number(params.p_interest) || 0);
+
+  const paidDate = params.p_paid_date || getTodayLocalDate();
+  const payment = insert('installment_payments', {
+    installment_id: installment.id,
+    amount,
+    paid_date: paidDate,
+    payment_method: params.p_payment_method,
+    late_fee: lateFee,
+    interest,
+  });
+
+  const status = getInstallmentStatusAfterPayment(installment.status, remaining - amount);
+  installment.status = status;
+  if (status === InstallmentStatus.Paid) {
+    Object.assign(installment, { paiddate: paidDate, paymentmethod: params.p_payment_method });
+  }
+
+  const totals = applyCreditSalePayment(
+    { totalPaid: sale.totalpaid || 0, remainingAmount: sale.remainingamount || 0 },
+    amount
+  );
+  const saleInstallments = (tables.installments || []).filter(i => i.creditsaleid === sale.id);
+  Object.assign(sale, {
+    totalpaid: totals.totalPaid,
+    remainingamount: totals.remainingAmount,
+    status: getCreditSaleStatus(saleInstallments.map(i => ({ status: i.status }))),
+  });
+
+  const description = `Fiado - ${sale.clientname} - Parcela ${installment.installmentnumber}/${sale.numberofinstallments}`;
+  const partialSuffix = amount < remaining ? ' (parcial)' : '';
+  const transaction = insert('transactions', {
+    clientname: sale.clientname,
+    client_id: sale.client_id ?? null,
+    client_whatsapp: sale.client_whatsapp ?? null,
+    service: `${description}${partialSuffix}`,
+    date: paidDate,
+    paymentmethod: params.p_payment_method,
+    subtotal: amount,
+    discount: 0,
+    value: amount,
+    type: 'product',
+  });
+  payment.transaction_id = transaction.id;
+
+  // Multa e juros entram como receita separada (não abatem o saldo da venda)
+  const charges = Math.round((lateFee + interest) * 100) / 100;
+  if (charges > 0) {
+    insert('transactions', {
+      clientname: sale.clientname,
+      client_id: sale.client_id ?? null,
+      client_whatsapp: sale.client_whatsapp ?? null,
+      service: `${description} - Multa e juros`,
+      date: paidDate,
+      paymentmethod: params.p_payment_method,
+      subtotal: charges,
+      discount: 0,
+      value: charges,
+      type: 'product',
+    });
+  }
+
+  return sale;
+};
+
+// Equivalente a lock_open_credit_sale (supabase_credit_sale_adjustments.sql)
+const findOpenCreditSale = (tables: Tables, creditSaleId: number): Row => {
+  const sale = (tables.credit_sales || []).find(s => s.id === creditSaleId);
+  if (!sale) throw new DataSourceError('Venda não encontrada.', 'P0001');
+  if (!isCreditSaleOpen(sale.status)) {
+    throw new DataSourceError(`Esta venda não está em aberto (status: ${sale.status}).`, 'P0001');
+  }
+  return sale;
+};
+
+const cancelOpenInstallments = (tables: Tables, creditSaleId: number) => {
+  (tables.installments || [])
+    .filter(i => i.creditsaleid === creditSaleId && isInstallmentOpen(i.status))
+    .forEach(i => { i.status = InstallmentStatus.Cancelled; });
+};
+
+// Equivalente à função cancel_credit_sale
+const cancelCreditSale: DatabaseFunction = (params, { tables, insert }) => {
+  const sale = findOpenCreditSale(tables, params.p_credit_sale_id);
+  cancelOpenInstallments(tables, sale.id);
+
+  let returnedProducts = 0;
+  if (params.p_return_products !== false) {
+    const quantities = new Map<number, number>();
+    (tables.stock_movements || [])
+      .filter(m => m.credit_sale_id === sale.id)
+      .forEach(m => quantities.set(m.product_id, (quantities.get(m.product_id) || 0) + m.quantity));
+    quantities.forEach((quantity, productId) => {
+      if (quantity >= 0) return;
+      insert('stock_movements', {
+        product_id: productId,
+        movement_type: 'credit_sale',
+        quantity: -quantity,
+        credit_sale_id: sale.id,
+        reason: 'Devolução - fiado cancelado',
+        date: getTodayLocalDate(),
+      });
+      returnedProducts += 1;
+    });
+  }
+
+  insert('credit_sale_events', {
+    credit_sale_id: sale.id,
+    event_type: 'cancelled',
+    amount: Number(sale.remainingamount) || 0,
+    reason: params.p_reason,
+    details: returnedProducts > 0 ? 'Produtos devolvidos ao estoque' : null,
+  });
+
+  Object.assign(sale, { status: CreditSaleStatus.Cancelled, remainingamount: 0 });
+  return sale;
+};
+
+// Equivalente à função renegotiate_credit_sale
+const renegotiateCreditSale: DatabaseFunction = (params, { tables, insert }) => {
+  const sale = findOpenCreditSale(tables, params.p_credit_sale_id);
+  const newInstallments: Row[] = params.p_installments || [];
+  if (newInstallments.length === 0) throw new DataSourceError('Informe ao menos uma parcela.', 'P0001');
+
+  const total = Math.round(newInstallments.reduce((sum, item) => sum + Number(item.amount), 0) * 100) / 100;
+  const remaining = Number(sale.remainingamount) || 0;
+  if (total !== remaining) {
+    const format = (value: number) => value.toFixed(2).replace('.', ',');
+    throw new DataSourceError(
+      `O novo parcelamento (R$ ${format(total)}) precisa somar o saldo da venda (R$ ${format(remaining)}).`,
+      'P0001'
+    );
+  }
+
+  cancelOpenInstallments(tables, sale.id);
+
+  const today = getTodayLocalDate();
+  const lastNumber = (tables.installments || [])
+    .filter(i => i.creditsaleid === sale.id)
+    .reduce((max, i) => Math.max(max, i.installmentnumber || 0), 0);
+  newInstallments.forEach((item, index) => {
+    insert('installments', {
+      creditsaleid: sale.id,
+      installmentnumber: lastNumber + index + 1,
+      amount: Number(item.amount),
+      duedate: item.duedate,
+      status: item.duedate < today ? InstallmentStatus.Overdue : InstallmentStatus.Pending,
+    });
+  });
+
+  const firstDueDate = newInstallments.map(item => item.duedate as string).sort()[0];
+  const [year, month, day] = firstDueDate.split('-');
+  insert('credit_sale_events', {
+    credit_sale_id: sale.id,
+    event_type: 'renegotiated',
+    amount: remaining,
+    reason: params.p_reason || null,
+    details: `Saldo renegociado em ${newInstallments.length}x a partir de ${day}/${month}/${year}`,
+  });
+
+  Object.assign(sale, {
+    numberofinstallments: lastNumber + newInstallments.length,
+    status: firstDueDate < today ? CreditSaleStatus.Overdue : CreditSaleStatus.Active,
+  });
+  return sale;
+};
+
+// Equivalente à função write_off_credit_sale
+const writeOffCreditSale: DatabaseFunction = (params, { tables, insert }) => {
+  const sale = findOpenCreditSale(tables, params.p_credit_sale_id);
+  cancelOpenInstallments(tables, sale.id);
+
+  insert('credit_sale_events', {
+    credit_sale_id: sale.id,
+    event_type: 'written_off',
+    amount: Number(sale.remainingamount) || 0,
+    reason: params.p_reason,
+  });
+
+  Object.assign(sale, { status: CreditSaleStatus.WrittenOff, remainingamount: 0 });
+  return sale;
+};
+
+// Equivalente à função merge_clients (supabase_merge_clients.sql)
+const mergeClients: DatabaseFunction = (params, { tables }) => {
+  if (params.p_survivor_id === params.p_duplicate_id) {
+    throw new DataSourceError('Escolha dois clientes diferentes para mesclar.', 'P0001');
+  }
+  const clients = tables.clients || [];
+  const survivor = clients.find(c => c.id === params.p_survivor_id);
+  const duplicate = clients.find(c => c.id === params.p_duplicate_id);
+  if (!survivor || !duplicate) throw new DataSourceError('Cliente não encontrado.', 'P0001');
+
+  // Campos vazios do cliente mantido são completados com os do duplicado
+  (['nickname', 'cpf', 'observation', 'credit_limit', 'birth_date'] as const).forEach(column => {
+    if (survivor[column] === null || survivor[column] === undefined || survivor[column] === '') {
+      survivor[column] = duplicate[column] ?? null;
+    }
+  });
+
+  ['appointments', 'transactions', 'credit_sales'].forEach(table => {
+    (tables[table] || [])
+      .filter(row => row.client_id === duplicate.id)
+      .forEach(row => Object.assign(row, { client_id: survivor.id, clientname: survivor.fullname, client_whatsapp: survivor.whatsapp }));
+  });
+
+  // Pontos de fidelidade passam para o cliente mantido
+  (tables.loyalty_entries || [])
+    .filter(row => row.client_id === duplicate.id)
+    .forEach(row => { row.client_id = survivor.id; });
+
+  tables.clients = clients.filter(c => c.id !== duplicate.id);
+  return survivor;
+};
+
+const FUNCTIONS: Record<string, DatabaseFunction> = {
+  pay_installment: payInstallment,
+  cancel_credit_sale: cancelCreditSale,
+  renegotiate_credit_sale: renegotiateCreditSale,
+  write_off_credit_sale: writeOffCreditSale,
+  merge_clients: mergeClients,
+};
+
+const matchesFilter = (row: Row, filter: Filter): boolean => {
+  const value = row[filter.column];
+  switch (filter.operator) {
+    case 'eq': return value === filter.value;
+    case 'neq': return value !== filter.value;
+    case 'lt': return value !== null && value !== undefined && value < filter.value;
+    case 'lte': return value !== null && value !== undefined && value <= filter.value;
+    case 'gt': return value !== null && value !== undefined && value > filter.value;
+    case 'gte': return value !== null && value !== undefined && value >= filter.value;
+    case 'in': return (filter.value as any[]).includes(value);
+    default: return false;
+  }
+};
+
+const matchesAll = (row: Row, filters: Filter[] = []) => filters.every(filter => matchesFilter(row, filter));
+
+// Nulos por último, como no Postgres em ordem crescente
+const compareRows = (a: Row, b: Row, orderBy: OrderBy[]): number => {
+  for (const order of orderBy) {
+    const direction = order.ascending === false ? -1 : 1;
+    const left = a[order.column];
+    const right = b[order.column];
+    if (left === right) continue;
+    if (left === null || left === undefined) return 1 * direction;
+    if (right === null || right === undefined) return -1 * direction;
+    return (left < right ? -1 : 1) * direction;
+  }
+  return 0;
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export interface MemoryDataSourceOptions {
+  initialData?: Tables; // Linhas iniciais por tabela (ex: dados de exemplo ou de um teste)
+  storageKey?: string; // Se informado, os dados sobrevivem ao recarregar a página (localStorage)
+}
+
+export const createMemoryDataSource = (options: MemoryDataSourceOptions = {}): DataSource => {
+  const loadStoredTables = (): Tables | null => {
+    if (!options.storageKey || typeof localStorage === 'undefined') return null;
+    const stored = localStorage.getItem(options.storageKey);
+    return stored ? JSON.parse(stored) : null;
+  };
+
+  const tables: Tables = loadStoredTables() || clone(options.initialData || {});
+
+  const persist = () => {
+    if (options.storageKey && typeof localStorage !== 'undefined') {
+      localStorage.setItem(options.storageKey, JSON.stringify(tables));
+    }
+  };
+
+  const getTable = (table: string): Row[] => {
+    if (!tables[table]) tables[table] = [];
+    return tables[table];
+  };
+
+  const nextId = (table: string): number => {
+    return getTable(table).reduce((max, row) => Math.max(max, typeof row.id === 'number' ? row.id : 0), 0) + 1;
+  };
+
+  const assertUnique = (table: string, row: Row, ignoreRow?: Row) => {
+    (UNIQUE_COLUMNS[table] || []).forEach(column => {
+      if (row[column] === null || row[column] === undefined) return;
+      const duplicate = getTable(table).some(existing => existing !== ignoreRow && existing[column] === row[column]);
+      if (duplicate) {
+        throw new DataSourceError(`duplicate key value violates unique constraint "${table}_${column}_key"`, '23505');
+      }
+    });
+  };
+
+  const withEmbeds = (row: Row, embed: Embed[] = []): Row => {
+    const result = clone(row);
+    embed.forEach(e => {
+      result[e.table] = clone(getTable(e.table).filter(child => child[e.foreignKey] === row.id));
+    });
+    return result;
+  };
+
+  const deleteRows = (table: string, rows: Row[]) => {
+    tables[table] = getTable(table).filter(row => !rows.includes(row));
+    rows.forEach(row => {
+      RELATIONS.filter(relation => relation.references === table).forEach(relation => {
+        const children = getTable(relation.table).filter(child => child[relation.column] === row.id);
+        if (relation.onDelete === 'cascade') deleteRows(relation.table, children);
+        else children.forEach(child => { child[relation.column] = null; });
+      });
+      TRIGGERS.filter(trigger => trigger.table === table).forEach(trigger => trigger.afterDelete?.(row, tables));
+    });
+  };
+
+  return {
+    async select(table, selectOptions = {}) {
+      let rows = getTable(table).filter(row => matchesAll(row, selectOptions.filters));
+      if (selectOptions.orderBy) rows = [...rows].sort((a, b) => compareRows(a, b, selectOptions.orderBy!));
+      if (selectOptions.limit !== undefined) rows = rows.slice(0, selectOptions.limit);
+      return rows.map(row => withEmbeds(row, selectOptions.embed));
+    },
+
+    async insert(table, rows, insertOptions = {}) {
+      const inserted = rows.map(row => {
+        const newRow: Row = { created_at: new Date().toISOString(), ...clone(row) };
+        if (newRow.id === undefined) newRow.id = nextId(table);
+        assertUnique(table, newRow);
+        getTable(table).push(newRow);
+        TRIGGERS.filter(trigger => trigger.table === table).forEach(trigger => trigger.afterInsert?.(newRow, tables));
+        return newRow;
+      });
+      persist();
+      return inserted.map(row => withEmbeds(row, insertOptions.embed));
+    },
+
+    async update(table, values, filters, updateOptions = {}) {
+      const rows = getTable(table).filter(row => matchesAll(row, filters));
+      rows.forEach(row => {
+        assertUnique(table, { ...row, ...values }, row);
+        Object.assign(row, clone(values));
+      });
+      persist();
+      return rows.map(row => withEmbeds(row, updateOptions.embed));
+    },
+
+    async remove(table, filters) {
+      const rows = getTable(table).filter(row => matchesAll(row, filters));
+      deleteRows(table, rows);
+      persist();
+      return clone(rows);
+    },
+
+    async upsert(table, row, onConflict) {
+      const existing = getTable(table).find(r => r[onConflict] === row[onConflict]);
+      if (existing) {
+        Object.assign(existing, clone(row));
+        persist();
+        return clone(existing);
+      }
+      const [inserted] = await this.insert(table, [row]);
+      return inserted;
+    },
+
+    async rpc(fn, params) {
+      const databaseFunction = FUNCTIONS[fn];
+      if (!databaseFunction) throw new DataSourceError(`function ${fn} does not exist`, '42883');
+
+      // Transação: em caso de erro as tabelas voltam ao estado anterior
+      const snapshot = clone(tables);
+      try {
+        const result = databaseFunction(params, {
+          tables,
+          insert: (table, row) => {
+            const newRow: Row = { id: nextId(table), created_at: new Date().toISOString(), ...clone(row) };
+            assertUnique(table, newRow);
+            getTable(table).push(newRow);
+            TRIGGERS.filter(trigger => trigger.table === table).forEach(trigger => trigger.afterInsert?.(newRow, tables));
+            return newRow;
+          },
+        });
+        persist();
+        return clone(result);
+      } catch (error) {
+        Object.keys(tables).forEach(table => { delete tables[table]; });
+        Object.assign(tables, snapshot);
+        throw error;
+      }
+    },
+  };
+};
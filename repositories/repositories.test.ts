@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AppointmentStatus, CreditSaleStatus, InstallmentStatus, PaymentMethod, Transaction } from '../types.ts';
+import { buildInstallmentSchedule, splitInstallmentAmounts } from '../services/creditSaleService.ts';
+import { createMemoryDataSource } from './memoryDataSource.ts';
+import { createRepositories, Repositories } from './repositories.ts';
+import { mapTransaction, toTransactionRow } from './mappers.ts';
+
+const newTransaction = (overrides: Partial<Omit<Transaction, 'id' | 'created_at'>> = {}): Omit<Transaction, 'id' | 'created_at'> => ({
+  date: '2024-03-05',
+  clientName: 'Carlos Souza',
+  service: '',
+  paymentMethod: '',
+  subtotal: 80,
+  discount: 5,
+  value: 75,
+  type: 'service',
+  items: [
+    { itemType: 'service', serviceId: 1, name: 'Corte', quantity: 1, unitPrice: 50, discount: 0 },
+    { itemType: 'service', serviceId: 2, name: 'Barba', quantity: 1, unitPrice: 30, discount: 0 },
+  ],
+  payments: [
+    { method: PaymentMethod.Pix, amount: 50 },
+    { method: PaymentMethod.Cash, amount: 25 },
+  ],
+  ...overrides,
+});
+
+describe('mapeamento de transações', () => {
+  it('gera os resumos de serviço e pagamento a partir dos itens', () => {
+    const row = toTransactionRow(newTransaction({
+      items: [{ itemType: 'product', productId: 3, name: 'Pomada', quantity: 2, unitPrice: 25, discount: 0 }],
+    }));
+    expect(row.service).toBe('Pomada (2x)');
+    expect(row.paymentmethod).toBe('PIX, Dinheiro');
+    expect(row.clientname).toBe('Carlos Souza');
+  });
+
+  it('converte valores numéricos e ordena itens e pagamentos do banco', () => {
+    const transaction = mapTransaction({
+      id: 7,
+      date: '2024-03-05',
+      clientname: 'Carlos Souza',
+      service: 'Corte, Barba',
+      paymentmethod: 'PIX',
+      value: '75.00',
+      subtotal: '80',
+      discount: null,
+      client_id: null,
+      transaction_items: [
+        { id: 2, item_type: 'service', name: 'Barba', quantity: 1, unit_price: '30', discount: 0 },
+        { id: 1, item_type: 'service', name: 'Corte', quantity: 1, unit_price: '50', discount: 0 },
+      ],
+      transaction_payments: [],
+    });
+    expect(transaction.value).toBe(75);
+    expect(transaction.subtotal).toBe(80);
+    expect(transaction.discount).toBe(0);
+    expect(transaction.type).toBe('service');
+    expect(transaction.clientId).toBeUndefined();
+    expect(transaction.items?.map(item => item.name)).toEqual(['Corte', 'Barba']);
+  });
+});
+
+describe('repositórios sobre o backend em memória', () => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    repositories = createRepositories(createMemoryDataSource());
+  });
+
+  it('grava e relê a transação com itens e pagamentos', async () => {
+    const saved = await repositories.transactions.create(newTransaction(), 'offline-1');
+    const [listed] = await repositories.transactions.list();
+
+    expect(listed.id).toBe(saved.id);
+    expect(listed.service).toBe('Corte, Barba');
+    expect(listed.paymentMethod).toBe('PIX, Dinheiro');
+    expect(listed.items?.map(item => [item.name, item.unitPrice])).toEqual([['Corte', 50], ['Barba', 30]]);
+    expect(listed.payments?.map(payment => payment.amount)).toEqual([50, 25]);
+    expect(await repositories.transactions.findIdByOfflineId('offline-1')).toBe(saved.id);
+  });
+
+  it('apaga itens e pagamentos junto com a transação', async () => {
+    const saved = await repositories.transactions.create(newTransaction());
+    await repositories.transactions.remove(saved.id);
+    expect(await repositories.transactions.list()).toEqual([]);
+  });
+
+  it('propaga o novo nome do cliente para transações, agendamentos e fiado', async () => {
+    const client = await repositories.clients.create({ fullName: 'Carlos Souza', whatsapp: '11999990000' });
+    const other = await repositories.clients.create({ fullName: 'Pedro Lima', whatsapp: '11988880000' });
+    await repositories.transactions.create(newTransaction({ clientId: client.id, clientWhatsapp: client.whatsapp }));
+    await repositories.transactions.create(newTransaction({ clientName: 'Pedro Lima', clientId: other.id }));
+    await repositories.appointments.create({
+      date: '2024-03-06',
+      time: '10:00',
+      clientName: 'Carlos Souza',
+      clientId: client.id,
+      service: 'Corte',
+      status: AppointmentStatus.Confirmed,
+    });
+    await repositories.creditSales.create({
+      clientName: 'Carlos Souza',
+      clientId: client.id,
+      products: 'Pomada',
+      subtotal: 50,
+      discount: 0,
+      totalAmount: 50,
+      numberOfInstallments: 1,
+      firstDueDate: '2024-04-05',
+      status: CreditSaleStatus.Active,
+      totalPaid: 0,
+      remainingAmount: 50,
+      date: '2024-03-05',
+    }, buildInstallmentSchedule([50], '2024-04-05'));
+
+    await repositories.clients.renameReferences(client.id, 'Carlos Souza Filho', '11977770000');
+
+    const transactions = await repositories.transactions.list();
+    expect(transactions.find(transaction => transaction.clientId === client.id)?.clientName).toBe('Carlos Souza Filho');
+    expect(transactions.find(transaction => transaction.clientId === client.id)?.clientWhatsapp).toBe('11977770000');
+    expect(transactions.find(transaction => transaction.clientId === other.id)?.clientName).toBe('Pedro Lima');
+    expect((await repositories.appointments.list())[0].clientName).toBe('Carlos Souza Filho');
+    expect((await repositories.creditSales.list())[0].clientName).toBe('Carlos Souza Filho');
+  });
+
+  it('grava a referência ao cliente com o nome e o WhatsApp como cópia para exibição', async () => {
+    const client = await repositories.clients.create({ fullName: 'Carlos Souza', whatsapp: '11999990000' });
+    await repositories.appointments.create({
+      date: '2024-03-06',
+      time: '10:00',
+      clientName: client.fullName,
+      clientId: client.id,
+      clientWhatsapp: client.whatsapp,
+      service: 'Corte',
+      status: AppointmentStatus.Confirmed,
+    });
+    await repositories.transactions.create(newTransaction({ clientName: 'Cliente avulso' }));
+
+    const [appointment] = await repositories.appointments.list();
+    expect(appointment).toMatchObject({ clientId: client.id, clientName: 'Carlos Souza', clientWhatsapp: '11999990000' });
+    const [walkIn] = await repositories.transactions.list();
+    expect(walkIn.clientId).toBeUndefined();
+    expect(walkIn.clientWhatsapp).toBeUndefined();
+  });
+
+  it('apagar o cliente solta a referência e mantém o nome gravado no histórico', async () => {
+    const client = await repositories.clients.create({ fullName: 'Carlos Souza', whatsapp: '11999990000' });
+    await repositories.transactions.create(newTransaction({ clientId: client.id, clientWhatsapp: client.whatsapp }));
+
+    await repositories.clients.remove(client.id);
+
+    const [transaction] = await repositories.transactions.list();
+    expect(transaction.clientId).toBeUndefined();
+    expect(transaction.clientName).toBe('Carlos Souza');
+    expect(transaction.clientWhatsapp).toBe('11999990000');
+  });
+
+  it('mescla o duplicado no cliente mantido, levando histórico e dados que faltam', async () => {
+    const survivor = await repositories.clients.create({ fullName: 'João da Silva', whatsapp: '11999990000' });
+    const duplicate = await repositories.clients.create({ fullName: 'Joao Silva', whatsapp: '1199990000', cpf: '123.456.789-00', nickname: 'Jão' });
+    await repositories.transactions.create(newTransaction({ clientName: duplicate.fullName, clientId: duplicate.id, clientWhatsapp: duplicate.whatsapp }));
+    await repositories.appointments.create({
+      date: '2024-03-06',
+      time: '10:00',
+      clientName: duplicate.fullName,
+      clientId: duplicate.id,
+      service: 'Corte',
+      status: AppointmentStatus.Confirmed,
+    });
+
+    const merged = await repositories.clients.merge(survivor.id, duplicate.id);
+
+    expect(merged).toMatchObject({ id: survivor.id, fullName: 'João da Silva', cpf: '123.456.789-00', nickname: 'Jão' });
+    expect((await repositories.clients.list()).map(client => client.id)).toEqual([survivor.id]);
+    const [transaction] = await repositories.transactions.list();
+    expect(transaction).toMatchObject({ clientId: survivor.id, clientName: 'João da Silva', clientWhatsapp: '11999990000' });
+    expect((await repositories.appointments.list())[0].clientId).toBe(survivor.id);
+  });
+
+  it('recusa mesclar o cliente com ele mesmo', async () => {
+    const client = await repositories.clients.create({ fullName: 'João da Silva', whatsapp: '11999990000' });
+    await expect(repositories.clients.merge(client.id, client.id)).rejects.toThrow('Escolha dois clientes diferentes para mesclar.');
+  });
+
+  it('marca como atrasadas só as parcelas em aberto vencidas', async () => {
+    const sale = await repositories.creditSales.create({
+      clientName: 'Carlos Souza',
+      products: 'Pomada',
+      subtotal: 90,
+      discount: 0,
+      totalAmount: 90,
+      numberOfInstallments: 3,
+      firstDueDate: '2024-01-10',
+      status: CreditSaleStatus.Active,
+      totalPaid: 0,
+      remainingAmount: 90,
+      date: '2024-01-05',
+    }, buildInstallmentSchedule(splitInstallmentAmounts(90, 3), '2024-01-10'));
+    const [first] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    await repositories.creditSales.updateInstallment(first.id, { status: InstallmentStatus.Paid, paidDate: '2024-01-10' });
+
+    await repositories.creditSales.markOverdueInstallments('2024-02-11');
+
+    const installments = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    expect(installments.map(installment => installment.status)).toEqual([
+      InstallmentStatus.Paid,
+      InstallmentStatus.Overdue,
+      InstallmentStatus.Pending,
+    ]);
+  });
+});
@@ -0,0 +1,678 @@
+import {
+  Service,
+  Product,
+  Professional,
+  StockMovement,
+  Transaction,
+  TransactionItem,
+  TransactionPayment,
+  Appointment,
+  AppointmentStatus,
+  CreditSale,
+  CreditSaleEvent,
+  CreditSaleStatus,
+  Installment,
+  InstallmentStatus,
+  Client,
+  Expense,
+  ExpenseCategory,
+  CommissionRule,
+  ProfessionalAdvance,
+  ProfessionalPayout,
+  CashSession,
+  CashMovement,
+  CashMovementType,
+  BusinessHours,
+  PaymentMethodFee,
+  SystemSettings,
+  LoyaltyEntry,
+} from '../types.ts';
+import type { NewStockMovement } from '../services/stockService.ts';
+import type { NewLoyaltyEntry } from '../services/loyaltyService.ts';
+import { DataSource, Embed, eq, lt, isIn } from './dataSource.ts';
+import * as mappers from './mappers.ts';
+
+// Repositórios tipados: cada um cuida de uma área do app e só conversa com o DataSource,
+// então o mesmo código roda sobre o Supabase ou sobre o backend em memória.
+// Todos os métodos lançam o erro do backend em caso de falha.
+
+export interface ServicesRepository {
+  list(): Promise<Service[]>;
+  create(service: Omit<Service, 'id' | 'created_at'>): Promise<Service>;
+  update(service: Service): Promise<Service>;
+  remove(serviceId: number): Promise<void>;
+}
+
+export interface ProfessionalsRepository {
+  list(): Promise<Professional[]>;
+  create(professional: Omit<Professional, 'id' | 'created_at'>): Promise<Professional>;
+  update(professional: Professional): Promise<Professional>;
+  remove(professionalId: number): Promise<void>;
+}
+
+export interface ProductsRepository {
+  list(): Promise<Product[]>;
+  create(product: Omit<Product, 'id' | 'created_at' | 'stock'>): Promise<Product>;
+  update(productId: number, product: Omit<Product, 'id' | 'created_at' | 'stock'>): Promise<Product>;
+  remove(productId: number): Promise<void>;
+  listStockMovements(productId: number): Promise<StockMovement[]>;
+  addStockMovements(movements: NewStockMovement[]): Promise<void>;
+  // Apaga as movimentações geradas por uma venda (o saldo volta no banco) e devolve as removidas
+  removeTransactionStockMovements(transactionId: number): Promise<StockMovement[]>;
+}
+
+export interface TransactionsRepository {
+  list(): Promise<Transaction[]>;
+  findIdByOfflineId(offlineId: string): Promise<number | undefined>;
+  // Grava a transação com itens e pagamentos; se os filhos falharem, a transação é desfeita
+  create(transaction: Omit<Transaction, 'id' | 'created_at'>, offlineId?: string): Promise<Transaction>;
+  // Itens e pagamentos informados substituem os atuais; devolve os campos como ficaram gravados
+  update(transactionId: number, updates: Partial<Omit<Transaction, 'id' | 'created_at'>>): Promise<Partial<Transaction>>;
+  remove(transactionId: number): Promise<void>;
+}
+
+export interface AppointmentsRepository {
+  list(): Promise<Appointment[]>;
+  listByDate(date: string): Promise<Appointment[]>;
+  findIdByOfflineId(offlineId: string): Promise<number | undefined>;
+  create(appointment: Omit<Appointment, 'id' | 'created_at'>, offlineId?: string): Promise<Appointment>;
+  updateStatus(appointmentId: number, status: AppointmentStatus): Promise<Appointment | undefined>;
+  remove(appointmentId: number): Promise<void>;
+}
+
+// Parcela do novo plano numa renegociação
+export interface RenegotiatedInstallment {
+  amount: number;
+  dueDate: string; // YYYY-MM-DD
+}
+
+// Multa e juros cobrados junto com um pagamento em atraso
+export interface InstallmentLateCharges {
+  lateFee: number;
+  interest: number;
+}
+
+export interface CreditSalesRepository {
+  list(): Promise<CreditSale[]>;
+  listOpen(): Promise<CreditSale[]>;
+  findById(creditSaleId: number): Promise<CreditSale | undefined>;
+  // Grava a venda com as parcelas; se as parcelas falharem, a venda é desfeita
+  create(sale: Omit<CreditSale, 'id' | 'created_at'>, installments: Omit<Installment, 'id' | 'creditSaleId' | 'created_at'>[]): Promise<CreditSale>;
+  update(creditSaleId: number, updates: Partial<Omit<CreditSale, 'id' | 'created_at'>>): Promise<void>;
+  remove(creditSaleId: number): Promise<void>;
+  listInstallments(): Promise<Installment[]>;
+  listInstallmentsBySale(creditSaleId: number): Promise<Installment[]>;
+  updateInstallment(installmentId: number, updates: Partial<Omit<Installment, 'id' | 'created_at'>>): Promise<Installment>;
+  // Registra o pagamento (parcial ou do saldo, se amount for omitido), atualiza parcela, totais/status da venda
+  // e lança as transações (parcela e, se houver, multa e juros) numa única operação (função pay_installment)
+  payInstallment(
+    installmentId: number,
+    paymentMethod: string,
+    paidDate: string,
+    amount?: number,
+    lateCharges?: InstallmentLateCharges
+  ): Promise<CreditSale>;
+  // Parcelas pendentes ou parcialmente pagas com vencimento antes de "today" passam a atrasadas
+  markOverdueInstallments(today: string): Promise<void>;
+  // Ajustes da venda em aberto, cada um numa única operação e registrado no histórico da venda
+  cancel(creditSaleId: number, reason: string, returnProducts: boolean): Promise<CreditSale>;
+  renegotiate(creditSaleId: number, installments: RenegotiatedInstallment[], reason?: string): Promise<CreditSale>;
+  writeOff(creditSaleId: number, reason: string): Promise<CreditSale>;
+  // Registra no histórico da venda um evento sem alterar a venda (ex: liberação acima do limite)
+  addEvent(event: Omit<CreditSaleEvent, 'id' | 'created_at'>): Promise<CreditSaleEvent>;
+}
+
+export interface ClientsRepository {
+  list(): Promise<Client[]>;
+  findById(clientId: number): Promise<Client | undefined>;
+  create(client: Omit<Client, 'id' | 'created_at'>): Promise<Client>;
+  // Cadastra vários clientes de uma vez (importação de planilha ou agenda do celular)
+  createMany(clients: Omit<Client, 'id' | 'created_at'>[]): Promise<Client[]>;
+  update(clientId: number, client: Partial<Omit<Client, 'id' | 'created_at'>>): Promise<Client>;
+  remove(clientId: number): Promise<void>;
+  // Atualiza o nome gravado nas transações, agendamentos e vendas no fiado do cliente
+  renameReferences(clientId: number, fullName: string, whatsapp: string): Promise<void>;
+  // Passa agendamentos, transações e vendas no fiado do duplicado para o cliente mantido e apaga o duplicado
+  merge(survivorId: number, duplicateId: number): Promise<Client>;
+}
+
+export interface ExpensesRepository {
+  list(): Promise<Expense[]>;
+  create(expense: Omit<Expense, 'id' | 'created_at'>): Promise<Expense>;
+  update(expenseId: number, expense: Partial<Omit<Expense, 'id' | 'created_at'>>): Promise<Expense>;
+  remove(expenseId: number): Promise<void>;
+}
+
+export interface ExpenseCategoriesRepository {
+  list(): Promise<ExpenseCategory[]>;
+  create(category: Omit<ExpenseCategory, 'id' | 'created_at'>): Promise<ExpenseCategory>;
+  update(categoryId: number, category: Partial<Omit<ExpenseCategory, 'id' | 'created_at'>>): Promise<ExpenseCategory>;
+  remove(categoryId: number): Promise<void>;
+}
+
+export interface CommissionsRepository {
+  listRules(): Promise<CommissionRule[]>;
+  createRule(rule: Omit<CommissionRule, 'id' | 'created_at'>): Promise<CommissionRule>;
+  updateRulePercentage(ruleId: number, percentage: number): Promise<CommissionRule>;
+  removeRule(ruleId: number): Promise<void>;
+  listAdvances(): Promise<ProfessionalAdvance[]>;
+  createAdvance(advance: Omit<ProfessionalAdvance, 'id' | 'created_at'>): Promise<ProfessionalAdvance>;
+  removeAdvance(advanceId: number): Promise<void>;
+  listPayouts(): Promise<ProfessionalPayout[]>;
+  createPayout(payout: Omit<ProfessionalPayout, 'id' | 'created_at'>): Promise<ProfessionalPayout>;
+  removePayout(payoutId: number): Promise<void>;
+}
+
+export interface LoyaltyRepository {
+  listEntries(): Promise<LoyaltyEntry[]>;
+  addEntries(entries: NewLoyaltyEntry[]): Promise<LoyaltyEntry[]>;
+  // Apaga os pontos ganhos no atendimento (a troca de recompensa continua lançada)
+  removeEarnedEntries(transactionId: number): Promise<void>;
+}
+
+export interface CashSessionClosing {
+  cashSalesAmount: number;
+  expectedAmount: number;
+  countedAmount: number;
+  notes?: string;
+}
+
+export interface CashRegisterRepository {
+  listSessions(): Promise<CashSession[]>;
+  openSession(openingAmount: number, notes?: string): Promise<CashSession>;
+  closeSession(sessionId: number, closing: CashSessionClosing): Promise<CashSession>;
+  addMovement(sessionId: number, type: CashMovementType, amount: number, description?: string): Promise<CashMovement>;
+  removeMovement(movementId: number): Promise<void>;
+}
+
+export interface SettingsRepository {
+  getSystemSettings(): Promise<SystemSettings | undefined>;
+  saveSystemSettings(settings: Partial<SystemSettings>): Promise<void>;
+  listBusinessHours(): Promise<BusinessHours[]>;
+  saveBusinessHours(hours: BusinessHours): Promise<void>;
+  listPaymentFees(): Promise<PaymentMethodFee[]>;
+  savePaymentFee(fee: PaymentMethodFee): Promise<void>;
+}
+
+export interface Repositories {
+  services: ServicesRepository;
+  professionals: ProfessionalsRepository;
+  products: ProductsRepository;
+  transactions: TransactionsRepository;
+  appointments: AppointmentsRepository;
+  creditSales: CreditSalesRepository;
+  clients: ClientsRepository;
+  expenses: ExpensesRepository;
+  expenseCategories: ExpenseCategoriesRepository;
+  commissions: CommissionsRepository;
+  loyalty: LoyaltyRepository;
+  cashRegister: CashRegisterRepository;
+  settings: SettingsRepository;
+}
+
+const TRANSACTION_EMBEDS: Embed[] = [
+  { table: 'transaction_items', foreignKey: 'transaction_id' },
+  { table: 'transaction_payments', foreignKey: 'transaction_id' },
+];
+
+const CASH_SESSION_EMBEDS: Embed[] = [{ table: 'cash_movements', foreignKey: 'session_id' }];
+
+const INSTALLMENT_EMBEDS: Embed[] = [{ table: 'installment_payments', foreignKey: 'installment_id' }];
+
+const CREDIT_SALE_EMBEDS: Embed[] = [{ table: 'credit_sale_events', foreignKey: 'credit_sale_id' }];
+
+// Configurações gerais ficam sempre na linha de ID 1
+const SYSTEM_SETTINGS_ID = 1;
+
+export const createRepositories = (source: DataSource): Repositories => {
+  const insertOne = async (table: string, row: Record<string, any>, embed?: Embed[]) => {
+    const [inserted] = await source.insert(table, [row], { embed });
+    return inserted;
+  };
+
+  const updateById = async (table: string, id: number, values: Record<string, any>, embed?: Embed[]) => {
+    const [updated] = await source.update(table, values, [eq('id', id)], { embed });
+    return updated;
+  };
+
+  const removeById = async (table: string, id: number) => {
+    await source.remove(table, [eq('id', id)]);
+  };
+
+  const findIdByOfflineId = async (table: string, offlineId: string) => {
+    const [existing] = await source.select(table, { filters: [eq('offline_id', offlineId)], limit: 1 });
+    return existing?.id as number | undefined;
+  };
+
+  const insertTransactionItems = async (transactionId: number, items: TransactionItem[]): Promise<TransactionItem[]> => {
+    if (items.length === 0) return [];
+    const rows = await source.insert('transaction_items', items.map(item => mappers.toTransactionItemRow(transactionId, item)));
+    return rows.map(mappers.mapTransactionItem);
+  };
+
+  const insertTransactionPayments = async (transactionId: number, payments: TransactionPayment[]): Promise<TransactionPayment[]> => {
+    if (payments.length === 0) return [];
+    const rows = await source.insert('transaction_payments', payments.map(payment => mappers.toTransactionPaymentRow(transactionId, payment)));
+    return rows.map(mappers.mapTransactionPayment);
+  };
+
+  // Atualiza a cópia do nome e do WhatsApp gravada nos registros do cliente
+  const renameClientIn = async (table: string, clientId: number, fullName: string, whatsapp: string) => {
+    await source.update(table, { clientname: fullName, client_whatsapp: whatsapp || null }, [eq('client_id', clientId)]);
+  };
+
+  return {
+    services: {
+      async list() {
+        const rows = await source.select('services', { orderBy: [{ column: 'name' }] });
+        return rows.map(mappers.mapService);
+      },
+      async create(service) {
+        return mappers.mapService(await insertOne('services', mappers.toServiceRow(service)));
+      },
+      async update({ id, ...service }) {
+        return mappers.mapService(await updateById('services', id, mappers.toServiceRow(service)));
+      },
+      async remove(serviceId) {
+        await removeById('services', serviceId);
+      },
+    },
+
+    professionals: {
+      async list() {
+        const rows = await source.select('professionals', { orderBy: [{ column: 'name' }] });
+        return rows.map(mappers.mapProfessional);
+      },
+      async create(professional) {
+        return mappers.mapProfessional(await insertOne('professionals', mappers.toProfessionalRow(professional)));
+      },
+      async update({ id, ...professional }) {
+        return mappers.mapProfessional(await updateById('professionals', id, mappers.toProfessionalRow(professional)));
+      },
+      async remove(professionalId) {
+        await removeById('professionals', professionalId);
+      },
+    },
+
+    products: {
+      async list() {
+        const rows = await source.select('products', { orderBy: [{ column: 'name' }] });
+        return rows.map(mappers.mapProduct);
+      },
+      async create(product) {
+        return mappers.mapProduct(await insertOne('products', mappers.toProductRow(product)));
+      },
+      async update(productId, product) {
+        return mappers.mapProduct(await updateById('products', productId, mappers.toProductRow(product)));
+      },
+      async remove(productId) {
+        await removeById('products', productId);
+      },
+      async listStockMovements(productId) {
+        const rows = await source.select('stock_movements', {
+          filters: [eq('product_id', productId)],
+          orderBy: [{ column: 'date', ascending: false }, { column: 'id', ascending: false }],
+        });
+        return rows.map(mappers.mapStockMovement);
+      },
+      async addStockMovements(movements) {
+        if (movements.length === 0) return;
+        await source.insert('stock_movements', movements.map(mappers.toStockMovementRow));
+      },
+      async removeTransactionStockMovements(transactionId) {
+        const rows = await source.remove('stock_movements', [eq('transaction_id', transactionId)]);
+        return rows.map(mappers.mapStockMovement);
+      },
+    },
+
+    transactions: {
+      async list() {
+        const rows = await source.select('transactions', {
+          orderBy: [{ column: 'created_at', ascending: false }],
+          embed: TRANSACTION_EMBEDS,
+        });
+        return rows.map(mappers.mapTransaction);
+      },
+      findIdByOfflineId(offlineId) {
+        return findIdByOfflineId('transactions', offlineId);
+      },
+      async create(transaction, offlineId) {
+        const row = mappers.toTransactionRow(transaction);
+        if (offlineId) row.offline_id = offlineId;
+        const saved = mappers.mapTransaction(await insertOne('transactions', row));
+        try {
+          saved.items = await insertTransactionItems(saved.id, transaction.items || []);
+          saved.payments = await insertTransactionPayments(saved.id, transaction.payments || []);
+        } catch (error) {
+          // Desfaz a transação para não deixar registro sem itens ou pagamentos
+          await removeById('transactions', saved.id);
+          throw error;
+        }
+        return saved;
+      },
+      async update(transactionId, updates) {
+        const row = mappers.toTransactionUpdateRow(updates);
+        await source.update('transactions', row, [eq('id', transactionId)]);
+
+        const saved: Partial<Transaction> = {};
+        if (row.service !== undefined) saved.service = row.service;
+        if (row.paymentmethod !== undefined) saved.paymentMethod = row.paymentmethod;
+        // Itens e pagamentos são substituídos por completo
+        if (updates.items !== undefined) {
+          await source.remove('transaction_items', [eq('transaction_id', transactionId)]);
+          saved.items = await insertTransactionItems(transactionId, updates.items);
+        }
+        if (updates.payments !== undefined) {
+          await source.remove('transaction_payments', [eq('transaction_id', transactionId)]);
+          saved.payments = await insertTransactionPayments(transactionId, updates.payments);
+        }
+        return saved;
+      },
+      async remove(transactionId) {
+        await removeById('transactions', transactionId);
+      },
+    },
+
+    appointments: {
+      async list() {
+        const rows = await source.select('appointments', { orderBy: [{ column: 'date' }, { column: 'time' }] });
+        return rows.map(mappers.mapAppointment);
+      },
+      async listByDate(date) {
+        const rows = await source.select('appointments', { filters: [eq('date', date)] });
+        return rows.map(mappers.mapAppointment);
+      },
+      findIdByOfflineId(offlineId) {
+        return findIdByOfflineId('appointments', offlineId);
+      },
+      async create(appointment, offlineId) {
+        const row = mappers.toAppointmentRow(appointment);
+        if (offlineId) row.offline_id = offlineId;
+        return mappers.mapAppointment(await insertOne('appointments', row));
+      },
+      async updateStatus(appointmentId, status) {
+        const updated = await updateById('appointments', appointmentId, { status: String(status) });
+        return updated ? mappers.mapAppointment(updated) : undefined;
+      },
+      async remove(appointmentId) {
+        await removeById('appointments', appointmentId);
+      },
+    },
+
+    creditSales: {
+      async list() {
+        const rows = await source.select('credit_sales', {
+          orderBy: [{ column: 'created_at', ascending: false }],
+          embed: CREDIT_SALE_EMBEDS,
+        });
+        return rows.map(mappers.mapCreditSale);
+      },
+      async listOpen() {
+        const rows = await source.select('credit_sales', {
+          filters: [isIn('status', [CreditSaleStatus.Active, CreditSaleStatus.Overdue])],
+        });
+        return rows.map(mappers.mapCreditSale);
+      },
+      async findById(creditSaleId) {
+        const [row] = await source.select('credit_sales', { filters: [eq('id', creditSaleId)], limit: 1, embed: CREDIT_SALE_EMBEDS });
+        return row ? mappers.mapCreditSale(row) : undefined;
+      },
+      async create(sale, installments) {
+        const saved = mappers.mapCreditSale(await insertOne('credit_sales', mappers.toCreditSaleRow(sale)));
+        try {
+          await source.insert('installments', installments.map(installment => mappers.toInstallmentRow({
+            ...installment,
+            creditSaleId: saved.id,
+          })));
+        } catch (error) {
+          // Reverter criação da venda se der erro nas parcelas
+          await removeById('credit_sales', saved.id);
+          throw error;
+        }
+        return saved;
+      },
+      async update(creditSaleId, updates) {
+        await source.update('credit_sales', mappers.toCreditSaleRow(updates), [eq('id', creditSaleId)]);
+      },
+      async remove(creditSaleId) {
+        await removeById('credit_sales', creditSaleId);
+      },
+      async listInstallments() {
+        const rows = await source.select('installments', { orderBy: [{ column: 'duedate' }], embed: INSTALLMENT_EMBEDS });
+        return rows.map(mappers.mapInstallment);
+      },
+      async listInstallmentsBySale(creditSaleId) {
+        const rows = await source.select('installments', {
+          filters: [eq('creditsaleid', creditSaleId)],
+          orderBy: [{ column: 'installmentnumber' }],
+          embed: INSTALLMENT_EMBEDS,
+        });
+        return rows.map(mappers.mapInstallment);
+      },
+      async updateInstallment(installmentId, updates) {
+        return mappers.mapInstallment(await updateById('installments', installmentId, mappers.toInstallmentRow(updates), INSTALLMENT_EMBEDS));
+      },
+      async payInstallment(installmentId, paymentMethod, paidDate, amount, lateCharges) {
+        const row = await source.rpc('pay_installment', {
+          p_installment_id: installmentId,
+          p_payment_method: paymentMethod,
+          p_paid_date: paidDate,
+          p_amount: amount ?? null,
+          p_late_fee: lateCharges?.lateFee || 0,
+          p_interest: lateCharges?.interest || 0,
+        });
+        return mappers.mapCreditSale(row);
+      },
+      async markOverdueInstallments(today) {
+        await source.update(
+          'installments',
+          { status: InstallmentStatus.Overdue },
+          [isIn('status', [InstallmentStatus.Pending, InstallmentStatus.PartiallyPaid]), lt('duedate', today)]
+        );
+      },
+      async cancel(creditSaleId, reason, returnProducts) {
+        const row = await source.rpc('cancel_credit_sale', {
+          p_credit_sale_id: creditSaleId,
+          p_reason: reason,
+          p_return_products: returnProducts,
+        });
+        return mappers.mapCreditSale(row);
+      },
+      async renegotiate(creditSaleId, installments, reason) {
+        const row = await source.rpc('renegotiate_credit_sale', {
+          p_credit_sale_id: creditSaleId,
+          p_installments: installments.map(installment => ({ amount: installment.amount, duedate: installment.dueDate })),
+          p_reason: reason || null,
+        });
+        return mappers.mapCreditSale(row);
+      },
+      async writeOff(creditSaleId, reason) {
+        const row = await source.rpc('write_off_credit_sale', { p_credit_sale_id: creditSaleId, p_reason: reason });
+        return mappers.mapCreditSale(row);
+      },
+      async addEvent(event) {
+        const [row] = await source.insert('credit_sale_events', [mappers.toCreditSaleEventRow(event)]);
+        return mappers.mapCreditSaleEvent(row);
+      },
+    },
+
+    clients: {
+      async list() {
+        const rows = await source.select('clients', { orderBy: [{ column: 'fullname' }] });
+        return rows.map(mappers.mapClient);
+      },
+      async findById(clientId) {
+        const [row] = await source.select('clients', { filters: [eq('id', clientId)], limit: 1 });
+        return row ? mappers.mapClient(row) : undefined;
+      },
+      async create(client) {
+        return mappers.mapClient(await insertOne('clients', mappers.toClientRow(client)));
+      },
+      async createMany(clients) {
+        if (clients.length === 0) return [];
+        const rows = await source.insert('clients', clients.map(mappers.toClientRow));
+        return rows.map(mappers.mapClient);
+      },
+      async update(clientId, client) {
+        return mappers.mapClient(await updateById('clients', clientId, mappers.toClientRow(client)));
+      },
+      async remove(clientId) {
+        await removeById('clients', clientId);
+      },
+      async renameReferences(clientId, fullName, whatsapp) {
+        await renameClientIn('transactions', clientId, fullName, whatsapp);
+        await renameClientIn('appointments', clientId, fullName, whatsapp);
+        await renameClientIn('credit_sales', clientId, fullName, whatsapp);
+      },
+      async merge(survivorId, duplicateId) {
+        const row = await source.rpc('merge_clients', { p_survivor_id: survivorId, p_duplicate_id: duplicateId });
+        return mappers.mapClient(row);
+      },
+    },
+
+    expenses: {
+      async list() {
+        const rows = await source.select('expenses', { orderBy: [{ column: 'date', ascending: false }] });
+        return rows.map(mappers.mapExpense);
+      },
+      async create(expense) {
+        return mappers.mapExpense(await insertOne('expenses', mappers.toExpenseRow(expense)));
+      },
+      async update(expenseId, expense) {
+        return mappers.mapExpense(await updateById('expenses', expenseId, mappers.toExpenseRow(expense)));
+      },
+      async remove(expenseId) {
+        await removeById('expenses', expenseId);
+      },
+    },
+
+    expenseCategories: {
+      async list() {
+        const rows = await source.select('expense_categories', { orderBy: [{ column: 'name' }] });
+        return rows.map(mappers.mapExpenseCategory);
+      },
+      async create(category) {
+        return mappers.mapExpenseCategory(await insertOne('expense_categories', mappers.toExpenseCategoryRow(category)));
+      },
+      async update(categoryId, category) {
+        return mappers.mapExpenseCategory(await updateById('expense_categories', categoryId, mappers.toExpenseCategoryRow(category)));
+      },
+      async remove(categoryId) {
+        await removeById('expense_categories', categoryId);
+      },
+    },
+
+    commissions: {
+      async listRules() {
+        const rows = await source.select('commission_rules');
+        return rows.map(mappers.mapCommissionRule);
+      },
+      async createRule(rule) {
+        return mappers.mapCommissionRule(await insertOne('commission_rules', mappers.toCommissionRuleRow(rule)));
+      },
+      async updateRulePercentage(ruleId, percentage) {
+        return mappers.mapCommissionRule(await updateById('commission_rules', ruleId, { percentage }));
+      },
+      async removeRule(ruleId) {
+        await removeById('commission_rules', ruleId);
+      },
+      async listAdvances() {
+        const rows = await source.select('professional_advances', { orderBy: [{ column: 'date', ascending: false }] });
+        return rows.map(mappers.mapProfessionalAdvance);
+      },
+      async createAdvance(advance) {
+        return mappers.mapProfessionalAdvance(await insertOne('professional_advances', mappers.toProfessionalAdvanceRow(advance)));
+      },
+      async removeAdvance(advanceId) {
+        await removeById('professional_advances', advanceId);
+      },
+      async listPayouts() {
+        const rows = await source.select('professional_payouts', { orderBy: [{ column: 'period_end', ascending: false }] });
+        return rows.map(mappers.mapProfessionalPayout);
+      },
+      async createPayout(payout) {
+        return mappers.mapProfessionalPayout(await insertOne('professional_payouts', mappers.toProfessionalPayoutRow(payout)));
+      },
+      async removePayout(payoutId) {
+        await removeById('professional_payouts', payoutId);
+      },
+    },
+
+    loyalty: {
+      async listEntries() {
+        const rows = await source.select('loyalty_entries', { orderBy: [{ column: 'date', ascending: false }, { column: 'id', ascending: false }] });
+        return rows.map(mappers.mapLoyaltyEntry);
+      },
+      async addEntries(entries) {
+        if (entries.length === 0) return [];
+        const rows = await source.insert('loyalty_entries', entries.map(mappers.toLoyaltyEntryRow));
+        return rows.map(mappers.mapLoyaltyEntry);
+      },
+      async removeEarnedEntries(transactionId) {
+        await source.remove('loyalty_entries', [eq('transaction_id', transactionId), eq('entry_type', 'earned')]);
+      },
+    },
+
+    cashRegister: {
+      async listSessions() {
+        const rows = await source.select('cash_sessions', {
+          orderBy: [{ column: 'opened_at', ascending: false }],
+          embed: CASH_SESSION_EMBEDS,
+        });
+        return rows.map(mappers.mapCashSession);
+      },
+      async openSession(openingAmount, notes) {
+        return mappers.mapCashSession(await insertOne('cash_sessions', {
+          opened_at: new Date().toISOString(),
+          opening_amount: openingAmount,
+          notes: notes || null,
+        }));
+      },
+      // O fechamento grava a conferência (vendas em dinheiro, esperado e contado) como estava no momento
+      async closeSession(sessionId, closing) {
+        return mappers.mapCashSession(await updateById('cash_sessions', sessionId, {
+          closed_at: new Date().toISOString(),
+          cash_sales_amount: closing.cashSalesAmount,
+          expected_amount: closing.expectedAmount,
+          counted_amount: closing.countedAmount,
+          ...(closing.notes !== undefined ? { notes: closing.notes || null } : {}),
+        }, CASH_SESSION_EMBEDS));
+      },
+      async addMovement(sessionId, type, amount, description) {
+        return mappers.mapCashMovement(await insertOne('cash_movements', {
+          session_id: sessionId,
+          movement_type: type,
+          amount,
+          description: description || null,
+        }));
+      },
+      async removeMovement(movementId) {
+        await removeById('cash_movements', movementId);
+      },
+    },
+
+    settings: {
+      async getSystemSettings() {
+        const [row] = await source.select('system_settings', { filters: [eq('id', SYSTEM_SETTINGS_ID)], limit: 1 });
+        return row ? mappers.mapSystemSettings(row) : undefined;
+      },
+      async saveSystemSettings(settings) {
+        await source.upsert('system_settings', { id: SYSTEM_SETTINGS_ID, ...mappers.toSystemSettingsRow(settings) }, 'id');
+      },
+      async listBusinessHours() {
+        const rows = await source.select('business_hours', { orderBy: [{ column: 'weekday' }] });
+        return rows.map(mappers.mapBusinessHours);
+      },
+      async saveBusinessHours(hours) {
+        await source.upsert('business_hours', mappers.toBusinessHoursRow(hours), 'weekday');
+      },
+      async listPaymentFees() {
+        const rows = await source.select('payment_method_fees');
+        return rows.map(mappers.mapPaymentMethodFee);
+      },
+      async savePaymentFee(fee) {
+        await source.upsert('payment_method_fees', mappers.toPaymentMethodFeeRow(fee), 'method');
+      },
+    },
+  };
+};
@@ -0,0 +1,63 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DataSource, DataSourceError, Embed, Filter, Row } from './dataSource.ts';
+
+const buildColumns = (embed?: Embed[]): string => {
+  if (!embed || embed.length === 0) return '*';
+  return ['*', ...embed.map(e => `${e.table}(*)`)].join(', ');
+};
+
+const applyFilters = <T extends { [key: string]: any }>(query: T, filters: Filter[] = []): T => {
+  return filters.reduce((q: any, filter) => {
+    if (filter.operator === 'in') return q.in(filter.column, filter.value);
+    return q[filter.operator](filter.column, filter.value);
+  }, query);
+};
+
+// Mantém a mensagem original: erros de rede ("Failed to fetch") alimentam a fila offline
+const toError = (error: { message: string; code?: string }): DataSourceError => {
+  return new DataSourceError(error.message, error.code);
+};
+
+export const createSupabaseDataSource = (client: SupabaseClient): DataSource => ({
+  async select(table, options = {}) {
+    let query: any = applyFilters(client.from(table).select(buildColumns(options.embed)), options.filters);
+    (options.orderBy || []).forEach(order => {
+      query = query.order(order.column, { ascending: order.ascending !== false });
+    });
+    if (options.limit !== undefined) query = query.limit(options.limit);
+
+    const { data, error } = await query;
+    if (error) throw toError(error);
+    return (data || []) as Row[];
+  },
+
+  async insert(table, rows, options = {}) {
+    const { data, error } = await client.from(table).insert(rows).select(buildColumns(options.embed));
+    if (error) throw toError(error);
+    return (data || []) as Row[];
+  },
+
+  async update(table, values, filters, options = {}) {
+    const { data, error } = await applyFilters(client.from(table).update(values), filters).select(buildColumns(options.embed));
+    if (error) throw toError(error);
+    return (data || []) as Row[];
+  },
+
+  async remove(table, filters) {
+    const { data, error } = await applyFilters(client.from(table).delete(), filters).select('*');
+    if (error) throw toError(error);
+    return (data || []) as Row[];
+  },
+
+  async upsert(table, row, onConflict) {
+    const { data, error } = await client.from(table).upsert(row, { onConflict }).select().single();
+    if (error) throw toError(error);
+    return data as Row;
+  },
+
+  async rpc(fn, params) {
+    const { data, error } = await client.rpc(fn, params);
+    if (error) throw toError(error);
+    return data;
+  },
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { Client, Transaction } from '../types.ts';
+import { createMemoryDataSource } from '../repositories/memoryDataSource.ts';
+import { createRepositories } from '../repositories/repositories.ts';
+import {
+  BirthdayRules,
+  buildBirthdayMessage,
+  getBirthdayDiscount,
+  getBirthdayInYear,
+  getUpcomingBirthdays,
+  isBirthdayDiscountAvailable,
+  isBirthdayMonth,
+} from './birthdayService.ts';
+import { buildClientsCsv, buildImportRows, guessColumnMapping, parseClientImportFile } from './clientImportService.ts';
+
+const rules: BirthdayRules = {
+  birthdayMessageTemplate: 'Parabéns, {nome}! {desconto}',
+  birthdayDiscountEnabled: true,
+  birthdayDiscountPercentage: 10,
+};
+
+const client = (id: number, fullName: string, birthDate?: string, nickname?: string): Client => ({
+  id,
+  fullName,
+  whatsapp: '(11) 99999-0000',
+  birthDate,
+  nickname,
+});
+
+describe('getBirthdayInYear', () => {
+  it('quem nasceu em 29/02 comemora em 28/02 nos anos não bissextos', () => {
+    expect(getBirthdayInYear('2000-02-29', 2023)).toBe('2023-02-28');
+    expect(getBirthdayInYear('2000-02-29', 2024)).toBe('2024-02-29');
+    expect(getBirthdayInYear('1990-05-17', 2024)).toBe('2024-05-17');
+  });
+
+  it('compara só o mês do aniversário', () => {
+    expect(isBirthdayMonth('1990-05-17', '2024-05-01')).toBe(true);
+    expect(isBirthdayMonth('1990-05-17', '2024-06-17')).toBe(false);
+    expect(isBirthdayMonth(undefined, '2024-05-01')).toBe(false);
+  });
+});
+
+describe('getUpcomingBirthdays', () => {
+  it('lista os aniversários dos próximos 7 dias, atravessando o ano', () => {
+    const clients = [
+      client(1, 'Ana Souza', '1990-01-02'),
+      client(2, 'Bruno Lima', '1985-12-28'),
+      client(3, 'Carla Dias', '2000-12-27'),
+      client(4, 'Diego Alves', '1995-01-03'),
+      client(5, 'Sem Data'),
+    ];
+
+    expect(getUpcomingBirthdays(clients, '2024-12-28').map(birthday => [birthday.client.id, birthday.date, birthday.age, birthday.daysUntil])).toEqual([
+      [2, '2024-12-28', 39, 0],
+      [1, '2025-01-02', 35, 5],
+      [4, '2025-01-03', 30, 6],
+    ]);
+  });
+});
+
+describe('desconto de aniversário', () => {
+  const birthdayClient = client(1, 'Ana Souza', '1990-03-20');
+  const pastTransaction = (date: string, birthdayDiscount?: number): Transaction => ({
+    id: 1,
+    date,
+    clientName: 'Ana Souza',
+    clientId: 1,
+    service: 'Corte',
+    paymentMethod: 'PIX',
+    subtotal: 50,
+    discount: birthdayDiscount || 0,
+    value: 50 - (birthdayDiscount || 0),
+    birthdayDiscount,
+  });
+
+  it('calcula o desconto sobre o subtotal', () => {
+    expect(getBirthdayDiscount(45.5, rules)).toBe(4.55);
+  });
+
+  it('vale no mês do aniversário e só uma vez', () => {
+    expect(isBirthdayDiscountAvailable(birthdayClient, '2024-03-02', [], rules)).toBe(true);
+    expect(isBirthdayDiscountAvailable(birthdayClient, '2024-04-02', [], rules)).toBe(false);
+    expect(isBirthdayDiscountAvailable(birthdayClient, '2024-03-25', [pastTransaction('2024-03-02', 5)], rules)).toBe(false);
+    expect(isBirthdayDiscountAvailable(birthdayClient, '2024-03-25', [pastTransaction('2024-03-02')], rules)).toBe(true);
+    expect(isBirthdayDiscountAvailable(birthdayClient, '2025-03-01', [pastTransaction('2024-03-02', 5)], rules)).toBe(true);
+  });
+
+  it('não vale com o desconto desligado ou sem cliente cadastrado', () => {
+    expect(isBirthdayDiscountAvailable(birthdayClient, '2024-03-02', [], { ...rules, birthdayDiscountEnabled: false })).toBe(false);
+    expect(isBirthdayDiscountAvailable(birthdayClient, '2024-03-02', [], { ...rules, birthdayDiscountPercentage: 0 })).toBe(false);
+    expect(isBirthdayDiscountAvailable(null, '2024-03-02', [], rules)).toBe(false);
+  });
+});
+
+describe('buildBirthdayMessage', () => {
+  it('usa o apelido ou o primeiro nome e o aviso do desconto', () => {
+    expect(buildBirthdayMessage(client(1, 'Ana Souza', '1990-03-20'), rules))
+      .toBe('Parabéns, Ana! Neste mês você tem 10% de desconto no seu atendimento!');
+    expect(buildBirthdayMessage(client(2, 'Bruno Lima', '1985-12-28', 'Bruninho'), { ...rules, birthdayDiscountEnabled: false }))
+      .toBe('Parabéns, Bruninho!');
+  });
+});
+
+describe('data de nascimento no cadastro', () => {
+  it('importa e exporta a data no CSV e no vCard', () => {
+    const csv = 'Nome;WhatsApp;Nascimento\nAna Souza;11999990000;17/05/90\nBruno Lima;11988880000;31/02/1990\nCarla Dias;11977770000;--0517';
+    const table = parseClientImportFile('clientes.csv', csv);
+    const rows = buildImportRows(table, guessColumnMapping(table.headers), []);
+    expect(rows.map(row => [row.status, row.client.birthDate])).toEqual([
+      ['new', '1990-05-17'],
+      ['invalid', undefined],
+      ['new', undefined],
+    ]);
+
+    const exported = buildClientsCsv([client(1, 'Ana Souza', '1990-05-17')]);
+    expect(exported.split('\n')[1]).toContain(';17/05/1990;');
+    const vcard = parseClientImportFile('agenda.vcf', 'BEGIN:VCARD\r\nFN:Ana Souza\r\nTEL:11999990000\r\nBDAY:19900517\r\nEND:VCARD');
+    expect(buildImportRows(vcard, guessColumnMapping(vcard.headers), [])[0].client.birthDate).toBe('1990-05-17');
+  });
+
+  it('na mescla o cliente mantido recebe a data do duplicado', async () => {
+    const repositories = createRepositories(createMemoryDataSource());
+    const survivor = await repositories.clients.create({ fullName: 'Ana Souza', whatsapp: '11999990000' });
+    const duplicate = await repositories.clients.create({ fullName: 'Ana Sousa', whatsapp: '11988880000', birthDate: '1990-05-17' });
+
+    const merged = await repositories.clients.merge(survivor.id, duplicate.id);
+
+    expect(merged.birthDate).toBe('1990-05-17');
+  });
+});
@@ -0,0 +1,77 @@
+import { Client, SystemSettings, Transaction } from '../types.ts';
+import { addDaysToDate, getDaysBetween } from './dateService.ts';
+
+export type BirthdayRules = Pick<SystemSettings, 'birthdayMessageTemplate' | 'birthdayDiscountEnabled' | 'birthdayDiscountPercentage'>;
+
+export interface UpcomingBirthday {
+  client: Client;
+  date: string; // YYYY-MM-DD - Dia do aniversário neste ano
+  age: number; // Idade que o cliente completa
+  daysUntil: number; // 0 = hoje
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const isLeapYear = (year: number): boolean => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+// Dia do aniversário em um ano; quem nasceu em 29/02 comemora em 28/02 nos anos não bissextos
+export const getBirthdayInYear = (birthDate: string, year: number): string => {
+  const [, month, day] = birthDate.split('-');
+  const birthdayDay = month === '02' && day === '29' && !isLeapYear(year) ? '28' : day;
+  return `${year}-${month}-${birthdayDay}`;
+};
+
+export const isBirthdayMonth = (birthDate: string | undefined, date: string): boolean =>
+  !!birthDate && birthDate.slice(5, 7) === date.slice(5, 7);
+
+// Aniversariantes de hoje até os próximos dias (padrão: 7 dias), do mais próximo ao mais distante
+export const getUpcomingBirthdays = (clients: Client[], today: string, days: number = 7): UpcomingBirthday[] => {
+  const lastDay = addDaysToDate(today, days - 1);
+  const year = Number(today.slice(0, 4));
+
+  return clients
+    .filter(client => !!client.birthDate)
+    .map(client => {
+      // Perto do fim do ano, o aniversário pode cair em janeiro do ano seguinte
+      let date = getBirthdayInYear(client.birthDate!, year);
+      if (date < today) date = getBirthdayInYear(client.birthDate!, year + 1);
+      return {
+        client,
+        date,
+        age: Number(date.slice(0, 4)) - Number(client.birthDate!.slice(0, 4)),
+        daysUntil: getDaysBetween(today, date),
+      };
+    })
+    .filter(birthday => birthday.date <= lastDay)
+    .sort((a, b) => a.daysUntil - b.daysUntil || a.client.fullName.localeCompare(b.client.fullName));
+};
+
+export const getBirthdayDiscount = (subtotal: number, rules: BirthdayRules): number =>
+  roundCurrency(subtotal * rules.birthdayDiscountPercentage / 100);
+
+// Desconto automático: mês do aniversário e só um por ano (atendimentos anteriores no mesmo mês já com o desconto)
+export const isBirthdayDiscountAvailable = (
+  client: Client | null | undefined,
+  date: string,
+  transactions: Transaction[],
+  rules: BirthdayRules
+): boolean => {
+  if (!client || !rules.birthdayDiscountEnabled || rules.birthdayDiscountPercentage <= 0) return false;
+  if (!isBirthdayMonth(client.birthDate, date)) return false;
+  const month = date.slice(0, 7);
+  return !transactions.some(transaction =>
+    transaction.clientId === client.id && !!transaction.birthdayDiscount && transaction.date.slice(0, 7) === month
+  );
+};
+
+// Mensagem de parabéns a partir do modelo: {nome} = apelido ou primeiro nome, {desconto} = aviso do desconto
+export const buildBirthdayMessage = (client: Client, rules: BirthdayRules): string => {
+  const name = client.nickname || client.fullName.split(' ')[0];
+  const discountText = rules.birthdayDiscountEnabled && rules.birthdayDiscountPercentage > 0
+    ? `Neste mês você tem ${String(rules.birthdayDiscountPercentage).replace('.', ',')}% de desconto no seu atendimento!`
+    : '';
+  return rules.birthdayMessageTemplate
+    .replace(/\{nome\}/g, name)
+    .replace(/\{desconto\}/g, discountText)
+    .trim();
+};
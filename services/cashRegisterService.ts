@@ -0,0 +1,54 @@
+import { CashSession, PaymentMethod, Transaction } from '../types.ts';
+import { getTransactionPayments } from './transactionPaymentsService.ts';
+
+export interface CashSessionSummary {
+  openingAmount: number;
+  cashSales: number; // Pagamentos em dinheiro registrados durante a sessão
+  deposits: number; // Suprimentos
+  withdrawals: number; // Sangrias
+  expectedAmount: number;
+  countedAmount?: number;
+  difference?: number; // Contado - esperado (negativo = falta)
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Transações registradas entre a abertura e o fechamento (ou agora, se o caixa está aberto)
+export const getSessionTransactions = (session: CashSession, transactions: Transaction[]): Transaction[] => {
+  const start = new Date(session.openedAt).getTime();
+  const end = session.closedAt ? new Date(session.closedAt).getTime() : Date.now();
+  return transactions.filter(transaction => {
+    if (!transaction.created_at) return false;
+    const createdAt = new Date(transaction.created_at).getTime();
+    return createdAt >= start && createdAt <= end;
+  });
+};
+
+export const getSessionCashSales = (session: CashSession, transactions: Transaction[]): number => {
+  return roundCurrency(getSessionTransactions(session, transactions).reduce((sum, transaction) =>
+    sum + getTransactionPayments(transaction)
+      .filter(payment => payment.method === PaymentMethod.Cash)
+      .reduce((acc, payment) => acc + payment.amount, 0), 0));
+};
+
+// Conferência do caixa: fundo + vendas em dinheiro + suprimentos - sangrias.
+// Sessões fechadas usam as vendas apuradas no fechamento, mesmo que transações tenham sido editadas depois.
+export const buildCashSessionSummary = (
+  session: CashSession,
+  transactions: Transaction[],
+  countedAmount: number | undefined = session.countedAmount
+): CashSessionSummary => {
+  const cashSales = session.cashSalesAmount ?? getSessionCashSales(session, transactions);
+  const deposits = roundCurrency(session.movements.filter(m => m.type === 'deposit').reduce((sum, m) => sum + m.amount, 0));
+  const withdrawals = roundCurrency(session.movements.filter(m => m.type === 'withdrawal').reduce((sum, m) => sum + m.amount, 0));
+  const expectedAmount = roundCurrency(session.openingAmount + cashSales + deposits - withdrawals);
+  return {
+    openingAmount: session.openingAmount,
+    cashSales,
+    deposits,
+    withdrawals,
+    expectedAmount,
+    countedAmount,
+    difference: countedAmount !== undefined ? roundCurrency(countedAmount - expectedAmount) : undefined,
+  };
+};
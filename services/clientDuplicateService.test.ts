@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Client } from '../types.ts';
+import {
+  findClientByName,
+  findDuplicateClientGroups,
+  findDuplicateClients,
+  normalizeClientName,
+  normalizeWhatsApp,
+} from './clientDuplicateService.ts';
+
+const clients: Client[] = [
+  { id: 1, fullName: 'João da Silva', whatsapp: '(11) 99999-0000', cpf: '123.456.789-00' },
+  { id: 2, fullName: 'Pedro Lima', whatsapp: '(21) 98888-7777' },
+  { id: 3, fullName: 'Joao Silvva', whatsapp: '(31) 97777-6666' },
+  { id: 4, fullName: 'Marcos Souza', whatsapp: '+55 21 8888-7777' },
+];
+
+describe('normalização', () => {
+  it('compara o WhatsApp pelo DDD e os 8 últimos dígitos', () => {
+    expect(normalizeWhatsApp('(11) 99999-0000')).toBe('1199990000');
+    expect(normalizeWhatsApp('+55 11 9999-0000')).toBe('1199990000');
+    expect(normalizeWhatsApp('9999-0000')).toBe('');
+  });
+
+  it('ignora acentos, caixa, pontuação e preposições no nome', () => {
+    expect(normalizeClientName('  João   da Silva ')).toBe('joao silva');
+    expect(normalizeClientName("D'Ávila dos Santos")).toBe('d avila santos');
+  });
+});
+
+describe('findDuplicateClients', () => {
+  it('acha pelo WhatsApp, CPF e nome parecido, com WhatsApp e CPF primeiro', () => {
+    const matches = findDuplicateClients({ fullName: 'João Silva', whatsapp: '11 9999-0000', cpf: '12345678900' }, clients);
+    expect(matches.map(match => [match.client.id, match.reasons])).toEqual([
+      [1, ['whatsapp', 'cpf', 'name']],
+      [3, ['name']],
+    ]);
+  });
+
+  it('ignora o próprio cliente ao editar', () => {
+    expect(findDuplicateClients(clients[1], clients, 2)).toEqual([
+      { client: clients[3], reasons: ['whatsapp'] },
+    ]);
+  });
+
+  it('nomes diferentes não são duplicados', () => {
+    expect(findDuplicateClients({ fullName: 'Ricardo Alves', whatsapp: '(41) 96666-5555' }, clients)).toEqual([]);
+  });
+});
+
+describe('findClientByName', () => {
+  it('prefere o nome igual e depois o nome normalizado', () => {
+    expect(findClientByName(clients, 'joão da silva')?.id).toBe(1);
+    expect(findClientByName(clients, 'JOAO SILVA')?.id).toBe(1);
+    expect(findClientByName(clients, '  ')).toBeNull();
+    expect(findClientByName(clients, 'Ricardo')).toBeNull();
+  });
+});
+
+describe('findDuplicateClientGroups', () => {
+  it('agrupa os cadastros ligados por qualquer motivo', () => {
+    const groups = findDuplicateClientGroups(clients);
+    expect(groups.map(group => group.map(client => client.id).sort())).toEqual(expect.arrayContaining([[1, 3], [2, 4]]));
+    expect(groups).toHaveLength(2);
+  });
+});
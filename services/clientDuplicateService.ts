@@ -0,0 +1,157 @@
+import { Client } from '../types.ts';
+
+export type ClientDuplicateReason = 'whatsapp' | 'cpf' | 'name';
+
+export const CLIENT_DUPLICATE_REASON_LABELS: Record<ClientDuplicateReason, string> = {
+  whatsapp: 'Mesmo WhatsApp',
+  cpf: 'Mesmo CPF',
+  name: 'Nome parecido',
+};
+
+export interface ClientDuplicateMatch {
+  client: Client;
+  reasons: ClientDuplicateReason[];
+}
+
+type ClientIdentity = Pick<Client, 'fullName' | 'whatsapp' | 'cpf'>;
+
+// Cadastro bloqueado porque já existe cliente com o mesmo WhatsApp, CPF ou nome parecido
+export class DuplicateClientError extends Error {
+  matches: ClientDuplicateMatch[];
+
+  constructor(matches: ClientDuplicateMatch[]) {
+    const names = matches.map(match => match.client.fullName).join(', ');
+    super(`Já existe cliente parecido cadastrado: ${names}.`);
+    this.name = 'DuplicateClientError';
+    this.matches = matches;
+  }
+}
+
+// Semelhança mínima entre os nomes (0 a 1) para sugerir que é o mesmo cliente
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// Preposições ignoradas na comparação ("João da Silva" = "João Silva")
+const NAME_CONNECTORS = new Set(['da', 'das', 'de', 'do', 'dos', 'e']);
+
+// WhatsApp comparado pelo DDD e os 8 últimos dígitos: ignora +55, máscara e o 9 adicional do celular
+export const normalizeWhatsApp = (whatsapp?: string): string => {
+  let numbers = (whatsapp || '').replace(/\D/g, '');
+  if (numbers.length > 11 && numbers.startsWith('55')) numbers = numbers.slice(2);
+  if (numbers.length < 10) return '';
+  return `${numbers.slice(0, 2)}${numbers.slice(-8)}`;
+};
+
+export const normalizeCPF = (cpf?: string): string => {
+  const numbers = (cpf || '').replace(/\D/g, '');
+  return numbers.length === 11 ? numbers : '';
+};
+
+// Minúsculas, sem acentos, sem preposições e com um espaço entre as palavras
+export const normalizeClientName = (name?: string): string =>
+  (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !NAME_CONNECTORS.has(word))
+    .join(' ');
+
+const getEditDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Nomes normalizados iguais ou com poucas letras de diferença ("joao silva" x "joao silvva")
+const isSimilarNormalizedName = (nameA: string, nameB: string): boolean => {
+  if (!nameA || !nameB) return false;
+  if (nameA === nameB) return true;
+
+  const longest = Math.max(nameA.length, nameB.length);
+  const maxDistance = Math.floor(longest * (1 - NAME_SIMILARITY_THRESHOLD));
+  if (maxDistance === 0 || Math.abs(nameA.length - nameB.length) > maxDistance) return false;
+  return getEditDistance(nameA, nameB) <= maxDistance;
+};
+
+interface NormalizedIdentity {
+  whatsapp: string;
+  cpf: string;
+  name: string;
+}
+
+const normalizeIdentity = (client: ClientIdentity): NormalizedIdentity => ({
+  whatsapp: normalizeWhatsApp(client.whatsapp),
+  cpf: normalizeCPF(client.cpf),
+  name: normalizeClientName(client.fullName),
+});
+
+const getDuplicateReasons = (a: NormalizedIdentity, b: NormalizedIdentity): ClientDuplicateReason[] => {
+  const reasons: ClientDuplicateReason[] = [];
+  if (a.whatsapp && a.whatsapp === b.whatsapp) reasons.push('whatsapp');
+  if (a.cpf && a.cpf === b.cpf) reasons.push('cpf');
+  if (isSimilarNormalizedName(a.name, b.name)) reasons.push('name');
+  return reasons;
+};
+
+// Clientes já cadastrados que parecem ser a mesma pessoa (WhatsApp e CPF primeiro, depois nome)
+export const findDuplicateClients = (candidate: ClientIdentity, clients: Client[], ignoreClientId?: number): ClientDuplicateMatch[] => {
+  const identity = normalizeIdentity(candidate);
+  return clients
+    .filter(client => client.id !== ignoreClientId)
+    .map(client => ({ client, reasons: getDuplicateReasons(identity, normalizeIdentity(client)) }))
+    .filter(match => match.reasons.length > 0)
+    .sort((a, b) =>
+      Number(b.reasons.some(reason => reason !== 'name')) - Number(a.reasons.some(reason => reason !== 'name'))
+      || b.reasons.length - a.reasons.length
+      || a.client.fullName.localeCompare(b.client.fullName)
+    );
+};
+
+// Busca pelo nome: primeiro o nome igual, depois o nome normalizado (ignora acentos e espaços extras)
+export const findClientByName = (clients: Client[], name: string): Client | null => {
+  const normalized = normalizeClientName(name);
+  if (!normalized) return null;
+  const lowerName = name.trim().toLowerCase();
+  return clients.find(client => client.fullName.trim().toLowerCase() === lowerName)
+    || clients.find(client => normalizeClientName(client.fullName) === normalized)
+    || null;
+};
+
+// Grupos de cadastros que parecem duplicados, para a tela de mesclar clientes
+export const findDuplicateClientGroups = (clients: Client[]): Client[][] => {
+  const parent = new Map<number, number>(clients.map(client => [client.id, client.id]));
+  const findRoot = (id: number): number => {
+    const next = parent.get(id)!;
+    if (next === id) return id;
+    const root = findRoot(next);
+    parent.set(id, root);
+    return root;
+  };
+
+  const identities = clients.map(normalizeIdentity);
+  clients.forEach((client, index) => {
+    for (let otherIndex = index + 1; otherIndex < clients.length; otherIndex++) {
+      if (getDuplicateReasons(identities[index], identities[otherIndex]).length > 0) {
+        parent.set(findRoot(clients[otherIndex].id), findRoot(client.id));
+      }
+    }
+  });
+
+  const groups = new Map<number, Client[]>();
+  clients.forEach(client => {
+    const root = findRoot(client.id);
+    groups.set(root, [...(groups.get(root) || []), client]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => [...group].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || '') || a.id - b.id));
+};
@@ -0,0 +1,55 @@
+import { Client } from '../types.ts';
+
+// Capitaliza palavras maiores que 3 letras ("joão da silva" -> "João da Silva")
+export const capitalizeWords = (text: string): string => {
+  if (!text) return text;
+
+  return text
+    .toLowerCase()
+    .split(' ')
+    .map(word => (word.length > 3 ? word.charAt(0).toUpperCase() + word.slice(1) : word))
+    .join(' ');
+};
+
+// WhatsApp no formato (87) 99155-6444; com outro tamanho volta sem formatação (validado em outro lugar)
+export const formatWhatsApp = (whatsapp: string): string => {
+  if (!whatsapp) return whatsapp;
+
+  const numbers = whatsapp.replace(/\D/g, '');
+  if (numbers.length === 10) {
+    // (DDD) XXXX-XXXX
+    return `(${numbers.slice(0, 2)}) ${numbers.slice(2, 6)}-${numbers.slice(6)}`;
+  }
+  if (numbers.length === 11) {
+    // (DDD) 9XXXX-XXXX
+    return `(${numbers.slice(0, 2)}) ${numbers.slice(2, 7)}-${numbers.slice(7)}`;
+  }
+  return whatsapp;
+};
+
+// CPF no formato 116.438.494-50; com outro tamanho volta sem formatação (validado em outro lugar)
+export const formatCPF = (cpf: string): string => {
+  if (!cpf) return cpf;
+
+  const numbers = cpf.replace(/\D/g, '');
+  if (numbers.length === 11) {
+    return `${numbers.slice(0, 3)}.${numbers.slice(3, 6)}.${numbers.slice(6, 9)}-${numbers.slice(9)}`;
+  }
+  return cpf;
+};
+
+// WhatsApp com DDD: 10 ou 11 dígitos
+export const isValidWhatsApp = (whatsapp: string): boolean => /^\(\d{2}\) \d{4,5}-\d{4}$/.test(formatWhatsApp(whatsapp || ''));
+
+export const isValidCPF = (cpf: string): boolean => /^\d{3}\.\d{3}\.\d{3}-\d{2}$/.test(formatCPF(cpf || ''));
+
+// Dados do cliente como são gravados: nomes capitalizados, WhatsApp e CPF formatados
+export const formatClientData = (client: Omit<Client, 'id' | 'created_at'>): Omit<Client, 'id' | 'created_at'> => ({
+  fullName: capitalizeWords(client.fullName),
+  whatsapp: formatWhatsApp(client.whatsapp),
+  nickname: client.nickname ? capitalizeWords(client.nickname) : undefined,
+  observation: client.observation ? capitalizeWords(client.observation) : undefined,
+  cpf: client.cpf ? formatCPF(client.cpf) : undefined,
+  creditLimit: client.creditLimit,
+  birthDate: client.birthDate,
+});
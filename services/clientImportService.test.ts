@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { Client } from '../types.ts';
+import {
+  buildClientsCsv,
+  buildClientsVCard,
+  buildImportRows,
+  guessColumnMapping,
+  parseClientImportFile,
+  parseCsv,
+} from './clientImportService.ts';
+
+const existingClients: Client[] = [
+  { id: 1, fullName: 'João da Silva', whatsapp: '(11) 99999-0000' },
+];
+
+const importCsv = (text: string) => {
+  const table = parseClientImportFile('clientes.csv', text);
+  return buildImportRows(table, guessColumnMapping(table.headers), existingClients);
+};
+
+describe('parseCsv', () => {
+  it('detecta o separador e respeita aspas', () => {
+    expect(parseCsv('\ufeffNome;Obs\r\n"Silva; João";"disse ""oi"""\r\n\r\n')).toEqual([
+      ['Nome', 'Obs'],
+      ['Silva; João', 'disse "oi"'],
+    ]);
+    expect(parseCsv('name,phone\nPedro,21988887777')).toEqual([['name', 'phone'], ['Pedro', '21988887777']]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('reconhece os cabeçalhos comuns, com ou sem acento', () => {
+    const mapping = guessColumnMapping(['Celular', 'Nome completo', 'Observação', 'Limite no fiado', 'Coluna extra']);
+    expect(mapping).toMatchObject({ fullName: 1, whatsapp: 0, observation: 2, creditLimit: 3, nickname: null, cpf: null });
+  });
+});
+
+describe('buildImportRows', () => {
+  it('formata os clientes novos como serão gravados', () => {
+    const [row] = importCsv('Nome;WhatsApp;Limite\npedro  de lima;+55 21 98888-7777;R$ 1.500,00');
+    expect(row).toMatchObject({ line: 2, status: 'new', errors: [] });
+    expect(row.client).toMatchObject({ fullName: 'Pedro de Lima', whatsapp: '(21) 98888-7777', creditLimit: 1500 });
+  });
+
+  it('marca como inválidas as linhas sem nome, com WhatsApp ou CPF errado', () => {
+    const rows = importCsv('Nome;WhatsApp;CPF;Limite\n;21988887777;;\nAna;1234;;\nBia;21977776666;123;abc');
+    expect(rows.map(row => [row.status, row.errors])).toEqual([
+      ['invalid', ['Nome obrigatório']],
+      ['invalid', ['WhatsApp inválido (use DDD + número)']],
+      ['invalid', ['CPF inválido', 'Limite no fiado inválido']],
+    ]);
+  });
+
+  it('pula quem já está cadastrado ou repetido no arquivo e avisa nome parecido', () => {
+    const rows = importCsv([
+      'Nome;WhatsApp',
+      'Joao Silva;11 9999-0000',
+      'Pedro Lima;21988887777',
+      'Pedro Lima;21911112222',
+      'João da Silvva;31977776666',
+    ].join('\n'));
+    expect(rows.map(row => [row.status, row.duplicateOf, row.warning])).toEqual([
+      ['duplicate', 'João da Silva', undefined],
+      ['new', undefined, undefined],
+      ['duplicate', 'linha 3', undefined],
+      ['new', undefined, 'Nome parecido com João da Silva'],
+    ]);
+  });
+});
+
+describe('vCard', () => {
+  it('lê a agenda do celular preferindo o celular e decodificando quoted-printable', () => {
+    const table = parseClientImportFile('contatos.vcf', [
+      'BEGIN:VCARD',
+      'VERSION:2.1',
+      'N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Concei=C3=A7=C3=A3o;Maria;;;',
+      'TEL;HOME:1133334444',
+      'item1.TEL;CELL:+55 11 98888-7777',
+      'NICKNAME:Mari',
+      'END:VCARD',
+      'BEGIN:VCARD',
+      'FN:Pedro Lima',
+      'TEL:21977776666',
+      'NOTE:Cliente desde\\n2020',
+      'END:VCARD',
+    ].join('\r\n'));
+
+    expect(table.format).toBe('vcard');
+    expect(table.rows).toEqual([
+      ['Maria Conceição', '+55 11 98888-7777', 'Mari', '', ''],
+      ['Pedro Lima', '21977776666', '', 'Cliente desde\n2020', ''],
+    ]);
+    const rows = buildImportRows(table, guessColumnMapping(table.headers), []);
+    expect(rows.map(row => [row.line, row.status, row.client.whatsapp])).toEqual([
+      [1, 'new', '(11) 98888-7777'],
+      [2, 'new', '(21) 97777-6666'],
+    ]);
+  });
+});
+
+describe('exportação', () => {
+  const clients: Client[] = [
+    { id: 1, fullName: 'João da Silva', whatsapp: '(11) 99999-0000', nickname: 'Jota', observation: 'Prefere; Tesoura', creditLimit: 150 },
+    { id: 2, fullName: 'Pedro Lima', whatsapp: '(21) 98888-7777', cpf: '123.456.789-09' },
+  ];
+
+  it('gera CSV que a importação lê de volta', () => {
+    const table = parseClientImportFile('clientes.csv', buildClientsCsv(clients));
+    const rows = buildImportRows(table, guessColumnMapping(table.headers), []);
+    expect(rows.map(row => row.client)).toEqual([
+      expect.objectContaining({ fullName: 'João da Silva', whatsapp: '(11) 99999-0000', nickname: 'Jota', observation: 'Prefere; Tesoura', creditLimit: 150 }),
+      expect.objectContaining({ fullName: 'Pedro Lima', whatsapp: '(21) 98888-7777', cpf: '123.456.789-09' }),
+    ]);
+  });
+
+  it('gera vCard com o WhatsApp no formato internacional', () => {
+    const vcard = buildClientsVCard(clients);
+    expect(vcard).toContain('TEL;TYPE=CELL:+5511999990000');
+    expect(vcard).toContain('NOTE:Prefere\\; Tesoura');
+    const table = parseClientImportFile('agenda.vcf', vcard);
+    expect(table.rows.map(row => row[0])).toEqual(['João da Silva', 'Pedro Lima']);
+  });
+});
@@ -0,0 +1,382 @@
+import { Client } from '../types.ts';
+import { findDuplicateClients, normalizeClientName } from './clientDuplicateService.ts';
+import { formatClientData, isValidCPF, isValidWhatsApp } from './clientFormatService.ts';
+
+type NewClient = Omit<Client, 'id' | 'created_at'>;
+
+export type ClientImportField = 'fullName' | 'whatsapp' | 'nickname' | 'cpf' | 'birthDate' | 'observation' | 'creditLimit';
+
+export const CLIENT_IMPORT_FIELDS: ClientImportField[] = ['fullName', 'whatsapp', 'nickname', 'cpf', 'birthDate', 'observation', 'creditLimit'];
+
+export const CLIENT_IMPORT_FIELD_LABELS: Record<ClientImportField, string> = {
+  fullName: 'Nome completo',
+  whatsapp: 'WhatsApp',
+  nickname: 'Apelido',
+  cpf: 'CPF',
+  birthDate: 'Data de nascimento',
+  observation: 'Observação',
+  creditLimit: 'Limite no fiado',
+};
+
+// Coluna do arquivo usada em cada campo do cadastro (null = campo não importado)
+export type ClientImportMapping = Record<ClientImportField, number | null>;
+
+// Conteúdo do arquivo como tabela: a primeira linha do CSV vira o cabeçalho
+export interface ClientImportTable {
+  format: 'csv' | 'vcard';
+  headers: string[];
+  rows: string[][];
+}
+
+export type ClientImportStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface ClientImportRow {
+  line: number; // Linha do CSV ou número do contato no vCard
+  client: NewClient; // Já capitalizado e formatado, como será gravado
+  status: ClientImportStatus;
+  errors: string[];
+  duplicateOf?: string; // Cliente cadastrado (ou linha do arquivo) que já tem o mesmo WhatsApp, CPF ou nome
+  warning?: string; // Nome parecido com um cadastro, mas WhatsApp e CPF diferentes: importado mesmo assim
+}
+
+// Nomes de coluna reconhecidos automaticamente (sem acentos e em minúsculas)
+const FIELD_ALIASES: Record<ClientImportField, string[]> = {
+  fullName: ['nome completo', 'nome', 'cliente', 'name', 'full name'],
+  whatsapp: ['whatsapp', 'zap', 'celular', 'telefone', 'fone', 'tel', 'phone', 'mobile'],
+  nickname: ['apelido', 'nickname'],
+  cpf: ['cpf'],
+  birthDate: ['data de nascimento', 'nascimento', 'aniversario', 'birthday', 'birth date', 'bday'],
+  observation: ['observacao', 'observacoes', 'obs', 'nota', 'notas', 'note', 'notes'],
+  creditLimit: ['limite no fiado', 'limite fiado', 'limite', 'credit limit'],
+};
+
+const VCARD_HEADERS = ['Nome', 'Telefone', 'Apelido', 'Observação', 'Nascimento'];
+
+const normalizeHeader = (header: string): string =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Separador mais usado na primeira linha: ";" (Excel em português), "," ou tabulação
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const [mostUsed] = [';', ',', '\t']
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count);
+  return mostUsed.count > 0 ? mostUsed.delimiter : ';';
+};
+
+// CSV com aspas ("Silva; João") e aspas duplicadas dentro do valor
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\ufeff/, '');
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  row.push(value);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// Quoted-printable das agendas antigas (Android exporta "=C3=A3" para "ã")
+const decodeQuotedPrintable = (value: string): string => {
+  const bytes: number[] = [];
+  const text = value.replace(/=\r?\n/g, '');
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(text[i]));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+const unescapeVCardValue = (value: string): string =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1').trim();
+
+interface VCardContact {
+  name: string;
+  phones: { number: string; isMobile: boolean }[];
+  nickname: string;
+  note: string;
+  birthday: string;
+}
+
+// Contatos de um arquivo .vcf (um ou vários BEGIN:VCARD ... END:VCARD)
+export const parseVCards = (text: string): VCardContact[] => {
+  // Linhas dobradas: continuação começa com espaço; no quoted-printable a linha termina com "="
+  const lines = text
+    .replace(/^\ufeff/, '')
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .reduce<string[]>((joined, line) => {
+      const previous = joined[joined.length - 1];
+      if (previous !== undefined && /ENCODING=QUOTED-PRINTABLE/i.test(previous) && previous.endsWith('=')) {
+        joined[joined.length - 1] = previous.slice(0, -1) + line;
+      } else {
+        joined.push(line);
+      }
+      return joined;
+    }, []);
+
+  const contacts: VCardContact[] = [];
+  let current: (VCardContact & { structuredName: string }) | null = null;
+
+  lines.forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    const [rawName, ...params] = line.slice(0, separator).split(';');
+    const property = rawName.replace(/^[^.]*\./, '').toUpperCase(); // "item1.TEL" -> "TEL"
+    const rawValue = line.slice(separator + 1);
+    const value = params.some(param => /QUOTED-PRINTABLE/i.test(param)) ? decodeQuotedPrintable(rawValue) : rawValue;
+
+    if (property === 'BEGIN' && /^VCARD$/i.test(value.trim())) {
+      current = { name: '', structuredName: '', phones: [], nickname: '', note: '', birthday: '' };
+      return;
+    }
+    if (!current) return;
+
+    switch (property) {
+      case 'END': {
+        const name = current.name || current.structuredName;
+        if (name || current.phones.length > 0) {
+          contacts.push({ name, phones: current.phones, nickname: current.nickname, note: current.note, birthday: current.birthday });
+        }
+        current = null;
+        break;
+      }
+      case 'FN':
+        current.name = unescapeVCardValue(value);
+        break;
+      case 'N': {
+        // Sobrenome;Nome;Nomes do meio;Prefixo;Sufixo
+        const [family = '', given = '', middle = ''] = value.split(/(?<!\\);/).map(unescapeVCardValue);
+        current.structuredName = [given, middle, family].filter(Boolean).join(' ');
+        break;
+      }
+      case 'TEL':
+        current.phones.push({
+          number: unescapeVCardValue(value).replace(/^tel:/i, ''),
+          isMobile: params.some(param => /CELL|MOBILE|WHATSAPP/i.test(param)),
+        });
+        break;
+      case 'NICKNAME':
+        current.nickname = unescapeVCardValue(value);
+        break;
+      case 'NOTE':
+        current.note = unescapeVCardValue(value);
+        break;
+      case 'BDAY':
+        current.birthday = unescapeVCardValue(value);
+        break;
+    }
+  });
+
+  return contacts;
+};
+
+// Lê o arquivo escolhido: .vcf (ou conteúdo com BEGIN:VCARD) como agenda, o resto como CSV
+export const parseClientImportFile = (fileName: string, text: string): ClientImportTable => {
+  if (/\.vcf$/i.test(fileName) || /^\s*BEGIN:VCARD/im.test(text.replace(/^\ufeff/, ''))) {
+    const rows = parseVCards(text).map(contact => {
+      const phone = contact.phones.find(p => p.isMobile) || contact.phones[0];
+      return [contact.name, phone?.number || '', contact.nickname, contact.note, contact.birthday];
+    });
+    return { format: 'vcard', headers: VCARD_HEADERS, rows };
+  }
+
+  const [headers = [], ...rows] = parseCsv(text);
+  return { format: 'csv', headers: headers.map(header => header.trim()), rows };
+};
+
+// Sugere a coluna de cada campo pelo nome do cabeçalho (nome exato primeiro, depois parte do nome)
+export const guessColumnMapping = (headers: string[]): ClientImportMapping => {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ClientImportMapping;
+
+  CLIENT_IMPORT_FIELDS.forEach(field => {
+    const aliases = FIELD_ALIASES[field];
+    let index = normalizedHeaders.findIndex((header, i) => !used.has(i) && aliases.includes(header));
+    if (index < 0) {
+      index = normalizedHeaders.findIndex((header, i) =>
+        !used.has(i) && aliases.some(alias => alias.length > 3 && header.includes(alias)));
+    }
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+};
+
+// Telefone da agenda com +55 ou 0 antes do DDD fica só com DDD e número
+const toLocalPhone = (phone: string): string => {
+  let numbers = phone.replace(/\D/g, '');
+  if (numbers.length > 11 && numbers.startsWith('55')) numbers = numbers.slice(2);
+  if (numbers.length > 11 && numbers.startsWith('0')) numbers = numbers.replace(/^0+/, '');
+  return numbers.length === 10 || numbers.length === 11 ? numbers : phone.trim();
+};
+
+// Limite como "150", "150,00", "1.500,00" ou "R$ 150,00"; vazio = sem limite, null = inválido
+const parseImportedCreditLimit = (value: string): number | undefined | null => {
+  const cleaned = value.replace(/R\$|\s/g, '');
+  if (!cleaned) return undefined;
+  const normalized = cleaned.includes(',') ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned;
+  const parsed = Number(normalized);
+  return isNaN(parsed) || parsed < 0 ? null : Math.round(parsed * 100) / 100;
+};
+
+// Nascimento como "17/05/1990", "17/05/90", "1990-05-17" ou "19900517" (vCard); vazio = sem data, null = inválida
+const parseImportedBirthDate = (value: string): string | undefined | null => {
+  // Agendas gravam aniversário sem ano como "--0517": sem o ano não dá para guardar a data
+  if (!value || value.startsWith('--')) return undefined;
+  let parts: string[] | null = null;
+  const brazilian = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  const iso = value.match(/^(\d{4})-?(\d{2})-?(\d{2})(?:T.*)?$/);
+  if (brazilian) {
+    const [, day, month, year] = brazilian;
+    const fullYear = year.length === 2 ? `${Number(year) > new Date().getFullYear() % 100 ? '19' : '20'}${year}` : year;
+    parts = [fullYear, month.padStart(2, '0'), day.padStart(2, '0')];
+  } else if (iso) {
+    parts = iso.slice(1, 4);
+  }
+  if (!parts) return null;
+
+  const [year, month, day] = parts.map(Number);
+  const date = new Date(year, month - 1, day);
+  const valid = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day && date <= new Date();
+  return valid ? parts.join('-') : null;
+};
+
+// Valida as linhas e separa o que já está cadastrado (ou repetido no próprio arquivo)
+export const buildImportRows = (table: ClientImportTable, mapping: ClientImportMapping, existingClients: Client[]): ClientImportRow[] => {
+  const accepted: Client[] = [];
+  const lineOffset = table.format === 'csv' ? 2 : 1; // No CSV a linha 1 é o cabeçalho
+
+  return table.rows.map((cells, index) => {
+    const line = index + lineOffset;
+    const read = (field: ClientImportField): string => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] || '').trim();
+    };
+
+    const errors: string[] = [];
+    const whatsapp = toLocalPhone(read('whatsapp'));
+    const cpf = read('cpf');
+    const creditLimit = parseImportedCreditLimit(read('creditLimit'));
+    const birthDate = parseImportedBirthDate(read('birthDate'));
+
+    if (!read('fullName')) errors.push('Nome obrigatório');
+    if (!whatsapp) errors.push('WhatsApp obrigatório');
+    else if (!isValidWhatsApp(whatsapp)) errors.push('WhatsApp inválido (use DDD + número)');
+    if (cpf && !isValidCPF(cpf)) errors.push('CPF inválido');
+    if (creditLimit === null) errors.push('Limite no fiado inválido');
+    if (birthDate === null) errors.push('Data de nascimento inválida');
+
+    const client = formatClientData({
+      fullName: read('fullName').replace(/\s+/g, ' '),
+      whatsapp,
+      nickname: read('nickname') || undefined,
+      observation: read('observation') || undefined,
+      cpf: cpf || undefined,
+      creditLimit: creditLimit ?? undefined,
+      birthDate: birthDate ?? undefined,
+    });
+
+    if (errors.length > 0) {
+      return { line, client, status: 'invalid', errors };
+    }
+
+    // Mesmo WhatsApp, mesmo CPF ou o mesmo nome: pula; só nome parecido importa com aviso
+    const candidates = [...existingClients, ...accepted];
+    const matches = findDuplicateClients(client, candidates);
+    const name = normalizeClientName(client.fullName);
+    const duplicate = matches.find(match =>
+      match.reasons.some(reason => reason !== 'name') || normalizeClientName(match.client.fullName) === name);
+
+    if (duplicate) {
+      const duplicateOf = duplicate.client.id < 0 ? `linha ${-duplicate.client.id}` : duplicate.client.fullName;
+      return { line, client, status: 'duplicate', errors, duplicateOf };
+    }
+
+    // Linhas aceitas entram na comparação com id negativo (o número da linha)
+    accepted.push({ ...client, id: -line });
+    const warning = matches.length > 0 ? `Nome parecido com ${matches[0].client.fullName}` : undefined;
+    return { line, client, status: 'new', errors, warning };
+  });
+};
+
+const escapeCsvValue = (value: string): string =>
+  /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// CSV no mesmo formato aceito pela importação (separado por ";" para abrir no Excel)
+export const buildClientsCsv = (clients: Client[]): string => {
+  const headers = CLIENT_IMPORT_FIELDS.map(field => CLIENT_IMPORT_FIELD_LABELS[field]);
+  const rows = clients.map(client => [
+    client.fullName,
+    client.whatsapp,
+    client.nickname || '',
+    client.cpf || '',
+    client.birthDate ? client.birthDate.split('-').reverse().join('/') : '',
+    client.observation || '',
+    client.creditLimit !== undefined ? client.creditLimit.toFixed(2).replace('.', ',') : '',
+  ]);
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(';')).join('\n');
+};
+
+const escapeVCardValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Agenda vCard 3.0 para importar os clientes no celular (WhatsApp com +55)
+export const buildClientsVCard = (clients: Client[]): string =>
+  clients
+    .map(client => {
+      const numbers = client.whatsapp.replace(/\D/g, '');
+      const lines = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `FN:${escapeVCardValue(client.fullName)}`,
+        `N:;${escapeVCardValue(client.fullName)};;;`,
+        `TEL;TYPE=CELL:${numbers.length >= 10 ? `+55${numbers}` : client.whatsapp}`,
+      ];
+      if (client.nickname) lines.push(`NICKNAME:${escapeVCardValue(client.nickname)}`);
+      if (client.observation) lines.push(`NOTE:${escapeVCardValue(client.observation)}`);
+      if (client.birthDate) lines.push(`BDAY:${client.birthDate}`);
+      lines.push('END:VCARD');
+      return lines.join('\r\n');
+    })
+    .join('\r\n');
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { CreditSale, CreditSaleStatus, Installment, InstallmentStatus } from '../types.ts';
+import { buildClientStatement } from './clientStatementService.ts';
+
+const sale = (overrides: Partial<CreditSale> & Pick<CreditSale, 'id' | 'date' | 'totalAmount'>): CreditSale => ({
+  clientName: 'Carlos Souza',
+  products: 'Pomada',
+  subtotal: overrides.totalAmount,
+  discount: 0,
+  numberOfInstallments: 2,
+  firstDueDate: overrides.date,
+  status: CreditSaleStatus.Active,
+  totalPaid: 0,
+  remainingAmount: overrides.totalAmount,
+  ...overrides,
+});
+
+const installment = (overrides: Partial<Installment> & Pick<Installment, 'id' | 'creditSaleId' | 'installmentNumber' | 'amount'>): Installment => ({
+  dueDate: '2024-04-10',
+  status: InstallmentStatus.Pending,
+  ...overrides,
+});
+
+describe('buildClientStatement', () => {
+  it('lança vendas, multa e pagamentos em ordem com o saldo acumulado', () => {
+    const statement = buildClientStatement(
+      [sale({ id: 1, date: '2024-03-01', totalAmount: 100 })],
+      [
+        installment({
+          id: 1,
+          creditSaleId: 1,
+          installmentNumber: 1,
+          amount: 50,
+          status: InstallmentStatus.Paid,
+          payments: [{ id: 1, installmentId: 1, amount: 50, paidDate: '2024-04-15', paymentMethod: 'PIX', lateFee: 1, interest: 0.5 }],
+        }),
+        installment({ id: 2, creditSaleId: 1, installmentNumber: 2, amount: 50 }),
+      ]
+    );
+
+    expect(statement.entries.map(entry => [entry.date, entry.type, entry.debit, entry.credit, entry.balance])).toEqual([
+      ['2024-03-01', 'sale', 100, 0, 100],
+      ['2024-04-15', 'late_charges', 1.5, 0, 101.5],
+      ['2024-04-15', 'payment', 0, 51.5, 50],
+    ]);
+    expect(statement.entries[2].description).toBe('Venda #1 - Pagamento da parcela 1/2 (PIX)');
+    expect(statement).toMatchObject({ totalPurchased: 100, totalPaid: 51.5, totalLateCharges: 1.5, totalAdjustments: 0, balance: 50 });
+  });
+
+  it('considera as parcelas pagas antes dos pagamentos parciais', () => {
+    const statement = buildClientStatement(
+      [sale({ id: 1, date: '2024-03-01', totalAmount: 60, numberOfInstallments: 1 })],
+      [installment({ id: 1, creditSaleId: 1, installmentNumber: 1, amount: 60, status: InstallmentStatus.Paid, paidDate: '2024-03-20', paymentMethod: 'Dinheiro' })]
+    );
+
+    expect(statement.totalPaid).toBe(60);
+    expect(statement.balance).toBe(0);
+  });
+
+  it('baixa o saldo no cancelamento e no perdão, mas não na renegociação', () => {
+    const statement = buildClientStatement(
+      [
+        sale({
+          id: 1,
+          date: '2024-03-01',
+          totalAmount: 100,
+          events: [
+            { id: 1, creditSaleId: 1, type: 'renegotiated', amount: 100, created_at: '2024-03-05T12:00:00' },
+            { id: 2, creditSaleId: 1, type: 'written_off', amount: 100, reason: 'Mudou de cidade', created_at: '2024-05-01T12:00:00' },
+          ],
+        }),
+        sale({
+          id: 2,
+          date: '2024-03-02',
+          totalAmount: 30,
+          events: [{ id: 3, creditSaleId: 2, type: 'cancelled', amount: 30, created_at: '2024-03-03T12:00:00' }],
+        }),
+      ],
+      []
+    );
+
+    expect(statement.entries.map(entry => [entry.type, entry.balance])).toEqual([
+      ['sale', 100],
+      ['sale', 130],
+      ['cancelled', 100],
+      ['renegotiated', 100],
+      ['written_off', 0],
+    ]);
+    expect(statement.entries[4].description).toBe('Venda #1 - Saldo perdoado (Motivo: Mudou de cidade)');
+    expect(statement.totalAdjustments).toBe(130);
+    expect(statement.balance).toBe(0);
+  });
+});
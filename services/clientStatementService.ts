@@ -0,0 +1,132 @@
+import { CreditSale, CreditSaleEventType, Installment } from '../types.ts';
+import { formatLocalDate } from './dateService.ts';
+
+export type StatementEntryType = 'sale' | 'late_charges' | 'payment' | CreditSaleEventType;
+
+export interface StatementEntry {
+  date: string; // YYYY-MM-DD
+  type: StatementEntryType;
+  creditSaleId: number;
+  description: string;
+  debit: number; // Aumenta o saldo devedor (venda, multa e juros)
+  credit: number; // Diminui o saldo devedor (pagamento, cancelamento, perdão)
+  balance: number; // Saldo devedor depois do lançamento
+}
+
+export interface ClientStatement {
+  entries: StatementEntry[];
+  totalPurchased: number;
+  totalPaid: number; // Inclui multa e juros pagos
+  totalLateCharges: number;
+  totalAdjustments: number; // Saldo baixado por cancelamento ou perdão
+  balance: number;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Ordem dos lançamentos de um mesmo dia: a venda primeiro, baixas por último
+const ENTRY_ORDER: Record<StatementEntryType, number> = {
+  sale: 0,
+  limit_override: 1,
+  renegotiated: 1,
+  late_charges: 2,
+  payment: 3,
+  cancelled: 4,
+  written_off: 4,
+};
+
+const EVENT_DESCRIPTIONS: Record<CreditSaleEventType, string> = {
+  cancelled: 'Venda cancelada',
+  renegotiated: 'Saldo renegociado',
+  written_off: 'Saldo perdoado',
+  limit_override: 'Venda liberada pelo dono',
+};
+
+// Extrato do fiado de um cliente: vendas, multa e juros, pagamentos e ajustes com o saldo acumulado
+export const buildClientStatement = (sales: CreditSale[], installments: Installment[]): ClientStatement => {
+  const entries: Omit<StatementEntry, 'balance'>[] = [];
+
+  sales.forEach(sale => {
+    const label = `Venda #${sale.id}`;
+    entries.push({
+      date: sale.date,
+      type: 'sale',
+      creditSaleId: sale.id,
+      description: `${label} - ${sale.products} (${sale.numberOfInstallments}x)`,
+      debit: sale.totalAmount,
+      credit: 0,
+    });
+
+    installments
+      .filter(installment => installment.creditSaleId === sale.id)
+      .forEach(installment => {
+        const installmentLabel = `parcela ${installment.installmentNumber}/${sale.numberOfInstallments}`;
+        // Parcelas pagas antes dos pagamentos parciais não têm registros de pagamento
+        const payments = installment.payments && installment.payments.length > 0
+          ? installment.payments
+          : installment.paidDate
+            ? [{ amount: installment.amount, paidDate: installment.paidDate, paymentMethod: installment.paymentMethod || '', lateFee: 0, interest: 0 }]
+            : [];
+
+        payments.forEach(payment => {
+          const charges = roundCurrency((payment.lateFee || 0) + (payment.interest || 0));
+          if (charges > 0) {
+            entries.push({
+              date: payment.paidDate,
+              type: 'late_charges',
+              creditSaleId: sale.id,
+              description: `${label} - Multa e juros da ${installmentLabel}`,
+              debit: charges,
+              credit: 0,
+            });
+          }
+          entries.push({
+            date: payment.paidDate,
+            type: 'payment',
+            creditSaleId: sale.id,
+            description: `${label} - Pagamento da ${installmentLabel}${payment.paymentMethod ? ` (${payment.paymentMethod})` : ''}`,
+            debit: 0,
+            credit: roundCurrency(payment.amount + charges),
+          });
+        });
+      });
+
+    (sale.events || []).forEach(event => {
+      const reducesBalance = event.type === 'cancelled' || event.type === 'written_off';
+      const details = [event.details, event.reason && `Motivo: ${event.reason}`].filter(Boolean).join(' · ');
+      entries.push({
+        date: formatLocalDate(new Date(event.created_at)),
+        type: event.type,
+        creditSaleId: sale.id,
+        description: `${label} - ${EVENT_DESCRIPTIONS[event.type]}${details ? ` (${details})` : ''}`,
+        debit: 0,
+        credit: reducesBalance ? event.amount : 0,
+      });
+    });
+  });
+
+  entries.sort((a, b) =>
+    a.date.localeCompare(b.date)
+    || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type]
+    || a.creditSaleId - b.creditSaleId
+  );
+
+  let balance = 0;
+  const statementEntries = entries.map(entry => {
+    balance = roundCurrency(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+
+  const sumBy = (types: StatementEntryType[], field: 'debit' | 'credit') => roundCurrency(
+    statementEntries.filter(entry => types.includes(entry.type)).reduce((sum, entry) => sum + entry[field], 0)
+  );
+
+  return {
+    entries: statementEntries,
+    totalPurchased: sumBy(['sale'], 'debit'),
+    totalPaid: sumBy(['payment'], 'credit'),
+    totalLateCharges: sumBy(['late_charges'], 'debit'),
+    totalAdjustments: sumBy(['cancelled', 'written_off'], 'credit'),
+    balance,
+  };
+};
@@ -0,0 +1,109 @@
+import { CommissionItemType, CommissionRule, Product, ProfessionalAdvance, ProfessionalPayout, Service, Transaction } from '../types.ts';
+import { getItemTotal, getItemsSubtotal, getTransactionItems } from './transactionItemsService.ts';
+
+export interface CommissionLine {
+  name: string;
+  itemId?: number;
+  gross: number; // Valor do item já com o desconto da transação rateado
+  percentage: number;
+  commission: number;
+}
+
+export interface ProfessionalCommissionSummary {
+  professionalId: number;
+  transactionsCount: number;
+  grossAmount: number; // Total faturado (valor final das transações)
+  commissionAmount: number;
+  advancesAmount: number; // Vales entregues no período
+  netAmount: number; // Comissão - vales
+  payout?: ProfessionalPayout; // Acerto já registrado para o mesmo período
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Escolhe a regra mais específica: item + profissional > item > todos os itens + profissional > todos os itens
+export const findCommissionRule = (
+  rules: CommissionRule[],
+  itemType: CommissionItemType,
+  itemId: number | undefined,
+  professionalId: number | undefined
+): CommissionRule | undefined => {
+  const typeRules = rules.filter(r => r.itemType === itemType);
+  const candidates = [
+    itemId !== undefined && professionalId !== undefined
+      ? typeRules.find(r => r.itemId === itemId && r.professionalId === professionalId)
+      : undefined,
+    itemId !== undefined
+      ? typeRules.find(r => r.itemId === itemId && r.professionalId === undefined)
+      : undefined,
+    professionalId !== undefined
+      ? typeRules.find(r => r.itemId === undefined && r.professionalId === professionalId)
+      : undefined,
+    typeRules.find(r => r.itemId === undefined && r.professionalId === undefined),
+  ];
+  return candidates.find(rule => rule !== undefined);
+};
+
+// Calcula a comissão de cada item de uma transação.
+// O desconto geral é rateado proporcionalmente entre os itens; itens sem vínculo com o
+// cadastro (renomeados ou excluídos) usam a regra geral do tipo.
+export const calculateTransactionCommission = (
+  transaction: Transaction,
+  rules: CommissionRule[],
+  services: Service[],
+  products: Product[]
+): CommissionLine[] => {
+  const items = getTransactionItems(transaction, services, products);
+  const itemsSubtotal = getItemsSubtotal(items);
+  if (itemsSubtotal <= 0 || transaction.value <= 0) return [];
+
+  const discountRatio = transaction.value / itemsSubtotal;
+
+  return items.map(item => {
+    const itemId = item.itemType === 'product' ? item.productId : item.serviceId;
+    const gross = getItemTotal(item) * discountRatio;
+    const percentage = findCommissionRule(rules, item.itemType, itemId, transaction.professionalId)?.percentage ?? 0;
+    return {
+      name: item.name,
+      itemId,
+      gross: roundCurrency(gross),
+      percentage,
+      commission: roundCurrency(gross * percentage / 100),
+    };
+  });
+};
+
+// Monta o extrato de comissões de cada profissional no período (datas YYYY-MM-DD inclusivas)
+export const buildCommissionSummaries = (
+  professionalIds: number[],
+  periodStart: string,
+  periodEnd: string,
+  transactions: Transaction[],
+  advances: ProfessionalAdvance[],
+  payouts: ProfessionalPayout[],
+  rules: CommissionRule[],
+  services: Service[],
+  products: Product[]
+): ProfessionalCommissionSummary[] => {
+  const inPeriod = (date: string) => date >= periodStart && date <= periodEnd;
+
+  return professionalIds.map(professionalId => {
+    const professionalTransactions = transactions.filter(t => t.professionalId === professionalId && inPeriod(t.date));
+    const grossAmount = professionalTransactions.reduce((sum, t) => sum + t.value, 0);
+    const commissionAmount = professionalTransactions.reduce((sum, t) =>
+      sum + calculateTransactionCommission(t, rules, services, products).reduce((acc, line) => acc + line.commission, 0), 0);
+    const advancesAmount = advances
+      .filter(a => a.professionalId === professionalId && inPeriod(a.date))
+      .reduce((sum, a) => sum + a.amount, 0);
+
+    return {
+      professionalId,
+      transactionsCount: professionalTransactions.length,
+      grossAmount: roundCurrency(grossAmount),
+      commissionAmount: roundCurrency(commissionAmount),
+      advancesAmount: roundCurrency(advancesAmount),
+      netAmount: roundCurrency(commissionAmount - advancesAmount),
+      payout: payouts.find(p => p.professionalId === professionalId && p.periodStart === periodStart && p.periodEnd === periodEnd),
+    };
+  });
+};
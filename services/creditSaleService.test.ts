@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { CreditSaleStatus, InstallmentStatus } from '../types.ts';
+import {
+  buildInstallmentSchedule,
+  calculateLateCharges,
+  checkClientCredit,
+  getCreditBlockReasons,
+  getCreditSaleStatus,
+  getInstallmentDueDate,
+  getInstallmentRemainingAmount,
+  isInstallmentOverdue,
+  isInstallmentScheduleValid,
+  splitInstallmentAmounts,
+} from './creditSaleService.ts';
+
+describe('splitInstallmentAmounts', () => {
+  it('arredonda para baixo e deixa os centavos na última parcela', () => {
+    expect(splitInstallmentAmounts(100, 3)).toEqual([33.33, 33.33, 33.34]);
+    expect(splitInstallmentAmounts(50, 2)).toEqual([25, 25]);
+  });
+
+  it('soma sempre o total da venda', () => {
+    [[99.99, 4], [10.01, 3], [1234.56, 7]].forEach(([total, count]) => {
+      const sum = splitInstallmentAmounts(total, count).reduce((acc, amount) => acc + amount, 0);
+      expect(Math.round(sum * 100) / 100).toBe(total);
+    });
+  });
+
+  it('usa a entrada como primeira parcela e divide o restante', () => {
+    expect(splitInstallmentAmounts(100, 3, 40)).toEqual([40, 30, 30]);
+  });
+
+  it('nunca gera parcela abaixo de R$ 0,01', () => {
+    expect(splitInstallmentAmounts(0.02, 3)).toEqual([0.01, 0.01]);
+    expect(splitInstallmentAmounts(10, 3, 9.99)).toEqual([9.99, 0.01]);
+    [[10, 3, 9.98], [0.05, 12], [1, 24, 0.5]].forEach(([total, count, downPayment]) => {
+      expect(splitInstallmentAmounts(total, count, downPayment).every(amount => amount >= 0.01)).toBe(true);
+    });
+  });
+
+  it('ignora entrada igual ou maior que o total', () => {
+    expect(splitInstallmentAmounts(10, 3, 10)).toEqual([3.33, 3.33, 3.34]);
+  });
+
+  it('trata quantidade inválida como parcela única', () => {
+    expect(splitInstallmentAmounts(80, 0)).toEqual([80]);
+  });
+});
+
+describe('buildInstallmentSchedule', () => {
+  it('gera vencimentos mensais a partir do primeiro', () => {
+    const schedule = buildInstallmentSchedule([50, 50, 50], '2024-01-31');
+    expect(schedule.map(installment => installment.dueDate)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+    expect(schedule.map(installment => installment.installmentNumber)).toEqual([1, 2, 3]);
+    expect(schedule.every(installment => installment.status === InstallmentStatus.Pending)).toBe(true);
+  });
+});
+
+describe('intervalos das parcelas', () => {
+  it('vence a cada 7 ou 14 dias no mesmo dia da semana', () => {
+    expect([0, 1, 2].map(index => getInstallmentDueDate('2024-12-20', index, 'weekly'))).toEqual(['2024-12-20', '2024-12-27', '2025-01-03']);
+    expect([0, 1, 2].map(index => getInstallmentDueDate('2024-02-15', index, 'biweekly'))).toEqual(['2024-02-15', '2024-02-29', '2024-03-14']);
+  });
+
+  it('mensal é o padrão', () => {
+    expect(getInstallmentDueDate('2024-03-31', 1)).toBe('2024-04-30');
+    expect(buildInstallmentSchedule([10, 10], '2024-03-05', 'weekly').map(installment => installment.dueDate)).toEqual(['2024-03-05', '2024-03-12']);
+  });
+
+  it('vencimentos alterados à mão precisam estar preenchidos e em ordem', () => {
+    expect(isInstallmentScheduleValid([{ dueDate: '2024-03-05' }, { dueDate: '2024-03-05' }, { dueDate: '2024-04-01' }])).toBe(true);
+    expect(isInstallmentScheduleValid([{ dueDate: '2024-03-05' }, { dueDate: '2024-03-01' }])).toBe(false);
+    expect(isInstallmentScheduleValid([{ dueDate: '2024-03-05' }, { dueDate: '' }])).toBe(false);
+  });
+});
+
+describe('parcelas atrasadas', () => {
+  it('só parcelas em aberto vencidas antes de hoje ficam atrasadas', () => {
+    const today = '2024-03-10';
+    expect(isInstallmentOverdue({ status: InstallmentStatus.Pending, dueDate: '2024-03-09' }, today)).toBe(true);
+    expect(isInstallmentOverdue({ status: InstallmentStatus.PartiallyPaid, dueDate: '2024-03-01' }, today)).toBe(true);
+    expect(isInstallmentOverdue({ status: InstallmentStatus.Pending, dueDate: today }, today)).toBe(false);
+    expect(isInstallmentOverdue({ status: InstallmentStatus.Paid, dueDate: '2024-03-01' }, today)).toBe(false);
+    expect(isInstallmentOverdue({ status: InstallmentStatus.Cancelled, dueDate: '2024-03-01' }, today)).toBe(false);
+  });
+
+  it('calcula o status da venda a partir das parcelas', () => {
+    expect(getCreditSaleStatus([{ status: InstallmentStatus.Paid }, { status: InstallmentStatus.Pending }])).toBe(CreditSaleStatus.Active);
+    expect(getCreditSaleStatus([{ status: InstallmentStatus.Paid }, { status: InstallmentStatus.Overdue }])).toBe(CreditSaleStatus.Overdue);
+    expect(getCreditSaleStatus([{ status: InstallmentStatus.Paid }, { status: InstallmentStatus.Cancelled }])).toBe(CreditSaleStatus.Paid);
+    expect(getCreditSaleStatus([{ status: 'Paga ' as InstallmentStatus }])).toBe(CreditSaleStatus.Paid);
+  });
+
+  it('considera pagas sem registros de pagamento as parcelas antigas', () => {
+    expect(getInstallmentRemainingAmount({ amount: 30, status: InstallmentStatus.Paid })).toBe(0);
+    expect(getInstallmentRemainingAmount({ amount: 30, status: InstallmentStatus.PartiallyPaid, payments: [{ amount: 12.5 }] })).toBe(17.5);
+  });
+});
+
+describe('calculateLateCharges', () => {
+  const rules = { lateFeePercentage: 2, dailyInterestPercentage: 0.033 };
+
+  it('cobra multa uma vez e juros simples por dia de atraso', () => {
+    expect(calculateLateCharges(100, '2024-03-01', '2024-03-11', rules)).toEqual({
+      daysLate: 10,
+      lateFee: 2,
+      interest: 0.33,
+      total: 2.33,
+    });
+  });
+
+  it('não cobra nada no dia do vencimento ou antes', () => {
+    expect(calculateLateCharges(100, '2024-03-01', '2024-03-01', rules).total).toBe(0);
+    expect(calculateLateCharges(100, '2024-03-01', '2024-02-25', rules)).toEqual({ daysLate: 0, lateFee: 0, interest: 0, total: 0 });
+  });
+
+  it('sem regras configuradas o atraso não gera cobrança', () => {
+    expect(calculateLateCharges(100, '2024-03-01', '2024-04-01', { lateFeePercentage: 0, dailyInterestPercentage: 0 }).total).toBe(0);
+  });
+});
+
+describe('checkClientCredit', () => {
+  const sales = [
+    { id: 1, clientId: 10, clientName: 'Carlos Souza', status: CreditSaleStatus.Active, remainingAmount: 60 },
+    { id: 2, clientId: 10, clientName: 'Carlos Souza', status: CreditSaleStatus.Paid, remainingAmount: 0 },
+    { id: 3, clientName: 'José da Silva', status: CreditSaleStatus.Active, remainingAmount: 40 },
+  ];
+  const installments = [
+    { creditSaleId: 1, status: InstallmentStatus.Pending, dueDate: '2024-04-10' },
+    { creditSaleId: 3, status: InstallmentStatus.Pending, dueDate: '2024-03-01' },
+  ];
+
+  it('soma só as vendas em aberto do cliente e bloqueia acima do limite', () => {
+    const client = { id: 10, fullName: 'Carlos Souza', creditLimit: 100 };
+    expect(checkClientCredit(client, sales, installments, 40, '2024-03-10')).toEqual({
+      outstandingAmount: 60,
+      overdueInstallments: 0,
+      availableCredit: 40,
+      exceedsLimit: false,
+      isBlocked: false,
+    });
+    const check = checkClientCredit(client, sales, installments, 40.01, '2024-03-10');
+    expect(check.isBlocked).toBe(true);
+    expect(getCreditBlockReasons(check, client, 40.01)).toEqual([
+      'Limite de R$ 100,00 excedido (em aberto R$ 60,00 + venda R$ 40,01)',
+    ]);
+  });
+
+  it('sem limite só bloqueia por parcela atrasada', () => {
+    const check = checkClientCredit({ id: 10, fullName: 'Carlos Souza' }, sales, installments, 5000, '2024-04-11');
+    expect(check.availableCredit).toBeUndefined();
+    expect(check.exceedsLimit).toBe(false);
+    expect(check.overdueInstallments).toBe(1);
+    expect(check.isBlocked).toBe(true);
+  });
+
+  it('confere o cliente sem cadastro pelo nome', () => {
+    const customer = { fullName: 'jose da silva' };
+    const check = checkClientCredit(customer, sales, installments, 10, '2024-03-10');
+    expect(check.outstandingAmount).toBe(40);
+    expect(check.isBlocked).toBe(true);
+    expect(getCreditBlockReasons(check, customer, 10)).toEqual(['1 parcela atrasada']);
+    expect(checkClientCredit({ fullName: 'Outro Cliente' }, sales, installments, 10, '2024-03-10').isBlocked).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+import { Client, CreditSale, CreditSaleStatus, Installment, InstallmentPayment, InstallmentStatus, SystemSettings } from '../types.ts';
+import { addDaysToDate, addMonthsToDate, getDaysBetween } from './dateService.ts';
+import { normalizeClientName } from './clientDuplicateService.ts';
+
+export type NewInstallment = Omit<Installment, 'id' | 'creditSaleId' | 'created_at'>;
+
+// Dados da parcela usados no cálculo do saldo
+type InstallmentBalance = Pick<Installment, 'amount' | 'status'> & { payments?: Pick<InstallmentPayment, 'amount'>[] };
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Divide o total em parcelas arredondadas para baixo; a última absorve os centavos restantes
+// (R$ 100,00 em 3x = 33,33 + 33,33 + 33,34). Com entrada, a 1ª parcela é a entrada e o restante
+// é dividido entre as demais (R$ 100,00 em 3x com entrada de 40,00 = 40,00 + 30,00 + 30,00).
+// Nenhuma parcela fica abaixo de R$ 0,01 (o pagamento recusa valor zerado): se o valor não dá para
+// todas, a quantidade de parcelas diminui (R$ 0,02 em 3x = 0,01 + 0,01).
+export const splitInstallmentAmounts = (totalAmount: number, numberOfInstallments: number, downPayment?: number): number[] => {
+  const count = Math.max(1, Math.min(Math.floor(numberOfInstallments), Math.round(totalAmount * 100)));
+  const entry = roundCurrency(Math.min(downPayment || 0, totalAmount));
+  if (entry > 0 && entry < totalAmount && count > 1) {
+    return [entry, ...splitInstallmentAmounts(roundCurrency(totalAmount - entry), count - 1)];
+  }
+  const baseAmount = Math.floor((totalAmount / count) * 100) / 100;
+  return Array.from({ length: count }, (_, index) =>
+    index === count - 1 ? roundCurrency(totalAmount - baseAmount * (count - 1)) : baseAmount
+  );
+};
+
+export type InstallmentInterval = 'weekly' | 'biweekly' | 'monthly';
+
+export const INSTALLMENT_INTERVAL_LABELS: Record<InstallmentInterval, string> = {
+  weekly: 'Semanal',
+  biweekly: 'Quinzenal',
+  monthly: 'Mensal',
+};
+
+// Vencimento da parcela "index" (0 = primeira): semanal a cada 7 dias, quinzenal a cada 14 dias
+// (mesmo dia da semana) e mensal no mesmo dia do mês (dias que não existem caem no último dia do mês)
+export const getInstallmentDueDate = (firstDueDate: string, index: number, interval: InstallmentInterval = 'monthly'): string => {
+  switch (interval) {
+    case 'weekly':
+      return addDaysToDate(firstDueDate, index * 7);
+    case 'biweekly':
+      return addDaysToDate(firstDueDate, index * 14);
+    case 'monthly':
+    default:
+      return addMonthsToDate(firstDueDate, index);
+  }
+};
+
+// Parcelas a partir do primeiro vencimento no intervalo escolhido (mensal por padrão)
+export const buildInstallmentSchedule = (
+  amounts: number[],
+  firstDueDate: string,
+  interval: InstallmentInterval = 'monthly'
+): NewInstallment[] => {
+  return amounts.map((amount, index) => ({
+    installmentNumber: index + 1,
+    amount,
+    dueDate: getInstallmentDueDate(firstDueDate, index, interval),
+    status: InstallmentStatus.Pending,
+  }));
+};
+
+// Vencimentos editados à mão precisam existir e seguir a ordem das parcelas
+export const isInstallmentScheduleValid = (installments: Pick<Installment, 'dueDate'>[]): boolean => {
+  return installments.every((installment, index) =>
+    !!installment.dueDate && (index === 0 || installment.dueDate >= installments[index - 1].dueDate)
+  );
+};
+
+// Registros antigos podem ter o status gravado com espaços
+export const isInstallmentPaid = (status: InstallmentStatus | string): boolean => {
+  return String(status).trim() === InstallmentStatus.Paid;
+};
+
+// Só parcelas pendentes ou parcialmente pagas viram atrasadas (o vencimento é o último dia para pagar sem atraso)
+export const isInstallmentOverdue = (installment: Pick<Installment, 'status' | 'dueDate'>, today: string): boolean => {
+  const isOpen = installment.status === InstallmentStatus.Pending || installment.status === InstallmentStatus.PartiallyPaid;
+  return isOpen && installment.dueDate < today;
+};
+
+// Valor já pago na parcela; parcelas pagas antes dos pagamentos parciais não têm registros de pagamento
+export const getInstallmentPaidAmount = (installment: InstallmentBalance): number => {
+  const payments = installment.payments || [];
+  if (payments.length === 0 && isInstallmentPaid(installment.status)) return installment.amount;
+  return roundCurrency(payments.reduce((sum, payment) => sum + payment.amount, 0));
+};
+
+export const getInstallmentRemainingAmount = (installment: InstallmentBalance): number => {
+  return roundCurrency(Math.max(0, installment.amount - getInstallmentPaidAmount(installment)));
+};
+
+// Status da parcela depois de um pagamento: paga quando não sobra saldo; parcela atrasada continua atrasada
+export const getInstallmentStatusAfterPayment = (
+  currentStatus: InstallmentStatus,
+  remainingAfterPayment: number
+): InstallmentStatus => {
+  if (remainingAfterPayment <= 0) return InstallmentStatus.Paid;
+  if (currentStatus === InstallmentStatus.Overdue) return InstallmentStatus.Overdue;
+  return InstallmentStatus.PartiallyPaid;
+};
+
+// Parcela ainda a receber (pendente, parcialmente paga ou atrasada)
+export const isInstallmentOpen = (status: InstallmentStatus | string): boolean => {
+  return status === InstallmentStatus.Pending || status === InstallmentStatus.PartiallyPaid || status === InstallmentStatus.Overdue;
+};
+
+// Venda ainda a receber; canceladas, perdoadas e quitadas estão encerradas
+export const isCreditSaleOpen = (status: CreditSaleStatus | string): boolean => {
+  return status === CreditSaleStatus.Active || status === CreditSaleStatus.Overdue;
+};
+
+// Status da venda a partir das parcelas: quitada, atrasada (alguma parcela atrasada) ou em aberto.
+// Parcelas canceladas (ex: substituídas numa renegociação) não contam.
+export const getCreditSaleStatus = (installments: Pick<Installment, 'status'>[]): CreditSaleStatus => {
+  const activeInstallments = installments.filter(installment => installment.status !== InstallmentStatus.Cancelled);
+  if (activeInstallments.length > 0 && activeInstallments.every(installment => isInstallmentPaid(installment.status))) {
+    return CreditSaleStatus.Paid;
+  }
+  if (activeInstallments.some(installment => installment.status === InstallmentStatus.Overdue)) {
+    return CreditSaleStatus.Overdue;
+  }
+  return CreditSaleStatus.Active;
+};
+
+export type LateChargeRules = Pick<SystemSettings, 'lateFeePercentage' | 'dailyInterestPercentage'>;
+
+export interface LateCharges {
+  daysLate: number;
+  lateFee: number;
+  interest: number;
+  total: number;
+}
+
+// Multa (uma vez) e juros de mora simples por dia de atraso, sobre o valor pago depois do vencimento
+export const calculateLateCharges = (
+  amount: number,
+  dueDate: string,
+  paidDate: string,
+  rules: LateChargeRules
+): LateCharges => {
+  const daysLate = Math.max(0, getDaysBetween(dueDate, paidDate));
+  if (daysLate === 0 || amount <= 0) return { daysLate, lateFee: 0, interest: 0, total: 0 };
+
+  const lateFee = roundCurrency(amount * (rules.lateFeePercentage || 0) / 100);
+  const interest = roundCurrency(amount * (rules.dailyInterestPercentage || 0) / 100 * daysLate);
+  return { daysLate, lateFee, interest, total: roundCurrency(lateFee + interest) };
+};
+
+// Totais da venda depois de receber um valor
+export const applyCreditSalePayment = (
+  sale: Pick<CreditSale, 'totalPaid' | 'remainingAmount'>,
+  amount: number
+): Pick<CreditSale, 'totalPaid' | 'remainingAmount'> => ({
+  totalPaid: roundCurrency(sale.totalPaid + amount),
+  remainingAmount: roundCurrency(Math.max(0, sale.remainingAmount - amount)),
+});
+
+export interface ClientCreditCheck {
+  outstandingAmount: number; // Saldo em aberto nas vendas no fiado do cliente
+  overdueInstallments: number; // Parcelas vencidas e não pagas
+  availableCredit?: number; // Limite menos o saldo em aberto (sem limite = undefined)
+  exceedsLimit: boolean; // Saldo em aberto + nova venda passa do limite
+  isBlocked: boolean; // Atraso ou limite estourado: a venda só sai com liberação do dono
+}
+
+// Cliente do fiado: cadastrado (com id e limite) ou só pelo nome, sem cadastro e sem limite
+export type CreditCustomer = Pick<Client, 'fullName' | 'creditLimit'> & { id?: number };
+
+// Vendas do cliente: pelo cadastro ou, sem cadastro, pelo nome das vendas também sem cadastro
+const isCustomerSale = (customer: CreditCustomer, sale: Pick<CreditSale, 'clientId' | 'clientName'>): boolean => {
+  if (customer.id !== undefined) return sale.clientId === customer.id;
+  return !sale.clientId && normalizeClientName(sale.clientName) === normalizeClientName(customer.fullName);
+};
+
+// Regras para uma nova venda no fiado: bloqueia cliente com parcela atrasada ou que passaria do limite
+export const checkClientCredit = (
+  client: CreditCustomer,
+  creditSales: Pick<CreditSale, 'id' | 'clientId' | 'clientName' | 'status' | 'remainingAmount'>[],
+  installments: Pick<Installment, 'creditSaleId' | 'status' | 'dueDate'>[],
+  newSaleAmount: number,
+  today: string
+): ClientCreditCheck => {
+  const openSales = creditSales.filter(sale => isCustomerSale(client, sale) && isCreditSaleOpen(sale.status));
+  const openSaleIds = new Set(openSales.map(sale => sale.id));
+  const outstandingAmount = roundCurrency(openSales.reduce((sum, sale) => sum + (sale.remainingAmount || 0), 0));
+  const overdueInstallments = installments.filter(
+    installment => openSaleIds.has(installment.creditSaleId)
+      && (installment.status === InstallmentStatus.Overdue || isInstallmentOverdue(installment, today))
+  ).length;
+
+  const hasLimit = client.creditLimit !== undefined && client.creditLimit !== null;
+  const availableCredit = hasLimit ? roundCurrency((client.creditLimit as number) - outstandingAmount) : undefined;
+  const exceedsLimit = availableCredit !== undefined && roundCurrency(newSaleAmount) > availableCredit;
+
+  return {
+    outstandingAmount,
+    overdueInstallments,
+    availableCredit,
+    exceedsLimit,
+    isBlocked: exceedsLimit || overdueInstallments > 0,
+  };
+};
+
+// Motivos do bloqueio, exibidos no caixa e gravados no histórico quando o dono libera a venda
+export const getCreditBlockReasons = (check: ClientCreditCheck, client: CreditCustomer, newSaleAmount: number): string[] => {
+  const reasons: string[] = [];
+  if (check.overdueInstallments > 0) {
+    reasons.push(`${check.overdueInstallments} ${check.overdueInstallments === 1 ? 'parcela atrasada' : 'parcelas atrasadas'}`);
+  }
+  if (check.exceedsLimit) {
+    const format = (value: number) => value.toFixed(2).replace('.', ',');
+    reasons.push(`Limite de R$ ${format(client.creditLimit || 0)} excedido (em aberto R$ ${format(check.outstandingAmount)} + venda R$ ${format(newSaleAmount)})`);
+  }
+  return reasons;
+};
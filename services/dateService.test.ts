@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { addDaysToDate, addMonthsToDate, formatLocalDate, getDaysBetween, getPeriodRange, getTodayLocalDate } from './dateService.ts';
+
+describe('dateService', () => {
+  it('formata a data no fuso local, mesmo à noite', () => {
+    expect(formatLocalDate(new Date(2024, 2, 5, 23, 30))).toBe('2024-03-05');
+    expect(getTodayLocalDate(new Date(2024, 11, 31, 23, 59))).toBe('2024-12-31');
+  });
+
+  it('monta os períodos que terminam hoje', () => {
+    const now = new Date(2024, 2, 5, 10, 0);
+    expect(getPeriodRange('day', now)).toEqual({ start: '2024-03-05', end: '2024-03-05' });
+    expect(getPeriodRange('week', now)).toEqual({ start: '2024-02-28', end: '2024-03-05' });
+    expect(getPeriodRange('month', now)).toEqual({ start: '2024-03-01', end: '2024-03-05' });
+    expect(getPeriodRange('year', now)).toEqual({ start: '2024-01-01', end: '2024-03-05' });
+  });
+
+  it('conta os dias corridos entre duas datas', () => {
+    expect(getDaysBetween('2024-02-28', '2024-03-01')).toBe(2);
+    expect(getDaysBetween('2024-03-10', '2024-03-01')).toBe(-9);
+    expect(getDaysBetween('2024-03-01', '2024-03-01')).toBe(0);
+  });
+
+  it('soma dias atravessando mês e ano', () => {
+    expect(addDaysToDate('2024-12-30', 3)).toBe('2025-01-02');
+    expect(addDaysToDate('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('soma meses e cai no último dia quando o dia não existe', () => {
+    expect(addMonthsToDate('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonthsToDate('2023-01-31', 1)).toBe('2023-02-28');
+    expect(addMonthsToDate('2024-11-15', 2)).toBe('2025-01-15');
+  });
+});
@@ -0,0 +1,56 @@
+// Datas no formato YYYY-MM-DD sempre no fuso local (toISOString usa UTC e muda o dia à noite)
+
+export type PeriodFilter = 'day' | 'week' | 'month' | 'year';
+
+export const formatLocalDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const getTodayLocalDate = (now: Date = new Date()): string => formatLocalDate(now);
+
+// Período que termina hoje: dia, últimos 7 dias, mês corrente ou ano corrente
+export const getPeriodRange = (period: PeriodFilter, now: Date = new Date()): { start: string; end: string } => {
+  const startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (period) {
+    case 'week':
+      startDate.setDate(startDate.getDate() - 6);
+      break;
+    case 'month':
+      startDate.setDate(1);
+      break;
+    case 'year':
+      startDate.setMonth(0, 1);
+      break;
+    case 'day':
+    default:
+      break;
+  }
+  return { start: formatLocalDate(startDate), end: getTodayLocalDate(now) };
+};
+
+// Dias corridos entre duas datas YYYY-MM-DD (negativo se end for antes de start)
+export const getDaysBetween = (start: string, end: string): number => {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(end) - toUtc(start)) / 86400000);
+};
+
+// Soma dias a uma data YYYY-MM-DD (negativo volta no calendário)
+export const addDaysToDate = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return formatLocalDate(new Date(year, month - 1, day + days));
+};
+
+// Soma meses a uma data YYYY-MM-DD; dias que não existem no mês caem no último dia (31/01 + 1 mês = 28/02)
+export const addMonthsToDate = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(year, month - 1 + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(day, lastDay));
+  return formatLocalDate(target);
+};
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { LoyaltyEntry, Transaction } from '../types.ts';
+import { createMemoryDataSource } from '../repositories/memoryDataSource.ts';
+import { createRepositories } from '../repositories/repositories.ts';
+import {
+  buildTransactionLoyaltyEntries,
+  getAvailableRewards,
+  getEarnedPoints,
+  getLoyaltyBalance,
+  getRewardsDiscount,
+  LoyaltyRules,
+} from './loyaltyService.ts';
+
+const pointsRules: LoyaltyRules = {
+  loyaltyEnabled: true,
+  loyaltyMode: 'points',
+  loyaltyPointsPerReal: 1,
+  loyaltyServiceIds: [],
+  loyaltyRewardPoints: 100,
+  loyaltyRewardDiscount: 20,
+};
+
+const stampsRules: LoyaltyRules = { ...pointsRules, loyaltyMode: 'stamps', loyaltyServiceIds: [1], loyaltyRewardPoints: 10, loyaltyRewardDiscount: 40 };
+
+const transaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 5,
+  date: '2024-03-05',
+  clientName: 'Carlos Souza',
+  clientId: 10,
+  service: 'Corte, Barba, Pomada',
+  paymentMethod: 'PIX',
+  subtotal: 100,
+  discount: 10,
+  value: 90,
+  items: [
+    { itemType: 'service', serviceId: 1, name: 'Corte', quantity: 1, unitPrice: 40, discount: 0 },
+    { itemType: 'service', serviceId: 2, name: 'Barba', quantity: 1, unitPrice: 30, discount: 0 },
+    { itemType: 'product', productId: 3, name: 'Pomada', quantity: 1, unitPrice: 30, discount: 0 },
+  ],
+  ...overrides,
+});
+
+describe('getEarnedPoints', () => {
+  it('no modo pontos conta só o valor pago nos serviços', () => {
+    // Serviços R$ 70,00 com 10% de desconto geral = R$ 63,00
+    expect(getEarnedPoints(transaction(), pointsRules)).toBe(63);
+    expect(getEarnedPoints(transaction(), { ...pointsRules, loyaltyPointsPerReal: 0.5 })).toBe(31);
+  });
+
+  it('no modo selos conta os serviços participantes, menos os trocados no atendimento', () => {
+    const twoCuts = transaction({
+      items: [{ itemType: 'service', serviceId: 1, name: 'Corte', quantity: 2, unitPrice: 40, discount: 0 }],
+    });
+    expect(getEarnedPoints(twoCuts, stampsRules)).toBe(2);
+    expect(getEarnedPoints({ ...twoCuts, loyaltyPointsRedeemed: 10 }, stampsRules)).toBe(1);
+    expect(getEarnedPoints(transaction(), { ...stampsRules, loyaltyServiceIds: [] })).toBe(2);
+  });
+
+  it('venda só de produtos não gera pontos', () => {
+    expect(getEarnedPoints(transaction({ items: [transaction().items![2]] }), pointsRules)).toBe(0);
+  });
+});
+
+describe('saldo e recompensas', () => {
+  const entries: LoyaltyEntry[] = [
+    { id: 1, clientId: 10, type: 'earned', points: 150, date: '2024-01-01' },
+    { id: 2, clientId: 10, type: 'redeemed', points: -100, date: '2024-02-01' },
+    { id: 3, clientId: 10, type: 'earned', points: 180, date: '2024-03-01' },
+    { id: 4, clientId: 11, type: 'earned', points: 500, date: '2024-03-01' },
+  ];
+
+  it('soma os lançamentos do cliente e calcula as recompensas disponíveis', () => {
+    const balance = getLoyaltyBalance(entries, 10);
+    expect(balance).toBe(230);
+    expect(getAvailableRewards(balance, pointsRules)).toBe(2);
+    expect(getRewardsDiscount(2, pointsRules)).toBe(40);
+  });
+});
+
+describe('buildTransactionLoyaltyEntries', () => {
+  it('lança a troca e os pontos ganhos do atendimento', () => {
+    expect(buildTransactionLoyaltyEntries(transaction({ loyaltyPointsRedeemed: 100 }), pointsRules)).toEqual([
+      { clientId: 10, type: 'redeemed', points: -100, transactionId: 5, description: 'Recompensa: Corte, Barba, Pomada', date: '2024-03-05' },
+      { clientId: 10, type: 'earned', points: 63, transactionId: 5, description: 'Corte, Barba, Pomada', date: '2024-03-05' },
+    ]);
+  });
+
+  it('não lança nada para cliente sem cadastro ou com o programa desligado', () => {
+    expect(buildTransactionLoyaltyEntries(transaction({ clientId: undefined }), pointsRules)).toEqual([]);
+    expect(buildTransactionLoyaltyEntries(transaction(), { ...pointsRules, loyaltyEnabled: false })).toEqual([]);
+  });
+
+  it('os pontos somem junto com o atendimento apagado', async () => {
+    const repositories = createRepositories(createMemoryDataSource());
+    const client = await repositories.clients.create({ fullName: 'Carlos Souza', whatsapp: '11999990000' });
+    const saved = await repositories.transactions.create(transaction({ clientId: client.id }));
+    await repositories.loyalty.addEntries(buildTransactionLoyaltyEntries(saved, pointsRules));
+    expect(getLoyaltyBalance(await repositories.loyalty.listEntries(), client.id)).toBe(63);
+
+    await repositories.transactions.remove(saved.id);
+
+    expect(await repositories.loyalty.listEntries()).toEqual([]);
+  });
+
+  it('ao editar os itens os pontos ganhos são refeitos e a troca continua lançada', async () => {
+    const repositories = createRepositories(createMemoryDataSource());
+    const client = await repositories.clients.create({ fullName: 'Carlos Souza', whatsapp: '11999990000' });
+    await repositories.loyalty.addEntries([{ clientId: client.id, type: 'earned', points: 100, date: '2024-03-01' }]);
+    const saved = await repositories.transactions.create(transaction({ clientId: client.id, loyaltyPointsRedeemed: 100 }));
+    await repositories.loyalty.addEntries(buildTransactionLoyaltyEntries(saved, pointsRules));
+    expect(getLoyaltyBalance(await repositories.loyalty.listEntries(), client.id)).toBe(63);
+
+    const updated = await repositories.transactions.update(saved.id, { items: [transaction().items![0]] });
+    await repositories.loyalty.removeEarnedEntries(saved.id);
+    await repositories.loyalty.addEntries(
+      buildTransactionLoyaltyEntries({ ...saved, ...updated }, pointsRules).filter(entry => entry.type === 'earned')
+    );
+
+    // Só o corte (R$ 40,00 com 10% de desconto geral = R$ 36,00)
+    const entries = await repositories.loyalty.listEntries();
+    expect(entries.filter(entry => entry.transactionId === saved.id).map(entry => [entry.type, entry.points]).sort()).toEqual([
+      ['earned', 36],
+      ['redeemed', -100],
+    ]);
+    expect(getLoyaltyBalance(entries, client.id)).toBe(36);
+  });
+
+  it('ao mesclar clientes os pontos passam para o cliente mantido', async () => {
+    const repositories = createRepositories(createMemoryDataSource());
+    const survivor = await repositories.clients.create({ fullName: 'Carlos Souza', whatsapp: '11999990000' });
+    const duplicate = await repositories.clients.create({ fullName: 'Carlos Sousa', whatsapp: '11988880000' });
+    await repositories.loyalty.addEntries([
+      { clientId: survivor.id, type: 'earned', points: 40, date: '2024-03-01' },
+      { clientId: duplicate.id, type: 'earned', points: 70, date: '2024-03-02' },
+    ]);
+
+    await repositories.clients.merge(survivor.id, duplicate.id);
+
+    const entries = await repositories.loyalty.listEntries();
+    expect(getLoyaltyBalance(entries, survivor.id)).toBe(110);
+    expect(getLoyaltyBalance(entries, duplicate.id)).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { LoyaltyEntry, LoyaltyEntryType, LoyaltyMode, SystemSettings, Transaction } from '../types.ts';
+import { getItemTotal } from './transactionItemsService.ts';
+
+export type NewLoyaltyEntry = Omit<LoyaltyEntry, 'id' | 'created_at'>;
+
+export type LoyaltyRules = Pick<
+  SystemSettings,
+  'loyaltyEnabled' | 'loyaltyMode' | 'loyaltyPointsPerReal' | 'loyaltyServiceIds' | 'loyaltyRewardPoints' | 'loyaltyRewardDiscount'
+>;
+
+export const LOYALTY_MODE_LABELS: Record<LoyaltyMode, string> = {
+  points: 'Pontos por valor gasto',
+  stamps: 'Selos por serviço',
+};
+
+export const LOYALTY_ENTRY_TYPE_LABELS: Record<LoyaltyEntryType, string> = {
+  earned: 'Ganhos',
+  redeemed: 'Trocados',
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// "1 ponto" / "10 selos"
+export const formatLoyaltyPoints = (points: number, mode: LoyaltyMode): string => {
+  const unit = mode === 'stamps' ? 'selo' : 'ponto';
+  return `${points} ${Math.abs(points) === 1 ? unit : `${unit}s`}`;
+};
+
+// Programa só vale com recompensa configurada
+export const isLoyaltyActive = (rules: LoyaltyRules): boolean =>
+  rules.loyaltyEnabled && rules.loyaltyRewardPoints > 0 && rules.loyaltyRewardDiscount > 0;
+
+export const getLoyaltyBalance = (entries: LoyaltyEntry[], clientId: number): number =>
+  entries.filter(entry => entry.clientId === clientId).reduce((sum, entry) => sum + entry.points, 0);
+
+// Recompensas que o saldo permite trocar
+export const getAvailableRewards = (balance: number, rules: LoyaltyRules): number =>
+  rules.loyaltyRewardPoints > 0 ? Math.max(0, Math.floor(balance / rules.loyaltyRewardPoints)) : 0;
+
+export const getRewardsDiscount = (rewards: number, rules: LoyaltyRules): number =>
+  roundCurrency(rewards * rules.loyaltyRewardDiscount);
+
+// Pontos ganhos no atendimento. Só serviços contam:
+// - pontos: sobre o valor pago nos serviços (descontos da transação rateados entre os itens);
+// - selos: um por serviço participante, menos os que foram trocados por recompensa no mesmo atendimento.
+export const getEarnedPoints = (transaction: Omit<Transaction, 'id' | 'created_at'>, rules: LoyaltyRules): number => {
+  const serviceItems = (transaction.items || []).filter(item => item.itemType === 'service');
+  if (serviceItems.length === 0) return 0;
+
+  if (rules.loyaltyMode === 'stamps') {
+    const stamps = serviceItems
+      .filter(item => rules.loyaltyServiceIds.length === 0 || (item.serviceId !== undefined && rules.loyaltyServiceIds.includes(item.serviceId)))
+      .reduce((sum, item) => sum + item.quantity, 0);
+    const redeemedRewards = rules.loyaltyRewardPoints > 0
+      ? Math.floor((transaction.loyaltyPointsRedeemed || 0) / rules.loyaltyRewardPoints)
+      : 0;
+    return Math.max(0, stamps - redeemedRewards);
+  }
+
+  const servicesTotal = serviceItems.reduce((sum, item) => sum + getItemTotal(item), 0);
+  const paidShare = transaction.subtotal > 0 ? transaction.value / transaction.subtotal : 0;
+  return Math.max(0, Math.floor(roundCurrency(servicesTotal * paidShare) * rules.loyaltyPointsPerReal));
+};
+
+// Lançamentos de fidelidade de um atendimento gravado: troca de recompensa e pontos ganhos
+export const buildTransactionLoyaltyEntries = (transaction: Transaction, rules: LoyaltyRules): NewLoyaltyEntry[] => {
+  if (!transaction.clientId) return [];
+
+  const entries: NewLoyaltyEntry[] = [];
+  const redeemed = transaction.loyaltyPointsRedeemed || 0;
+  if (redeemed > 0) {
+    entries.push({
+      clientId: transaction.clientId,
+      type: 'redeemed',
+      points: -redeemed,
+      transactionId: transaction.id,
+      description: `Recompensa: ${transaction.service}`,
+      date: transaction.date,
+    });
+  }
+
+  const earned = isLoyaltyActive(rules) ? getEarnedPoints(transaction, rules) : 0;
+  if (earned > 0) {
+    entries.push({
+      clientId: transaction.clientId,
+      type: 'earned',
+      points: earned,
+      transactionId: transaction.id,
+      description: transaction.service,
+      date: transaction.date,
+    });
+  }
+  return entries;
+};
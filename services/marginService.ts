@@ -0,0 +1,104 @@
+import { Product, Service, Transaction, TransactionItem, TransactionItemType } from '../types.ts';
+import { getItemTotal, getItemsSubtotal, getTransactionItems } from './transactionItemsService.ts';
+
+export const SERVICES_MARGIN_CATEGORY = 'Serviços';
+export const UNCATEGORIZED_MARGIN_CATEGORY = 'Sem categoria';
+
+export interface MarginLine {
+  transactionId: number;
+  date: string;
+  name: string;
+  itemType: TransactionItemType;
+  productId?: number;
+  category: string;
+  quantity: number;
+  revenue: number; // Valor da linha já com o desconto da transação rateado
+  cost: number;
+  margin: number;
+}
+
+export interface MarginSummary {
+  label: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number; // Margem sobre a receita (0 quando não há receita)
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Custo unitário da linha; vendas anteriores ao custo por item usam o custo atual do produto
+export const getItemUnitCost = (item: TransactionItem, products: Product[]): number => {
+  if (item.itemType !== 'product') return 0;
+  if (item.unitCost !== undefined) return item.unitCost;
+  return products.find(p => p.id === item.productId)?.costPrice ?? 0;
+};
+
+// Receita, custo e margem de cada item vendido.
+// O desconto geral é rateado proporcionalmente entre os itens (mesma regra das comissões).
+export const buildMarginLines = (
+  transactions: Transaction[],
+  services: Service[],
+  products: Product[]
+): MarginLine[] => {
+  return transactions.flatMap(transaction => {
+    const items = getTransactionItems(transaction, services, products);
+    const itemsSubtotal = getItemsSubtotal(items);
+    if (itemsSubtotal <= 0) return [];
+    const discountRatio = Math.max(transaction.value, 0) / itemsSubtotal;
+
+    return items.map(item => {
+      const product = item.itemType === 'product' ? products.find(p => p.id === item.productId) : undefined;
+      const revenue = roundCurrency(getItemTotal(item) * discountRatio);
+      const cost = roundCurrency(getItemUnitCost(item, products) * item.quantity);
+      return {
+        transactionId: transaction.id,
+        date: transaction.date,
+        name: item.name,
+        itemType: item.itemType,
+        productId: item.productId,
+        category: item.itemType === 'service'
+          ? SERVICES_MARGIN_CATEGORY
+          : product?.category || UNCATEGORIZED_MARGIN_CATEGORY,
+        quantity: item.quantity,
+        revenue,
+        cost,
+        margin: roundCurrency(revenue - cost),
+      };
+    });
+  });
+};
+
+export const summarizeMargin = (lines: MarginLine[], label: string = ''): MarginSummary => {
+  const revenue = roundCurrency(lines.reduce((sum, line) => sum + line.revenue, 0));
+  const cost = roundCurrency(lines.reduce((sum, line) => sum + line.cost, 0));
+  const margin = roundCurrency(revenue - cost);
+  return {
+    label,
+    quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+    revenue,
+    cost,
+    margin,
+    marginPercent: revenue > 0 ? (margin / revenue) * 100 : 0,
+  };
+};
+
+// Agrupa as linhas (por produto, categoria, período...) ordenando pela maior margem
+export const groupMargin = (lines: MarginLine[], getLabel: (line: MarginLine) => string): MarginSummary[] => {
+  const groups = new Map<string, MarginLine[]>();
+  lines.forEach(line => {
+    const label = getLabel(line);
+    groups.set(label, [...(groups.get(label) || []), line]);
+  });
+  return Array.from(groups.entries())
+    .map(([label, groupLines]) => summarizeMargin(groupLines, label))
+    .sort((a, b) => b.margin - a.margin);
+};
+
+// Itens vendidos abaixo do custo depois dos descontos
+export const getLossLines = (lines: MarginLine[]): MarginLine[] => {
+  return lines
+    .filter(line => line.margin < 0)
+    .sort((a, b) => a.margin - b.margin);
+};
@@ -0,0 +1,109 @@
+// Armazenamento local (IndexedDB) usado no modo offline:
+// - cache: última cópia de cada lista lida do backend (já no formato do app)
+// - queue: gravações feitas sem conexão, reenviadas quando a internet volta
+
+const DB_NAME = 'barbearia-offline';
+const DB_VERSION = 2;
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'queue';
+
+// removeTransaction: venda gravada pela metade (sem baixa de estoque ou pontos) que não pôde ser desfeita na hora
+export type PendingOperationKind = 'addTransaction' | 'addAppointment' | 'removeTransaction';
+
+export interface PendingOperation {
+  id?: number; // Chave gerada pelo IndexedDB (ordem de envio)
+  kind: PendingOperationKind;
+  payload: any; // Argumentos da gravação original
+  options?: { ignoreAppointmentId?: number }; // Opções da gravação original (ex.: agendamento sendo remarcado)
+  offlineId: string; // Identificador único gravado junto do registro para evitar duplicidade no reenvio
+  tempId: number; // ID negativo usado na tela enquanto o registro não chega ao servidor
+  createdAt: string;
+  status: 'pending' | 'conflict';
+  error?: string; // Motivo do conflito (exibido para o usuário decidir)
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // A versão 1 guardava as linhas cruas do banco; o cache antigo é descartado
+        if (event.oldVersion < 2 && db.objectStoreNames.contains(CACHE_STORE)) db.deleteObjectStore(CACHE_STORE);
+        if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE);
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Executa uma operação em um store e resolve com o resultado da requisição
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readCache = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    return await runRequest<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.error('Error reading offline cache:', error);
+    return undefined;
+  }
+};
+
+// Falhas no cache não podem impedir o uso normal com internet
+export const writeCache = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await runRequest(CACHE_STORE, 'readwrite', store => store.put(value, key));
+  } catch (error) {
+    console.error('Error writing offline cache:', error);
+  }
+};
+
+export const getPendingOperations = async (): Promise<PendingOperation[]> => {
+  const operations = await runRequest<PendingOperation[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+  return operations.sort((a, b) => (a.id || 0) - (b.id || 0));
+};
+
+export const addPendingOperation = async (operation: Omit<PendingOperation, 'id'>): Promise<PendingOperation> => {
+  const id = await runRequest<number>(QUEUE_STORE, 'readwrite', store => store.add(operation));
+  return { ...operation, id };
+};
+
+export const updatePendingOperation = async (operation: PendingOperation): Promise<void> => {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.put(operation));
+};
+
+export const removePendingOperation = async (id: number): Promise<void> => {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const generateOfflineId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+// Erros de rede (sem internet, Wi-Fi caiu no meio da requisição) viram gravações na fila;
+// os demais (validação, permissão) continuam sendo exibidos normalmente
+export const isNetworkError = (error: any): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = String(error?.message || error || '');
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { CreditSaleStatus, PaymentMethod, PaymentMethodFee, Transaction } from '../types.ts';
+import { createMemoryDataSource } from '../repositories/memoryDataSource.ts';
+import { createRepositories } from '../repositories/repositories.ts';
+import { buildInstallmentSchedule } from './creditSaleService.ts';
+import {
+  buildReceivables,
+  buildReceivablesCalendar,
+  buildTransactionReceivables,
+  summarizeReceivables,
+  summarizeReceivablesByMethod,
+} from './paymentFeesService.ts';
+
+const fees: PaymentMethodFee[] = [
+  { method: PaymentMethod.CreditCard, feePercentage: 3.19, settlementDays: 30 },
+  { method: PaymentMethod.DebitCard, feePercentage: 1.99, settlementDays: 1 },
+  { method: PaymentMethod.Pix, feePercentage: 0, settlementDays: 0 },
+];
+
+const transaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 1,
+  date: '2024-01-31',
+  clientName: 'Carlos Souza',
+  service: 'Corte, Barba',
+  paymentMethod: 'Crédito, Dinheiro',
+  subtotal: 80,
+  discount: 0,
+  value: 80,
+  payments: [
+    { method: PaymentMethod.CreditCard, amount: 55.5 },
+    { method: PaymentMethod.Cash, amount: 24.5 },
+  ],
+  ...overrides,
+});
+
+describe('buildTransactionReceivables', () => {
+  it('calcula taxa e prazo de cada pagamento; sem configuração não há taxa', () => {
+    expect(buildTransactionReceivables(transaction(), fees)).toEqual([
+      expect.objectContaining({ id: 'tx-1-0', method: PaymentMethod.CreditCard, settlementDate: '2024-03-01', gross: 55.5, fee: 1.77, net: 53.73 }),
+      expect.objectContaining({ id: 'tx-1-1', method: PaymentMethod.Cash, settlementDate: '2024-01-31', gross: 24.5, fee: 0, net: 24.5 }),
+    ]);
+  });
+
+  it('transação antiga sem pagamentos divide o valor pelo resumo', () => {
+    const legacy = transaction({ payments: undefined, paymentMethod: 'Débito, PIX', value: 45 });
+    expect(buildTransactionReceivables(legacy, fees).map(r => [r.method, r.gross, r.fee])).toEqual([
+      [PaymentMethod.DebitCard, 22.5, 0.45],
+      [PaymentMethod.Pix, 22.5, 0],
+    ]);
+  });
+});
+
+describe('buildReceivables', () => {
+  it('conta cada pagamento de parcela do fiado uma vez, com o método e a data de cada pagamento', async () => {
+    const repositories = createRepositories(createMemoryDataSource());
+    const sale = await repositories.creditSales.create({
+      clientName: 'Carlos Souza',
+      products: 'Pomada',
+      subtotal: 100,
+      discount: 0,
+      totalAmount: 100,
+      numberOfInstallments: 1,
+      firstDueDate: '2024-02-10',
+      status: CreditSaleStatus.Active,
+      totalPaid: 0,
+      remainingAmount: 100,
+      date: '2024-01-10',
+    }, buildInstallmentSchedule([100], '2024-02-10'));
+    const [installment] = await repositories.creditSales.listInstallmentsBySale(sale.id);
+    await repositories.creditSales.payInstallment(installment.id, PaymentMethod.DebitCard, '2024-02-05', 40);
+    await repositories.creditSales.payInstallment(installment.id, PaymentMethod.CreditCard, '2024-02-10');
+
+    const receivables = buildReceivables(await repositories.transactions.list(), fees);
+
+    expect(receivables.map(r => [r.method, r.saleDate, r.settlementDate, r.gross, r.fee])).toEqual(expect.arrayContaining([
+      [PaymentMethod.DebitCard, '2024-02-05', '2024-02-06', 40, 0.8],
+      [PaymentMethod.CreditCard, '2024-02-10', '2024-03-11', 60, 1.91],
+    ]));
+    expect(summarizeReceivables(receivables)).toEqual({ gross: 100, fee: 2.71, net: 97.29 });
+  });
+});
+
+describe('resumos e agenda de recebimentos', () => {
+  const receivables = buildTransactionReceivables(transaction(), fees).concat(
+    buildTransactionReceivables(transaction({ id: 2, date: '2024-02-28', payments: [{ method: PaymentMethod.CreditCard, amount: 100 }] }), fees)
+  );
+
+  it('soma bruto, taxa e líquido no total e por método', () => {
+    expect(summarizeReceivables(receivables)).toEqual({ gross: 180, fee: 4.96, net: 175.04 });
+    expect(summarizeReceivablesByMethod(receivables)).toEqual([
+      { method: PaymentMethod.CreditCard, gross: 155.5, fee: 4.96, net: 150.54 },
+      { method: PaymentMethod.Cash, gross: 24.5, fee: 0, net: 24.5 },
+    ]);
+  });
+
+  it('agenda só o que ainda vai cair na conta, por data', () => {
+    expect(buildReceivablesCalendar(receivables, '2024-03-01').map(day => [day.date, day.net, day.receivables.length])).toEqual([
+      ['2024-03-01', 53.73, 1],
+      ['2024-03-29', 96.81, 1],
+    ]);
+    expect(buildReceivablesCalendar(receivables, '2024-03-02').map(day => day.date)).toEqual(['2024-03-29']);
+  });
+});
@@ -0,0 +1,104 @@
+import { PaymentMethodFee, Transaction } from '../types.ts';
+import { addDaysToDate } from './dateService.ts';
+import { getTransactionPayments } from './transactionPaymentsService.ts';
+
+export interface Receivable {
+  id: string;
+  description: string;
+  clientName?: string;
+  method: string;
+  saleDate: string; // YYYY-MM-DD
+  settlementDate: string; // YYYY-MM-DD - Data prevista do crédito na conta
+  gross: number;
+  fee: number;
+  net: number;
+}
+
+export interface ReceivablesSummary {
+  gross: number;
+  fee: number;
+  net: number;
+}
+
+export interface ReceivablesDay extends ReceivablesSummary {
+  date: string;
+  receivables: Receivable[];
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Métodos sem configuração (Dinheiro, métodos antigos) não têm taxa e entram no mesmo dia
+export const getPaymentMethodFee = (fees: PaymentMethodFee[], method: string): PaymentMethodFee => {
+  return fees.find(f => f.method === method) || { method, feePercentage: 0, settlementDays: 0 };
+};
+
+const buildReceivable = (
+  fees: PaymentMethodFee[],
+  id: string,
+  description: string,
+  method: string,
+  amount: number,
+  saleDate: string,
+  clientName?: string
+): Receivable => {
+  const { feePercentage, settlementDays } = getPaymentMethodFee(fees, method);
+  const fee = roundCurrency(amount * feePercentage / 100);
+  return {
+    id,
+    description,
+    clientName,
+    method,
+    saleDate,
+    settlementDate: addDaysToDate(saleDate, settlementDays),
+    gross: roundCurrency(amount),
+    fee,
+    net: roundCurrency(amount - fee),
+  };
+};
+
+// Um recebível por pagamento da transação (pagamentos divididos têm taxas e prazos diferentes)
+export const buildTransactionReceivables = (transaction: Transaction, fees: PaymentMethodFee[]): Receivable[] => {
+  return getTransactionPayments(transaction)
+    .filter(payment => payment.amount > 0)
+    .map((payment, index) => buildReceivable(
+      fees,
+      `tx-${transaction.id}-${index}`,
+      transaction.service,
+      payment.method,
+      payment.amount,
+      transaction.date,
+      transaction.clientName
+    ));
+};
+
+// Recebíveis de todas as receitas. Cada pagamento de parcela do fiado já gera a sua transação
+// ("Fiado - ... - Parcela"), com o valor e o método daquele pagamento, então as parcelas não entram de novo.
+export const buildReceivables = (transactions: Transaction[], fees: PaymentMethodFee[]): Receivable[] => {
+  return transactions.flatMap(tx => buildTransactionReceivables(tx, fees));
+};
+
+export const summarizeReceivables = (receivables: Receivable[]): ReceivablesSummary => ({
+  gross: roundCurrency(receivables.reduce((sum, r) => sum + r.gross, 0)),
+  fee: roundCurrency(receivables.reduce((sum, r) => sum + r.fee, 0)),
+  net: roundCurrency(receivables.reduce((sum, r) => sum + r.net, 0)),
+});
+
+// Bruto, taxa e líquido por método de pagamento, do maior para o menor bruto
+export const summarizeReceivablesByMethod = (receivables: Receivable[]): (ReceivablesSummary & { method: string })[] => {
+  const methods = Array.from(new Set(receivables.map(r => r.method)));
+  return methods
+    .map(method => ({ method, ...summarizeReceivables(receivables.filter(r => r.method === method)) }))
+    .sort((a, b) => b.gross - a.gross);
+};
+
+// Agenda de recebimentos: valores que ainda vão cair na conta (a partir de hoje), por data
+export const buildReceivablesCalendar = (receivables: Receivable[], today: string): ReceivablesDay[] => {
+  const days = new Map<string, Receivable[]>();
+  receivables
+    .filter(r => r.settlementDate >= today && r.settlementDate > r.saleDate)
+    .forEach(r => days.set(r.settlementDate, [...(days.get(r.settlementDate) || []), r]));
+
+  return Array.from(days.entries())
+    .map(([date, dayReceivables]) => ({ date, receivables: dayReceivables, ...summarizeReceivables(dayReceivables) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
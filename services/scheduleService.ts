@@ -0,0 +1,142 @@
+import { Appointment, BusinessHours, Professional } from '../types.ts';
+
+// Converte "HH:MM" (ou "HH:MM:SS") em minutos desde a meia-noite
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Converte minutos desde a meia-noite em "HH:MM"
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// Remove os segundos de horários vindos do banco ("08:00:00" -> "08:00")
+export const normalizeTime = (time: string): string => {
+  if (time.includes(':') && time.split(':').length === 3) {
+    return time.substring(0, 5);
+  }
+  return time;
+};
+
+// Retorna a configuração de funcionamento do dia da semana da data (YYYY-MM-DD)
+export const getBusinessHoursForDate = (date: string, businessHours: BusinessHours[]): BusinessHours | undefined => {
+  const weekday = new Date(`${date}T00:00:00`).getDay();
+  return businessHours.find(bh => bh.weekday === weekday);
+};
+
+// Gera todos os horários do dia a partir do horário de funcionamento.
+// Um horário só é oferecido se couber inteiro antes do fechamento e fora do intervalo de almoço.
+export const generateTimeSlots = (date: string, businessHours: BusinessHours[], slotInterval: number): string[] => {
+  const dayHours = getBusinessHoursForDate(date, businessHours);
+  if (!dayHours || !dayHours.isOpen || slotInterval <= 0) {
+    return [];
+  }
+
+  const open = timeToMinutes(dayHours.openTime);
+  const close = timeToMinutes(dayHours.closeTime);
+  const hasBreak = !!dayHours.breakStart && !!dayHours.breakEnd;
+  const breakStart = hasBreak ? timeToMinutes(dayHours.breakStart!) : 0;
+  const breakEnd = hasBreak ? timeToMinutes(dayHours.breakEnd!) : 0;
+
+  const slots: string[] = [];
+  for (let start = open; start + slotInterval <= close; start += slotInterval) {
+    const end = start + slotInterval;
+    if (hasBreak && start < breakEnd && end > breakStart) {
+      continue;
+    }
+    slots.push(minutesToTime(start));
+  }
+  return slots;
+};
+
+// Duração ocupada por um agendamento; agendamentos sem duração ocupam um intervalo da agenda
+export const getAppointmentDuration = (appointment: Pick<Appointment, 'duration'>, slotInterval: number): number => {
+  return appointment.duration && appointment.duration > 0 ? appointment.duration : slotInterval;
+};
+
+// Horário de término (HH:MM) de um agendamento
+export const getAppointmentEndTime = (appointment: Pick<Appointment, 'time' | 'duration'>, slotInterval: number): string => {
+  return minutesToTime(timeToMinutes(normalizeTime(appointment.time)) + getAppointmentDuration(appointment, slotInterval));
+};
+
+// Retorna o primeiro agendamento do dia que se sobrepõe ao período [time, time + duration)
+export const findOverlappingAppointment = (
+  time: string,
+  duration: number,
+  dayAppointments: Appointment[],
+  slotInterval: number,
+  ignoreAppointmentId?: number
+): Appointment | undefined => {
+  const start = timeToMinutes(normalizeTime(time));
+  const end = start + duration;
+  return dayAppointments.find(apt => {
+    if (ignoreAppointmentId !== undefined && apt.id === ignoreAppointmentId) {
+      return false;
+    }
+    const aptStart = timeToMinutes(normalizeTime(apt.time));
+    const aptEnd = aptStart + getAppointmentDuration(apt, slotInterval);
+    return start < aptEnd && aptStart < end;
+  });
+};
+
+// Verifica se algum agendamento do dia ocupa o horário informado.
+// `duration` é o tempo que se quer reservar a partir do horário (por padrão, um intervalo da agenda).
+export const isSlotBooked = (
+  slot: string,
+  slotInterval: number,
+  dayAppointments: Appointment[],
+  ignoreAppointmentId?: number,
+  duration: number = slotInterval
+): boolean => {
+  return !!findOverlappingAppointment(slot, duration, dayAppointments, slotInterval, ignoreAppointmentId);
+};
+
+// Verifica se o período [time, time + duration) cabe no expediente do dia, sem invadir o almoço
+export const fitsInBusinessHours = (
+  date: string,
+  time: string,
+  duration: number,
+  businessHours: BusinessHours[]
+): boolean => {
+  const dayHours = getBusinessHoursForDate(date, businessHours);
+  if (!dayHours || !dayHours.isOpen) {
+    return false;
+  }
+  const start = timeToMinutes(normalizeTime(time));
+  const end = start + duration;
+  if (start < timeToMinutes(dayHours.openTime) || end > timeToMinutes(dayHours.closeTime)) {
+    return false;
+  }
+  if (dayHours.breakStart && dayHours.breakEnd) {
+    const breakStart = timeToMinutes(dayHours.breakStart);
+    const breakEnd = timeToMinutes(dayHours.breakEnd);
+    if (start < breakEnd && end > breakStart) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Agendamentos que ocupam a agenda de um profissional.
+// Agendamentos sem profissional (anteriores ao cadastro de barbeiros) formam uma agenda à parte.
+export const filterAppointmentsByProfessional = (appointments: Appointment[], professionalId?: number): Appointment[] => {
+  return appointments.filter(apt => (apt.professionalId ?? null) === (professionalId ?? null));
+};
+
+// Profissionais ativos com o período [time, time + duration) livre na agenda do dia
+export const getFreeProfessionals = (
+  professionals: Professional[],
+  time: string,
+  duration: number,
+  dayAppointments: Appointment[],
+  slotInterval: number,
+  ignoreAppointmentId?: number
+): Professional[] => {
+  return professionals.filter(professional =>
+    professional.active &&
+    !isSlotBooked(time, slotInterval, filterAppointmentsByProfessional(dayAppointments, professional.id), ignoreAppointmentId, duration)
+  );
+};
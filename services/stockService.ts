@@ -0,0 +1,56 @@
+import { Product, StockMovement, StockMovementType, TransactionItem } from '../types.ts';
+
+export type NewStockMovement = Omit<StockMovement, 'id' | 'created_at'>;
+
+// Estoque baixo: só vale para produtos com estoque mínimo configurado
+export const isLowStock = (product: Product): boolean => {
+  return product.minStock > 0 && product.stock <= product.minStock;
+};
+
+export const getLowStockProducts = (products: Product[]): Product[] => {
+  return products
+    .filter(isLowStock)
+    .sort((a, b) => a.stock - b.stock || a.name.localeCompare(b.name));
+};
+
+// Soma as quantidades por produto (itens sem vínculo com o cadastro não movimentam estoque)
+export const getItemsQuantityByProduct = (items: TransactionItem[]): Map<number, number> => {
+  const quantities = new Map<number, number>();
+  items.forEach(item => {
+    if (item.itemType !== 'product' || item.productId === undefined) return;
+    quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+  });
+  return quantities;
+};
+
+// Saídas de estoque de uma venda (uma por produto, com quantidade negativa)
+export const buildSaleStockMovements = (
+  items: TransactionItem[],
+  type: Extract<StockMovementType, 'sale' | 'credit_sale'>,
+  date: string,
+  reference: { transactionId?: number; creditSaleId?: number }
+): NewStockMovement[] => {
+  return Array.from(getItemsQuantityByProduct(items).entries()).map(([productId, quantity]) => ({
+    productId,
+    type,
+    quantity: -quantity,
+    date,
+    ...reference,
+  }));
+};
+
+// Produtos cuja quantidade pedida passa do estoque disponível.
+// Ao editar uma venda, as quantidades já baixadas por ela voltam a ficar disponíveis.
+export const findInsufficientStock = (
+  requested: { product: Product; quantity: number }[],
+  previousItems: TransactionItem[] = []
+): { product: Product; available: number; quantity: number }[] => {
+  const previousQuantities = getItemsQuantityByProduct(previousItems);
+  return requested
+    .map(({ product, quantity }) => ({
+      product,
+      quantity,
+      available: product.stock + (previousQuantities.get(product.id) || 0),
+    }))
+    .filter(({ available, quantity }) => quantity > available);
+};
@@ -0,0 +1,108 @@
+import { Product, Service, Transaction, TransactionItem, TransactionItemType } from '../types.ts';
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Valor da linha: quantidade x preço unitário - desconto da linha
+export const getItemTotal = (item: TransactionItem): number => {
+  return roundCurrency(item.quantity * item.unitPrice - item.discount);
+};
+
+// Soma das linhas (equivale ao subtotal da transação, antes do desconto geral)
+export const getItemsSubtotal = (items: TransactionItem[]): number => {
+  return roundCurrency(items.reduce((sum, item) => sum + getItemTotal(item), 0));
+};
+
+// Monta o resumo exibido nas listagens, no mesmo formato usado antes dos itens ("Pomada (2x), Shampoo")
+export const formatItemsDescription = (items: TransactionItem[]): string => {
+  return items
+    .map(item => item.quantity > 1 ? `${item.name} (${item.quantity}x)` : item.name)
+    .join(', ');
+};
+
+export const buildServiceItem = (service: Service, quantity: number = 1): TransactionItem => ({
+  itemType: 'service',
+  serviceId: service.id,
+  name: service.name,
+  quantity,
+  unitPrice: service.price,
+  discount: 0,
+});
+
+export const buildProductItem = (product: Product, quantity: number = 1): TransactionItem => ({
+  itemType: 'product',
+  productId: product.id,
+  name: product.name,
+  quantity,
+  unitPrice: product.price,
+  unitCost: product.costPrice,
+  discount: 0,
+});
+
+// Separa um resumo antigo ("Corte, Barba" ou "Pomada (2x), Gel") em nome e quantidade
+export const parseItemsDescription = (description: string): { name: string; quantity: number }[] => {
+  return (description || '')
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part => {
+      const match = part.match(/^(.*)\s\((\d+)x\)$/);
+      if (match) {
+        return { name: match[1].trim(), quantity: parseInt(match[2], 10) || 1 };
+      }
+      return { name: part, quantity: 1 };
+    });
+};
+
+// Pagamentos de parcelas do fiado não têm itens próprios
+export const isCreditPaymentTransaction = (transaction: Transaction): boolean => {
+  return (transaction.service || '').toLowerCase().startsWith('fiado -');
+};
+
+// Reconstrói os itens de uma transação antiga a partir do resumo.
+// Itens encontrados no cadastro usam o preço cadastrado; os demais dividem o restante do subtotal
+// (mesma regra do script supabase_transaction_items_table.sql).
+export const parseLegacyItems = (
+  description: string,
+  itemType: TransactionItemType,
+  subtotal: number,
+  catalog: { id: number; name: string; price: number }[]
+): TransactionItem[] => {
+  const parsed = parseItemsDescription(description);
+  const matched = parsed.map(({ name, quantity }) => ({
+    name,
+    quantity,
+    catalogItem: catalog.find(c => c.name.toLowerCase() === name.toLowerCase()),
+  }));
+
+  const matchedTotal = matched.reduce((sum, m) => sum + (m.catalogItem ? m.catalogItem.price * m.quantity : 0), 0);
+  const unmatchedQuantity = matched.reduce((sum, m) => sum + (m.catalogItem ? 0 : m.quantity), 0);
+  const remainderUnitPrice = unmatchedQuantity > 0
+    ? roundCurrency(Math.max(subtotal - matchedTotal, 0) / unmatchedQuantity)
+    : 0;
+
+  return matched.map(({ name, quantity, catalogItem }) => ({
+    itemType,
+    serviceId: itemType === 'service' ? catalogItem?.id : undefined,
+    productId: itemType === 'product' ? catalogItem?.id : undefined,
+    name,
+    quantity,
+    unitPrice: catalogItem ? catalogItem.price : remainderUnitPrice,
+    discount: 0,
+  }));
+};
+
+// Itens da transação; transações ainda não migradas são reconstruídas a partir do resumo
+export const getTransactionItems = (
+  transaction: Transaction,
+  services: Service[],
+  products: Product[]
+): TransactionItem[] => {
+  if (transaction.items && transaction.items.length > 0) {
+    return transaction.items;
+  }
+  if (isCreditPaymentTransaction(transaction)) {
+    return [];
+  }
+  const itemType: TransactionItemType = transaction.type === 'product' ? 'product' : 'service';
+  return parseLegacyItems(transaction.service, itemType, transaction.subtotal, itemType === 'product' ? products : services);
+};
@@ -0,0 +1,57 @@
+import { Transaction, TransactionPayment } from '../types.ts';
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Monta o resumo exibido nas listagens ("PIX, Dinheiro")
+export const formatPaymentMethods = (payments: TransactionPayment[]): string => {
+  return payments.map(payment => payment.method).join(', ');
+};
+
+// Converte os pagamentos digitados nos formulários ("12,50") em pagamentos da transação.
+// Com um único método, ele recebe o valor final inteiro.
+export const buildTransactionPayments = (
+  entries: { method: string; amount: string }[],
+  totalValue: number
+): TransactionPayment[] => {
+  if (entries.length === 1) {
+    return [{ method: entries[0].method, amount: roundCurrency(totalValue) }];
+  }
+  return entries.map(entry => ({
+    method: entry.method,
+    amount: roundCurrency(parseFloat(entry.amount.replace(',', '.')) || 0),
+  }));
+};
+
+// Divide o valor entre os métodos de um resumo antigo; o último recebe os centavos restantes.
+// Mesma regra do script supabase_transaction_payments_table.sql.
+export const splitLegacyPayments = (paymentMethod: string, value: number): TransactionPayment[] => {
+  const methods = (paymentMethod || '')
+    .split(',')
+    .map(method => method.trim())
+    .filter(method => method.length > 0);
+  if (methods.length === 0) return [];
+
+  const share = roundCurrency(value / methods.length);
+  return methods.map((method, index) => ({
+    method,
+    amount: index === methods.length - 1 ? roundCurrency(value - share * (methods.length - 1)) : share,
+  }));
+};
+
+// Pagamentos da transação; transações ainda não migradas são reconstruídas a partir do resumo
+export const getTransactionPayments = (transaction: Transaction): TransactionPayment[] => {
+  if (transaction.payments && transaction.payments.length > 0) {
+    return transaction.payments;
+  }
+  return splitLegacyPayments(transaction.paymentMethod, transaction.value);
+};
+
+// Receita por método de pagamento
+export const sumPaymentsByMethod = (transactions: Transaction[]): Record<string, number> => {
+  return transactions.reduce<Record<string, number>>((acc, transaction) => {
+    getTransactionPayments(transaction).forEach(payment => {
+      acc[payment.method] = roundCurrency((acc[payment.method] || 0) + payment.amount);
+    });
+    return acc;
+  }, {});
+};
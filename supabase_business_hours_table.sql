@@ -0,0 +1,51 @@
+-- SQL Script para criar a tabela de horário de funcionamento no Supabase
+-- Execute este script no SQL Editor do Supabase
+
+CREATE TABLE IF NOT EXISTS business_hours (
+    weekday INTEGER PRIMARY KEY CHECK (weekday BETWEEN 0 AND 6),
+    is_open BOOLEAN NOT NULL DEFAULT true,
+    open_time TEXT NOT NULL DEFAULT '08:00',
+    close_time TEXT NOT NULL DEFAULT '18:00',
+    break_start TEXT,
+    break_end TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Comentários nas colunas
+COMMENT ON TABLE business_hours IS 'Horário de funcionamento da barbearia por dia da semana';
+COMMENT ON COLUMN business_hours.weekday IS 'Dia da semana (0 = Domingo ... 6 = Sábado)';
+COMMENT ON COLUMN business_hours.is_open IS 'Se a barbearia abre neste dia';
+COMMENT ON COLUMN business_hours.open_time IS 'Horário de abertura (HH:MM)';
+COMMENT ON COLUMN business_hours.close_time IS 'Horário de fechamento (HH:MM)';
+COMMENT ON COLUMN business_hours.break_start IS 'Início do intervalo de almoço (HH:MM, opcional)';
+COMMENT ON COLUMN business_hours.break_end IS 'Fim do intervalo de almoço (HH:MM, opcional)';
+
+-- Intervalo entre os horários gerados na agenda (em minutos)
+ALTER TABLE system_settings
+ADD COLUMN IF NOT EXISTS slot_interval INTEGER DEFAULT 30;
+
+COMMENT ON COLUMN system_settings.slot_interval IS 'Intervalo entre horários da agenda (minutos)';
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE business_hours ENABLE ROW LEVEL SECURITY;
+
+-- Política para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view business hours" ON business_hours
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert business hours" ON business_hours
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update business hours" ON business_hours
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+-- Inserir horário padrão (Segunda a Sábado, 08:00 às 18:00 com almoço das 12:00 às 14:00)
+INSERT INTO business_hours (weekday, is_open, open_time, close_time, break_start, break_end) VALUES
+    (0, false, '08:00', '18:00', NULL, NULL),
+    (1, true, '08:00', '18:00', '12:00', '14:00'),
+    (2, true, '08:00', '18:00', '12:00', '14:00'),
+    (3, true, '08:00', '18:00', '12:00', '14:00'),
+    (4, true, '08:00', '18:00', '12:00', '14:00'),
+    (5, true, '08:00', '18:00', '12:00', '14:00'),
+    (6, true, '08:00', '18:00', '12:00', '14:00')
+ON CONFLICT (weekday) DO NOTHING;
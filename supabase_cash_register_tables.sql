@@ -0,0 +1,68 @@
+-- SQL Script para criar as tabelas de caixa (abertura, sangrias, suprimentos e fechamento) no Supabase
+-- Execute este script no SQL Editor do Supabase
+
+-- 1. Sessões de caixa
+CREATE TABLE IF NOT EXISTS cash_sessions (
+    id BIGSERIAL PRIMARY KEY,
+    opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    opening_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    cash_sales_amount NUMERIC(10, 2),
+    expected_amount NUMERIC(10, 2),
+    counted_amount NUMERIC(10, 2),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Apenas um caixa aberto por vez
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_sessions_single_open ON cash_sessions ((closed_at IS NULL)) WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_cash_sessions_opened_at ON cash_sessions(opened_at);
+
+COMMENT ON TABLE cash_sessions IS 'Sessões de caixa: do fundo de troco na abertura até a contagem no fechamento';
+COMMENT ON COLUMN cash_sessions.opening_amount IS 'Fundo de troco informado na abertura';
+COMMENT ON COLUMN cash_sessions.cash_sales_amount IS 'Pagamentos em dinheiro registrados durante a sessão (apurado no fechamento)';
+COMMENT ON COLUMN cash_sessions.expected_amount IS 'Dinheiro esperado no fechamento: fundo + vendas em dinheiro + suprimentos - sangrias';
+COMMENT ON COLUMN cash_sessions.counted_amount IS 'Dinheiro contado no fechamento';
+
+-- 2. Sangrias e suprimentos
+CREATE TABLE IF NOT EXISTS cash_movements (
+    id BIGSERIAL PRIMARY KEY,
+    session_id BIGINT NOT NULL REFERENCES cash_sessions(id) ON DELETE CASCADE,
+    movement_type TEXT NOT NULL CHECK (movement_type IN ('withdrawal', 'deposit')),
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_movements_session_id ON cash_movements(session_id);
+
+COMMENT ON TABLE cash_movements IS 'Sangrias (withdrawal) e suprimentos (deposit) de cada sessão de caixa';
+
+-- 3. Habilitar RLS (Row Level Security)
+ALTER TABLE cash_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_movements ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view cash sessions" ON cash_sessions
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert cash sessions" ON cash_sessions
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update cash sessions" ON cash_sessions
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete cash sessions" ON cash_sessions
+    FOR DELETE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can view cash movements" ON cash_movements
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert cash movements" ON cash_movements
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update cash movements" ON cash_movements
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete cash movements" ON cash_movements
+    FOR DELETE USING (auth.role() = 'authenticated');
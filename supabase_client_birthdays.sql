@@ -0,0 +1,23 @@
+-- SQL Script para aniversários de clientes (mensagem de parabéns e desconto no mês do aniversário)
+-- Execute este script no SQL Editor do Supabase (depois de supabase_loyalty.sql)
+-- e execute de novo supabase_merge_clients.sql em seguida (a data de nascimento passa a ser mesclada).
+
+-- 1. Data de nascimento do cliente (opcional)
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS birth_date DATE;
+
+COMMENT ON COLUMN clients.birth_date IS 'Data de nascimento do cliente (opcional)';
+
+-- 2. Mensagem de parabéns e desconto de aniversário (desativado até ser configurado)
+ALTER TABLE system_settings
+ADD COLUMN IF NOT EXISTS birthday_message_template TEXT,
+ADD COLUMN IF NOT EXISTS birthday_discount_enabled BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS birthday_discount_percentage NUMERIC(5, 2) DEFAULT 0;
+
+COMMENT ON COLUMN system_settings.birthday_message_template IS 'Mensagem de parabéns enviada pelo WhatsApp ({nome}, {desconto}); NULL = mensagem padrão do app';
+COMMENT ON COLUMN system_settings.birthday_discount_enabled IS 'Se aniversariantes do mês ganham desconto automático no caixa';
+COMMENT ON COLUMN system_settings.birthday_discount_percentage IS 'Desconto de aniversário (% sobre o subtotal, uma vez no mês do aniversário)';
+
+-- 3. Desconto de aniversário concedido em cada atendimento (já está em transactions.discount)
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS birthday_discount NUMERIC(10, 2);
+
+COMMENT ON COLUMN transactions.birthday_discount IS 'Desconto de aniversário concedido neste atendimento';
@@ -0,0 +1,18 @@
+-- SQL Script para o limite de crédito (fiado) por cliente
+-- Execute este script no SQL Editor do Supabase (depois de supabase_credit_sale_adjustments.sql)
+
+-- 1. Limite de crédito do cliente (NULL = sem limite)
+-- O app bloqueia novas vendas no fiado quando o saldo em aberto do cliente mais a nova venda
+-- passa do limite, ou quando o cliente tem parcelas atrasadas.
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS credit_limit NUMERIC(10, 2) CHECK (credit_limit IS NULL OR credit_limit >= 0);
+
+COMMENT ON COLUMN clients.credit_limit IS 'Limite de saldo em aberto no fiado (NULL = sem limite)';
+
+-- 2. Liberação do dono fica registrada no histórico da venda
+ALTER TABLE credit_sale_events DROP CONSTRAINT IF EXISTS credit_sale_events_event_type_check;
+ALTER TABLE credit_sale_events
+ADD CONSTRAINT credit_sale_events_event_type_check
+CHECK (event_type IN ('cancelled', 'renegotiated', 'written_off', 'limit_override'));
+
+COMMENT ON COLUMN credit_sale_events.event_type IS 'cancelled, renegotiated, written_off ou limit_override (venda liberada acima do limite ou com atraso)';
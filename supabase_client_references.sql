@@ -0,0 +1,93 @@
+-- SQL Script para vincular agendamentos, transações e vendas no fiado aos clientes
+-- Execute este script no SQL Editor do Supabase (depois de supabase_client_credit_limit.sql)
+-- e execute de novo supabase_pay_installment_function.sql em seguida.
+
+-- Antes, o app gravava o cliente como "Nome|WhatsApp" no campo clientname e usava o "|" para saber
+-- se o atendimento veio de um agendamento. Agora cada registro guarda o client_id, uma cópia do nome
+-- e do WhatsApp para exibição (client_whatsapp) e, nas transações, o from_appointment.
+-- O passo 3 pode ser executado de novo: registros já migrados não têm mais "|".
+
+-- 1. Colunas de referência ao cliente (criadas aqui caso a base ainda não tenha)
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS client_id INTEGER REFERENCES clients(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS client_id INTEGER REFERENCES clients(id) ON DELETE SET NULL;
+ALTER TABLE credit_sales ADD COLUMN IF NOT EXISTS client_id INTEGER REFERENCES clients(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS from_appointment BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS client_whatsapp TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS client_whatsapp TEXT;
+ALTER TABLE credit_sales ADD COLUMN IF NOT EXISTS client_whatsapp TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_client_id ON appointments(client_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_client_id ON transactions(client_id);
+CREATE INDEX IF NOT EXISTS idx_credit_sales_client_id ON credit_sales(client_id);
+
+-- 2. Comentários nas colunas
+COMMENT ON COLUMN appointments.client_whatsapp IS 'WhatsApp do cliente no momento do agendamento (cópia para exibição)';
+COMMENT ON COLUMN transactions.client_whatsapp IS 'WhatsApp do cliente no momento do atendimento (cópia para exibição)';
+COMMENT ON COLUMN credit_sales.client_whatsapp IS 'WhatsApp do cliente no momento da venda (cópia para exibição)';
+COMMENT ON COLUMN transactions.from_appointment IS 'Indica se o atendimento veio de um agendamento';
+
+-- 3. Migração dos registros antigos "Nome|WhatsApp"
+-- Atendimentos com "|" eram contados como agendados nos relatórios (vendas de produto não)
+UPDATE transactions SET from_appointment = TRUE
+WHERE clientname LIKE '%|%' AND from_appointment IS NOT TRUE AND type IS DISTINCT FROM 'product';
+
+UPDATE appointments
+SET client_whatsapp = NULLIF(TRIM(split_part(clientname, '|', 2)), ''),
+    clientname = TRIM(split_part(clientname, '|', 1))
+WHERE clientname LIKE '%|%';
+
+UPDATE transactions
+SET client_whatsapp = NULLIF(TRIM(split_part(clientname, '|', 2)), ''),
+    clientname = TRIM(split_part(clientname, '|', 1))
+WHERE clientname LIKE '%|%';
+
+-- Recebimentos do fiado repetiam o nome antigo na descrição ("Fiado - Nome|WhatsApp - Parcela 1/3")
+UPDATE transactions
+SET service = regexp_replace(service, '^(Fiado - [^|]*)\|.*?( - Parcela )', '\1\2')
+WHERE service LIKE 'Fiado - %|%';
+
+UPDATE credit_sales
+SET client_whatsapp = NULLIF(TRIM(split_part(clientname, '|', 2)), ''),
+    clientname = TRIM(split_part(clientname, '|', 1))
+WHERE clientname LIKE '%|%';
+
+-- 4. Vincular ao cadastro os registros sem client_id
+-- Primeiro pelo WhatsApp (só os dígitos); depois pelo nome, quando só um cliente tem aquele nome
+CREATE OR REPLACE FUNCTION link_client_references(p_table TEXT)
+RETURNS VOID AS $$
+BEGIN
+    EXECUTE format(
+        'UPDATE %I AS r SET client_id = c.id
+         FROM clients c
+         WHERE r.client_id IS NULL
+           AND r.client_whatsapp IS NOT NULL
+           AND regexp_replace(r.client_whatsapp, ''\D'', '''', ''g'') <> ''''
+           AND regexp_replace(r.client_whatsapp, ''\D'', '''', ''g'') = regexp_replace(c.whatsapp, ''\D'', '''', ''g'')',
+        p_table
+    );
+
+    EXECUTE format(
+        'UPDATE %I AS r SET client_id = c.id
+         FROM clients c
+         WHERE r.client_id IS NULL
+           AND LOWER(TRIM(r.clientname)) = LOWER(TRIM(c.fullname))
+           AND (SELECT COUNT(*) FROM clients d WHERE LOWER(TRIM(d.fullname)) = LOWER(TRIM(c.fullname))) = 1',
+        p_table
+    );
+
+    -- A cópia do WhatsApp segue o cadastro quando o registro antigo não tinha o número
+    EXECUTE format(
+        'UPDATE %I AS r SET client_whatsapp = c.whatsapp
+         FROM clients c
+         WHERE r.client_id = c.id AND r.client_whatsapp IS NULL',
+        p_table
+    );
+END;
+$$ language 'plpgsql';
+
+SELECT link_client_references('appointments');
+SELECT link_client_references('transactions');
+SELECT link_client_references('credit_sales');
+
+DROP FUNCTION link_client_references(TEXT);
@@ -0,0 +1,102 @@
+-- SQL Script para criar as tabelas de comissões no Supabase
+-- (regras de comissão, vales e acertos dos profissionais)
+-- Execute este script no SQL Editor do Supabase, depois de supabase_professionals_table.sql
+
+-- Regras de comissão: percentual por serviço/produto, opcionalmente por profissional
+CREATE TABLE IF NOT EXISTS commission_rules (
+    id BIGSERIAL PRIMARY KEY,
+    item_type TEXT NOT NULL CHECK (item_type IN ('service', 'product')),
+    item_id BIGINT,
+    professional_id BIGINT REFERENCES professionals(id) ON DELETE CASCADE,
+    percentage NUMERIC(5, 2) NOT NULL CHECK (percentage >= 0 AND percentage <= 100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Uma única regra por combinação tipo + item + profissional (NULL = todos)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commission_rules_unique
+    ON commission_rules(item_type, COALESCE(item_id, 0), COALESCE(professional_id, 0));
+
+COMMENT ON TABLE commission_rules IS 'Percentual de comissão dos profissionais por serviço ou produto';
+COMMENT ON COLUMN commission_rules.item_type IS 'service ou product';
+COMMENT ON COLUMN commission_rules.item_id IS 'ID do serviço/produto (NULL = regra geral do tipo)';
+COMMENT ON COLUMN commission_rules.professional_id IS 'ID do profissional (NULL = vale para todos)';
+COMMENT ON COLUMN commission_rules.percentage IS 'Percentual de comissão (0 a 100)';
+
+-- Vales (adiantamentos) entregues aos profissionais
+CREATE TABLE IF NOT EXISTS professional_advances (
+    id BIGSERIAL PRIMARY KEY,
+    professional_id BIGINT NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    date DATE NOT NULL,
+    description TEXT,
+    expense_id BIGINT REFERENCES expenses(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_professional_advances_professional_date ON professional_advances(professional_id, date);
+
+COMMENT ON TABLE professional_advances IS 'Vales entregues aos profissionais, descontados no acerto de comissão';
+COMMENT ON COLUMN professional_advances.expense_id IS 'Despesa lançada automaticamente para o vale';
+
+-- Acertos (pagamentos de comissão) por período
+CREATE TABLE IF NOT EXISTS professional_payouts (
+    id BIGSERIAL PRIMARY KEY,
+    professional_id BIGINT NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    gross_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    commission_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    advances_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    net_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    paid_date DATE NOT NULL,
+    expense_id BIGINT REFERENCES expenses(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (professional_id, period_start, period_end)
+);
+
+COMMENT ON TABLE professional_payouts IS 'Acertos de comissão pagos aos profissionais';
+COMMENT ON COLUMN professional_payouts.gross_amount IS 'Total faturado pelo profissional no período';
+COMMENT ON COLUMN professional_payouts.advances_amount IS 'Vales descontados no acerto';
+COMMENT ON COLUMN professional_payouts.net_amount IS 'Valor pago (comissão - vales)';
+COMMENT ON COLUMN professional_payouts.expense_id IS 'Despesa lançada automaticamente para o acerto';
+
+-- Categoria usada nas despesas de vales e acertos
+INSERT INTO expense_categories (name, color) VALUES
+    ('Comissões', '#14b8a6')
+ON CONFLICT (name) DO NOTHING;
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE commission_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE professional_advances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE professional_payouts ENABLE ROW LEVEL SECURITY;
+
+-- Política para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view commission rules" ON commission_rules
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert commission rules" ON commission_rules
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update commission rules" ON commission_rules
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete commission rules" ON commission_rules
+    FOR DELETE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can view professional advances" ON professional_advances
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert professional advances" ON professional_advances
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete professional advances" ON professional_advances
+    FOR DELETE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can view professional payouts" ON professional_payouts
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert professional payouts" ON professional_payouts
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete professional payouts" ON professional_payouts
+    FOR DELETE USING (auth.role() = 'authenticated');
@@ -0,0 +1,194 @@
+-- SQL Script para cancelar, renegociar e perdoar vendas no fiado
+-- Execute este script no SQL Editor do Supabase (depois de supabase_pay_installment_function.sql)
+
+-- Status novos:
+--   credit_sales.status: 'Cancelado' (venda desfeita) e 'Perdoado' (saldo baixado sem pagamento)
+--   installments.status: 'Cancelada' (parcela em aberto encerrada por cancelamento, renegociação ou perdão)
+-- A mesma regra existe no backend em memória (repositories/memoryDataSource.ts).
+
+-- 1. Histórico de ajustes de cada venda
+CREATE TABLE IF NOT EXISTS credit_sale_events (
+    id SERIAL PRIMARY KEY,
+    credit_sale_id INTEGER NOT NULL REFERENCES credit_sales(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('cancelled', 'renegotiated', 'written_off')),
+    amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    reason TEXT,
+    details TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_sale_events_credit_sale_id ON credit_sale_events(credit_sale_id);
+
+COMMENT ON TABLE credit_sale_events IS 'Histórico de cancelamentos, renegociações e perdões das vendas no fiado';
+COMMENT ON COLUMN credit_sale_events.amount IS 'Saldo em aberto afetado pelo ajuste';
+COMMENT ON COLUMN credit_sale_events.details IS 'Resumo do ajuste (ex: novo parcelamento, produtos devolvidos)';
+
+ALTER TABLE credit_sale_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view credit sale events" ON credit_sale_events
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert credit sale events" ON credit_sale_events
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update credit sale events" ON credit_sale_events
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete credit sale events" ON credit_sale_events
+    FOR DELETE USING (auth.role() = 'authenticated');
+
+-- Trava a venda e confere se ainda está em aberto
+CREATE OR REPLACE FUNCTION lock_open_credit_sale(p_credit_sale_id INTEGER)
+RETURNS credit_sales AS $$
+DECLARE
+    v_sale credit_sales%ROWTYPE;
+BEGIN
+    SELECT * INTO v_sale FROM credit_sales WHERE id = p_credit_sale_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Venda não encontrada.';
+    END IF;
+    IF v_sale.status NOT IN ('Em Aberto', 'Atrasado') THEN
+        RAISE EXCEPTION 'Esta venda não está em aberto (status: %).', v_sale.status;
+    END IF;
+    RETURN v_sale;
+END;
+$$ language 'plpgsql';
+
+-- 2. Cancelamento: encerra as parcelas em aberto, zera o saldo e (opcional) devolve os produtos ao estoque.
+-- Valores já pagos não são estornados.
+CREATE OR REPLACE FUNCTION cancel_credit_sale(
+    p_credit_sale_id INTEGER,
+    p_reason TEXT,
+    p_return_products BOOLEAN DEFAULT TRUE
+)
+RETURNS credit_sales AS $$
+DECLARE
+    v_sale credit_sales%ROWTYPE;
+    v_returned INTEGER := 0;
+BEGIN
+    v_sale := lock_open_credit_sale(p_credit_sale_id);
+
+    UPDATE installments SET status = 'Cancelada'
+    WHERE creditsaleid = p_credit_sale_id AND status NOT IN ('Paga', 'Cancelada');
+
+    -- Devolução: entrada igual ao saldo das saídas desta venda (o histórico de movimentações é mantido)
+    IF p_return_products THEN
+        INSERT INTO stock_movements (product_id, movement_type, quantity, credit_sale_id, reason, date)
+        SELECT product_id, 'credit_sale', -SUM(quantity), p_credit_sale_id, 'Devolução - fiado cancelado', CURRENT_DATE
+        FROM stock_movements
+        WHERE credit_sale_id = p_credit_sale_id
+        GROUP BY product_id
+        HAVING SUM(quantity) < 0;
+        GET DIAGNOSTICS v_returned = ROW_COUNT;
+    END IF;
+
+    INSERT INTO credit_sale_events (credit_sale_id, event_type, amount, reason, details)
+    VALUES (
+        p_credit_sale_id,
+        'cancelled',
+        v_sale.remainingamount,
+        p_reason,
+        CASE WHEN v_returned > 0 THEN 'Produtos devolvidos ao estoque' ELSE NULL END
+    );
+
+    UPDATE credit_sales SET status = 'Cancelado', remainingamount = 0
+    WHERE id = p_credit_sale_id
+    RETURNING * INTO v_sale;
+
+    RETURN v_sale;
+END;
+$$ language 'plpgsql';
+
+-- 3. Renegociação: troca as parcelas em aberto por um novo parcelamento do saldo.
+-- p_installments: [{"amount": 50.00, "duedate": "2025-01-10"}, ...] (a soma precisa ser igual ao saldo)
+CREATE OR REPLACE FUNCTION renegotiate_credit_sale(
+    p_credit_sale_id INTEGER,
+    p_installments JSONB,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS credit_sales AS $$
+DECLARE
+    v_sale credit_sales%ROWTYPE;
+    v_next_number INTEGER;
+    v_count INTEGER;
+    v_total NUMERIC(10, 2);
+    v_first_due DATE;
+BEGIN
+    v_sale := lock_open_credit_sale(p_credit_sale_id);
+
+    v_count := jsonb_array_length(p_installments);
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'Informe ao menos uma parcela.';
+    END IF;
+
+    SELECT SUM((item->>'amount')::NUMERIC), MIN((item->>'duedate')::DATE)
+    INTO v_total, v_first_due
+    FROM jsonb_array_elements(p_installments) AS item;
+
+    IF v_total <> v_sale.remainingamount THEN
+        RAISE EXCEPTION 'O novo parcelamento (R$ %) precisa somar o saldo da venda (R$ %).',
+            replace(v_total::TEXT, '.', ','), replace(v_sale.remainingamount::TEXT, '.', ',');
+    END IF;
+
+    UPDATE installments SET status = 'Cancelada'
+    WHERE creditsaleid = p_credit_sale_id AND status NOT IN ('Paga', 'Cancelada');
+
+    -- As novas parcelas continuam a numeração da venda
+    SELECT COALESCE(MAX(installmentnumber), 0) INTO v_next_number FROM installments WHERE creditsaleid = p_credit_sale_id;
+
+    INSERT INTO installments (creditsaleid, installmentnumber, amount, duedate, status)
+    SELECT
+        p_credit_sale_id,
+        v_next_number + item.ordinality,
+        (item.value->>'amount')::NUMERIC,
+        (item.value->>'duedate')::DATE,
+        CASE WHEN (item.value->>'duedate')::DATE < CURRENT_DATE THEN 'Atrasada' ELSE 'Pendente' END
+    FROM jsonb_array_elements(p_installments) WITH ORDINALITY AS item(value, ordinality);
+
+    INSERT INTO credit_sale_events (credit_sale_id, event_type, amount, reason, details)
+    VALUES (
+        p_credit_sale_id,
+        'renegotiated',
+        v_sale.remainingamount,
+        p_reason,
+        format('Saldo renegociado em %sx a partir de %s', v_count, to_char(v_first_due, 'DD/MM/YYYY'))
+    );
+
+    UPDATE credit_sales
+    SET numberofinstallments = v_next_number + v_count,
+        status = CASE WHEN v_first_due < CURRENT_DATE THEN 'Atrasado' ELSE 'Em Aberto' END
+    WHERE id = p_credit_sale_id
+    RETURNING * INTO v_sale;
+
+    RETURN v_sale;
+END;
+$$ language 'plpgsql';
+
+-- 4. Perdão: baixa o saldo restante sem pagamento (os produtos não voltam ao estoque)
+CREATE OR REPLACE FUNCTION write_off_credit_sale(
+    p_credit_sale_id INTEGER,
+    p_reason TEXT
+)
+RETURNS credit_sales AS $$
+DECLARE
+    v_sale credit_sales%ROWTYPE;
+BEGIN
+    v_sale := lock_open_credit_sale(p_credit_sale_id);
+
+    UPDATE installments SET status = 'Cancelada'
+    WHERE creditsaleid = p_credit_sale_id AND status NOT IN ('Paga', 'Cancelada');
+
+    INSERT INTO credit_sale_events (credit_sale_id, event_type, amount, reason)
+    VALUES (p_credit_sale_id, 'written_off', v_sale.remainingamount, p_reason);
+
+    UPDATE credit_sales SET status = 'Perdoado', remainingamount = 0
+    WHERE id = p_credit_sale_id
+    RETURNING * INTO v_sale;
+
+    RETURN v_sale;
+END;
+$$ language 'plpgsql';
+
+COMMENT ON FUNCTION cancel_credit_sale(INTEGER, TEXT, BOOLEAN) IS 'Cancela uma venda no fiado: encerra as parcelas em aberto, zera o saldo, devolve os produtos ao estoque e registra no histórico';
+COMMENT ON FUNCTION renegotiate_credit_sale(INTEGER, JSONB, TEXT) IS 'Troca as parcelas em aberto de uma venda no fiado por um novo parcelamento do saldo e registra no histórico';
+COMMENT ON FUNCTION write_off_credit_sale(INTEGER, TEXT) IS 'Perdoa (baixa) o saldo restante de uma venda no fiado e registra no histórico';
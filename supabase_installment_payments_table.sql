@@ -0,0 +1,34 @@
+-- SQL Script para criar a tabela de pagamentos das parcelas do fiado (pagamentos parciais) no Supabase
+-- Execute este script no SQL Editor do Supabase (depois de supabase_credit_sales_tables.sql)
+
+-- 1. Pagamentos de cada parcela: uma parcela de R$ 50,00 pode ser paga em R$ 20,00 + R$ 30,00
+CREATE TABLE IF NOT EXISTS installment_payments (
+    id SERIAL PRIMARY KEY,
+    installment_id INTEGER NOT NULL REFERENCES installments(id) ON DELETE CASCADE,
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+    paid_date DATE NOT NULL,
+    payment_method TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_installment_payments_installment_id ON installment_payments(installment_id);
+CREATE INDEX IF NOT EXISTS idx_installment_payments_paid_date ON installment_payments(paid_date);
+
+COMMENT ON TABLE installment_payments IS 'Pagamentos (parciais ou total) registrados em cada parcela do fiado';
+COMMENT ON COLUMN installments.status IS 'Pendente, Parcialmente paga, Atrasada ou Paga';
+
+-- 2. Habilitar RLS (Row Level Security)
+ALTER TABLE installment_payments ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view installment payments" ON installment_payments
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert installment payments" ON installment_payments
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update installment payments" ON installment_payments
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete installment payments" ON installment_payments
+    FOR DELETE USING (auth.role() = 'authenticated');
@@ -0,0 +1,25 @@
+-- SQL Script para multa e juros de mora nas parcelas do fiado
+-- Execute este script no SQL Editor do Supabase (depois de supabase_installment_payments_table.sql)
+-- Depois execute novamente supabase_pay_installment_function.sql
+
+-- 1. Regras de cobrança (0 = não cobrar)
+ALTER TABLE system_settings
+ADD COLUMN IF NOT EXISTS late_fee_percentage NUMERIC(5, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS daily_interest_percentage NUMERIC(6, 3) DEFAULT 0;
+
+COMMENT ON COLUMN system_settings.late_fee_percentage IS 'Multa por atraso do fiado (% sobre o valor pago em atraso, cobrada uma vez)';
+COMMENT ON COLUMN system_settings.daily_interest_percentage IS 'Juros de mora do fiado (% ao dia de atraso)';
+
+-- 2. Multa e juros cobrados em cada pagamento (fora do valor da parcela)
+ALTER TABLE installment_payments
+ADD COLUMN IF NOT EXISTS late_fee NUMERIC(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS interest NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN installment_payments.late_fee IS 'Multa cobrada neste pagamento';
+COMMENT ON COLUMN installment_payments.interest IS 'Juros de mora cobrados neste pagamento';
+
+-- 3. Transação do recebimento gerada pelo pagamento (o comprovante acha a multa e juros por ela)
+ALTER TABLE installment_payments
+ADD COLUMN IF NOT EXISTS transaction_id BIGINT REFERENCES transactions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN installment_payments.transaction_id IS 'Transação "Fiado - ... - Parcela" lançada por este pagamento';
@@ -0,0 +1,61 @@
+-- SQL Script para o programa de fidelidade (pontos por valor gasto ou selos por serviço)
+-- Execute este script no SQL Editor do Supabase (depois de supabase_merge_clients.sql)
+-- e execute de novo supabase_merge_clients.sql em seguida (os pontos passam a ser mesclados).
+
+-- 1. Regras do programa (desativado até ser configurado)
+ALTER TABLE system_settings
+ADD COLUMN IF NOT EXISTS loyalty_enabled BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS loyalty_mode TEXT DEFAULT 'points' CHECK (loyalty_mode IN ('points', 'stamps')),
+ADD COLUMN IF NOT EXISTS loyalty_points_per_real NUMERIC(6, 2) DEFAULT 1,
+ADD COLUMN IF NOT EXISTS loyalty_service_ids BIGINT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS loyalty_reward_points INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS loyalty_reward_discount NUMERIC(10, 2) DEFAULT 0;
+
+COMMENT ON COLUMN system_settings.loyalty_enabled IS 'Se o programa de fidelidade está ativado';
+COMMENT ON COLUMN system_settings.loyalty_mode IS 'points (pontos por R$ gasto em serviços) ou stamps (selo por serviço)';
+COMMENT ON COLUMN system_settings.loyalty_points_per_real IS 'Pontos ganhos a cada R$ 1,00 em serviços (modo points)';
+COMMENT ON COLUMN system_settings.loyalty_service_ids IS 'Serviços que dão selo (modo stamps; vazio = todos)';
+COMMENT ON COLUMN system_settings.loyalty_reward_points IS 'Pontos/selos necessários para uma recompensa';
+COMMENT ON COLUMN system_settings.loyalty_reward_discount IS 'Desconto (R$) de cada recompensa';
+
+-- 2. Pontos trocados em cada atendimento (o desconto já está em transactions.discount)
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS loyalty_points_redeemed INTEGER;
+
+COMMENT ON COLUMN transactions.loyalty_points_redeemed IS 'Pontos/selos de fidelidade trocados por desconto neste atendimento';
+
+-- 3. Extrato de pontos: o saldo do cliente é a soma dos lançamentos
+-- Apagar o atendimento apaga os pontos ganhos e devolve os trocados nele
+CREATE TABLE IF NOT EXISTS loyalty_entries (
+    id BIGSERIAL PRIMARY KEY,
+    client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('earned', 'redeemed')),
+    points INTEGER NOT NULL,
+    transaction_id BIGINT REFERENCES transactions(id) ON DELETE CASCADE,
+    description TEXT,
+    date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_entries_client_id ON loyalty_entries(client_id);
+CREATE INDEX IF NOT EXISTS idx_loyalty_entries_transaction_id ON loyalty_entries(transaction_id);
+
+COMMENT ON TABLE loyalty_entries IS 'Extrato do programa de fidelidade: pontos/selos ganhos e trocados por cliente';
+COMMENT ON COLUMN loyalty_entries.entry_type IS 'earned (ganhos no atendimento) ou redeemed (trocados por desconto)';
+COMMENT ON COLUMN loyalty_entries.points IS 'Positivo = ganhos, negativo = trocados';
+COMMENT ON COLUMN loyalty_entries.transaction_id IS 'Atendimento que gerou o lançamento';
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE loyalty_entries ENABLE ROW LEVEL SECURITY;
+
+-- Política para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view loyalty entries" ON loyalty_entries
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert loyalty entries" ON loyalty_entries
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update loyalty entries" ON loyalty_entries
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete loyalty entries" ON loyalty_entries
+    FOR DELETE USING (auth.role() = 'authenticated');
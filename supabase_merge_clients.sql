@@ -0,0 +1,63 @@
+-- SQL Script para mesclar clientes duplicados
+-- Execute este script no SQL Editor do Supabase (depois de supabase_client_references.sql, supabase_loyalty.sql
+-- e supabase_client_birthdays.sql)
+
+-- O cliente mantido recebe os agendamentos, transações e vendas no fiado do duplicado (com o nome
+-- e o WhatsApp dele) e os pontos de fidelidade, completa os campos vazios com os dados do duplicado
+-- e o duplicado é apagado.
+-- Tudo dentro de uma transação do Postgres: ou tudo é gravado, ou nada é.
+-- A mesma regra existe no backend em memória (repositories/memoryDataSource.ts).
+
+CREATE OR REPLACE FUNCTION merge_clients(
+    p_survivor_id INTEGER,
+    p_duplicate_id INTEGER
+)
+RETURNS clients AS $$
+DECLARE
+    v_survivor clients%ROWTYPE;
+    v_duplicate clients%ROWTYPE;
+BEGIN
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Escolha dois clientes diferentes para mesclar.';
+    END IF;
+
+    SELECT * INTO v_survivor FROM clients WHERE id = p_survivor_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Cliente não encontrado.';
+    END IF;
+    SELECT * INTO v_duplicate FROM clients WHERE id = p_duplicate_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Cliente não encontrado.';
+    END IF;
+
+    -- Campos vazios do cliente mantido são completados com os do duplicado
+    UPDATE clients
+    SET nickname = COALESCE(NULLIF(nickname, ''), v_duplicate.nickname),
+        cpf = COALESCE(NULLIF(cpf, ''), v_duplicate.cpf),
+        observation = COALESCE(NULLIF(observation, ''), v_duplicate.observation),
+        credit_limit = COALESCE(credit_limit, v_duplicate.credit_limit),
+        birth_date = COALESCE(birth_date, v_duplicate.birth_date)
+    WHERE id = p_survivor_id
+    RETURNING * INTO v_survivor;
+
+    UPDATE appointments
+    SET client_id = p_survivor_id, clientname = v_survivor.fullname, client_whatsapp = v_survivor.whatsapp
+    WHERE client_id = p_duplicate_id;
+
+    UPDATE transactions
+    SET client_id = p_survivor_id, clientname = v_survivor.fullname, client_whatsapp = v_survivor.whatsapp
+    WHERE client_id = p_duplicate_id;
+
+    UPDATE credit_sales
+    SET client_id = p_survivor_id, clientname = v_survivor.fullname, client_whatsapp = v_survivor.whatsapp
+    WHERE client_id = p_duplicate_id;
+
+    UPDATE loyalty_entries SET client_id = p_survivor_id WHERE client_id = p_duplicate_id;
+
+    DELETE FROM clients WHERE id = p_duplicate_id;
+
+    RETURN v_survivor;
+END;
+$$ language 'plpgsql';
+
+COMMENT ON FUNCTION merge_clients(INTEGER, INTEGER) IS 'Mescla dois clientes: passa agendamentos, transações, vendas no fiado e pontos de fidelidade do duplicado para o cliente mantido e apaga o duplicado (tudo ou nada)';
@@ -0,0 +1,14 @@
+-- SQL Script para o modo offline (fila local de gravações)
+-- Execute este script no SQL Editor do Supabase
+
+-- Vendas e agendamentos feitos sem internet são gravados com um identificador único gerado no aparelho.
+-- No reenvio, o app procura esse identificador antes de gravar, evitando duplicar o registro quando a
+-- primeira tentativa chegou ao servidor mas a resposta se perdeu.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS offline_id TEXT;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS offline_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_offline_id ON transactions(offline_id) WHERE offline_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_offline_id ON appointments(offline_id) WHERE offline_id IS NOT NULL;
+
+COMMENT ON COLUMN transactions.offline_id IS 'Identificador gerado no aparelho para vendas feitas offline (evita duplicidade no reenvio)';
+COMMENT ON COLUMN appointments.offline_id IS 'Identificador gerado no aparelho para agendamentos feitos offline (evita duplicidade no reenvio)';
@@ -0,0 +1,124 @@
+-- SQL Script para o pagamento de parcelas do fiado em uma única operação
+-- Execute este script no SQL Editor do Supabase (depois de supabase_installment_payments_table.sql, supabase_late_fees.sql e supabase_client_references.sql)
+
+-- Antes, o app fazia várias requisições separadas (baixa da parcela, totais da venda, status e
+-- lançamento no relatório); uma falha no meio deixava a venda inconsistente. Esta função faz tudo
+-- dentro de uma transação do Postgres: ou tudo é gravado, ou nada é.
+-- A mesma regra existe no backend em memória (repositories/memoryDataSource.ts).
+
+-- Versões anteriores (sem valor do pagamento / sem multa e juros)
+DROP FUNCTION IF EXISTS pay_installment(INTEGER, TEXT, DATE);
+DROP FUNCTION IF EXISTS pay_installment(INTEGER, TEXT, DATE, NUMERIC);
+
+CREATE OR REPLACE FUNCTION pay_installment(
+    p_installment_id INTEGER,
+    p_payment_method TEXT,
+    p_paid_date DATE DEFAULT CURRENT_DATE,
+    p_amount NUMERIC DEFAULT NULL, -- NULL = saldo restante da parcela
+    p_late_fee NUMERIC DEFAULT 0, -- Multa calculada pelo app (regras em system_settings)
+    p_interest NUMERIC DEFAULT 0 -- Juros de mora calculados pelo app
+)
+RETURNS credit_sales AS $$
+DECLARE
+    v_installment installments%ROWTYPE;
+    v_sale credit_sales%ROWTYPE;
+    v_remaining NUMERIC(10, 2);
+    v_amount NUMERIC(10, 2);
+    v_charges NUMERIC(10, 2);
+    v_description TEXT;
+    v_status TEXT;
+    v_payment_id INTEGER;
+    v_transaction_id BIGINT;
+BEGIN
+    -- Trava a parcela para que dois pagamentos simultâneos não sejam lançados em dobro
+    SELECT * INTO v_installment FROM installments WHERE id = p_installment_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Parcela não encontrada.';
+    END IF;
+    IF v_installment.status = 'Paga' THEN
+        RAISE EXCEPTION 'Esta parcela já foi paga.';
+    END IF;
+    IF v_installment.status = 'Cancelada' THEN
+        RAISE EXCEPTION 'Esta parcela foi cancelada.';
+    END IF;
+
+    SELECT * INTO v_sale FROM credit_sales WHERE id = v_installment.creditsaleid FOR UPDATE;
+
+    v_remaining := v_installment.amount - COALESCE(
+        (SELECT SUM(amount) FROM installment_payments WHERE installment_id = p_installment_id), 0
+    );
+    v_amount := ROUND(COALESCE(p_amount, v_remaining), 2);
+    IF v_amount <= 0 THEN
+        RAISE EXCEPTION 'O valor do pagamento deve ser maior que zero.';
+    END IF;
+    IF v_amount > v_remaining THEN
+        RAISE EXCEPTION 'O valor do pagamento é maior que o saldo da parcela (R$ %).', replace(v_remaining::TEXT, '.', ',');
+    END IF;
+
+    INSERT INTO installment_payments (installment_id, amount, paid_date, payment_method, late_fee, interest)
+    VALUES (
+        p_installment_id,
+        v_amount,
+        p_paid_date,
+        p_payment_method,
+        GREATEST(0, COALESCE(p_late_fee, 0)),
+        GREATEST(0, COALESCE(p_interest, 0))
+    )
+    RETURNING id INTO v_payment_id;
+
+    IF v_amount = v_remaining THEN
+        UPDATE installments
+        SET status = 'Paga', paiddate = p_paid_date, paymentmethod = p_payment_method
+        WHERE id = p_installment_id;
+    ELSIF v_installment.status <> 'Atrasada' THEN
+        -- Parcela atrasada continua atrasada até ser quitada
+        UPDATE installments SET status = 'Parcialmente paga' WHERE id = p_installment_id;
+    END IF;
+
+    -- Quitado quando todas as parcelas estão pagas (canceladas não contam); atrasado se ainda houver parcela atrasada
+    IF NOT EXISTS (SELECT 1 FROM installments WHERE creditsaleid = v_sale.id AND status NOT IN ('Paga', 'Cancelada')) THEN
+        v_status := 'Quitado';
+    ELSIF EXISTS (SELECT 1 FROM installments WHERE creditsaleid = v_sale.id AND status = 'Atrasada') THEN
+        v_status := 'Atrasado';
+    ELSE
+        v_status := 'Em Aberto';
+    END IF;
+
+    UPDATE credit_sales
+    SET totalpaid = COALESCE(totalpaid, 0) + v_amount,
+        remainingamount = GREATEST(0, COALESCE(remainingamount, 0) - v_amount),
+        status = v_status
+    WHERE id = v_sale.id
+    RETURNING * INTO v_sale;
+
+    -- Lançamento do recebimento no relatório (classificado como produto/venda)
+    v_description := format('Fiado - %s - Parcela %s/%s', v_sale.clientname, v_installment.installmentnumber, v_sale.numberofinstallments);
+    INSERT INTO transactions (clientname, client_id, client_whatsapp, service, date, paymentmethod, subtotal, discount, value, type)
+    VALUES (
+        v_sale.clientname,
+        v_sale.client_id,
+        v_sale.client_whatsapp,
+        v_description || CASE WHEN v_amount < v_remaining THEN ' (parcial)' ELSE '' END,
+        p_paid_date,
+        p_payment_method,
+        v_amount,
+        0,
+        v_amount,
+        'product'
+    )
+    RETURNING id INTO v_transaction_id;
+
+    UPDATE installment_payments SET transaction_id = v_transaction_id WHERE id = v_payment_id;
+
+    -- Multa e juros entram como receita separada (não abatem o saldo da venda)
+    v_charges := GREATEST(0, COALESCE(p_late_fee, 0)) + GREATEST(0, COALESCE(p_interest, 0));
+    IF v_charges > 0 THEN
+        INSERT INTO transactions (clientname, client_id, client_whatsapp, service, date, paymentmethod, subtotal, discount, value, type)
+        VALUES (v_sale.clientname, v_sale.client_id, v_sale.client_whatsapp, v_description || ' - Multa e juros', p_paid_date, p_payment_method, v_charges, 0, v_charges, 'product');
+    END IF;
+
+    RETURN v_sale;
+END;
+$$ language 'plpgsql';
+
+COMMENT ON FUNCTION pay_installment(INTEGER, TEXT, DATE, NUMERIC, NUMERIC, NUMERIC) IS 'Paga uma parcela do fiado (total ou parcial): registra o pagamento, atualiza parcela, totais e status da venda e lança o recebimento (e a multa e juros, se houver) nas transações (tudo ou nada)';
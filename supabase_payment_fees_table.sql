@@ -0,0 +1,37 @@
+-- SQL Script para criar a tabela de taxas das maquininhas no Supabase
+-- Execute este script no SQL Editor do Supabase
+
+-- 1. Taxa e prazo de recebimento por forma de pagamento
+CREATE TABLE IF NOT EXISTS payment_method_fees (
+    method TEXT PRIMARY KEY, -- 'PIX', 'Crédito' ou 'Débito'
+    fee_percentage NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (fee_percentage >= 0 AND fee_percentage < 100),
+    settlement_days INTEGER NOT NULL DEFAULT 0 CHECK (settlement_days >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE payment_method_fees IS 'Taxa da adquirente e prazo de recebimento de cada forma de pagamento';
+COMMENT ON COLUMN payment_method_fees.fee_percentage IS 'Percentual descontado pela maquininha sobre o valor recebido';
+COMMENT ON COLUMN payment_method_fees.settlement_days IS 'Dias corridos até o valor cair na conta (D+N)';
+
+-- 2. Valores iniciais (sem taxa; ajuste pela tela de configurações)
+INSERT INTO payment_method_fees (method, fee_percentage, settlement_days) VALUES
+    ('PIX', 0, 0),
+    ('Débito', 0, 1),
+    ('Crédito', 0, 30)
+ON CONFLICT (method) DO NOTHING;
+
+-- 3. Habilitar RLS (Row Level Security)
+ALTER TABLE payment_method_fees ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view payment method fees" ON payment_method_fees
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert payment method fees" ON payment_method_fees
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update payment method fees" ON payment_method_fees
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete payment method fees" ON payment_method_fees
+    FOR DELETE USING (auth.role() = 'authenticated');
@@ -0,0 +1,16 @@
+-- SQL Script para o relatório de margem bruta no Supabase
+-- Execute este script no SQL Editor do Supabase (depois de supabase_stock_tables.sql)
+
+-- 1. Categoria dos produtos (usada para agrupar a margem nos relatórios)
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS category TEXT;
+
+COMMENT ON COLUMN products.category IS 'Categoria livre do produto (ex: Pomadas, Bebidas)';
+
+-- 2. Custo de cada item vendido, gravado no momento da venda
+-- Vendas antigas ficam com NULL e o sistema usa o custo atual do produto.
+-- Não preencher com products.cost_price aqui: logo após a criação do custo ele ainda é 0.
+ALTER TABLE transaction_items
+ADD COLUMN IF NOT EXISTS unit_cost NUMERIC(10, 2);
+
+COMMENT ON COLUMN transaction_items.unit_cost IS 'Custo unitário no momento da venda (somente produtos)';
@@ -0,0 +1,47 @@
+-- SQL Script para criar a tabela de profissionais (barbeiros) no Supabase
+-- e vincular agendamentos e atendimentos a um profissional
+-- Execute este script no SQL Editor do Supabase
+
+CREATE TABLE IF NOT EXISTS professionals (
+    id BIGSERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Comentários nas colunas
+COMMENT ON TABLE professionals IS 'Profissionais (barbeiros) da barbearia; cada um tem sua própria agenda';
+COMMENT ON COLUMN professionals.name IS 'Nome do profissional';
+COMMENT ON COLUMN professionals.active IS 'Profissionais inativos não aparecem na agenda nem recebem agendamentos';
+
+-- Profissional de cada agendamento
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS professional_id BIGINT REFERENCES professionals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_professional_id ON appointments(professional_id);
+
+COMMENT ON COLUMN appointments.professional_id IS 'ID do profissional que vai atender (NULL para agendamentos antigos)';
+
+-- Profissional de cada atendimento/venda
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS professional_id BIGINT REFERENCES professionals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_professional_id ON transactions(professional_id);
+
+COMMENT ON COLUMN transactions.professional_id IS 'ID do profissional que realizou o atendimento (NULL para registros antigos)';
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE professionals ENABLE ROW LEVEL SECURITY;
+
+-- Política para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view professionals" ON professionals
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert professionals" ON professionals
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update professionals" ON professionals
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete professionals" ON professionals
+    FOR DELETE USING (auth.role() = 'authenticated');
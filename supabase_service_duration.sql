@@ -0,0 +1,28 @@
+-- SQL Script para adicionar duração aos serviços e vincular agendamentos a serviços
+-- Execute este script no SQL Editor do Supabase
+
+-- 1. Duração do serviço (em minutos)
+ALTER TABLE services
+ADD COLUMN IF NOT EXISTS duration INTEGER NOT NULL DEFAULT 30;
+
+COMMENT ON COLUMN services.duration IS 'Duração do serviço em minutos';
+
+-- 2. Serviço e duração reservada em cada agendamento
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS service_id INTEGER REFERENCES services(id) ON DELETE SET NULL;
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS duration INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_service_id ON appointments(service_id);
+
+COMMENT ON COLUMN appointments.service_id IS 'ID do serviço agendado (NULL se não foi escolhido)';
+COMMENT ON COLUMN appointments.duration IS 'Duração reservada na agenda em minutos (NULL usa o intervalo da agenda)';
+
+-- 3. Vincular agendamentos antigos cujo texto do serviço bate exatamente com um serviço cadastrado
+UPDATE appointments a
+SET service_id = s.id,
+    duration = s.duration
+FROM services s
+WHERE a.service_id IS NULL
+  AND LOWER(TRIM(a.service)) = LOWER(TRIM(s.name));
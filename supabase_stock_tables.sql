@@ -0,0 +1,71 @@
+-- SQL Script para o controle de estoque dos produtos no Supabase
+-- Execute este script no SQL Editor do Supabase
+
+-- 1. Custo, estoque atual e estoque mínimo nos produtos
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS cost_price NUMERIC(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS stock_quantity INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS min_stock INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN products.cost_price IS 'Custo unitário (última entrada de estoque)';
+COMMENT ON COLUMN products.stock_quantity IS 'Saldo em estoque, mantido pelas movimentações (não editar direto)';
+COMMENT ON COLUMN products.min_stock IS 'Estoque mínimo para o alerta de estoque baixo (0 = sem alerta)';
+
+-- 2. Movimentações de estoque
+-- Vendas e vendas no fiado geram saídas ligadas ao registro de origem: ao excluir a venda,
+-- as movimentações são apagadas junto e o saldo volta.
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id BIGSERIAL PRIMARY KEY,
+    product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    movement_type TEXT NOT NULL CHECK (movement_type IN ('entry', 'adjustment', 'sale', 'credit_sale')),
+    quantity INTEGER NOT NULL CHECK (quantity <> 0),
+    unit_cost NUMERIC(10, 2),
+    transaction_id BIGINT REFERENCES transactions(id) ON DELETE CASCADE,
+    credit_sale_id INTEGER REFERENCES credit_sales(id) ON DELETE CASCADE,
+    reason TEXT,
+    date DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_transaction_id ON stock_movements(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_credit_sale_id ON stock_movements(credit_sale_id);
+
+COMMENT ON TABLE stock_movements IS 'Entradas, ajustes e saídas por venda do estoque de produtos';
+COMMENT ON COLUMN stock_movements.quantity IS 'Positivo = entrada, negativo = saída';
+COMMENT ON COLUMN stock_movements.unit_cost IS 'Custo unitário informado na entrada';
+
+-- 3. Trigger para manter o saldo do produto (inclusão soma, exclusão desfaz)
+CREATE OR REPLACE FUNCTION apply_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE products SET stock_quantity = stock_quantity + NEW.quantity WHERE id = NEW.product_id;
+    ELSIF TG_OP = 'DELETE' THEN
+        UPDATE products SET stock_quantity = stock_quantity - OLD.quantity WHERE id = OLD.product_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS apply_stock_movement_trigger ON stock_movements;
+CREATE TRIGGER apply_stock_movement_trigger
+    AFTER INSERT OR DELETE ON stock_movements
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_stock_movement();
+
+-- 4. Habilitar RLS (Row Level Security)
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Política para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view stock movements" ON stock_movements
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert stock movements" ON stock_movements
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update stock movements" ON stock_movements
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete stock movements" ON stock_movements
+    FOR DELETE USING (auth.role() = 'authenticated');
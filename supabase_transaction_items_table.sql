@@ -0,0 +1,111 @@
+-- SQL Script para criar a tabela de itens das transações no Supabase
+-- e migrar os registros antigos (Transaction.service com nomes separados por vírgula)
+-- Execute este script no SQL Editor do Supabase. O passo 3 pode ser executado de novo
+-- sozinho: transações que já têm itens não são migradas outra vez.
+
+-- 1. Itens de cada atendimento/venda
+CREATE TABLE IF NOT EXISTS transaction_items (
+    id BIGSERIAL PRIMARY KEY,
+    transaction_id BIGINT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    item_type TEXT NOT NULL CHECK (item_type IN ('service', 'product')),
+    service_id INTEGER REFERENCES services(id) ON DELETE SET NULL,
+    product_id INTEGER REFERENCES products(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    unit_price NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    discount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_items_transaction_id ON transaction_items(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_items_service_id ON transaction_items(service_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_items_product_id ON transaction_items(product_id);
+
+-- 2. Comentários nas colunas
+COMMENT ON TABLE transaction_items IS 'Itens (serviços ou produtos) de cada transação';
+COMMENT ON COLUMN transaction_items.name IS 'Nome do item no momento da venda';
+COMMENT ON COLUMN transaction_items.unit_price IS 'Preço unitário no momento da venda';
+COMMENT ON COLUMN transaction_items.discount IS 'Desconto da linha (R$), além do desconto geral da transação';
+COMMENT ON COLUMN transactions.service IS 'Resumo dos itens para exibição (gerado a partir de transaction_items)';
+
+-- 3. Migração dos registros antigos
+-- "Pomada (2x), Shampoo" vira duas linhas. Itens encontrados no cadastro (pelo nome) usam o preço
+-- cadastrado; os demais dividem o restante do subtotal. Pagamentos de fiado ("Fiado - ...") não têm itens.
+WITH pending AS (
+    SELECT t.id, t.subtotal, COALESCE(t.type, 'service') AS item_type, t.service
+    FROM transactions t
+    WHERE COALESCE(TRIM(t.service), '') <> ''
+      AND t.service NOT ILIKE 'fiado -%'
+      AND NOT EXISTS (SELECT 1 FROM transaction_items ti WHERE ti.transaction_id = t.id)
+),
+parts AS (
+    SELECT p.id AS transaction_id, p.subtotal, p.item_type, part.ord, TRIM(part.value) AS raw
+    FROM pending p,
+         unnest(string_to_array(p.service, ',')) WITH ORDINALITY AS part(value, ord)
+    WHERE TRIM(part.value) <> ''
+),
+parsed AS (
+    SELECT
+        transaction_id,
+        subtotal,
+        item_type,
+        ord,
+        CASE WHEN raw ~ '\s\(\d+x\)$' THEN TRIM(regexp_replace(raw, '\s\(\d+x\)$', '')) ELSE raw END AS name,
+        CASE WHEN raw ~ '\s\(\d+x\)$' THEN substring(raw FROM '\((\d+)x\)$')::INTEGER ELSE 1 END AS quantity
+    FROM parts
+),
+matched AS (
+    SELECT pr.*, s.id AS service_id, pd.id AS product_id, COALESCE(s.price, pd.price) AS catalog_price
+    FROM parsed pr
+    LEFT JOIN LATERAL (
+        SELECT id, price FROM services
+        WHERE pr.item_type = 'service' AND LOWER(services.name) = LOWER(pr.name)
+        ORDER BY id LIMIT 1
+    ) s ON true
+    LEFT JOIN LATERAL (
+        SELECT id, price FROM products
+        WHERE pr.item_type = 'product' AND LOWER(products.name) = LOWER(pr.name)
+        ORDER BY id LIMIT 1
+    ) pd ON true
+),
+totals AS (
+    SELECT
+        transaction_id,
+        SUM(CASE WHEN catalog_price IS NOT NULL THEN catalog_price * quantity ELSE 0 END) AS matched_total,
+        SUM(CASE WHEN catalog_price IS NULL THEN quantity ELSE 0 END) AS unmatched_quantity
+    FROM matched
+    GROUP BY transaction_id
+)
+INSERT INTO transaction_items (transaction_id, item_type, service_id, product_id, name, quantity, unit_price, discount)
+SELECT
+    m.transaction_id,
+    m.item_type,
+    m.service_id,
+    m.product_id,
+    m.name,
+    m.quantity,
+    COALESCE(
+        m.catalog_price,
+        ROUND(GREATEST(m.subtotal - t.matched_total, 0) / NULLIF(t.unmatched_quantity, 0), 2),
+        0
+    ),
+    0
+FROM matched m
+JOIN totals t ON t.transaction_id = m.transaction_id
+ORDER BY m.transaction_id, m.ord;
+
+-- 4. Habilitar RLS (Row Level Security)
+ALTER TABLE transaction_items ENABLE ROW LEVEL SECURITY;
+
+-- Política para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view transaction items" ON transaction_items
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert transaction items" ON transaction_items
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update transaction items" ON transaction_items
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete transaction items" ON transaction_items
+    FOR DELETE USING (auth.role() = 'authenticated');
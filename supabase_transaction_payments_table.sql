@@ -0,0 +1,74 @@
+-- SQL Script para criar a tabela de pagamentos das transações no Supabase
+-- e migrar os registros antigos (Transaction.paymentMethod com métodos separados por vírgula)
+-- Execute este script no SQL Editor do Supabase. O passo 3 pode ser executado de novo
+-- sozinho: transações que já têm pagamentos não são migradas outra vez.
+
+-- 1. Valor pago em cada método
+CREATE TABLE IF NOT EXISTS transaction_payments (
+    id BIGSERIAL PRIMARY KEY,
+    transaction_id BIGINT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    method TEXT NOT NULL,
+    amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_payments_transaction_id ON transaction_payments(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_payments_method ON transaction_payments(method);
+
+-- 2. Comentários nas colunas
+COMMENT ON TABLE transaction_payments IS 'Pagamentos de cada transação (um por método usado)';
+COMMENT ON COLUMN transaction_payments.method IS 'Método de pagamento (Pix, Dinheiro, Cartão de Crédito...)';
+COMMENT ON COLUMN transaction_payments.amount IS 'Valor pago neste método';
+COMMENT ON COLUMN transactions.paymentmethod IS 'Resumo dos métodos para exibição (gerado a partir de transaction_payments)';
+
+-- 3. Migração dos registros antigos
+-- Os valores de cada método não eram gravados: o valor final é dividido igualmente entre os
+-- métodos listados e o último recebe os centavos restantes.
+WITH pending AS (
+    SELECT t.id, t.value, t.paymentmethod
+    FROM transactions t
+    WHERE COALESCE(TRIM(t.paymentmethod), '') <> ''
+      AND NOT EXISTS (SELECT 1 FROM transaction_payments tp WHERE tp.transaction_id = t.id)
+),
+parts AS (
+    SELECT p.id AS transaction_id, p.value, part.ord, TRIM(part.method) AS method
+    FROM pending p,
+         unnest(string_to_array(p.paymentmethod, ',')) WITH ORDINALITY AS part(method, ord)
+    WHERE TRIM(part.method) <> ''
+),
+numbered AS (
+    SELECT
+        transaction_id,
+        value,
+        method,
+        ord,
+        ROW_NUMBER() OVER (PARTITION BY transaction_id ORDER BY ord) AS position,
+        COUNT(*) OVER (PARTITION BY transaction_id) AS methods_count
+    FROM parts
+)
+INSERT INTO transaction_payments (transaction_id, method, amount)
+SELECT
+    transaction_id,
+    method,
+    CASE
+        WHEN position = methods_count THEN value - ROUND(value / methods_count, 2) * (methods_count - 1)
+        ELSE ROUND(value / methods_count, 2)
+    END
+FROM numbered
+ORDER BY transaction_id, ord;
+
+-- 4. Habilitar RLS (Row Level Security)
+ALTER TABLE transaction_payments ENABLE ROW LEVEL SECURITY;
+
+-- Política para permitir todas as operações para usuários autenticados
+CREATE POLICY "Users can view transaction payments" ON transaction_payments
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can insert transaction payments" ON transaction_payments
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can update transaction payments" ON transaction_payments
+    FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can delete transaction payments" ON transaction_payments
+    FOR DELETE USING (auth.role() = 'authenticated');
@@ -3,6 +3,7 @@ export interface Service {
   id: number;
   name: string;
   price: number;
+  duration: number; // Duração do serviço em minutos
   created_at?: string;
 }
 
@@ -10,6 +11,33 @@ export interface Product {
   id: number;
   name: string;
   price: number;
+  costPrice: number; // Custo unitário (última entrada)
+  stock: number; // Quantidade em estoque (atualizada pelas movimentações)
+  minStock: number; // Estoque mínimo para o alerta (0 = sem alerta)
+  category?: string; // Categoria livre usada nos relatórios de margem (ex: Pomadas, Bebidas)
+  created_at?: string;
+}
+
+// --- ESTOQUE ---
+export type StockMovementType = 'entry' | 'adjustment' | 'sale' | 'credit_sale';
+
+export interface StockMovement {
+  id: number;
+  productId: number;
+  type: StockMovementType;
+  quantity: number; // Positivo = entrada, negativo = saída
+  unitCost?: number; // Custo unitário informado na entrada
+  transactionId?: number; // Venda que gerou a saída
+  creditSaleId?: number; // Venda no fiado que gerou a saída
+  reason?: string;
+  date: string;
+  created_at?: string;
+}
+
+export interface Professional {
+  id: number;
+  name: string;
+  active: boolean; // Profissionais inativos não aparecem na agenda nem podem receber agendamentos
   created_at?: string;
 }
 
@@ -27,6 +55,10 @@ export interface Appointment {
   status: AppointmentStatus;
   date: string; // YYYY-MM-DD
   clientId?: number; // ID do cliente na tabela clients (null se não foi salvo na base)
+  clientWhatsapp?: string; // WhatsApp do cliente no momento do registro (cópia para exibição)
+  serviceId?: number; // ID do serviço na tabela services (null se não foi escolhido)
+  duration?: number; // Duração reservada na agenda em minutos (usa o intervalo da agenda se vazio)
+  professionalId?: number; // ID do profissional (barbeiro) que vai atender
   created_at?: string;
 }
 
@@ -38,18 +70,44 @@ export enum PaymentMethod {
   Credit = "Fiado", // Venda no fiado
 }
 
+export type TransactionItemType = 'service' | 'product';
+
+export interface TransactionItem {
+  id?: number;
+  itemType: TransactionItemType;
+  serviceId?: number; // ID do serviço (quando itemType = 'service')
+  productId?: number; // ID do produto (quando itemType = 'product')
+  name: string; // Nome do item no momento da venda
+  quantity: number;
+  unitPrice: number; // Preço unitário no momento da venda
+  unitCost?: number; // Custo unitário no momento da venda (produtos; ausente em vendas antigas)
+  discount: number; // Desconto da linha (R$), além do desconto geral da transação
+}
+
+export interface TransactionPayment {
+  id?: number;
+  method: string; // PaymentMethod
+  amount: number; // Parte do valor final paga neste método
+}
+
 export interface Transaction {
   id: number;
   date: string; // YYYY-MM-DD
   clientName: string;
-  service: string;
-  paymentMethod: string; // Now a string to hold one or more methods
+  service: string; // Resumo para exibição ("Corte, Barba" / "Pomada (2x)"), gerado a partir dos itens
+  paymentMethod: string; // Resumo dos métodos para exibição ("PIX, Dinheiro"), gerado a partir dos pagamentos
   value: number; // Final total after discount
   subtotal: number;
   discount: number;
   type?: 'service' | 'product'; // Tipo da transação: serviço ou produto
   clientId?: number; // ID do cliente na tabela clients (null se não foi salvo na base)
+  clientWhatsapp?: string; // WhatsApp do cliente no momento do registro (cópia para exibição)
   fromAppointment?: boolean; // Indica se o atendimento veio de um agendamento
+  professionalId?: number; // ID do profissional (barbeiro) que realizou o atendimento
+  loyaltyPointsRedeemed?: number; // Pontos/selos de fidelidade trocados por desconto (já incluído em discount)
+  birthdayDiscount?: number; // Desconto de aniversário concedido (já incluído em discount)
+  items?: TransactionItem[]; // Itens da transação (vazio em pagamentos de fiado)
+  payments?: TransactionPayment[]; // Valor pago em cada método
   created_at?: string;
 }
 
@@ -67,14 +125,18 @@ export interface WeeklyRevenue {
 // --- FIADO / CREDIT SALES ---
 export enum InstallmentStatus {
   Pending = "Pendente",
+  PartiallyPaid = "Parcialmente paga",
   Paid = "Paga",
   Overdue = "Atrasada",
+  Cancelled = "Cancelada", // Encerrada sem pagamento (cancelamento, renegociação ou perdão da venda)
 }
 
 export enum CreditSaleStatus {
   Active = "Em Aberto",
   Paid = "Quitado",
   Overdue = "Atrasado",
+  Cancelled = "Cancelado",
+  WrittenOff = "Perdoado", // Saldo baixado sem pagamento
 }
 
 export interface Installment {
@@ -86,6 +148,19 @@ export interface Installment {
   status: InstallmentStatus;
   paidDate?: string; // YYYY-MM-DD - Data de pagamento (se paga)
   paymentMethod?: string; // Método de pagamento usado (se paga)
+  payments?: InstallmentPayment[]; // Pagamentos registrados (parciais ou total)
+  created_at?: string;
+}
+
+export interface InstallmentPayment {
+  id: number;
+  installmentId: number;
+  amount: number;
+  paidDate: string; // YYYY-MM-DD
+  paymentMethod: string;
+  lateFee: number; // Multa cobrada neste pagamento (fora do valor da parcela)
+  interest: number; // Juros de mora cobrados neste pagamento
+  transactionId?: number; // Transação "Fiado - ... - Parcela" lançada por este pagamento
   created_at?: string;
 }
 
@@ -103,11 +178,70 @@ export interface CreditSale {
   remainingAmount: number; // Valor restante
   date: string; // YYYY-MM-DD - Data da venda
   clientId?: number; // ID do cliente na tabela clients (null se não foi salvo na base)
+  clientWhatsapp?: string; // WhatsApp do cliente no momento do registro (cópia para exibição)
+  events?: CreditSaleEvent[]; // Histórico de cancelamento, renegociações, perdão e liberações do dono
   created_at?: string;
 }
 
+export type CreditSaleEventType = 'cancelled' | 'renegotiated' | 'written_off' | 'limit_override';
+
+export interface CreditSaleEvent {
+  id: number;
+  creditSaleId: number;
+  type: CreditSaleEventType;
+  amount: number; // Saldo em aberto afetado pelo ajuste (na liberação, o valor da venda)
+  reason?: string;
+  details?: string;
+  created_at: string;
+}
+
 export interface SystemSettings {
   creditSalesEnabled: boolean; // Se fiado está ativado
+  slotInterval: number; // Intervalo entre horários da agenda (minutos)
+  lateFeePercentage: number; // Multa por atraso do fiado (% sobre o valor pago em atraso, cobrada uma vez)
+  dailyInterestPercentage: number; // Juros de mora do fiado (% ao dia de atraso)
+  loyaltyEnabled: boolean; // Se o programa de fidelidade está ativado
+  loyaltyMode: LoyaltyMode; // Pontos por valor gasto ou selos por serviço
+  loyaltyPointsPerReal: number; // Pontos ganhos a cada R$ 1,00 em serviços (modo pontos)
+  loyaltyServiceIds: number[]; // Serviços que dão selo (modo selos; vazio = todos os serviços)
+  loyaltyRewardPoints: number; // Pontos/selos necessários para uma recompensa
+  loyaltyRewardDiscount: number; // Desconto (R$) de cada recompensa
+  birthdayMessageTemplate: string; // Mensagem de parabéns enviada pelo WhatsApp ({nome}, {desconto})
+  birthdayDiscountEnabled: boolean; // Se aniversariantes do mês ganham desconto automático no caixa
+  birthdayDiscountPercentage: number; // Desconto de aniversário (% sobre o subtotal, uma vez no mês do aniversário)
+}
+
+// --- FIDELIDADE ---
+export type LoyaltyMode = 'points' | 'stamps'; // "1 ponto por R$ 1" | "1 selo por corte"
+
+export type LoyaltyEntryType = 'earned' | 'redeemed';
+
+export interface LoyaltyEntry {
+  id: number;
+  clientId: number;
+  type: LoyaltyEntryType;
+  points: number; // Positivo = ganhos, negativo = trocados
+  transactionId?: number; // Atendimento que gerou o lançamento
+  description?: string;
+  date: string; // YYYY-MM-DD
+  created_at?: string;
+}
+
+// --- TAXAS DAS MAQUININHAS ---
+export interface PaymentMethodFee {
+  method: string; // PaymentMethod (PIX, Crédito ou Débito)
+  feePercentage: number; // Taxa da adquirente sobre o valor recebido (%)
+  settlementDays: number; // Dias corridos até o dinheiro cair na conta (D+N)
+}
+
+// --- HORÁRIO DE FUNCIONAMENTO ---
+export interface BusinessHours {
+  weekday: number; // 0 = Domingo, 1 = Segunda ... 6 = Sábado
+  isOpen: boolean; // Se a barbearia abre neste dia
+  openTime: string; // HH:MM - Abertura
+  closeTime: string; // HH:MM - Fechamento
+  breakStart?: string; // HH:MM - Início do intervalo de almoço (opcional)
+  breakEnd?: string; // HH:MM - Fim do intervalo de almoço (opcional)
 }
 
 // --- CLIENTES ---
@@ -118,6 +252,8 @@ export interface Client {
   nickname?: string; // Apelido (opcional)
   observation?: string; // Observação (opcional)
   cpf?: string; // CPF (opcional)
+  creditLimit?: number; // Limite de saldo em aberto no fiado (opcional, sem valor = sem limite)
+  birthDate?: string; // YYYY-MM-DD - Data de nascimento (opcional)
   created_at?: string;
 }
 
@@ -137,4 +273,64 @@ export interface ExpenseCategory {
   name: string; // Nome da categoria
   color: string; // Cor da categoria (hexadecimal)
   created_at?: string;
-}
\ No newline at end of file
+}
+// --- COMISSÕES ---
+export type CommissionItemType = 'service' | 'product';
+
+export interface CommissionRule {
+  id: number;
+  itemType: CommissionItemType; // Regra para serviços ou produtos
+  itemId?: number; // ID do serviço/produto (vazio = todos os itens do tipo)
+  professionalId?: number; // ID do profissional (vazio = todos os profissionais)
+  percentage: number; // Percentual de comissão (0 a 100)
+  created_at?: string;
+}
+
+export interface ProfessionalAdvance {
+  id: number;
+  professionalId: number;
+  amount: number; // Valor do vale
+  date: string; // YYYY-MM-DD - Data em que o vale foi entregue
+  description?: string;
+  expenseId?: number; // Despesa lançada automaticamente para o vale
+  created_at?: string;
+}
+
+export interface ProfessionalPayout {
+  id: number;
+  professionalId: number;
+  periodStart: string; // YYYY-MM-DD - Início do período acertado
+  periodEnd: string; // YYYY-MM-DD - Fim do período acertado
+  grossAmount: number; // Total faturado pelo profissional no período
+  commissionAmount: number; // Comissão calculada no período
+  advancesAmount: number; // Vales descontados
+  netAmount: number; // Valor pago no acerto (comissão - vales)
+  paidDate: string; // YYYY-MM-DD - Data do pagamento
+  expenseId?: number; // Despesa lançada automaticamente para o acerto
+  created_at?: string;
+}
+
+// --- CAIXA ---
+export type CashMovementType = 'withdrawal' | 'deposit'; // Sangria | Suprimento
+
+export interface CashMovement {
+  id: number;
+  sessionId: number;
+  type: CashMovementType;
+  amount: number;
+  description?: string;
+  created_at: string;
+}
+
+export interface CashSession {
+  id: number;
+  openedAt: string; // Data/hora da abertura (ISO)
+  closedAt?: string; // Ausente enquanto o caixa está aberto
+  openingAmount: number; // Fundo de troco
+  cashSalesAmount?: number; // Vendas em dinheiro apuradas no fechamento
+  expectedAmount?: number; // Dinheiro esperado no fechamento
+  countedAmount?: number; // Dinheiro contado no fechamento
+  notes?: string;
+  movements: CashMovement[];
+  created_at?: string;
+}